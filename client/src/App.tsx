@@ -7,9 +7,13 @@ import NotFound from "@/pages/not-found";
 import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
 import EmergencyLogin from "@/pages/emergency-login";
+import ResetPassword from "@/pages/reset-password";
+import JoinTeam from "@/pages/join-team";
+import InfluencerProfilePage from "@/pages/influencer-profile";
 import { ProtectedRoute } from "./lib/protected-route";
 import { AdminProtectedRoute } from "./lib/admin-protected-route";
 import { AuthProvider } from "@/hooks/use-auth";
+import { useRealtimeUpdates } from "@/hooks/use-realtime-updates";
 import { useEffect } from "react";
 
 // Influencer pages
@@ -28,6 +32,7 @@ import Submissions from "@/pages/restaurant/submissions";
 import Analytics from "@/pages/restaurant/analytics";
 import RestaurantPrivateInvitations from "@/pages/restaurant/private-invitations";
 import RestaurantSettings from "@/pages/restaurant/settings";
+import Influencers from "@/pages/restaurant/influencers";
 
 // Admin pages
 import AdminDashboard from "@/pages/admin/dashboard";
@@ -39,6 +44,9 @@ function Router() {
       <ProtectedRoute path="/" component={HomePage} />
       <Route path="/auth" component={AuthPage} />
       <Route path="/emergency-login" component={EmergencyLogin} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/join-team" component={JoinTeam} />
+      <ProtectedRoute path="/influencers/:id" component={InfluencerProfilePage} />
       
       {/* Restaurant Routes */}
       <ProtectedRoute path="/restaurant/dashboard" component={RestaurantDashboard} />
@@ -46,6 +54,7 @@ function Router() {
       <ProtectedRoute path="/restaurant/submissions" component={Submissions} />
       <ProtectedRoute path="/restaurant/analytics" component={Analytics} />
       <ProtectedRoute path="/restaurant/private-invitations" component={RestaurantPrivateInvitations} />
+      <ProtectedRoute path="/restaurant/influencers" component={Influencers} />
       <ProtectedRoute path="/restaurant/settings" component={RestaurantSettings} />
       
       {/* Influencer Routes */}
@@ -77,9 +86,7 @@ function AuthInitializer() {
     // If we're not on auth pages, log that we're on a protected page
     if (!isAuthPage && !isEmergencyPage) {
       const authToken = localStorage.getItem("authToken");
-      const testToken = localStorage.getItem("testToken");
-      console.log("Existing tokens:", authToken ? "Auth token exists" : "No auth token", 
-                                   testToken ? "Test token exists" : "No test token");
+      console.log("Existing tokens:", authToken ? "Auth token exists" : "No auth token");
     } else {
       console.log("On auth page, not auto-initializing token");
     }
@@ -88,6 +95,12 @@ function AuthInitializer() {
   return null;
 }
 
+// Subscribes the signed-in user to live dashboard and inbox updates
+function RealtimeUpdates() {
+  useRealtimeUpdates();
+  return null;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
@@ -95,6 +108,7 @@ function App() {
         <TooltipProvider>
           <Toaster />
           <AuthInitializer />
+          <RealtimeUpdates />
           <Router />
         </TooltipProvider>
       </AuthProvider>
@@ -0,0 +1,258 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CheckCircle, ChevronDown, ChevronUp, Loader2, Play, XCircle } from "lucide-react";
+import { Fragment, useState } from "react";
+import { Payout, PayoutRun } from "@shared/schema";
+import { format } from "date-fns";
+
+type PayoutRunWithPayouts = PayoutRun & { payouts: Payout[] };
+
+type PayoutRunResult = {
+  run: PayoutRun | null;
+  payouts: Payout[];
+  skipped: { influencerId: number; amount: number; reason: string }[];
+};
+
+const PAYMENT_METHOD_LABELS: Record<Payout["paymentMethod"], string> = {
+  paypal: "PayPal",
+  bankTransfer: "Bank Transfer",
+  venmo: "Venmo",
+};
+
+const PAYOUT_STATUS_STYLES: Record<Payout["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  paid: "bg-green-100 text-green-800",
+  cancelled: "bg-slate-100 text-slate-600",
+};
+
+export function PayoutRuns() {
+  const { toast } = useToast();
+  const [minimumAmount, setMinimumAmount] = useState("1");
+  const [expandedRunId, setExpandedRunId] = useState<number | null>(null);
+
+  const { data: runs, isLoading, isError } = useQuery<PayoutRun[]>({
+    queryKey: ["/api/admin/payout-runs"],
+  });
+
+  const { data: expandedRun, isLoading: isLoadingRun } = useQuery<PayoutRunWithPayouts>({
+    queryKey: [`/api/admin/payout-runs/${expandedRunId}`],
+    enabled: expandedRunId !== null,
+  });
+
+  const createRunMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/payout-runs", {
+        minimumAmount: Number(minimumAmount) || 0,
+      });
+      return (await res.json()) as PayoutRunResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/payout-runs"] });
+      const skippedNote = result.skipped.length > 0
+        ? ` ${result.skipped.length} influencer(s) skipped without a payout method.`
+        : "";
+
+      if (result.run) {
+        setExpandedRunId(result.run.id);
+        toast({
+          title: "Payout run created",
+          description: `${result.run.payoutCount} payouts totalling $${result.run.totalAmount.toFixed(2)}.${skippedNote}`,
+        });
+      } else {
+        toast({
+          title: "Nothing to pay out",
+          description: `No influencer balances are ready for payout.${skippedNote}`,
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error creating payout run",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const settleMutation = useMutation({
+    mutationFn: async ({ payoutId, status }: { payoutId: number; status: "paid" | "cancelled" }) => {
+      const res = await apiRequest("PUT", `/api/admin/payouts/${payoutId}/status`, { status });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/payout-runs/${expandedRunId}`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating payout",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-end gap-3 p-4 rounded-md border border-purple-200 bg-white">
+        <div className="flex-1">
+          <label htmlFor="payout-minimum" className="text-sm font-medium">Minimum balance ($)</label>
+          <Input
+            id="payout-minimum"
+            type="number"
+            min={0}
+            step={0.01}
+            value={minimumAmount}
+            onChange={(e) => setMinimumAmount(e.target.value)}
+            className="mt-1 md:max-w-[200px]"
+          />
+          <p className="text-xs text-muted-foreground mt-1">
+            Influencers with a smaller accrued balance roll over to the next run
+          </p>
+        </div>
+        <Button
+          className="bg-gradient-to-r from-purple-700 to-purple-500 text-white"
+          onClick={() => createRunMutation.mutate()}
+          disabled={createRunMutation.isPending}
+        >
+          {createRunMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Play className="h-4 w-4 mr-2" />
+          )}
+          Start Payout Run
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-purple-500" />
+        </div>
+      ) : isError ? (
+        <div className="text-center py-8 text-red-500">
+          Error loading payout runs. Please try again.
+        </div>
+      ) : (
+        <div className="rounded-md border border-purple-200 overflow-hidden">
+          <Table>
+            <TableHeader className="bg-purple-50">
+              <TableRow>
+                <TableHead className="w-[80px]">ID</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead>Payouts</TableHead>
+                <TableHead>Total</TableHead>
+                <TableHead className="text-right">Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {runs && runs.length > 0 ? (
+                runs.map((run) => (
+                  <Fragment key={run.id}>
+                    <TableRow className="hover:bg-purple-50">
+                      <TableCell className="font-medium">{run.id}</TableCell>
+                      <TableCell>{format(new Date(run.createdAt), "MMM d, yyyy h:mm a")}</TableCell>
+                      <TableCell>{run.payoutCount}</TableCell>
+                      <TableCell>${run.totalAmount.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)}
+                        >
+                          {expandedRunId === run.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expandedRunId === run.id && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="bg-purple-50/50">
+                          {isLoadingRun ? (
+                            <div className="flex justify-center py-4">
+                              <Loader2 className="h-6 w-6 animate-spin text-purple-500" />
+                            </div>
+                          ) : (
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>Payout</TableHead>
+                                  <TableHead>Influencer</TableHead>
+                                  <TableHead>Method</TableHead>
+                                  <TableHead>Amount</TableHead>
+                                  <TableHead>Status</TableHead>
+                                  <TableHead className="text-right">Actions</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {expandedRun?.payouts.map((payout) => (
+                                  <TableRow key={payout.id}>
+                                    <TableCell>#{payout.id}</TableCell>
+                                    <TableCell>{payout.influencerId}</TableCell>
+                                    <TableCell>
+                                      {PAYMENT_METHOD_LABELS[payout.paymentMethod]}
+                                      {payout.paymentDestination && (
+                                        <span className="text-muted-foreground"> ({payout.paymentDestination})</span>
+                                      )}
+                                    </TableCell>
+                                    <TableCell>${payout.amount.toFixed(2)}</TableCell>
+                                    <TableCell>
+                                      <Badge className={PAYOUT_STATUS_STYLES[payout.status]}>{payout.status}</Badge>
+                                    </TableCell>
+                                    <TableCell className="text-right space-x-2">
+                                      {payout.status === "pending" && (
+                                        <>
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            className="text-green-700"
+                                            disabled={settleMutation.isPending}
+                                            onClick={() => settleMutation.mutate({ payoutId: payout.id, status: "paid" })}
+                                          >
+                                            <CheckCircle className="h-4 w-4 mr-1" /> Mark Paid
+                                          </Button>
+                                          <Button
+                                            size="sm"
+                                            variant="outline"
+                                            className="text-red-600"
+                                            disabled={settleMutation.isPending}
+                                            onClick={() => settleMutation.mutate({ payoutId: payout.id, status: "cancelled" })}
+                                          >
+                                            <XCircle className="h-4 w-4 mr-1" /> Cancel
+                                          </Button>
+                                        </>
+                                      )}
+                                    </TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-gray-500">
+                    No payout runs yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -25,6 +25,7 @@ import { Loader2 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { Submission, PrivateSubmission, adminUpdateMetricSchema } from "@shared/schema";
+import { SUBMISSION_PLATFORM_LABELS } from "@shared/post-links";
 
 // Schema for the form
 const formSchema = adminUpdateMetricSchema;
@@ -103,7 +104,7 @@ export function PerformanceUpdateModal({
             Update Performance Metrics
           </DialogTitle>
           <DialogDescription>
-            Update the view and like counts for this submission. Earnings will be calculated automatically.
+            Update the view and like counts for this submission. Earnings are calculated automatically once it is approved.
           </DialogDescription>
         </DialogHeader>
 
@@ -128,14 +129,14 @@ export function PerformanceUpdateModal({
               </div>
 
               <div>
-                <h4 className="text-sm font-medium">Instagram URL</h4>
+                <h4 className="text-sm font-medium">{SUBMISSION_PLATFORM_LABELS[activeSubmission.platform]} Post</h4>
                 <a 
-                  href={activeSubmission.instagramUrl}
+                  href={activeSubmission.postUrl}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="text-sm text-purple-600 hover:text-purple-800"
                 >
-                  {activeSubmission.instagramUrl}
+                  {activeSubmission.postUrl}
                 </a>
               </div>
 
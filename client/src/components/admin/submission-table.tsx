@@ -9,12 +9,17 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { apiRequest } from "@/lib/queryClient";
-import { BarChart, ExternalLink, Edit2, BarChart3 } from "lucide-react";
+import { BarChart, ExternalLink, Edit2, BarChart3, MessagesSquare } from "lucide-react";
 import { useState } from "react";
-import { Submission, PrivateSubmission } from "@shared/schema";
+import { Submission, PrivateSubmission, PostReuse } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
 import { type User } from "@shared/schema";
 import { format } from "date-fns";
+import { PostReuseWarning } from "@/components/post-reuse-warning";
+import { PlatformIcon } from "@/components/platform-icon";
+import { SubmissionThread } from "@/components/submission-thread";
+import { PLATFORM_METRIC_LABELS } from "@shared/post-links";
+import { SUBMISSION_STATUS_LABELS } from "@shared/submission-review";
 
 type PerformanceMetric = {
   id: number;
@@ -28,7 +33,8 @@ type PerformanceMetric = {
 };
 
 type SubmissionTableProps = {
-  submissions: (Submission | PrivateSubmission)[];
+  // Admin listings include other submissions of the same post
+  submissions: ((Submission | PrivateSubmission) & { postReuse?: PostReuse[] })[];
   onUpdate: (submission: Submission | PrivateSubmission) => void;
   isPrivate: boolean;
 };
@@ -98,6 +104,7 @@ export function SubmissionTable({ submissions, onUpdate, isPrivate }: Submission
   const getStatusColor = (status: string): string => {
     switch (status) {
       case "pending": return "bg-amber-100 hover:bg-amber-200 text-amber-800";
+      case "changes_requested": return "bg-orange-100 hover:bg-orange-200 text-orange-800";
       case "approved": return "bg-green-100 hover:bg-green-200 text-green-800";
       case "rejected": return "bg-red-100 hover:bg-red-200 text-red-800";
       default: return "bg-gray-100 hover:bg-gray-200 text-gray-800";
@@ -111,7 +118,7 @@ export function SubmissionTable({ submissions, onUpdate, isPrivate }: Submission
           <TableRow>
             <TableHead className="w-[80px]">ID</TableHead>
             <TableHead>{isPrivate ? "Invitation ID" : "Campaign ID"}</TableHead>
-            <TableHead>Instagram URL</TableHead>
+            <TableHead>Post</TableHead>
             <TableHead>Status</TableHead>
             <TableHead className="text-right">Views</TableHead>
             <TableHead className="text-right">Likes</TableHead>
@@ -134,21 +141,33 @@ export function SubmissionTable({ submissions, onUpdate, isPrivate }: Submission
                   <TableCell>{getCampaignId(submission)}</TableCell>
                   <TableCell>
                     <a
-                      href={submission.instagramUrl}
+                      href={submission.postUrl}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-purple-600 hover:text-purple-800 flex items-center"
                     >
+                      <PlatformIcon platform={submission.platform} className="h-3.5 w-3.5 mr-1.5" />
                       View <ExternalLink className="h-3 w-3 ml-1" />
                     </a>
+                    {submission.postReuse && submission.postReuse.length > 0 && (
+                      <Badge variant="outline" className="mt-1 border-amber-200 bg-amber-50 text-amber-800">
+                        Reused ×{submission.postReuse.length}
+                      </Badge>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Badge className={getStatusColor(submission.status)}>
-                      {submission.status}
+                      {SUBMISSION_STATUS_LABELS[submission.status]}
                     </Badge>
                   </TableCell>
-                  <TableCell className="text-right font-medium">{submission.views.toLocaleString()}</TableCell>
-                  <TableCell className="text-right font-medium">{(submission as any).likes?.toLocaleString() || "N/A"}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {submission.views.toLocaleString()}
+                    <span className="text-xs font-normal text-muted-foreground"> {PLATFORM_METRIC_LABELS[submission.platform].views}</span>
+                  </TableCell>
+                  <TableCell className="text-right font-medium">
+                    {submission.likes.toLocaleString()}
+                    <span className="text-xs font-normal text-muted-foreground"> {PLATFORM_METRIC_LABELS[submission.platform].likes}</span>
+                  </TableCell>
                   <TableCell className="text-right font-medium">${submission.earnings.toFixed(2)}</TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end gap-2">
@@ -178,6 +197,11 @@ export function SubmissionTable({ submissions, onUpdate, isPrivate }: Submission
                 {expandedSubmissionId === submission.id && (
                   <TableRow className="bg-purple-50/50">
                     <TableCell colSpan={8} className="p-4">
+                      {submission.postReuse && submission.postReuse.length > 0 && (
+                        <div className="mb-3">
+                          <PostReuseWarning reuse={submission.postReuse} />
+                        </div>
+                      )}
                       <div className="rounded-md border border-purple-100 bg-white p-4">
                         <h4 className="font-medium text-purple-800 mb-3 flex items-center">
                           <BarChart className="h-4 w-4 mr-2" />
@@ -217,6 +241,16 @@ export function SubmissionTable({ submissions, onUpdate, isPrivate }: Submission
                           </div>
                         )}
                       </div>
+                      <div className="mt-3 rounded-md border border-purple-100 bg-white p-4">
+                        <h4 className="font-medium text-purple-800 mb-3 flex items-center">
+                          <MessagesSquare className="h-4 w-4 mr-2" />
+                          Conversation
+                        </h4>
+                        <SubmissionThread
+                          basePath={`/api/${isPrivate ? "private-submissions" : "submissions"}/${submission.id}`}
+                          canComment={true}
+                        />
+                      </div>
                     </TableCell>
                   </TableRow>
                 )}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarClock, CheckCircle, MessageSquare, XCircle } from "lucide-react";
+import { CampaignApplication } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useTeamPermissions } from "@/hooks/use-team-permissions";
+
+interface ApplicationCardProps {
+  application: CampaignApplication;
+  campaignTitle: string;
+  influencerName?: string;
+  // Campaign slots still open, when the campaign caps accepted applicants
+  remainingSpots?: number | null;
+}
+
+const STATUS_COLORS = {
+  pending: "bg-gradient-to-r from-yellow-100 to-yellow-50 text-yellow-800 border-yellow-200",
+  accepted: "bg-gradient-to-r from-green-100 to-green-50 text-green-800 border-green-200",
+  declined: "bg-gradient-to-r from-red-100 to-red-50 text-red-800 border-red-200",
+};
+
+// Restaurant view of an application to an apply-first campaign
+export function ApplicationCard({
+  application,
+  campaignTitle,
+  influencerName,
+  remainingSpots,
+}: ApplicationCardProps) {
+  const { toast } = useToast();
+  const { can } = useTeamPermissions();
+  const [isDeciding, setIsDeciding] = useState(false);
+  // Empty means the server's default posting window
+  const [postingDeadline, setPostingDeadline] = useState("");
+
+  const handleDecision = async (status: "accepted" | "declined") => {
+    try {
+      setIsDeciding(true);
+      await apiRequest("PUT", `/api/applications/${application.id}/status`, {
+        status,
+        postingDeadline: status === "accepted" && postingDeadline ? new Date(postingDeadline).toISOString() : undefined,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+      toast({
+        title: status === "accepted" ? "Applicant accepted" : "Application declined",
+        description: status === "accepted"
+          ? "They can now post and submit their content"
+          : "The influencer has been notified",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the application",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeciding(false);
+    }
+  };
+
+  const isFull = remainingSpots !== undefined && remainingSpots !== null && remainingSpots <= 0;
+
+  return (
+    <Card className="hover:shadow-md transition-all duration-200 border-slate-200 hover:border-purple-200">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold bg-gradient-to-r from-purple-800 to-purple-600 text-transparent bg-clip-text">{campaignTitle}</h3>
+          <Badge
+            variant="outline"
+            className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[application.status]}`}
+          >
+            {application.status.charAt(0).toUpperCase() + application.status.slice(1)}
+          </Badge>
+        </div>
+
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm font-medium text-slate-700">
+            By <span className="text-purple-700">{influencerName ?? `Influencer #${application.influencerId}`}</span>
+          </p>
+          <Link
+            href={`/influencers/${application.influencerId}`}
+            className="text-sm font-medium text-purple-700 hover:underline"
+          >
+            View profile
+          </Link>
+        </div>
+
+        <div className="flex items-start mb-3 rounded-md p-2 bg-slate-50 border border-slate-100">
+          <MessageSquare className="h-4 w-4 text-slate-400 mt-0.5 mr-2 flex-shrink-0" />
+          <p className="text-sm text-slate-600 whitespace-pre-line">{application.pitch}</p>
+        </div>
+
+        {application.status === "accepted" && application.postingDeadline && (
+          <div className="flex items-center mb-3 text-xs text-slate-500">
+            <CalendarClock className="h-3 w-3 mr-1" />
+            Post due by {new Date(application.postingDeadline).toLocaleString()}
+          </div>
+        )}
+
+        <div className="flex items-center justify-between text-xs text-slate-500">
+          <span>Applied {new Date(application.createdAt).toLocaleDateString()}</span>
+          {remainingSpots !== undefined && remainingSpots !== null && (
+            <span>{Math.max(remainingSpots, 0)} spot{remainingSpots === 1 ? "" : "s"} left</span>
+          )}
+        </div>
+
+        {application.status === "pending" && can("review_submissions") && (
+          <div className="mt-4 space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor={`deadline-${application.id}`} className="text-xs">
+                Posting deadline <span className="text-muted-foreground">(defaults to two weeks)</span>
+              </Label>
+              <Input
+                id={`deadline-${application.id}`}
+                type="datetime-local"
+                value={postingDeadline}
+                onChange={(e) => setPostingDeadline(e.target.value)}
+              />
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1 bg-gradient-to-r from-green-600 to-green-500 hover:from-green-700 hover:to-green-600 text-white shadow-sm"
+                onClick={() => handleDecision("accepted")}
+                disabled={isDeciding || isFull}
+              >
+                <CheckCircle className="h-4 w-4 mr-1" />
+                {isFull ? "No spots left" : "Accept"}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                className="flex-1 text-red-600 hover:text-red-700"
+                onClick={() => handleDecision("declined")}
+                disabled={isDeciding}
+              >
+                <XCircle className="h-4 w-4 mr-1" />
+                Decline
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -22,41 +22,130 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Campaign } from "@shared/schema";
+import { applicationInputSchema, ApplicationInput, Campaign, CampaignApplication, SocialPlatform } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ContentBriefView } from "@/components/content-brief";
+import { hasContentBrief } from "@shared/content-brief";
+import { describeReward } from "@shared/reward-rules";
+import { getThumbnailUrl } from "@shared/media";
+import { describePlatforms, parsePostUrl, POST_LINK_EXAMPLES } from "@shared/post-links";
 
-const submissionSchema = z.object({
-  instagramUrl: z
-    .string()
-    .url("Please enter a valid URL")
-    .includes("instagram.com", { message: "Must be an Instagram URL" }),
+// Links are checked against the platforms the campaign accepts
+const buildSubmissionSchema = (platforms: SocialPlatform[]) => z.object({
+  postUrl: z.string().trim().superRefine((url, ctx) => {
+    const result = parsePostUrl(url, platforms);
+    if (!result.ok) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.message });
+    }
+  }),
+  caption: z.string().max(2200, "Caption must be at most 2200 characters").optional(),
   notes: z.string().optional(),
   termsAgreed: z.boolean().refine((val) => val === true, {
     message: "You must agree to the terms",
   }),
 });
 
-type FormValues = z.infer<typeof submissionSchema>;
+type FormValues = z.infer<ReturnType<typeof buildSubmissionSchema>>;
 
 interface CampaignApplyModalProps {
   campaign: Campaign;
+  // The influencer's application, for apply-first campaigns
+  application?: CampaignApplication;
   isOpen: boolean;
   onClose: () => void;
 }
 
+// First step of an apply-first campaign: pitch the restaurant before posting
+function PitchForm({ campaign, onClose }: { campaign: Campaign; onClose: () => void }) {
+  const { toast } = useToast();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<ApplicationInput>({
+    resolver: zodResolver(applicationInputSchema),
+    defaultValues: { pitch: "" },
+  });
+
+  const onSubmit = async (data: ApplicationInput) => {
+    try {
+      setIsSubmitting(true);
+      await apiRequest("POST", `/api/campaigns/${campaign.id}/applications`, data);
+
+      toast({
+        title: "Application sent",
+        description: "We'll let you know when the restaurant responds",
+      });
+
+      queryClient.invalidateQueries({ queryKey: ["/api/applications"] });
+      form.reset();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to send application: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="pitch"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Your Pitch</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="What would you post, and why is your audience a good fit?"
+                  rows={5}
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>
+                This campaign reviews applicants first. Post your content only once you're accepted.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <DialogFooter className="pt-4">
+          <Button type="button" variant="outline" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            className="bg-purple-700 hover:bg-purple-800 text-white"
+          >
+            {isSubmitting ? "Sending..." : "Send Application"}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+}
+
 export function CampaignApplyModal({
   campaign,
+  application,
   isOpen,
   onClose,
 }: CampaignApplyModalProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const needsApplication = campaign.requiresApplication && application?.status !== "accepted";
 
   const form = useForm<FormValues>({
-    resolver: zodResolver(submissionSchema),
+    resolver: zodResolver(buildSubmissionSchema(campaign.platforms)),
     defaultValues: {
-      instagramUrl: "",
+      postUrl: "",
+      caption: "",
       notes: "",
       termsAgreed: false,
     },
@@ -81,7 +170,7 @@ export function CampaignApplyModal({
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to submit application",
+        description: `Failed to submit application: ${error instanceof Error ? error.message : "Unknown error"}`,
         variant: "destructive",
       });
     } finally {
@@ -93,14 +182,14 @@ export function CampaignApplyModal({
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
-          <DialogTitle>Apply to Campaign</DialogTitle>
+          <DialogTitle>{campaign.requiresApplication && !needsApplication ? "Submit Your Post" : "Apply to Campaign"}</DialogTitle>
         </DialogHeader>
 
         <div className="flex items-start mb-4">
           <div className="w-16 h-16 rounded-md bg-muted overflow-hidden flex-shrink-0 mr-3">
             {campaign.imageUrl ? (
               <img
-                src={campaign.imageUrl}
+                src={getThumbnailUrl(campaign.imageUrl)}
                 alt={campaign.title}
                 className="w-full h-full object-cover"
               />
@@ -114,91 +203,130 @@ export function CampaignApplyModal({
             <h3 className="font-semibold text-foreground">{campaign.title}</h3>
             <p className="text-sm text-muted-foreground truncate">{campaign.description}</p>
             <p className="text-xs text-primary mt-1">
-              ${campaign.rewardAmount} per {campaign.rewardViews} views
+              {describeReward(campaign).join(" · ")}
             </p>
           </div>
         </div>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="instagramUrl"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Instagram Reel Link</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="https://www.instagram.com/reel/..."
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormDescription>
-                    Paste the link to your Instagram Reel here
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="notes"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Notes (Optional)</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      placeholder="Any additional information about your submission"
-                      rows={3}
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
+        {hasContentBrief(campaign.brief) && (
+          <div className="mb-4">
+            <ContentBriefView brief={campaign.brief} />
+          </div>
+        )}
+
+        {needsApplication ? (
+          <PitchForm campaign={campaign} onClose={onClose} />
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {application?.postingDeadline && (
+                <p className="rounded-md bg-purple-50 p-3 text-sm text-purple-800">
+                  You're accepted! Submit your post by {new Date(application.postingDeadline).toLocaleString()}.
+                </p>
               )}
-            />
-
-            <FormField
-              control={form.control}
-              name="termsAgreed"
-              render={({ field }) => (
-                <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
-                  <FormControl>
-                    <Checkbox
-                      checked={field.value}
-                      onCheckedChange={field.onChange}
-                    />
-                  </FormControl>
-                  <div className="space-y-1 leading-none">
-                    <FormLabel>
-                      I confirm that this content is original, complies with Instagram's policies, and meets the campaign requirements.
-                    </FormLabel>
+
+              <FormField
+                control={form.control}
+                name="postUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Post Link</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder={POST_LINK_EXAMPLES[campaign.platforms[0] ?? "instagram"]}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Paste the link to your {describePlatforms(campaign.platforms)} post
+                    </FormDescription>
                     <FormMessage />
-                  </div>
-                </FormItem>
+                  </FormItem>
+                )}
+              />
+
+              {hasContentBrief(campaign.brief) && (
+                <FormField
+                  control={form.control}
+                  name="caption"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Post Caption</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Paste your post's caption"
+                          rows={3}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        We check it for the hashtags, mentions and disclosure in the brief
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
-            />
-
-            <DialogFooter className="pt-4">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={onClose}
-                disabled={isSubmitting}
-              >
-                Cancel
-              </Button>
-              <Button 
-                type="submit" 
-                disabled={isSubmitting}
-                className="bg-purple-700 hover:bg-purple-800 text-white"
-              >
-                {isSubmitting ? "Submitting..." : "Apply"}
-              </Button>
-            </DialogFooter>
-          </form>
-        </Form>
+
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="Any additional information about your submission"
+                        rows={3}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="termsAgreed"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                    <div className="space-y-1 leading-none">
+                      <FormLabel>
+                        I confirm that this content is original, complies with the platform's policies, and meets the campaign requirements.
+                      </FormLabel>
+                      <FormMessage />
+                    </div>
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter className="pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={onClose}
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+                <Button 
+                  type="submit" 
+                  disabled={isSubmitting}
+                  className="bg-purple-700 hover:bg-purple-800 text-white"
+                >
+                  {isSubmitting ? "Submitting..." : "Apply"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
       </DialogContent>
     </Dialog>
   );
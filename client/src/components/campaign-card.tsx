@@ -2,7 +2,7 @@ import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Edit2, Trash, Eye, Users, MapPin, Clock, CheckCircle, XCircle } from "lucide-react";
+import { Edit2, Trash, Eye, Users, MapPin, Clock, CheckCircle, XCircle, MoreVertical, Play, Pause, Flag, Archive, CalendarClock, ShieldCheck, Send } from "lucide-react";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -20,22 +20,51 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Campaign, Submission } from "@shared/schema";
+import { Campaign, CampaignApplication, CampaignStatus, CampaignWithBudget, Submission } from "@shared/schema";
+import { getEffectiveCampaignStatus, getAllowedCampaignTransitions } from "@shared/campaign-lifecycle";
+import { CAMPAIGN_CUISINE_LABELS, CAMPAIGN_TYPE_LABELS, DIETARY_TAG_LABELS } from "@shared/campaign-taxonomy";
+import { formatDistance } from "@shared/geo";
+import { describeEligibility } from "@shared/campaign-eligibility";
+import { describeReward } from "@shared/reward-rules";
+import { describePlatforms } from "@shared/post-links";
 import { useToast } from "@/hooks/use-toast";
+import { useTeamPermissions } from "@/hooks/use-team-permissions";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { CampaignApplyModal } from "./campaign-apply-modal";
+import { PlatformIcon } from "./platform-icon";
 import { useQuery } from "@tanstack/react-query";
 
+const STATUS_STYLES: Record<CampaignStatus, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-gradient-to-r from-slate-100 to-slate-50 text-slate-700 border-slate-200" },
+  scheduled: { label: "Scheduled", className: "bg-gradient-to-r from-blue-100 to-blue-50 text-blue-800 border-blue-200" },
+  active: { label: "Active", className: "bg-gradient-to-r from-green-100 to-green-50 text-green-800 border-green-200" },
+  paused: { label: "Paused", className: "bg-gradient-to-r from-yellow-100 to-yellow-50 text-yellow-800 border-yellow-200" },
+  completed: { label: "Completed", className: "bg-gradient-to-r from-purple-100 to-purple-50 text-purple-800 border-purple-200" },
+  archived: { label: "Archived", className: "bg-gradient-to-r from-slate-200 to-slate-100 text-slate-600 border-slate-300" },
+};
+
+// Menu label for each lifecycle action, keyed by target status
+const TRANSITION_ACTIONS: Partial<Record<CampaignStatus, { label: string; icon: typeof Play }>> = {
+  active: { label: "Publish", icon: Play },
+  paused: { label: "Pause", icon: Pause },
+  completed: { label: "Close campaign", icon: Flag },
+  archived: { label: "Archive", icon: Archive },
+};
+
 interface CampaignCardProps {
-  campaign: Campaign;
+  campaign: Campaign | CampaignWithBudget;
   viewType: "restaurant" | "influencer";
   onEdit?: (campaign: Campaign) => void;
+  // Distance from the influencer's search location, when known
+  distanceMiles?: number;
 }
 
-export function CampaignCard({ campaign, viewType, onEdit }: CampaignCardProps) {
+export function CampaignCard({ campaign, viewType, onEdit, distanceMiles }: CampaignCardProps) {
   const { toast } = useToast();
+  const { can } = useTeamPermissions();
   const [isDeleting, setIsDeleting] = useState(false);
   const [showApplyModal, setShowApplyModal] = useState(false);
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
 
   // Get user submissions for this campaign if in influencer view
   const { data: submissions } = useQuery<Submission[]>({
@@ -46,8 +75,38 @@ export function CampaignCard({ campaign, viewType, onEdit }: CampaignCardProps)
   // Check if the influencer has already submitted to this campaign
   const userSubmission = submissions?.find(sub => sub.campaignId === campaign.id);
 
-  // All campaigns are considered active now that the status field is removed
-  const statusStyle = "bg-gradient-to-r from-green-100 to-green-50 text-green-800 border-green-200";
+  // Apply-first campaigns: the influencer's application decides what they can do
+  const { data: applications } = useQuery<CampaignApplication[]>({
+    queryKey: ['/api/applications'],
+    enabled: viewType === 'influencer' && campaign.requiresApplication,
+  });
+  const userApplication = applications?.find(application => application.campaignId === campaign.id);
+
+  const status = getEffectiveCampaignStatus(campaign);
+  const statusStyle = STATUS_STYLES[status];
+  const transitions = getAllowedCampaignTransitions(campaign);
+  const isAcceptingSubmissions = status === "active";
+  const requirements = describeEligibility(campaign.eligibility);
+
+  const handleStatusChange = async (nextStatus: CampaignStatus) => {
+    try {
+      setIsChangingStatus(true);
+      await apiRequest("PUT", `/api/campaigns/${campaign.id}/status`, { status: nextStatus });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      toast({
+        title: "Campaign updated",
+        description: `The campaign is now ${STATUS_STYLES[nextStatus].label.toLowerCase()}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update the campaign status",
+        variant: "destructive",
+      });
+    } finally {
+      setIsChangingStatus(false);
+    }
+  };
 
   const handleDelete = async () => {
     try {
@@ -90,9 +149,9 @@ export function CampaignCard({ campaign, viewType, onEdit }: CampaignCardProps)
           <div className="absolute top-2 right-2">
             <Badge
               variant="outline"
-              className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyle}`}
+              className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyle.className}`}
             >
-              Active
+              {statusStyle.label}
             </Badge>
           </div>
         </div>
@@ -106,9 +165,80 @@ export function CampaignCard({ campaign, viewType, onEdit }: CampaignCardProps)
             <div className="flex items-center mb-2 text-xs text-violet-600">
               <MapPin className="h-3 w-3 mr-1" />
               <span>{campaign.location}</span>
+              {campaign.venueIds?.length > 1 && (
+                <span className="ml-1 text-slate-500">
+                  + {campaign.venueIds.length - 1} more location{campaign.venueIds.length === 2 ? "" : "s"}
+                </span>
+              )}
+              {distanceMiles !== undefined && (
+                <span className="ml-2 text-slate-500">· {formatDistance(distanceMiles)}</span>
+              )}
+            </div>
+          )}
+          <div className="flex items-center gap-1.5 mb-2 text-xs text-slate-500">
+            {campaign.platforms.map((platform) => (
+              <PlatformIcon key={platform} platform={platform} className="h-3 w-3" />
+            ))}
+            <span>{describePlatforms(campaign.platforms)}</span>
+          </div>
+          {campaign.requiresApplication && (
+            <div className="flex items-center mb-2 text-xs text-purple-700">
+              <Send className="h-3 w-3 mr-1" />
+              <span>
+                Apply first
+                {campaign.maxAcceptedApplicants ? ` · ${campaign.maxAcceptedApplicants} spots` : ""}
+              </span>
+            </div>
+          )}
+          {(campaign.startsAt || campaign.endsAt) && (
+            <div className="flex items-center mb-2 text-xs text-slate-500">
+              <CalendarClock className="h-3 w-3 mr-1" />
+              <span>
+                {campaign.startsAt ? new Date(campaign.startsAt).toLocaleDateString() : "Now"}
+                {" – "}
+                {campaign.endsAt ? new Date(campaign.endsAt).toLocaleDateString() : "Open-ended"}
+              </span>
+            </div>
+          )}
+          {(campaign.cuisine || campaign.campaignType || campaign.dietaryTags.length > 0) && (
+            <div className="flex flex-wrap gap-1 mb-2">
+              {campaign.cuisine && (
+                <Badge variant="secondary" className="bg-violet-50 text-violet-700">
+                  {CAMPAIGN_CUISINE_LABELS[campaign.cuisine]}
+                </Badge>
+              )}
+              {campaign.campaignType && (
+                <Badge variant="secondary" className="bg-blue-50 text-blue-700">
+                  {CAMPAIGN_TYPE_LABELS[campaign.campaignType]}
+                </Badge>
+              )}
+              {campaign.dietaryTags.map((tag) => (
+                <Badge key={tag} variant="outline" className="text-green-700 border-green-200">
+                  {DIETARY_TAG_LABELS[tag]}
+                </Badge>
+              ))}
+            </div>
+          )}
+          {requirements.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1 mb-2">
+              <ShieldCheck className="h-3 w-3 text-amber-600" />
+              {requirements.map((requirement) => (
+                <Badge key={requirement} variant="outline" className="text-amber-700 border-amber-200 bg-amber-50">
+                  {requirement}
+                </Badge>
+              ))}
             </div>
           )}
           
+          {viewType === "restaurant" && "remainingBudget" in campaign && campaign.remainingBudget !== null && (
+            <div className="flex items-center mb-2 text-xs text-slate-500">
+              <span className="mr-1 text-green-600">$</span>
+              <span>
+                {campaign.remainingBudget.toFixed(2)} of {campaign.maxBudget?.toFixed(2)} budget remaining
+              </span>
+            </div>
+          )}
+
           <div className="flex items-center justify-between text-sm mb-4">
             <span className="text-purple-700 flex items-center">
               <Users className="h-4 w-4 mr-1 text-purple-600" /> 0 submissions
@@ -117,6 +247,12 @@ export function CampaignCard({ campaign, viewType, onEdit }: CampaignCardProps)
               <Eye className="h-4 w-4 mr-1 text-violet-600" /> 0 views
             </span>
           </div>
+
+          {campaign.rewardRules.length > 0 && (
+            <p className="text-xs text-green-700 mb-3">
+              Plus {describeReward(campaign).slice(1).join(" · ")}
+            </p>
+          )}
           
           <div className="flex items-center justify-between">
             <span className="text-xs font-medium flex items-center">
@@ -129,54 +265,88 @@ export function CampaignCard({ campaign, viewType, onEdit }: CampaignCardProps)
             
             {viewType === "restaurant" ? (
               <div className="flex space-x-2">
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  className="text-muted-foreground hover:text-purple-700"
-                  onClick={() => onEdit && onEdit(campaign)}
-                >
-                  <Edit2 className="h-4 w-4" />
-                  <span className="sr-only">Edit campaign</span>
-                </Button>
+                {/* Finance members edit only the rewards and budget */}
+                {(can("manage_campaigns") || can("manage_budgets")) && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-muted-foreground hover:text-purple-700"
+                    onClick={() => onEdit && onEdit(campaign)}
+                  >
+                    <Edit2 className="h-4 w-4" />
+                    <span className="sr-only">Edit campaign</span>
+                  </Button>
+                )}
+
+                {can("manage_campaigns") && transitions.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-purple-700"
+                        disabled={isChangingStatus}
+                      >
+                        <MoreVertical className="h-4 w-4" />
+                        <span className="sr-only">Campaign status actions</span>
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {transitions.map((nextStatus) => {
+                        const action = TRANSITION_ACTIONS[nextStatus];
+                        if (!action) return null;
+                        const Icon = action.icon;
+                        return (
+                          <DropdownMenuItem key={nextStatus} onClick={() => handleStatusChange(nextStatus)}>
+                            <Icon className="h-4 w-4 mr-2" />
+                            {nextStatus === "active" && status === "paused" ? "Resume" : action.label}
+                          </DropdownMenuItem>
+                        );
+                      })}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
                 
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="text-muted-foreground hover:text-red-600"
-                    >
-                      <Trash className="h-4 w-4" />
-                      <span className="sr-only">Delete campaign</span>
-                    </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Delete Campaign</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        Are you sure you want to delete this campaign? This action cannot be undone.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction
-                        onClick={handleDelete}
-                        disabled={isDeleting}
-                        className="bg-gradient-to-r from-red-600 to-red-500 hover:from-red-700 hover:to-red-600 text-white shadow-sm"
+                {can("manage_campaigns") && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-red-600"
                       >
-                        {isDeleting ? (
-                          <>
-                            <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                            </svg>
-                            Deleting...
-                          </>
-                        ) : "Delete"}
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                        <Trash className="h-4 w-4" />
+                        <span className="sr-only">Delete campaign</span>
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete Campaign</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to delete this campaign? This action cannot be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={handleDelete}
+                          disabled={isDeleting}
+                          className="bg-gradient-to-r from-red-600 to-red-500 hover:from-red-700 hover:to-red-600 text-white shadow-sm"
+                        >
+                          {isDeleting ? (
+                            <>
+                              <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                              </svg>
+                              Deleting...
+                            </>
+                          ) : "Delete"}
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
               </div>
             ) : userSubmission ? (
               // Show submission status if the user has already applied to this campaign
@@ -184,6 +354,8 @@ export function CampaignCard({ campaign, viewType, onEdit }: CampaignCardProps)
                 className={
                   userSubmission.status === "approved"
                     ? "bg-gradient-to-r from-green-600 to-green-500 hover:from-green-700 hover:to-green-600 text-white shadow-sm"
+                    : userSubmission.status === "changes_requested"
+                    ? "bg-gradient-to-r from-orange-600 to-orange-500 hover:from-orange-700 hover:to-orange-600 text-white shadow-sm"
                     : userSubmission.status === "rejected"
                     ? "bg-gradient-to-r from-red-600 to-red-500 hover:from-red-700 hover:to-red-600 text-white shadow-sm"
                     : "bg-gradient-to-r from-yellow-600 to-yellow-500 hover:from-yellow-700 hover:to-yellow-600 text-white shadow-sm"
@@ -193,12 +365,34 @@ export function CampaignCard({ campaign, viewType, onEdit }: CampaignCardProps)
               >
                 {userSubmission.status === "approved" ? (
                   <><CheckCircle className="h-4 w-4 mr-1" /> Approved</>
+                ) : userSubmission.status === "changes_requested" ? (
+                  <><Edit2 className="h-4 w-4 mr-1" /> Changes Requested</>
                 ) : userSubmission.status === "rejected" ? (
                   <><XCircle className="h-4 w-4 mr-1" /> Rejected</>
                 ) : (
                   <><Clock className="h-4 w-4 mr-1" /> Pending</>
                 )}
               </Button>
+            ) : !isAcceptingSubmissions ? (
+              <Button variant="outline" size="sm" disabled={true}>
+                {status === "scheduled" ? "Opens soon" : "Closed"}
+              </Button>
+            ) : userApplication?.status === "pending" ? (
+              <Button variant="outline" size="sm" disabled={true}>
+                <Clock className="h-4 w-4 mr-1" /> Applied
+              </Button>
+            ) : userApplication?.status === "declined" ? (
+              <Button variant="outline" size="sm" disabled={true}>
+                <XCircle className="h-4 w-4 mr-1" /> Declined
+              </Button>
+            ) : userApplication?.status === "accepted" ? (
+              <Button
+                className="bg-gradient-to-r from-purple-800 to-purple-600 hover:from-purple-900 hover:to-purple-700 text-white shadow-sm"
+                size="sm"
+                onClick={() => setShowApplyModal(true)}
+              >
+                Submit Post
+              </Button>
             ) : (
               // Apply button for campaigns the user hasn't applied to yet
               <Button
@@ -216,6 +410,7 @@ export function CampaignCard({ campaign, viewType, onEdit }: CampaignCardProps)
       {viewType === "influencer" && (
         <CampaignApplyModal
           campaign={campaign}
+          application={userApplication}
           isOpen={showApplyModal}
           onClose={() => setShowApplyModal(false)}
         />
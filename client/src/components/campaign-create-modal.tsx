@@ -1,10 +1,13 @@
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import React, { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { z } from "zod";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
   DialogFooter,
@@ -22,31 +25,83 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { insertCampaignSchema, Campaign } from "@shared/schema";
+import { useTeamPermissions } from "@/hooks/use-team-permissions";
+import { apiRequest, queryClient, uploadImage } from "@/lib/queryClient";
+import { isUploadedImageUrl } from "@shared/media";
+import {
+  insertCampaignSchema,
+  Campaign,
+  Venue,
+  CampaignEligibility,
+  CAMPAIGN_CUISINES,
+  CAMPAIGN_TYPES,
+  DIETARY_TAGS,
+  INFLUENCER_NICHES,
+  SOCIAL_PLATFORMS,
+} from "@shared/schema";
+import { CAMPAIGN_CUISINE_LABELS, CAMPAIGN_TYPE_LABELS, DIETARY_TAG_LABELS } from "@shared/campaign-taxonomy";
+import { BUDGET_FIELDS } from "@shared/team-roles";
+import { SUBMISSION_PLATFORM_LABELS } from "@shared/post-links";
+import { INFLUENCER_NICHE_LABELS, SOCIAL_PLATFORM_LABELS } from "@shared/influencer-directory";
+import { ContentBriefFields } from "@/components/content-brief";
+import { RewardPreview, RewardRulesFields } from "@/components/reward-rules";
+import { nestedErrorMessages } from "@/lib/utils";
 import { Label } from "@/components/ui/label";
 import { ImageIcon, Upload, Link as LinkIcon } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 // Extend the insertCampaignSchema from shared/schema.ts but omit restaurantId (which is set by server)
+// and the location fields (which come from the selected venue)
 const formSchema = insertCampaignSchema
-  .omit({ restaurantId: true })
+  .omit({ restaurantId: true, location: true, latitude: true, longitude: true, venueCoordinates: true })
   .extend({
-    // Update validation to accept both http URLs and data URLs (from file uploads)
+    // Accept http URLs and uploaded images
     imageUrl: z.string()
       .min(1, "Image URL is required")
       .refine(
-        (url) => url.startsWith("http://") || url.startsWith("https://") || url.startsWith("data:image/"),
+        (url) => url.startsWith("http://") || url.startsWith("https://") || isUploadedImageUrl(url),
         "URL must be a valid image URL or uploaded file"
       ),
-    location: z.string().optional(),
     maxPayoutPerInfluencer: z.coerce.number().min(1, "Max payout must be at least $1").optional(),
     maxBudget: z.coerce.number().min(1, "Budget must be at least $1").optional(),
-  });
+    // datetime-local input values; converted to ISO timestamps on submit
+    startsAt: z.string().optional(),
+    endsAt: z.string().optional(),
+  })
+  .refine(
+    (data) => !data.startsAt || !data.endsAt || new Date(data.endsAt) > new Date(data.startsAt),
+    { message: "End date must be after the start date", path: ["endsAt"] }
+  );
 
 type FormValues = z.infer<typeof formSchema>;
 
+// Unchecked platform and niche lists mean "no requirement", not "none allowed"
+function withoutEmptyRules(rules: CampaignEligibility): CampaignEligibility {
+  return Object.fromEntries(
+    Object.entries(rules).filter(([, value]) => value !== undefined && value !== "" && !(Array.isArray(value) && value.length === 0))
+  ) as CampaignEligibility;
+}
+
+// Number inputs report "" when cleared; that removes the rule
+const toOptionalNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+// Format a stored timestamp for a datetime-local input (local time, no seconds)
+function toDateTimeLocal(value: Date | string | null | undefined): string {
+  if (!value) return "";
+  const date = new Date(value);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
 interface CampaignCreateModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -59,17 +114,24 @@ export function CampaignCreateModal({
   initialData,
 }: CampaignCreateModalProps) {
   const { toast } = useToast();
+  const { can } = useTeamPermissions();
   const isEditing = !!initialData;
+  // Finance members may change the rewards and budget of an existing campaign only
+  const isBudgetOnly = isEditing && !can("manage_campaigns");
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
   const [activeTab, setActiveTab] = useState<"upload" | "url">("upload");
+
+  const { data: venues } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+    enabled: isOpen,
+  });
   
   // Initialize the tab based on initial data
   useEffect(() => {
     if (initialData?.imageUrl) {
-      // If the image URL is a data URL (uploaded image), set the tab to "upload"
-      // Otherwise, set it to "url"
-      setActiveTab(initialData.imageUrl.startsWith("data:image/") ? "upload" : "url");
+      // Uploaded images open on the "upload" tab, links on the "url" tab
+      setActiveTab(isUploadedImageUrl(initialData.imageUrl) ? "upload" : "url");
     }
   }, [initialData]);
 
@@ -81,22 +143,46 @@ export function CampaignCreateModal({
       imageUrl: initialData.imageUrl,
       rewardAmount: initialData.rewardAmount,
       rewardViews: initialData.rewardViews,
-      // status removed from schema
+      rewardRules: initialData.rewardRules ?? [],
+      // Status changes go through the campaign card's lifecycle actions
       // Convert nulls to empty string or undefined
-      location: initialData.location || "",
+      venueId: initialData.venueId ?? undefined,
+      venueIds: initialData.venueIds ?? [],
       maxPayoutPerInfluencer: initialData.maxPayoutPerInfluencer || undefined,
       maxBudget: initialData.maxBudget || undefined,
+      cuisine: initialData.cuisine ?? undefined,
+      campaignType: initialData.campaignType ?? undefined,
+      dietaryTags: initialData.dietaryTags,
+      platforms: initialData.platforms,
+      eligibility: initialData.eligibility ?? {},
+      brief: initialData.brief ?? {},
+      requiresApplication: initialData.requiresApplication,
+      maxAcceptedApplicants: initialData.maxAcceptedApplicants ?? undefined,
+      startsAt: toDateTimeLocal(initialData.startsAt),
+      endsAt: toDateTimeLocal(initialData.endsAt),
     } 
     : {
       title: "",
       description: "",
-      location: "",
+      venueId: undefined,
+      venueIds: [],
       imageUrl: "",
       rewardAmount: 10,
       rewardViews: 1000,
+      rewardRules: [],
       maxPayoutPerInfluencer: 100,
       maxBudget: undefined,
-      // status removed from schema
+      cuisine: undefined,
+      campaignType: undefined,
+      dietaryTags: [],
+      platforms: ["instagram"],
+      eligibility: {},
+      brief: {},
+      requiresApplication: false,
+      maxAcceptedApplicants: undefined,
+      status: "active",
+      startsAt: "",
+      endsAt: "",
     };
 
   const form = useForm<FormValues>({
@@ -104,76 +190,25 @@ export function CampaignCreateModal({
     defaultValues,
   });
   
-  // Handle file upload with compression for large images
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Images are uploaded straight away; the form keeps the returned URL
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    
-    // Check file type
-    if (!file.type.startsWith('image/')) {
+
+    try {
+      setIsUploading(true);
+      const media = await uploadImage(file);
+      form.setValue("imageUrl", media.url, { shouldValidate: true });
+    } catch (error) {
       toast({
-        title: "Invalid file type",
-        description: "Please upload an image file (JPG, PNG, GIF, etc.)",
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Please try a different image",
         variant: "destructive",
       });
-      return;
-    }
-    
-    // For very large files, show a warning but proceed
-    if (file.size > 5 * 1024 * 1024) {
-      toast({
-        title: "Large image detected",
-        description: "The image will be compressed to reduce size",
-      });
+    } finally {
+      setIsUploading(false);
+      e.target.value = "";
     }
-    
-    // Create a data URL for the image with possible compression
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result as string;
-      
-      // For large images, we'll compress them using the canvas
-      if (file.size > 1024 * 1024) { // Compress if over 1MB
-        const img = new Image();
-        img.onload = () => {
-          // Create canvas for compression
-          const canvas = document.createElement('canvas');
-          let width = img.width;
-          let height = img.height;
-          
-          // Calculate new dimensions (max 1200px width or height)
-          const maxDimension = 1200;
-          if (width > height && width > maxDimension) {
-            height = Math.round(height * (maxDimension / width));
-            width = maxDimension;
-          } else if (height > maxDimension) {
-            width = Math.round(width * (maxDimension / height));
-            height = maxDimension;
-          }
-          
-          // Set canvas dimensions and draw resized image
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-            ctx.drawImage(img, 0, 0, width, height);
-            
-            // Get compressed data URL (adjust quality as needed)
-            const compressedDataUrl = canvas.toDataURL('image/jpeg', 0.8);
-            setUploadedImage(compressedDataUrl);
-            
-            // Set the URL for the form
-            form.setValue("imageUrl", compressedDataUrl);
-          }
-        };
-        img.src = result;
-      } else {
-        // Small images don't need compression
-        setUploadedImage(result);
-        form.setValue("imageUrl", result);
-      }
-    };
-    reader.readAsDataURL(file);
   };
 
   const onSubmit = async (data: FormValues) => {
@@ -181,9 +216,29 @@ export function CampaignCreateModal({
       console.log("Submitting form with data:", data);
       setIsSubmitting(true);
 
+      // Empty dates and categories are cleared when editing and omitted when creating
+      const payload = {
+        ...data,
+        venueId: data.venueId ?? (isEditing ? null : undefined),
+        // The primary venue comes first; the others only count alongside one
+        venueIds: data.venueId
+          ? [data.venueId, ...(data.venueIds ?? []).filter((venueId) => venueId !== data.venueId)]
+          : [],
+        cuisine: data.cuisine ?? (isEditing ? null : undefined),
+        campaignType: data.campaignType ?? (isEditing ? null : undefined),
+        eligibility: withoutEmptyRules(data.eligibility ?? {}),
+        maxAcceptedApplicants: data.maxAcceptedApplicants ?? (isEditing ? null : undefined),
+        startsAt: data.startsAt ? new Date(data.startsAt).toISOString() : (isEditing ? null : undefined),
+        endsAt: data.endsAt ? new Date(data.endsAt).toISOString() : (isEditing ? null : undefined),
+      };
+
       if (isEditing) {
         console.log("Updating campaign", initialData.id);
-        const response = await apiRequest("PUT", `/api/campaigns/${initialData.id}`, data);
+        const response = await apiRequest(
+          "PUT",
+          `/api/campaigns/${initialData.id}`,
+          isBudgetOnly ? Object.fromEntries(BUDGET_FIELDS.map((field) => [field, payload[field]])) : payload
+        );
         console.log("Update response:", response);
         toast({
           title: "Campaign updated",
@@ -191,11 +246,13 @@ export function CampaignCreateModal({
         });
       } else {
         console.log("Creating new campaign");
-        const response = await apiRequest("POST", "/api/campaigns", data);
+        const response = await apiRequest("POST", "/api/campaigns", payload);
         console.log("Create response:", response);
         toast({
-          title: "Campaign created",
-          description: "The campaign has been successfully created",
+          title: data.status === "draft" ? "Draft saved" : "Campaign created",
+          description: data.status === "draft"
+            ? "Publish the campaign when you're ready for influencers to see it"
+            : "The campaign has been successfully created",
         });
       }
 
@@ -224,6 +281,11 @@ export function CampaignCreateModal({
           <DialogTitle>
             {isEditing ? "Edit Campaign" : "Create New Campaign"}
           </DialogTitle>
+          {isBudgetOnly && (
+            <DialogDescription>
+              Your team role can change this campaign's rewards and budget. Changes to other fields won't be saved.
+            </DialogDescription>
+          )}
         </DialogHeader>
 
         <Form {...form}>
@@ -286,6 +348,7 @@ export function CampaignCreateModal({
                               accept="image/*"
                               className="hidden"
                               onChange={handleImageUpload}
+                              disabled={isUploading}
                             />
                             <label htmlFor="image-upload" className="block cursor-pointer">
                               <div className="flex flex-col items-center gap-2">
@@ -293,10 +356,10 @@ export function CampaignCreateModal({
                                   <Upload className="h-5 w-5 text-primary" />
                                 </div>
                                 <p className="text-sm font-medium">
-                                  Click to upload image
+                                  {isUploading ? "Uploading..." : "Click to upload image"}
                                 </p>
                                 <p className="text-xs text-muted-foreground">
-                                  JPG, PNG, GIF (larger images will be compressed)
+                                  JPG, PNG, WebP or GIF up to 5MB
                                 </p>
                               </div>
                             </label>
@@ -306,7 +369,7 @@ export function CampaignCreateModal({
                           <Input 
                             placeholder="https://example.com/image.jpg" 
                             onChange={(e) => field.onChange(e.target.value)}
-                            value={field.value.startsWith("data:image/") ? "" : field.value}
+                            value={isUploadedImageUrl(field.value) ? "" : field.value}
                           />
                           <FormDescription className="mt-1">
                             Enter a direct link to an image (JPG, PNG, GIF)
@@ -361,25 +424,408 @@ export function CampaignCreateModal({
 
             <FormField
               control={form.control}
-              name="location"
+              name="venueId"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Location <span className="text-muted-foreground text-sm">(Optional)</span></FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="e.g. New York, NY" 
-                      {...field} 
-                      value={field.value || ""}
-                    />
-                  </FormControl>
+                  <FormLabel>Venue <span className="text-muted-foreground text-sm">(Optional)</span></FormLabel>
+                  <Select
+                    value={field.value ? String(field.value) : "none"}
+                    onValueChange={(value) => field.onChange(value === "none" ? undefined : Number(value))}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a venue" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No location (e.g. delivery only)</SelectItem>
+                      {venues?.map((venue) => (
+                        <SelectItem key={venue.id} value={String(venue.id)}>
+                          {venue.name} · {venue.city}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    {venues && venues.length === 0 ? (
+                      <>
+                        Add your locations under{" "}
+                        <Link href="/restaurant/settings" className="text-primary hover:underline">
+                          Settings → Venues
+                        </Link>{" "}
+                        so nearby influencers can find this campaign
+                      </>
+                    ) : (
+                      "The campaign's address. Influencers searching near any of its venues will see it"
+                    )}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {form.watch("venueId") && venues && venues.length > 1 && (
+              <FormField
+                control={form.control}
+                name="venueIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Also Runs At <span className="text-muted-foreground text-sm">(Optional)</span></FormLabel>
+                    <div className="grid grid-cols-2 gap-2">
+                      {venues
+                        .filter((venue) => venue.id !== form.watch("venueId"))
+                        .map((venue) => {
+                          const selected = field.value ?? [];
+                          return (
+                            <label key={venue.id} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={selected.includes(venue.id)}
+                                onCheckedChange={(checked) =>
+                                  field.onChange(
+                                    checked ? [...selected, venue.id] : selected.filter((id) => id !== venue.id)
+                                  )
+                                }
+                              />
+                              {venue.name} · {venue.city}
+                            </label>
+                          );
+                        })}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="cuisine"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cuisine</FormLabel>
+                    <Select
+                      value={field.value ?? "none"}
+                      onValueChange={(value) => field.onChange(value === "none" ? undefined : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select cuisine" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Not specified</SelectItem>
+                        {CAMPAIGN_CUISINES.map((cuisine) => (
+                          <SelectItem key={cuisine} value={cuisine}>
+                            {CAMPAIGN_CUISINE_LABELS[cuisine]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="campaignType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Campaign Type</FormLabel>
+                    <Select
+                      value={field.value ?? "none"}
+                      onValueChange={(value) => field.onChange(value === "none" ? undefined : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select type" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Not specified</SelectItem>
+                        {CAMPAIGN_TYPES.map((type) => (
+                          <SelectItem key={type} value={type}>
+                            {CAMPAIGN_TYPE_LABELS[type]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="dietaryTags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dietary Options <span className="text-muted-foreground text-sm">(Optional)</span></FormLabel>
+                  <div className="grid grid-cols-2 gap-2">
+                    {DIETARY_TAGS.map((tag) => (
+                      <label key={tag} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={field.value?.includes(tag) ?? false}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? [...(field.value ?? []), tag]
+                                : (field.value ?? []).filter((value) => value !== tag)
+                            )
+                          }
+                        />
+                        <span>{DIETARY_TAG_LABELS[tag]}</span>
+                      </label>
+                    ))}
+                  </div>
                   <FormDescription>
-                    City, state, or region where your restaurant is located
+                    Helps influencers with matching audiences find your campaign
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="platforms"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Accepted Platforms</FormLabel>
+                  <div className="flex flex-wrap gap-4">
+                    {SOCIAL_PLATFORMS.map((platform) => (
+                      <label key={platform} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={field.value?.includes(platform) ?? false}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? [...(field.value ?? []), platform]
+                                : (field.value ?? []).filter((value) => value !== platform)
+                            )
+                          }
+                        />
+                        <span>{SUBMISSION_PLATFORM_LABELS[platform]}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <FormDescription>
+                    Influencers can submit posts from any of these
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="space-y-4 rounded-md border border-slate-200 p-4">
+              <div>
+                <Label>Eligibility Requirements <span className="text-muted-foreground text-sm">(Optional)</span></Label>
+                <p className="text-sm text-muted-foreground">
+                  Only influencers who meet every requirement can see and submit to this campaign
+                </p>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="eligibility.minFollowers"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum Followers</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder="Any"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="eligibility.minApprovalRate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum Approval Rate (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          placeholder="Any"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="eligibility.city"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Influencer City</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="Any"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(e.target.value || undefined)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="eligibility.radiusMiles"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Within (miles of venue)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          max={500}
+                          placeholder="Any"
+                          disabled={!form.watch("venueId")}
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="eligibility.platforms"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Platforms</FormLabel>
+                    <div className="grid grid-cols-3 gap-2">
+                      {SOCIAL_PLATFORMS.map((platform) => (
+                        <label key={platform} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            checked={field.value?.includes(platform) ?? false}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...(field.value ?? []), platform]
+                                  : (field.value ?? []).filter((value) => value !== platform)
+                              )
+                            }
+                          />
+                          <span>{SOCIAL_PLATFORM_LABELS[platform]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormDescription>Influencer needs an account on at least one</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="eligibility.niches"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Niches</FormLabel>
+                    <div className="grid grid-cols-2 gap-2">
+                      {INFLUENCER_NICHES.map((niche) => (
+                        <label key={niche} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            checked={field.value?.includes(niche) ?? false}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...(field.value ?? []), niche]
+                                  : (field.value ?? []).filter((value) => value !== niche)
+                              )
+                            }
+                          />
+                          <span>{INFLUENCER_NICHE_LABELS[niche]}</span>
+                        </label>
+                      ))}
+                    </div>
+                    <FormDescription>Influencer needs at least one of these niches</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="brief"
+              render={({ field }) => (
+                <ContentBriefFields
+                  value={field.value ?? {}}
+                  onChange={field.onChange}
+                  errors={nestedErrorMessages(form.formState.errors.brief)}
+                />
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="requiresApplication"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                  <FormControl>
+                    <Checkbox checked={field.value ?? false} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <div className="space-y-1 leading-none">
+                    <FormLabel>Require influencers to apply first</FormLabel>
+                    <FormDescription>
+                      Influencers pitch before posting, and only applicants you accept can submit content
+                    </FormDescription>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            {form.watch("requiresApplication") && (
+              <FormField
+                control={form.control}
+                name="maxAcceptedApplicants"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Maximum Accepted Applicants <span className="text-muted-foreground text-sm">(Optional)</span></FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        placeholder="No limit"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Applications close once this many influencers have been accepted
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -427,6 +873,28 @@ export function CampaignCreateModal({
                 )}
               />
             </div>
+
+            <FormField
+              control={form.control}
+              name="rewardRules"
+              render={({ field }) => (
+                <RewardRulesFields
+                  value={field.value ?? []}
+                  onChange={field.onChange}
+                  terms={{ rewardAmount: form.watch("rewardAmount"), rewardViews: form.watch("rewardViews") }}
+                  errors={nestedErrorMessages(form.formState.errors.rewardRules)}
+                />
+              )}
+            />
+
+            <RewardPreview
+              terms={{
+                rewardAmount: form.watch("rewardAmount"),
+                rewardViews: form.watch("rewardViews"),
+                rewardRules: form.watch("rewardRules"),
+              }}
+              maxPayout={form.watch("maxPayoutPerInfluencer")}
+            />
             
             <div className="grid grid-cols-2 gap-4">
               <FormField
@@ -478,7 +946,73 @@ export function CampaignCreateModal({
               />
             </div>
 
-            {/* Status field removed from schema */}
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts <span className="text-muted-foreground text-sm">(Optional)</span></FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>
+                      Leave empty to start immediately
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends <span className="text-muted-foreground text-sm">(Optional)</span></FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormDescription>
+                      Closes to new submissions after this
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {!isEditing && (
+              <FormField
+                control={form.control}
+                name="status"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Visibility</FormLabel>
+                    <FormControl>
+                      <RadioGroup
+                        onValueChange={field.onChange}
+                        value={field.value}
+                        className="flex space-x-4"
+                      >
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="active" id="status-active" />
+                          <Label htmlFor="status-active">Publish now</Label>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <RadioGroupItem value="draft" id="status-draft" />
+                          <Label htmlFor="status-draft">Save as draft</Label>
+                        </div>
+                      </RadioGroup>
+                    </FormControl>
+                    <FormDescription>
+                      Drafts are hidden from influencers until published
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
 
             <DialogFooter className="pt-4">
               <Button
@@ -489,7 +1023,7 @@ export function CampaignCreateModal({
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={isSubmitting}>
+              <Button type="submit" disabled={isSubmitting || isUploading}>
                 {isSubmitting
                   ? isEditing
                     ? "Updating..."
@@ -0,0 +1,194 @@
+import { useEffect, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { AlertTriangle, CheckCircle, HelpCircle, ThumbsDown, ThumbsUp } from "lucide-react";
+import type { ComplianceIssue, ContentBrief } from "@shared/schema";
+import { formatHashtag, formatMention, hasContentBrief } from "@shared/content-brief";
+
+const splitTags = (text: string) => text.split(/[\s,]+/).filter(Boolean);
+const splitLines = (text: string) => text.split("\n").map((line) => line.trim()).filter(Boolean);
+
+const sameList = (a: string[] = [], b: string[] = []) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+// Keeps the raw text the user is typing, and only rewrites it when the list
+// changes from outside (e.g. the form is reset)
+function useListText(list: string[] | undefined, toText: (list: string[]) => string, parse: (text: string) => string[]) {
+  const [text, setText] = useState(() => toText(list ?? []));
+
+  useEffect(() => {
+    if (!sameList(parse(text), list)) {
+      setText(toText(list ?? []));
+    }
+  }, [list]);
+
+  return [text, setText] as const;
+}
+
+const withPrefix = (prefix: string) => (list: string[]) =>
+  list.map((item) => (item.startsWith(prefix) ? item : `${prefix}${item}`)).join(" ");
+
+interface ContentBriefFieldsProps {
+  value: ContentBrief;
+  onChange: (brief: ContentBrief) => void;
+  errors?: string[];
+}
+
+// Brief editor shared by the campaign and private invitation forms
+export function ContentBriefFields({ value, onChange, errors = [] }: ContentBriefFieldsProps) {
+  const [hashtags, setHashtags] = useListText(value.hashtags, withPrefix("#"), splitTags);
+  const [mentions, setMentions] = useListText(value.mentions, withPrefix("@"), splitTags);
+  const [dos, setDos] = useListText(value.dos, (list) => list.join("\n"), splitLines);
+  const [donts, setDonts] = useListText(value.donts, (list) => list.join("\n"), splitLines);
+
+  return (
+    <div className="space-y-4 rounded-md border border-slate-200 p-4">
+      <div>
+        <Label>Content Brief <span className="text-muted-foreground text-sm">(Optional)</span></Label>
+        <p className="text-sm text-muted-foreground">
+          Submitted captions are checked for the required hashtags, mentions and disclosure
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="brief-hashtags">Required Hashtags</Label>
+          <Input
+            id="brief-hashtags"
+            placeholder="#viralbite #brunch"
+            value={hashtags}
+            onChange={(e) => {
+              setHashtags(e.target.value);
+              onChange({ ...value, hashtags: splitTags(e.target.value) });
+            }}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="brief-mentions">Required Mentions</Label>
+          <Input
+            id="brief-mentions"
+            placeholder="@yourrestaurant"
+            value={mentions}
+            onChange={(e) => {
+              setMentions(e.target.value);
+              onChange({ ...value, mentions: splitTags(e.target.value) });
+            }}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="brief-disclosure">Disclosure Hashtag</Label>
+        <Input
+          id="brief-disclosure"
+          placeholder="#ad"
+          value={value.disclosure ?? ""}
+          onChange={(e) => onChange({ ...value, disclosure: e.target.value.trim() || undefined })}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="brief-dos">Do</Label>
+          <Textarea
+            id="brief-dos"
+            rows={3}
+            placeholder={"One per line, e.g.\nShow the dish being plated"}
+            value={dos}
+            onChange={(e) => {
+              setDos(e.target.value);
+              onChange({ ...value, dos: splitLines(e.target.value) });
+            }}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="brief-donts">Don't</Label>
+          <Textarea
+            id="brief-donts"
+            rows={3}
+            placeholder={"One per line, e.g.\nMention competitors"}
+            value={donts}
+            onChange={(e) => {
+              setDonts(e.target.value);
+              onChange({ ...value, donts: splitLines(e.target.value) });
+            }}
+          />
+        </div>
+      </div>
+
+      {errors.map((message) => (
+        <p key={message} className="text-sm font-medium text-destructive">{message}</p>
+      ))}
+    </div>
+  );
+}
+
+// Read-only brief, shown to influencers before they post
+export function ContentBriefView({ brief }: { brief: ContentBrief }) {
+  if (!hasContentBrief(brief)) return null;
+
+  const required = [
+    ...(brief.hashtags ?? []).map(formatHashtag),
+    ...(brief.mentions ?? []).map(formatMention),
+    ...(brief.disclosure ? [formatHashtag(brief.disclosure)] : []),
+  ];
+
+  return (
+    <div className="space-y-2 rounded-md border border-purple-100 bg-purple-50/50 p-3 text-sm">
+      <p className="font-medium text-slate-800">Content brief</p>
+      {required.length > 0 && (
+        <p className="text-slate-700">
+          Your caption must include{" "}
+          <span className="font-medium text-purple-700">{required.join(" ")}</span>
+        </p>
+      )}
+      {(brief.dos ?? []).map((guideline) => (
+        <p key={`do-${guideline}`} className="flex items-start text-slate-600">
+          <ThumbsUp className="h-3.5 w-3.5 mr-2 mt-0.5 text-green-600 flex-shrink-0" />
+          {guideline}
+        </p>
+      ))}
+      {(brief.donts ?? []).map((guideline) => (
+        <p key={`dont-${guideline}`} className="flex items-start text-slate-600">
+          <ThumbsDown className="h-3.5 w-3.5 mr-2 mt-0.5 text-red-600 flex-shrink-0" />
+          {guideline}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// Result of the caption check on a submission
+export function ComplianceSummary({ issues }: { issues: ComplianceIssue[] | null }) {
+  if (issues === null) {
+    return (
+      <div className="flex items-center text-xs text-slate-500">
+        <HelpCircle className="h-3.5 w-3.5 mr-1" />
+        Caption not checked against the brief
+      </div>
+    );
+  }
+
+  if (issues.length === 0) {
+    return (
+      <div className="flex items-center text-xs text-green-700">
+        <CheckCircle className="h-3.5 w-3.5 mr-1" />
+        Caption meets the brief
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+      <p className="flex items-center font-medium mb-1">
+        <AlertTriangle className="h-3.5 w-3.5 mr-1" />
+        {issues.length} brief issue{issues.length === 1 ? "" : "s"}
+      </p>
+      <ul className="list-disc pl-5 space-y-0.5">
+        {issues.map((issue) => (
+          <li key={`${issue.rule}-${issue.value}`}>{issue.message}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -11,7 +11,9 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Sidebar } from "@/components/layout/sidebar";
+import { NotificationBell } from "@/components/layout/notification-bell";
 import { useLocation } from "wouter";
+import { getThumbnailUrl } from "@shared/media";
 
 interface HeaderProps {
   title: string;
@@ -61,13 +63,14 @@ export function Header({ title, description }: HeaderProps) {
         <h1 className="text-lg font-semibold truncate bg-gradient-to-r from-purple-800 to-purple-600 text-transparent bg-clip-text">{title}</h1>
       </div>
       
-      <div className="flex items-center">
+      <div className="flex items-center space-x-2">
+        <NotificationBell />
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" className="flex items-center space-x-2">
               <Avatar className="h-8 w-8">
                 {user.profilePicture ? (
-                  <AvatarImage src={user.profilePicture} alt={user.name} />
+                  <AvatarImage src={getThumbnailUrl(user.profilePicture)} alt={user.name} />
                 ) : (
                   <AvatarFallback>{userInitials}</AvatarFallback>
                 )}
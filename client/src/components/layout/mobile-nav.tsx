@@ -1,6 +1,7 @@
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { cn } from "@/lib/utils";
+import { NotificationBell } from "@/components/layout/notification-bell";
 import {
   Store,
   User,
@@ -92,6 +93,7 @@ export function MobileNav() {
             </a>
           </Link>
         ))}
+        <NotificationBell label="Alerts" />
       </div>
     </nav>
   );
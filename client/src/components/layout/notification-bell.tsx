@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { Notification, NotificationInbox } from "@shared/schema";
+
+const INBOX_QUERY_KEY = ["/api/notifications"];
+
+interface NotificationBellProps {
+  // Renders the trigger as a labelled bottom-nav item instead of an icon button
+  label?: string;
+}
+
+export function NotificationBell({ label }: NotificationBellProps) {
+  const [open, setOpen] = useState(false);
+  const [, navigate] = useLocation();
+
+  // Refreshed by useRealtimeUpdates when the server pushes a new notification
+  const { data: inbox } = useQuery<NotificationInbox>({
+    queryKey: INBOX_QUERY_KEY,
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (notificationId: number) => {
+      await apiRequest("PATCH", `/api/notifications/${notificationId}`, { read: true });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PATCH", "/api/notifications", { read: true });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY });
+    },
+  });
+
+  const unreadCount = inbox?.unreadCount ?? 0;
+  const notifications = inbox?.notifications ?? [];
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    setOpen(false);
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  const unreadBadge = unreadCount > 0 && (
+    <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] px-1 rounded-full bg-purple-600 text-white text-[10px] font-semibold flex items-center justify-center">
+      {unreadCount > 99 ? "99+" : unreadCount}
+    </span>
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        {label ? (
+          <button className="flex flex-col items-center p-3 text-muted-foreground hover:text-foreground">
+            <span className="relative">
+              <Bell size={20} />
+              {unreadBadge}
+            </span>
+            <span className="text-xs mt-1">{label}</span>
+          </button>
+        ) : (
+          <Button variant="ghost" size="icon" className="relative">
+            <Bell className="h-5 w-5" />
+            {unreadBadge}
+            <span className="sr-only">Notifications</span>
+          </Button>
+        )}
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h3 className="text-sm font-semibold">Notifications</h3>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs text-purple-700"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              <CheckCheck className="h-3 w-3 mr-1" /> Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">
+            You're all caught up
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <button
+                key={notification.id}
+                onClick={() => handleSelect(notification)}
+                className={cn(
+                  "w-full text-left px-4 py-3 border-b last:border-b-0 hover:bg-purple-50",
+                  !notification.readAt && "bg-purple-50/60"
+                )}
+              >
+                <div className="flex items-start gap-2">
+                  {!notification.readAt && (
+                    <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-purple-600" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{notification.title}</p>
+                    <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+                    <p className="text-[11px] text-muted-foreground mt-1">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -14,10 +14,12 @@ import {
   LogOut,
   Settings,
   Mail,
+  Users,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
+import { getThumbnailUrl } from "@shared/media";
 
 interface SidebarProps {
   className?: string;
@@ -58,6 +60,11 @@ export function Sidebar({ className }: SidebarProps) {
           label: "Private Invitations",
           icon: <Mail size={18} />,
         },
+        {
+          path: "/restaurant/influencers",
+          label: "Find Influencers",
+          icon: <Users size={18} />,
+        },
         {
           path: "/restaurant/analytics",
           label: "Analytics",
@@ -121,7 +128,7 @@ export function Sidebar({ className }: SidebarProps) {
         <div className="flex items-center space-x-3 mb-6">
           <Avatar className="h-10 w-10 bg-muted">
             {user.profilePicture ? (
-              <AvatarImage src={user.profilePicture} alt={user.name} />
+              <AvatarImage src={getThumbnailUrl(user.profilePicture)} alt={user.name} />
             ) : (
               <AvatarFallback>
                 {userInitials}
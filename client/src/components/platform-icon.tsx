@@ -0,0 +1,21 @@
+import { SiInstagram, SiTiktok, SiYoutubeshorts } from "react-icons/si";
+import type { IconType } from "react-icons";
+import { SocialPlatform } from "@shared/schema";
+import { SUBMISSION_PLATFORM_LABELS } from "@shared/post-links";
+
+const PLATFORM_ICONS: Record<SocialPlatform, IconType> = {
+  instagram: SiInstagram,
+  tiktok: SiTiktok,
+  youtube: SiYoutubeshorts,
+};
+
+const PLATFORM_COLORS: Record<SocialPlatform, string> = {
+  instagram: "text-pink-600",
+  tiktok: "text-slate-900",
+  youtube: "text-red-600",
+};
+
+export function PlatformIcon({ platform, className = "h-4 w-4" }: { platform: SocialPlatform; className?: string }) {
+  const Icon = PLATFORM_ICONS[platform];
+  return <Icon className={`${PLATFORM_COLORS[platform]} ${className}`} title={SUBMISSION_PLATFORM_LABELS[platform]} />;
+}
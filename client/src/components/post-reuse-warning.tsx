@@ -0,0 +1,29 @@
+import { format } from "date-fns";
+import { Copy } from "lucide-react";
+import { PostReuse } from "@shared/schema";
+import { POST_REUSE_LABELS } from "@shared/post-links";
+
+// Other submissions of the same post, so reviewers can catch a post being
+// paid for twice. Renders nothing when the post hasn't been reused.
+export function PostReuseWarning({ reuse }: { reuse?: PostReuse[] }) {
+  if (!reuse || reuse.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 p-2 text-xs text-amber-800">
+      <p className="flex items-center font-medium mb-1">
+        <Copy className="h-3.5 w-3.5 mr-1" />
+        This post was submitted {reuse.length + 1} times
+      </p>
+      <ul className="list-disc pl-5 space-y-0.5">
+        {reuse.map((entry, index) => (
+          <li key={index}>
+            {POST_REUSE_LABELS[entry.kind]}
+            {entry.title && <> ("{entry.title}")</>}
+            {!entry.sameInfluencer && " by a different influencer"}
+            {" "}on {format(new Date(entry.submittedAt), "MMM d, yyyy")}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { type PrivateInvitation } from "@shared/schema";
 import {
   Card,
@@ -24,6 +25,8 @@ import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { ContentBriefView } from "@/components/content-brief";
+import { describeReward } from "@shared/reward-rules";
 import { 
   Dialog,
   DialogContent, 
@@ -85,7 +88,7 @@ export function PrivateInvitationCard({
   // Update invitation status mutations
   const updateStatusMutation = useMutation({
     mutationFn: async (status: "accepted" | "declined") => {
-      const res = await apiRequest("PATCH", `/api/private-invitations/${invitation.id}`, {
+      const res = await apiRequest("PUT", `/api/private-invitations/${invitation.id}/status`, {
         status,
       });
       if (!res.ok) throw new Error(`Failed to ${status} invitation`);
@@ -214,6 +217,14 @@ export function PrivateInvitationCard({
           <CardDescription className="line-clamp-2">
             {invitation.description}
           </CardDescription>
+          {isRestaurantView && (
+            <Link
+              href={`/influencers/${invitation.influencerId}`}
+              className="text-sm font-medium text-purple-700 hover:underline"
+            >
+              View influencer profile
+            </Link>
+          )}
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
@@ -299,6 +310,17 @@ export function PrivateInvitationCard({
               </div>
             </div>
 
+            {invitation.rewardRules.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium">Extra Rewards</h4>
+                {describeReward(invitation).slice(1).map((line) => (
+                  <p key={line} className="text-sm text-muted-foreground">{line}</p>
+                ))}
+              </div>
+            )}
+
+            <ContentBriefView brief={invitation.brief} />
+
             {isRestaurantView && (
               <div>
                 <h4 className="text-sm font-medium">Invitation Code</h4>
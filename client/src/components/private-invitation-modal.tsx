@@ -5,7 +5,7 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { insertPrivateInvitationSchema } from "@shared/schema";
 import { useAuth } from "@/hooks/use-auth";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, uploadImage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -39,7 +39,9 @@ import { CalendarIcon, Loader2 } from "lucide-react";
 import { format } from "date-fns";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { cn } from "@/lib/utils";
+import { cn, nestedErrorMessages } from "@/lib/utils";
+import { ContentBriefFields } from "@/components/content-brief";
+import { RewardPreview, RewardRulesFields } from "@/components/reward-rules";
 
 // Create a form schema for private invitations
 const formSchema = insertPrivateInvitationSchema.extend({
@@ -53,9 +55,11 @@ type FormValues = z.infer<typeof formSchema>;
 interface PrivateInvitationModalProps {
   isOpen: boolean;
   onClose: () => void;
+  // Preselects the influencer, e.g. when inviting from the directory
+  defaultInfluencerId?: number;
 }
 
-export function PrivateInvitationModal({ isOpen, onClose }: PrivateInvitationModalProps) {
+export function PrivateInvitationModal({ isOpen, onClose, defaultInfluencerId }: PrivateInvitationModalProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const [uploadTab, setUploadTab] = useState<"url" | "file">("url");
@@ -64,13 +68,8 @@ export function PrivateInvitationModal({ isOpen, onClose }: PrivateInvitationMod
   const [isUploading, setIsUploading] = useState(false);
 
   // Get list of influencers for dropdown
-  const { data: influencers, isLoading: isLoadingInfluencers } = useQuery({
+  const { data: influencers, isLoading: isLoadingInfluencers } = useQuery<{ id: number; name: string; email: string }[]>({
     queryKey: ["/api/users/influencers"],
-    queryFn: async () => {
-      const res = await fetch("/api/users/influencers");
-      if (!res.ok) throw new Error("Failed to fetch influencers");
-      return await res.json();
-    },
     enabled: isOpen && !!user,
   });
 
@@ -85,6 +84,8 @@ export function PrivateInvitationModal({ isOpen, onClose }: PrivateInvitationMod
       influencerId: 0,
       rewardAmount: 50,
       rewardViews: 10000,
+      rewardRules: [],
+      brief: {},
       expiresAt: null,
     },
   });
@@ -96,6 +97,12 @@ export function PrivateInvitationModal({ isOpen, onClose }: PrivateInvitationMod
     }
   }, [user, form]);
 
+  useEffect(() => {
+    if (isOpen && defaultInfluencerId) {
+      form.setValue("influencerId", defaultInfluencerId);
+    }
+  }, [isOpen, defaultInfluencerId, form]);
+
   // Reset form when modal is closed
   useEffect(() => {
     if (!isOpen) {
@@ -122,39 +129,17 @@ export function PrivateInvitationModal({ isOpen, onClose }: PrivateInvitationMod
     }
   };
 
-  // Handle image upload
-  const uploadImage = async (file: File): Promise<string> => {
-    setIsUploading(true);
-    
-    try {
-      // Create FormData with the image file
-      const formData = new FormData();
-      formData.append('image', file);
-      
-      // Send the file to our API endpoint
-      const response = await fetch('/api/upload', {
-        method: 'POST',
-        body: formData,
-      });
-      
-      if (!response.ok) {
-        throw new Error('Image upload failed');
-      }
-      
-      const result = await response.json();
-      return result.url;
-    } finally {
-      setIsUploading(false);
-    }
-  };
-
   // Create mutation for submitting form
   const createMutation = useMutation({
     mutationFn: async (data: FormValues) => {
       // If there's an image file, upload it first
       if (imageFile) {
-        const imageUrl = await uploadImage(imageFile);
-        data.imageUrl = imageUrl;
+        setIsUploading(true);
+        try {
+          data.imageUrl = (await uploadImage(imageFile)).url;
+        } finally {
+          setIsUploading(false);
+        }
       }
       
       const res = await apiRequest("POST", "/api/private-invitations", data);
@@ -184,6 +169,10 @@ export function PrivateInvitationModal({ isOpen, onClose }: PrivateInvitationMod
   };
 
   const isPending = form.formState.isSubmitting || createMutation.isPending || isUploading;
+  const rewardTerms = {
+    rewardAmount: Number(form.watch("rewardAmount")),
+    rewardViews: Number(form.watch("rewardViews")),
+  };
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -216,8 +205,8 @@ export function PrivateInvitationModal({ isOpen, onClose }: PrivateInvitationMod
                             <Loader2 className="h-4 w-4 animate-spin" />
                             <span className="ml-2">Loading influencers...</span>
                           </div>
-                        ) : influencers?.length > 0 ? (
-                          influencers.map((influencer: any) => (
+                        ) : influencers && influencers.length > 0 ? (
+                          influencers.map((influencer) => (
                             <SelectItem key={influencer.id} value={influencer.id.toString()}>
                               {influencer.name}
                             </SelectItem>
@@ -339,6 +328,33 @@ export function PrivateInvitationModal({ isOpen, onClose }: PrivateInvitationMod
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="rewardRules"
+              render={({ field }) => (
+                <RewardRulesFields
+                  value={field.value ?? []}
+                  onChange={field.onChange}
+                  terms={rewardTerms}
+                  errors={nestedErrorMessages(form.formState.errors.rewardRules)}
+                />
+              )}
+            />
+
+            <RewardPreview terms={{ ...rewardTerms, rewardRules: form.watch("rewardRules") }} />
+
+            <FormField
+              control={form.control}
+              name="brief"
+              render={({ field }) => (
+                <ContentBriefFields
+                  value={field.value ?? {}}
+                  onChange={field.onChange}
+                  errors={nestedErrorMessages(form.formState.errors.brief)}
+                />
+              )}
+            />
+
             <div>
               <FormLabel>Campaign Image (Optional)</FormLabel>
               <Tabs value={uploadTab} onValueChange={(value) => setUploadTab(value as "url" | "file")} className="mt-2">
@@ -0,0 +1,207 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { REWARD_RULE_TYPES, RewardRule, RewardRuleType, rewardRulesSchema } from "@shared/schema";
+import { REWARD_RULE_LABELS, RewardTerms, calculateReward } from "@shared/reward-rules";
+
+// Rules a campaign can only have one of; milestones can repeat
+const SINGLE_USE: RewardRuleType[] = ["flat_fee", "view_tiers", "engagement"];
+
+const NEW_RULES: Record<RewardRuleType, (terms: RewardTerms) => RewardRule> = {
+  flat_fee: () => ({ type: "flat_fee", amount: 25 }),
+  view_tiers: (terms) => ({
+    type: "view_tiers",
+    tiers: [{ fromViews: 10000, rewardAmount: terms.rewardAmount, rewardViews: terms.rewardViews }],
+  }),
+  milestone: () => ({ type: "milestone", views: 100000, bonus: 50 }),
+  engagement: () => ({ type: "engagement", rewardAmount: 1, rewardLikes: 100 }),
+};
+
+function NumberField({
+  label,
+  value,
+  onChange,
+  step = 1,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  step?: number;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-muted-foreground">{label}</Label>
+      <Input
+        type="number"
+        min={0}
+        step={step}
+        value={Number.isNaN(value) ? "" : value}
+        onChange={(e) => onChange(e.target.valueAsNumber)}
+      />
+    </div>
+  );
+}
+
+function RuleEditor({ rule, onChange }: { rule: RewardRule; onChange: (rule: RewardRule) => void }) {
+  switch (rule.type) {
+    case "flat_fee":
+      return <NumberField label="Paid on approval ($)" step={0.01} value={rule.amount} onChange={(amount) => onChange({ ...rule, amount })} />;
+    case "milestone":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField label="At views" step={1000} value={rule.views} onChange={(views) => onChange({ ...rule, views })} />
+          <NumberField label="Bonus ($)" step={0.01} value={rule.bonus} onChange={(bonus) => onChange({ ...rule, bonus })} />
+        </div>
+      );
+    case "engagement":
+      return (
+        <div className="grid grid-cols-2 gap-2">
+          <NumberField label="Amount ($)" step={0.01} value={rule.rewardAmount} onChange={(rewardAmount) => onChange({ ...rule, rewardAmount })} />
+          <NumberField label="Per likes" value={rule.rewardLikes} onChange={(rewardLikes) => onChange({ ...rule, rewardLikes })} />
+        </div>
+      );
+    case "view_tiers": {
+      const setTier = (index: number, update: Partial<(typeof rule.tiers)[number]>) =>
+        onChange({ ...rule, tiers: rule.tiers.map((tier, i) => (i === index ? { ...tier, ...update } : tier)) });
+      const lastTier = rule.tiers[rule.tiers.length - 1];
+
+      return (
+        <div className="space-y-2">
+          {rule.tiers.map((tier, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_1fr_auto] items-end gap-2">
+              <NumberField label="Above views" step={1000} value={tier.fromViews} onChange={(fromViews) => setTier(index, { fromViews })} />
+              <NumberField label="Amount ($)" step={0.01} value={tier.rewardAmount} onChange={(rewardAmount) => setTier(index, { rewardAmount })} />
+              <NumberField label="Per views" step={100} value={tier.rewardViews} onChange={(rewardViews) => setTier(index, { rewardViews })} />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                disabled={rule.tiers.length === 1}
+                onClick={() => onChange({ ...rule, tiers: rule.tiers.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          {rule.tiers.length < 10 && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ ...rule, tiers: [...rule.tiers, { ...lastTier, fromViews: (lastTier?.fromViews || 0) * 5 }] })}
+            >
+              <Plus className="h-3.5 w-3.5 mr-1" /> Add tier
+            </Button>
+          )}
+        </div>
+      );
+    }
+  }
+}
+
+interface RewardRulesFieldsProps {
+  value: RewardRule[];
+  onChange: (rules: RewardRule[]) => void;
+  // Base rate, used to seed new view tiers
+  terms: RewardTerms;
+  errors?: string[];
+}
+
+// Reward rule editor shared by the campaign and private invitation forms
+export function RewardRulesFields({ value, onChange, terms, errors = [] }: RewardRulesFieldsProps) {
+  const available = REWARD_RULE_TYPES.filter(
+    (type) => !SINGLE_USE.includes(type) || !value.some((rule) => rule.type === type)
+  );
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label>Extra Rewards <span className="text-muted-foreground text-sm">(Optional)</span></Label>
+        <p className="text-sm text-muted-foreground">Paid on top of the base rate above</p>
+      </div>
+
+      {value.map((rule, index) => (
+        <div key={index} className="space-y-2 rounded-md border border-slate-200 p-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">{REWARD_RULE_LABELS[rule.type]}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <RuleEditor rule={rule} onChange={(next) => onChange(value.map((r, i) => (i === index ? next : r)))} />
+        </div>
+      ))}
+
+      {available.length > 0 && value.length < 20 && (
+        <Select value="" onValueChange={(type) => onChange([...value, NEW_RULES[type as RewardRuleType](terms)])}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Add a reward rule" />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((type) => (
+              <SelectItem key={type} value={type}>{REWARD_RULE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+
+      {errors.map((message) => (
+        <p key={message} className="text-sm font-medium text-destructive">{message}</p>
+      ))}
+    </div>
+  );
+}
+
+// What a post would earn under the terms, for sample metrics the restaurant picks
+export function RewardPreview({ terms, maxPayout }: { terms: RewardTerms; maxPayout?: number | null }) {
+  const [views, setViews] = useState(50000);
+  const [likes, setLikes] = useState(2000);
+
+  const rules = rewardRulesSchema.safeParse(terms.rewardRules ?? []);
+  const breakdown = rules.success && terms.rewardAmount > 0 && terms.rewardViews > 0
+    ? calculateReward({ ...terms, rewardRules: rules.data }, { views: views || 0, likes: likes || 0 })
+    : null;
+
+  return (
+    <div className="space-y-3 rounded-md bg-slate-50 p-3">
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label="Preview views" step={1000} value={views} onChange={setViews} />
+        <NumberField label="Preview likes" step={100} value={likes} onChange={setLikes} />
+      </div>
+
+      {breakdown ? (
+        <div className="space-y-1 text-sm">
+          {breakdown.lines.filter((line) => line.amount > 0).map((line, index) => (
+            <div key={index} className="flex justify-between text-slate-600">
+              <span>{line.label}</span>
+              <span>${line.amount.toFixed(2)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between border-t pt-1 font-medium text-slate-800">
+            <span>Influencer earns</span>
+            <span>${breakdown.total.toFixed(2)}</span>
+          </div>
+          {maxPayout != null && breakdown.total > maxPayout && (
+            <p className="text-xs text-amber-700">Capped at the ${maxPayout} max payout per influencer</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Complete the base rate and reward rules to preview earnings</p>
+      )}
+    </div>
+  );
+}
@@ -1,18 +1,35 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Eye, DollarSign, ThumbsUp, MessageSquare } from "lucide-react";
-import { Submission } from "@shared/schema";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Eye, DollarSign, ThumbsUp, MessageSquare, MessagesSquare, XCircle } from "lucide-react";
+import { ContentBrief, PostReuse, Submission, SubmissionReview } from "@shared/schema";
+import { hasContentBrief } from "@shared/content-brief";
+import { PLATFORM_METRIC_LABELS } from "@shared/post-links";
+import { REJECTION_REASON_LABELS, SUBMISSION_STATUS_LABELS } from "@shared/submission-review";
+import { ComplianceSummary } from "@/components/content-brief";
+import { PostReuseWarning } from "@/components/post-reuse-warning";
+import { PlatformIcon } from "@/components/platform-icon";
+import { SubmissionRevisionForm, SubmissionThread } from "@/components/submission-thread";
+import { SubmissionReviewDialog } from "@/components/submission-review-dialog";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useTeamPermissions } from "@/hooks/use-team-permissions";
 import { useState } from "react";
+import { Link } from "wouter";
 // Alert dialog imports removed as they're no longer needed
 
 interface SubmissionCardProps {
-  submission: Submission;
+  // Restaurant listings include other submissions of the same post
+  submission: Submission & { postReuse?: PostReuse[] };
   campaignTitle: string;
   influencerName?: string;
   restaurantView?: boolean;
+  // The campaign's brief; the caption check is only shown when there is one
+  brief?: ContentBrief;
+  // Shows a checkbox for picking the submission for a bulk review
+  selected?: boolean;
+  onSelectedChange?: (selected: boolean) => void;
 }
 
 export function SubmissionCard({
@@ -20,24 +37,36 @@ export function SubmissionCard({
   campaignTitle,
   influencerName,
   restaurantView = false,
+  brief,
+  selected = false,
+  onSelectedChange,
 }: SubmissionCardProps) {
   const { toast } = useToast();
+  const { can } = useTeamPermissions();
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [reviewDecision, setReviewDecision] = useState<"changes_requested" | "rejected" | null>(null);
+  // Influencers asked for changes need the restaurant's message up front
+  const [showThread, setShowThread] = useState(!restaurantView && submission.status === "changes_requested");
+  const metricLabels = PLATFORM_METRIC_LABELS[submission.platform];
+  const basePath = `/api/submissions/${submission.id}`;
 
   const statusColors = {
     pending: "bg-gradient-to-r from-yellow-100 to-yellow-50 text-yellow-800 border-yellow-200",
+    changes_requested: "bg-gradient-to-r from-orange-100 to-orange-50 text-orange-800 border-orange-200",
     approved: "bg-gradient-to-r from-green-100 to-green-50 text-green-800 border-green-200",
     rejected: "bg-gradient-to-r from-red-100 to-red-50 text-red-800 border-red-200",
   };
 
-  const handleStatusUpdate = async (status: "approved" | "rejected") => {
+  const handleStatusUpdate = async (review: SubmissionReview) => {
     try {
       setIsUpdatingStatus(true);
-      await apiRequest("PUT", `/api/submissions/${submission.id}/status`, { status });
+      await apiRequest("PUT", `${basePath}/status`, review);
       queryClient.invalidateQueries({ queryKey: ["/api/submissions"] });
+      queryClient.invalidateQueries({ queryKey: [`${basePath}/comments`] });
+      setReviewDecision(null);
       toast({
         title: "Status updated",
-        description: `Submission ${status} successfully`,
+        description: `Submission marked ${SUBMISSION_STATUS_LABELS[review.status].toLowerCase()}`,
       });
     } catch (error) {
       toast({
@@ -56,14 +85,22 @@ export function SubmissionCard({
     <Card className="hover:shadow-md transition-all duration-200 border-slate-200 hover:border-purple-200">
       <CardContent className="p-4">
         <div className="flex items-center justify-between mb-3">
-          <h3 className="font-semibold bg-gradient-to-r from-purple-800 to-purple-600 text-transparent bg-clip-text">{campaignTitle}</h3>
+          {onSelectedChange && (
+            <Checkbox
+              checked={selected}
+              onCheckedChange={(checked) => onSelectedChange(checked === true)}
+              className="mr-2"
+              aria-label="Select submission"
+            />
+          )}
+          <h3 className="flex-1 font-semibold bg-gradient-to-r from-purple-800 to-purple-600 text-transparent bg-clip-text">{campaignTitle}</h3>
           <Badge
             variant="outline"
             className={`px-2 py-1 rounded-full text-xs font-medium ${
               statusColors[submission.status as keyof typeof statusColors]
             }`}
           >
-            {submission.status.charAt(0).toUpperCase() + submission.status.slice(1)}
+            {SUBMISSION_STATUS_LABELS[submission.status]}
           </Badge>
         </div>
 
@@ -78,30 +115,24 @@ export function SubmissionCard({
           </div>
         )}
 
-        <div className="flex items-center mb-3 p-2 bg-gradient-to-r from-purple-50 to-transparent rounded-md border border-purple-100">
-          <svg 
-            xmlns="http://www.w3.org/2000/svg" 
-            width="20" 
-            height="20" 
-            viewBox="0 0 24 24" 
-            fill="none" 
-            stroke="currentColor" 
-            strokeWidth="2" 
-            strokeLinecap="round" 
-            strokeLinejoin="round" 
-            className="text-pink-600 mr-2"
+        {restaurantView && (
+          <Link
+            href={`/influencers/${submission.influencerId}`}
+            className="inline-block mb-3 text-sm font-medium text-purple-700 hover:underline"
           >
-            <rect width="20" height="20" x="2" y="2" rx="5" ry="5" />
-            <path d="M16 11.37A4 4 0 1 1 12.63 8 4 4 0 0 1 16 11.37z" />
-            <line x1="17.5" x2="17.51" y1="6.5" y2="6.5" />
-          </svg>
+            View influencer profile
+          </Link>
+        )}
+
+        <div className="flex items-center mb-3 p-2 bg-gradient-to-r from-purple-50 to-transparent rounded-md border border-purple-100">
+          <PlatformIcon platform={submission.platform} className="h-5 w-5 mr-2 shrink-0" />
           <a
-            href={submission.instagramUrl}
+            href={submission.postUrl}
             target="_blank"
             rel="noopener noreferrer"
             className="text-sm text-purple-700 hover:text-purple-900 hover:underline truncate flex-1"
           >
-            {submission.instagramUrl}
+            {submission.postUrl}
           </a>
         </div>
 
@@ -114,17 +145,40 @@ export function SubmissionCard({
           </div>
         )}
 
+        {submission.status === "rejected" && submission.rejectionReason && (
+          <p className="flex items-center mb-3 text-sm text-red-700">
+            <XCircle className="h-4 w-4 mr-1.5 shrink-0" />
+            {REJECTION_REASON_LABELS[submission.rejectionReason]}
+          </p>
+        )}
+
+        {submission.caption && (
+          <p className="mb-3 text-sm text-slate-600 line-clamp-3 whitespace-pre-line">{submission.caption}</p>
+        )}
+
+        {hasContentBrief(brief) && (
+          <div className="mb-3">
+            <ComplianceSummary issues={submission.complianceIssues} />
+          </div>
+        )}
+
+        {restaurantView && submission.postReuse && submission.postReuse.length > 0 && (
+          <div className="mb-3">
+            <PostReuseWarning reuse={submission.postReuse} />
+          </div>
+        )}
+
         <div className="flex flex-wrap gap-3 mb-4">
           <div className="bg-gradient-to-r from-purple-50 to-transparent rounded-full px-3 py-1 flex items-center">
             <Eye className="h-4 w-4 mr-1.5 text-purple-600" /> 
             <span className="text-sm font-medium text-purple-800">{submission.views.toLocaleString()}</span>
-            <span className="text-xs text-purple-600 ml-1">views</span>
+            <span className="text-xs text-purple-600 ml-1">{metricLabels.views}</span>
           </div>
           
           <div className="bg-gradient-to-r from-violet-50 to-transparent rounded-full px-3 py-1 flex items-center">
             <ThumbsUp className="h-4 w-4 mr-1.5 text-violet-600" /> 
             <span className="text-sm font-medium text-violet-800">{(submission.likes || 0).toLocaleString()}</span>
-            <span className="text-xs text-violet-600 ml-1">likes</span>
+            <span className="text-xs text-violet-600 ml-1">{metricLabels.likes}</span>
           </div>
           
           {submission.earnings > 0 && (
@@ -136,29 +190,30 @@ export function SubmissionCard({
           )}
         </div>
 
-        {restaurantView && submission.status === "pending" && (
+        {restaurantView && can("review_submissions") && submission.status === "pending" && (
           <div className="flex space-x-2">
             <Button
               size="sm"
               variant="outline"
               className="w-full text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200"
-              onClick={() => handleStatusUpdate("rejected")}
+              onClick={() => setReviewDecision("rejected")}
               disabled={isUpdatingStatus}
             >
-              {isUpdatingStatus ? (
-                <>
-                  <svg className="animate-spin -ml-1 mr-1 h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Rejecting...
-                </>
-              ) : "Reject"}
+              Reject
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="w-full text-orange-700 hover:text-orange-800 hover:bg-orange-50 border-orange-200"
+              onClick={() => setReviewDecision("changes_requested")}
+              disabled={isUpdatingStatus}
+            >
+              Request Changes
             </Button>
             <Button
               size="sm"
               className="w-full bg-gradient-to-r from-green-600 to-green-500 hover:from-green-700 hover:to-green-600 text-white shadow-sm"
-              onClick={() => handleStatusUpdate("approved")}
+              onClick={() => handleStatusUpdate({ status: "approved" })}
               disabled={isUpdatingStatus}
             >
               {isUpdatingStatus ? (
@@ -174,6 +229,38 @@ export function SubmissionCard({
           </div>
         )}
 
+        {!restaurantView && submission.status === "changes_requested" && (
+          <div className="mt-4">
+            <SubmissionRevisionForm basePath={basePath} invalidateKey="/api/submissions" />
+          </div>
+        )}
+
+        <div className="mt-3">
+          <Button
+            size="sm"
+            variant="ghost"
+            className="px-2 text-slate-600"
+            onClick={() => setShowThread(!showThread)}
+          >
+            <MessagesSquare className="h-4 w-4 mr-1.5" />
+            {showThread ? "Hide conversation" : "Conversation"}
+          </Button>
+          {showThread && (
+            <div className="mt-2">
+              <SubmissionThread basePath={basePath} canComment={!restaurantView || can("review_submissions")} />
+            </div>
+          )}
+        </div>
+
+        {reviewDecision && (
+          <SubmissionReviewDialog
+            decision={reviewDecision}
+            isPending={isUpdatingStatus}
+            onConfirm={handleStatusUpdate}
+            onClose={() => setReviewDecision(null)}
+          />
+        )}
+
         {/* Removed restaurant's ability to update engagement metrics - only admins can update now */}
       </CardContent>
     </Card>
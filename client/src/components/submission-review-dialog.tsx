@@ -0,0 +1,105 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { REJECTION_REASONS, RejectionReason, SubmissionReview } from "@shared/schema";
+import { REJECTION_REASON_LABELS } from "@shared/submission-review";
+import { Loader2 } from "lucide-react";
+
+interface SubmissionReviewDialogProps {
+  // Asking for changes needs a message; rejecting needs a reason
+  decision: "changes_requested" | "rejected";
+  // How many submissions the decision applies to, for bulk reviews
+  count?: number;
+  isPending: boolean;
+  onConfirm: (review: SubmissionReview) => void;
+  onClose: () => void;
+}
+
+export function SubmissionReviewDialog({
+  decision,
+  count = 1,
+  isPending,
+  onConfirm,
+  onClose,
+}: SubmissionReviewDialogProps) {
+  const [message, setMessage] = useState("");
+  const [reason, setReason] = useState<RejectionReason | "">("");
+  const isRejection = decision === "rejected";
+  const noun = count === 1 ? "Submission" : `${count} Submissions`;
+
+  const confirm = () => {
+    if (isRejection) {
+      if (!reason) return;
+      onConfirm({ status: "rejected", reason, message: message.trim() || undefined });
+    } else {
+      onConfirm({ status: "changes_requested", message });
+    }
+  };
+
+  const canConfirm = isRejection ? reason !== "" : message.trim() !== "";
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isRejection ? `Reject ${noun}` : `Request Changes${count === 1 ? "" : ` on ${noun}`}`}</DialogTitle>
+          <DialogDescription>
+            {isRejection
+              ? "The influencer will see the reason you pick and any note you add."
+              : "Tell the influencer what to change. They can resubmit a revised post."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {isRejection && (
+            <Select value={reason} onValueChange={(value) => setReason(value as RejectionReason)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {REJECTION_REASONS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {REJECTION_REASON_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder={isRejection ? "Add a note (optional)" : "What needs to change?"}
+            maxLength={2000}
+          />
+        </div>
+
+        <DialogFooter className="pt-2">
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button
+            variant={isRejection ? "destructive" : "default"}
+            onClick={confirm}
+            disabled={!canConfirm || isPending}
+          >
+            {isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {isRejection ? "Reject" : "Request Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
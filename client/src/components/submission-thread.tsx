@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SubmissionCommentEntry } from "@shared/schema";
+import { parsePostUrl } from "@shared/post-links";
+import { SUBMISSION_COMMENT_EVENT_LABELS } from "@shared/submission-review";
+import { Link2, Loader2, Send } from "lucide-react";
+
+interface SubmissionThreadProps {
+  // The submission's API path, like /api/submissions/12 or /api/private-submissions/12
+  basePath: string;
+  canComment: boolean;
+}
+
+// The conversation between the restaurant and the influencer on one
+// submission, including change requests, rejections and resubmitted links
+export function SubmissionThread({ basePath, canComment }: SubmissionThreadProps) {
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const { data: thread, isLoading } = useQuery<SubmissionCommentEntry[]>({
+    queryKey: [`${basePath}/comments`],
+  });
+
+  const commentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${basePath}/comments`, { body });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`${basePath}/comments`] });
+      setBody("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't post comment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      {isLoading ? (
+        <div className="flex justify-center py-2">
+          <Loader2 className="h-4 w-4 animate-spin text-primary" />
+        </div>
+      ) : thread && thread.length > 0 ? (
+        <ul className="space-y-2">
+          {thread.map((entry) => (
+            <li key={entry.id} className="rounded-md bg-slate-50 border border-slate-100 p-2">
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium text-slate-700">{entry.authorName}</span>
+                {entry.event !== "comment" && <> · {SUBMISSION_COMMENT_EVENT_LABELS[entry.event]}</>}
+                {" "}· {format(new Date(entry.createdAt), "MMM d, h:mm a")}
+              </p>
+              {entry.body && <p className="text-sm text-slate-700 whitespace-pre-line">{entry.body}</p>}
+              {entry.previousPostUrl && (
+                <p className="text-xs text-muted-foreground truncate">
+                  Replaced{" "}
+                  <a href={entry.previousPostUrl} target="_blank" rel="noopener noreferrer" className="underline">
+                    {entry.previousPostUrl}
+                  </a>
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No comments yet</p>
+      )}
+
+      {canComment && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            commentMutation.mutate();
+          }}
+        >
+          <Textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder="Write a comment"
+            className="min-h-[40px]"
+            maxLength={2000}
+          />
+          <Button type="submit" size="sm" variant="outline" disabled={!body.trim() || commentMutation.isPending}>
+            {commentMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            <span className="sr-only">Send comment</span>
+          </Button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+interface SubmissionRevisionFormProps {
+  basePath: string;
+  // Query keys listing the submission, refreshed once it's resubmitted
+  invalidateKey: string;
+}
+
+// Lets the influencer swap in a revised post after the restaurant asks for
+// changes. The old link stays in the thread.
+export function SubmissionRevisionForm({ basePath, invalidateKey }: SubmissionRevisionFormProps) {
+  const { toast } = useToast();
+  const [postUrl, setPostUrl] = useState("");
+  const [caption, setCaption] = useState("");
+  const [message, setMessage] = useState("");
+  const linkCheck = postUrl.trim() ? parsePostUrl(postUrl) : null;
+
+  const resubmitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `${basePath}/resubmit`, {
+        postUrl,
+        caption: caption.trim() || undefined,
+        message: message.trim() || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [invalidateKey] });
+      queryClient.invalidateQueries({ queryKey: [`${basePath}/comments`] });
+      toast({ title: "Resubmitted", description: "The restaurant will review your revised post" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't resubmit",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <form
+      className="space-y-2 rounded-md border border-orange-200 bg-orange-50 p-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        resubmitMutation.mutate();
+      }}
+    >
+      <label htmlFor={`${basePath}-revision`} className="flex items-center text-sm font-medium text-orange-900">
+        <Link2 className="h-4 w-4 mr-1" />
+        Link to your revised post
+      </label>
+      <Input
+        id={`${basePath}-revision`}
+        value={postUrl}
+        onChange={(e) => setPostUrl(e.target.value)}
+        placeholder="https://www.instagram.com/reel/ABC123/"
+      />
+      {linkCheck && !linkCheck.ok && <p className="text-xs text-red-600">{linkCheck.message}</p>}
+      <Textarea
+        value={caption}
+        onChange={(e) => setCaption(e.target.value)}
+        placeholder="Caption (optional)"
+        maxLength={2200}
+      />
+      <Textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        placeholder="What did you change? (optional)"
+        maxLength={2000}
+      />
+      <Button type="submit" size="sm" className="w-full" disabled={!linkCheck?.ok || resubmitMutation.isPending}>
+        {resubmitMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Resubmit
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useTeamPermissions } from "@/hooks/use-team-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  INVITABLE_ORGANIZATION_ROLES,
+  OrganizationActivityEntry,
+  TeamInvite,
+  TeamMember,
+} from "@shared/schema";
+import {
+  ORGANIZATION_ACTIVITY_LABELS,
+  ORGANIZATION_ROLE_DESCRIPTIONS,
+  ORGANIZATION_ROLE_LABELS,
+} from "@shared/team-roles";
+import { Loader2, Mail, Trash, UserPlus } from "lucide-react";
+
+type InvitableRole = (typeof INVITABLE_ORGANIZATION_ROLES)[number];
+
+function RoleSelect({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: InvitableRole;
+  onChange: (role: InvitableRole) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <Select value={value} onValueChange={(role) => onChange(role as InvitableRole)} disabled={disabled}>
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {INVITABLE_ORGANIZATION_ROLES.map((role) => (
+          <SelectItem key={role} value={role}>
+            {ORGANIZATION_ROLE_LABELS[role]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function InviteForm() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<InvitableRole>("reviewer");
+
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/team/invites", { email, role });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team/invites"] });
+      toast({ title: "Invite sent", description: `We've emailed a link to ${email}` });
+      setEmail("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send invite",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <form
+      className="space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        inviteMutation.mutate();
+      }}
+    >
+      <label htmlFor="invite-email" className="text-sm font-medium">Invite a Team Member</label>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          id="invite-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="colleague@example.com"
+        />
+        <RoleSelect value={role} onChange={setRole} />
+        <Button type="submit" variant="outline" disabled={!email.trim() || inviteMutation.isPending}>
+          {inviteMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+          Invite
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground">{ORGANIZATION_ROLE_DESCRIPTIONS[role]}</p>
+    </form>
+  );
+}
+
+function PendingInvites() {
+  const { toast } = useToast();
+  const { data: invites } = useQuery<TeamInvite[]>({
+    queryKey: ["/api/team/invites"],
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (inviteId: number) => {
+      await apiRequest("DELETE", `/api/team/invites/${inviteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team/invites"] });
+      toast({ title: "Invite revoked" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't revoke invite",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!invites || invites.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">Pending Invites</h3>
+      <ul className="divide-y divide-slate-100">
+        {invites.map((invite) => {
+          const isExpired = new Date(invite.expiresAt).getTime() <= Date.now();
+          return (
+            <li key={invite.id} className="flex items-center justify-between py-2">
+              <div className="flex items-center min-w-0">
+                <Mail className="h-4 w-4 mr-2 text-purple-600 shrink-0" />
+                <span className="truncate text-sm text-slate-800">{invite.email}</span>
+                <Badge variant="outline" className="ml-2">{ORGANIZATION_ROLE_LABELS[invite.role]}</Badge>
+                {isExpired && <Badge variant="outline" className="ml-2 text-red-700 border-red-200">Expired</Badge>}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-red-600 hover:text-red-700"
+                onClick={() => revokeMutation.mutate(invite.id)}
+                disabled={revokeMutation.isPending}
+              >
+                <Trash className="h-4 w-4" />
+                <span className="sr-only">Revoke invite</span>
+              </Button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function ActivityLog() {
+  const { data: activity, isLoading } = useQuery<OrganizationActivityEntry[]>({
+    queryKey: ["/api/team/activity"],
+  });
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">Recent Activity</h3>
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : activity && activity.length > 0 ? (
+        <ul className="divide-y divide-slate-100">
+          {activity.map((entry) => (
+            <li key={entry.id} className="py-2">
+              <p className="text-sm text-slate-800">
+                <span className="font-medium">{entry.actorName}</span> · {entry.summary}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {ORGANIZATION_ACTIVITY_LABELS[entry.action]} · {format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+              </p>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Campaign and submission actions your team takes will show up here
+        </p>
+      )}
+    </div>
+  );
+}
+
+// The restaurant's team: members and their roles, invites and an activity log
+export function TeamManager() {
+  const { toast } = useToast();
+  const { can } = useTeamPermissions();
+  const canManageTeam = can("manage_team");
+
+  const { data: members, isLoading } = useQuery<TeamMember[]>({
+    queryKey: ["/api/team/members"],
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ memberId, role }: { memberId: number; role: InvitableRole }) => {
+      const res = await apiRequest("PUT", `/api/team/members/${memberId}`, { role });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team/members"] });
+      toast({ title: "Role updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't change role",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (memberId: number) => {
+      await apiRequest("DELETE", `/api/team/members/${memberId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/team/members"] });
+      toast({ title: "Team member removed" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't remove team member",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {members?.map((member) => (
+            <li key={member.id} className="flex items-center justify-between gap-2 py-3">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-800 truncate">{member.name}</p>
+                <p className="text-sm text-muted-foreground truncate">{member.email}</p>
+              </div>
+              {member.role === "owner" || !canManageTeam ? (
+                <Badge variant="outline">{ORGANIZATION_ROLE_LABELS[member.role]}</Badge>
+              ) : (
+                <div className="flex items-center gap-1">
+                  <RoleSelect
+                    value={member.role}
+                    onChange={(role) => roleMutation.mutate({ memberId: member.id, role })}
+                    disabled={roleMutation.isPending}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => removeMutation.mutate(member.id)}
+                    disabled={removeMutation.isPending}
+                  >
+                    <Trash className="h-4 w-4" />
+                    <span className="sr-only">Remove team member</span>
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canManageTeam && (
+        <>
+          <InviteForm />
+          <PendingInvites />
+        </>
+      )}
+
+      <ActivityLog />
+    </div>
+  );
+}
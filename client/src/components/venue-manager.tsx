@@ -0,0 +1,501 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useTeamPermissions } from "@/hooks/use-team-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { nestedErrorMessages } from "@/lib/utils";
+import {
+  CAMPAIGN_CUISINES,
+  Organization,
+  Venue,
+  VenueHours,
+  VenueInput,
+  WEEKDAYS,
+  Weekday,
+  venueInputSchema,
+} from "@shared/schema";
+import { CAMPAIGN_CUISINE_LABELS } from "@shared/campaign-taxonomy";
+import { Clock, Edit2, Loader2, MapPin, Plus, Trash } from "lucide-react";
+
+const EMPTY_VENUE: VenueInput = { name: "", address: "", city: "", state: "", zipCode: "", hours: {}, cuisine: null };
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: "Mon",
+  tue: "Tue",
+  wed: "Wed",
+  thu: "Thu",
+  fri: "Fri",
+  sat: "Sat",
+  sun: "Sun",
+};
+
+// "Mon–Fri 11:00–22:00, Sat 10:00–23:00"; consecutive days with the same
+// hours are grouped
+function formatVenueHours(hours: VenueHours): string {
+  const groups: { from: Weekday; to: Weekday; time: string }[] = [];
+  WEEKDAYS.forEach((day, index) => {
+    const dayHours = hours[day];
+    if (!dayHours) return;
+    const time = `${dayHours.opens}–${dayHours.closes}`;
+    const last = groups[groups.length - 1];
+    if (last && last.time === time && WEEKDAYS.indexOf(last.to) === index - 1) {
+      last.to = day;
+    } else {
+      groups.push({ from: day, to: day, time });
+    }
+  });
+
+  return groups
+    .map(({ from, to, time }) =>
+      `${WEEKDAY_LABELS[from]}${from === to ? "" : `–${WEEKDAY_LABELS[to]}`} ${time}`
+    )
+    .join(", ");
+}
+
+function HoursFields({
+  value,
+  onChange,
+  errors,
+}: {
+  value: VenueHours;
+  onChange: (hours: VenueHours) => void;
+  errors: string[];
+}) {
+  const setDay = (day: Weekday, dayHours: VenueHours[Weekday]) => {
+    const next = { ...value };
+    if (dayHours) {
+      next[day] = dayHours;
+    } else {
+      delete next[day];
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {WEEKDAYS.map((day) => {
+        const dayHours = value[day];
+        return (
+          <div key={day} className="grid grid-cols-[4.5rem_1fr_1fr] items-center gap-2">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={!!dayHours}
+                onCheckedChange={(open) => setDay(day, open ? { opens: "11:00", closes: "22:00" } : undefined)}
+              />
+              {WEEKDAY_LABELS[day]}
+            </label>
+            {dayHours ? (
+              <>
+                <Input
+                  type="time"
+                  value={dayHours.opens}
+                  onChange={(e) => setDay(day, { ...dayHours, opens: e.target.value })}
+                />
+                <Input
+                  type="time"
+                  value={dayHours.closes}
+                  onChange={(e) => setDay(day, { ...dayHours, closes: e.target.value })}
+                />
+              </>
+            ) : (
+              <span className="col-span-2 text-sm text-muted-foreground">Closed</span>
+            )}
+          </div>
+        );
+      })}
+      {errors.map((message) => (
+        <p key={message} className="text-sm font-medium text-destructive">{message}</p>
+      ))}
+    </div>
+  );
+}
+
+function VenueDialog({
+  venue,
+  isOpen,
+  onClose,
+}: {
+  venue?: Venue;
+  isOpen: boolean;
+  onClose: () => void;
+}) {
+  const { toast } = useToast();
+  const form = useForm<VenueInput>({
+    resolver: zodResolver(venueInputSchema),
+    values: venue
+      ? {
+          name: venue.name,
+          address: venue.address,
+          city: venue.city,
+          state: venue.state ?? "",
+          zipCode: venue.zipCode ?? "",
+          hours: venue.hours ?? {},
+          cuisine: venue.cuisine,
+        }
+      : EMPTY_VENUE,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: VenueInput) => {
+      const res = venue
+        ? await apiRequest("PUT", `/api/venues/${venue.id}`, data)
+        : await apiRequest("POST", "/api/venues", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/venues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/campaigns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/organization/analytics"] });
+      toast({
+        title: venue ? "Venue updated" : "Venue added",
+        description: "Campaigns at this venue can now be found by nearby influencers",
+      });
+      form.reset(EMPTY_VENUE);
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't save venue",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{venue ? "Edit Venue" : "Add Venue"}</DialogTitle>
+          <DialogDescription>
+            The address is looked up on a map so influencers can search for campaigns near them
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            onSubmit={(e) => {
+              // Keep the submit from bubbling into the settings page forms
+              e.stopPropagation();
+              form.handleSubmit((data) => saveMutation.mutate(data))(e);
+            }}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Venue Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Downtown location" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Street Address</FormLabel>
+                  <FormControl>
+                    <Input placeholder="123 Main St" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="city"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>City</FormLabel>
+                    <FormControl>
+                      <Input placeholder="City" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="state"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>State</FormLabel>
+                    <FormControl>
+                      <Input placeholder="State" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="zipCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Zip Code</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Zip" {...field} value={field.value ?? ""} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="cuisine"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cuisine <span className="text-muted-foreground text-sm">(Optional)</span></FormLabel>
+                  <Select
+                    value={field.value ?? "none"}
+                    onValueChange={(value) => field.onChange(value === "none" ? null : value)}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a cuisine" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">Not specified</SelectItem>
+                      {CAMPAIGN_CUISINES.map((cuisine) => (
+                        <SelectItem key={cuisine} value={cuisine}>{CAMPAIGN_CUISINE_LABELS[cuisine]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="hours"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Opening Hours</FormLabel>
+                  <HoursFields
+                    value={field.value ?? {}}
+                    onChange={field.onChange}
+                    errors={nestedErrorMessages(form.formState.errors.hours)}
+                  />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={onClose} disabled={saveMutation.isPending}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : venue ? "Save Venue" : "Add Venue"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// The restaurant group's name, shown above its venues
+export function OrganizationNameForm() {
+  const { toast } = useToast();
+  const { can } = useTeamPermissions();
+  const [name, setName] = useState("");
+
+  const { data: organization } = useQuery<Organization>({
+    queryKey: ["/api/organization"],
+  });
+
+  useEffect(() => {
+    if (organization) setName(organization.name);
+  }, [organization]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", "/api/organization", { name });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/organization"] });
+      toast({ title: "Organization updated" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't save organization",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <label htmlFor="organization-name" className="text-sm font-medium">Organization Name</label>
+      <div className="flex gap-2">
+        <Input
+          id="organization-name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Jones Burger Group"
+          disabled={!can("manage_organization")}
+        />
+        {can("manage_organization") && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => saveMutation.mutate()}
+            disabled={!organization || saveMutation.isPending || name.trim() === organization.name}
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Groups all of your venues; the dashboard reports results per venue and for the whole organization
+      </p>
+    </div>
+  );
+}
+
+// Lists the restaurant's registered venues with add, edit and delete actions
+export function VenueManager() {
+  const { toast } = useToast();
+  const { can } = useTeamPermissions();
+  const [editingVenue, setEditingVenue] = useState<Venue | undefined>(undefined);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const { data: venues, isLoading } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (venueId: number) => {
+      await apiRequest("DELETE", `/api/venues/${venueId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/venues"] });
+      toast({ title: "Venue removed" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't remove venue",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (venue?: Venue) => {
+    setEditingVenue(venue);
+    setIsDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : venues && venues.length > 0 ? (
+        <ul className="divide-y divide-slate-100">
+          {venues.map((venue) => (
+            <li key={venue.id} className="flex items-center justify-between py-3">
+              <div className="flex items-start min-w-0">
+                <MapPin className="h-4 w-4 mr-2 mt-1 text-purple-600 shrink-0" />
+                <div className="min-w-0">
+                  <p className="font-medium text-slate-800 truncate">{venue.name}</p>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {[venue.address, venue.city, venue.state, venue.zipCode].filter(Boolean).join(", ")}
+                  </p>
+                  {(venue.cuisine || Object.keys(venue.hours ?? {}).length > 0) && (
+                    <p className="flex items-center text-xs text-muted-foreground truncate">
+                      <Clock className="h-3 w-3 mr-1 shrink-0" />
+                      {[venue.cuisine && CAMPAIGN_CUISINE_LABELS[venue.cuisine], formatVenueHours(venue.hours ?? {}) || "Hours not set"]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  )}
+                </div>
+              </div>
+              {can("manage_organization") && (
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => openDialog(venue)}>
+                    <Edit2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => deleteMutation.mutate(venue.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No venues yet. Add one to give your campaigns a location influencers can search by.
+        </p>
+      )}
+
+      {can("manage_organization") && (
+        <Button type="button" variant="outline" onClick={() => openDialog()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Venue
+        </Button>
+      )}
+
+      <VenueDialog
+        venue={editingVenue}
+        isOpen={isDialogOpen}
+        onClose={() => setIsDialogOpen(false)}
+      />
+    </div>
+  );
+}
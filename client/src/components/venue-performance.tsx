@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, MapPin } from "lucide-react";
+import { OrganizationAnalytics, PerformanceSummary } from "@shared/schema";
+
+function PerformanceCells({ performance }: { performance: PerformanceSummary }) {
+  return (
+    <>
+      <TableCell className="text-right">
+        {performance.campaigns}
+        {performance.activeCampaigns > 0 && (
+          <span className="text-xs text-muted-foreground"> ({performance.activeCampaigns} active)</span>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        {performance.submissions}
+        <span className="text-xs text-muted-foreground"> ({performance.approvedSubmissions} approved)</span>
+      </TableCell>
+      <TableCell className="text-right">{performance.views.toLocaleString()}</TableCell>
+      <TableCell className="text-right">{performance.likes.toLocaleString()}</TableCell>
+      <TableCell className="text-right">${performance.spent.toFixed(2)}</TableCell>
+    </>
+  );
+}
+
+// Campaign results per venue with the organization's total underneath
+export function VenuePerformance() {
+  const { data: analytics, isLoading } = useQuery<OrganizationAnalytics>({
+    queryKey: ["/api/organization/analytics"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!analytics || analytics.venues.length === 0) {
+    return (
+      <p className="text-center py-6 text-sm text-muted-foreground">
+        Add venues in Settings to see results for each location
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Table>
+        <TableHeader className="bg-purple-50">
+          <TableRow>
+            <TableHead>Venue</TableHead>
+            <TableHead className="text-right">Campaigns</TableHead>
+            <TableHead className="text-right">Submissions</TableHead>
+            <TableHead className="text-right">Views</TableHead>
+            <TableHead className="text-right">Likes</TableHead>
+            <TableHead className="text-right">Spent</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {analytics.venues.map(({ venue, performance }) => (
+            <TableRow key={venue.id}>
+              <TableCell>
+                <div className="flex items-center font-medium text-slate-800">
+                  <MapPin className="h-3.5 w-3.5 mr-1 text-purple-600 shrink-0" />
+                  {venue.name}
+                </div>
+                <div className="text-xs text-muted-foreground">{venue.city}</div>
+              </TableCell>
+              <PerformanceCells performance={performance} />
+            </TableRow>
+          ))}
+          {analytics.unassigned.campaigns > 0 && (
+            <TableRow>
+              <TableCell className="text-muted-foreground">No venue</TableCell>
+              <PerformanceCells performance={analytics.unassigned} />
+            </TableRow>
+          )}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell className="font-semibold">{analytics.organization.name}</TableCell>
+            <PerformanceCells performance={analytics.totals} />
+          </TableRow>
+        </TableFooter>
+      </Table>
+      <p className="text-xs text-muted-foreground">
+        Campaigns running at several venues count toward each of them, so venue rows can add up to more than the total
+      </p>
+    </div>
+  );
+}
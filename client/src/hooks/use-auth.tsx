@@ -86,19 +86,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
-      // Clear both auth and test tokens from localStorage
-      localStorage.removeItem("authToken");
-      localStorage.removeItem("testToken");
-      localStorage.removeItem("userData");
-      console.log("Cleared all auth tokens from localStorage");
-      
       try {
-        // Also attempt to log out from session-based auth
+        // Log out on the server first so the token in the header gets revoked
         await apiRequest("POST", "/api/logout");
       } catch (error) {
         // Ignore errors from logout API call
         console.log("Session logout API error (ignoring):", error);
       }
+
+      localStorage.removeItem("authToken");
+      localStorage.removeItem("userData");
+      console.log("Cleared all auth tokens from localStorage");
     },
     onSuccess: () => {
       queryClient.setQueryData(["/api/user"], null);
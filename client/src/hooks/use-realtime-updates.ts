@@ -0,0 +1,91 @@
+import { useEffect } from "react";
+import { useAuth } from "@/hooks/use-auth";
+import { getStoredAuthToken, queryClient } from "@/lib/queryClient";
+import { RealtimeEvent } from "@shared/schema";
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+// Queries whose data can change when a submission is created, reviewed or
+// gets new metrics
+const SUBMISSION_QUERY_PREFIXES = [
+  "/api/submissions",
+  "/api/campaigns",
+  "/api/stats",
+  "/api/organization/analytics",
+  "/api/team/activity",
+  "/api/private-invitations",
+  "/api/private-submissions",
+  "/api/admin/submissions",
+  "/api/admin/private-submissions",
+  "/api/admin/campaigns",
+  "/api/earnings",
+];
+
+function invalidateForEvent(event: RealtimeEvent) {
+  if (event.type === "notification_created") {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    return;
+  }
+
+  queryClient.invalidateQueries({
+    predicate: (query) => {
+      const key = query.queryKey[0];
+      return typeof key === "string" && SUBMISSION_QUERY_PREFIXES.some((prefix) => key.startsWith(prefix));
+    },
+  });
+}
+
+function getRealtimeUrl() {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const token = getStoredAuthToken();
+  const query = token ? `?token=${encodeURIComponent(token)}` : "";
+  return `${protocol}//${window.location.host}/ws${query}`;
+}
+
+// Keeps a WebSocket open while signed in and refreshes the affected
+// TanStack Query caches whenever the server pushes an event
+export function useRealtimeUpdates() {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let stopped = false;
+
+    const connect = () => {
+      socket = new WebSocket(getRealtimeUrl());
+
+      socket.onopen = () => {
+        attempts = 0;
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          invalidateForEvent(JSON.parse(message.data) as RealtimeEvent);
+        } catch (error) {
+          console.error("Invalid realtime message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (stopped) return;
+        // Back off between reconnects: 1s, 2s, 4s ... up to 30s
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [userId]);
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import { TeamMembership } from "@shared/schema";
+import { roleHasPermission, type TeamPermission } from "@shared/team-roles";
+
+// What the signed-in user's team role lets them do, for hiding actions the
+// server would refuse. Admins may do everything.
+export function useTeamPermissions() {
+  const { user } = useAuth();
+  const { data: membership } = useQuery<TeamMembership>({
+    // The user id keeps one account's role from outliving a switch of login
+    queryKey: ["/api/team/membership", user?.id],
+    enabled: user?.role === "restaurant",
+  });
+
+  const can = (permission: TeamPermission) => {
+    if (user?.role === "admin") return true;
+    return !!membership && roleHasPermission(membership.role, permission);
+  };
+
+  return { membership, can };
+}
@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { UploadedMedia } from "@shared/schema";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -19,17 +20,8 @@ export async function apiRequest(
   
   // Add auth token if available
   const authToken = localStorage.getItem("authToken");
-  const testToken = localStorage.getItem("testToken");
-  
-  // Try the primary token first
   if (authToken) {
     headers["x-auth-token"] = authToken;
-    console.log("Adding auth token to POST request:", authToken);
-  } 
-  // Fallback to the test token if no primary token exists
-  else if (testToken) {
-    headers["x-auth-token"] = testToken;
-    console.log("Adding TEST token to POST request:", testToken);
   }
   
   const res = await fetch(url, {
@@ -43,6 +35,28 @@ export async function apiRequest(
   return res;
 }
 
+// Uploads an image as multipart form data; the browser sets the Content-Type
+export async function uploadImage(file: File): Promise<UploadedMedia> {
+  const formData = new FormData();
+  formData.append("image", file);
+
+  const headers: Record<string, string> = {};
+  const authToken = localStorage.getItem("authToken");
+  if (authToken) {
+    headers["x-auth-token"] = authToken;
+  }
+
+  const res = await fetch("/api/upload", {
+    method: "POST",
+    headers,
+    body: formData,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return await res.json();
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -52,17 +66,8 @@ export const getQueryFn: <T>(options: {
     // Include auth token if available
     const headers: Record<string, string> = {};
     const authToken = localStorage.getItem("authToken");
-    const testToken = localStorage.getItem("testToken");
-    
-    // Try the primary token first
     if (authToken) {
       headers["x-auth-token"] = authToken;
-      console.log("Adding auth token to GET request:", authToken);
-    } 
-    // Fallback to the test token if no primary token exists
-    else if (testToken) {
-      headers["x-auth-token"] = testToken;
-      console.log("Adding TEST token to GET request:", testToken);
     }
     
     const res = await fetch(queryKey[0] as string, {
@@ -70,6 +75,11 @@ export const getQueryFn: <T>(options: {
       credentials: "include",
     });
 
+    // An expired or revoked token will never work again, so drop it
+    if (res.status === 401 && authToken) {
+      clearTokens();
+    }
+
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
     }
@@ -103,40 +113,17 @@ export function getStoredAuthToken(): string | null {
   return localStorage.getItem("authToken");
 }
 
-export function setTestToken(token: string) {
-  localStorage.setItem("testToken", token);
-  console.log("Test token stored:", token);
-}
-
 export function clearTokens() {
   localStorage.removeItem("authToken");
-  localStorage.removeItem("testToken");
   console.log("Auth tokens cleared");
 }
 
-// For quick testing, set a default token based on the role
-export function setDefaultToken(role: "admin" | "restaurant" | "influencer" = "admin") {
-  const tokens = {
-    admin: "test-token-123456",
-    restaurant: "test-restaurant-token",
-    influencer: "test-influencer-token"
-  };
-  
-  // Clear any existing tokens first
-  clearTokens();
-  
-  // Set the test token for the specified role
-  setTestToken(tokens[role]);
-  console.log(`Default ${role} token set:`, tokens[role]);
-}
-
-// Initialize default token if one doesn't exist already
-// This ensures we always have some form of auth during development
+// Tokens are issued by the server (see /api/auth/token), so there is nothing to
+// seed here - just make sure we don't hold on to an empty value
 export function initializeAuthToken() {
-  const existingToken = localStorage.getItem("authToken") || localStorage.getItem("testToken");
+  const existingToken = localStorage.getItem("authToken");
   if (!existingToken) {
     console.log("No auth token found, redirecting to login");
-    // Don't set any token by default - let the user choose which role to log in as
     clearTokens();
   }
 }
@@ -3,4 +3,13 @@ import { twMerge } from "tailwind-merge"
  
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+
+// Flattens react-hook-form's nested errors for a field edited as a whole
+// (an object or array) into a list of messages
+export function nestedErrorMessages(error: unknown): string[] {
+  if (!error || typeof error !== "object") return []
+  const { message, ref, type, ...nested } = error as Record<string, unknown>
+  const own = typeof message === "string" ? [message] : []
+  return [...own, ...Object.values(nested).flatMap(nestedErrorMessages)]
+}
@@ -6,11 +6,12 @@ import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useQuery } from "@tanstack/react-query";
-import { CircleCheckBig, Database, Loader2, LogOut, ListFilter, MessageSquare } from "lucide-react";
+import { CircleCheckBig, Database, Loader2, LogOut, ListFilter, MessageSquare, Wallet } from "lucide-react";
 import { useState } from "react";
 import { useLocation } from "wouter";
 import { PerformanceUpdateModal } from "@/components/admin/performance-update-modal";
 import { SubmissionTable } from "@/components/admin/submission-table";
+import { PayoutRuns } from "@/components/admin/payout-runs";
 import { Submission, PrivateSubmission, Campaign } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
 
@@ -184,7 +185,7 @@ export default function AdminDashboard() {
           </div>
           
           <Tabs defaultValue="campaigns" className="w-full">
-            <TabsList className="grid grid-cols-3 w-full max-w-md mx-auto mb-6">
+            <TabsList className="grid grid-cols-4 w-full max-w-xl mx-auto mb-6">
               <TabsTrigger value="campaigns" className="flex items-center">
                 <ListFilter className="h-4 w-4 mr-2" />
                 All Campaigns
@@ -197,6 +198,10 @@ export default function AdminDashboard() {
                 <CircleCheckBig className="h-4 w-4 mr-2" />
                 Private Submissions
               </TabsTrigger>
+              <TabsTrigger value="payouts" className="flex items-center">
+                <Wallet className="h-4 w-4 mr-2" />
+                Payouts
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="campaigns" className="space-y-4">
@@ -287,6 +292,10 @@ export default function AdminDashboard() {
                 />
               )}
             </TabsContent>
+
+            <TabsContent value="payouts" className="space-y-4">
+              <PayoutRuns />
+            </TabsContent>
           </Tabs>
         </div>
       </main>
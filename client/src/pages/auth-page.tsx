@@ -95,97 +95,50 @@ export default function AuthPage() {
   };
 
   // Make emergency login a manual process with role selection 
+  // (the server only enables this in development with ENABLE_DEV_AUTH_BYPASS)
   const handleEmergencyLogin = async (role?: string) => {
     // Set the manually logged in flag when emergency login is started
     setHasManuallyLoggedIn(true);
     try {
       console.log("Attempting emergency login...");
-      // First, clear any previous tokens to avoid conflicts
+      // First, clear any previous token to avoid conflicts
       localStorage.removeItem("authToken");
-      localStorage.removeItem("testToken");
       
       // Default to admin if no role specified
       const roleParam = role || "admin";
       
-      // Map of tokens to use for emergency login
-      const emergencyTokens = {
-        admin: "test-token-123456",
-        restaurant: "test-restaurant-token",
-        influencer: "test-influencer-token",
-        restaurant2: "test-restaurant2-token"
-      };
+      const response = await fetch(`/api/emergency-login?role=${roleParam}`);
       
-      // If we have a predefined token for this role, set it directly
-      const token = emergencyTokens[roleParam as keyof typeof emergencyTokens];
-      
-      if (token) {
-        // Store both types of tokens for maximum compatibility
-        localStorage.setItem("authToken", token);
-        localStorage.setItem("testToken", token);
+      if (response.ok) {
+        const data = await response.json();
+        console.log("Emergency login successful:", data.user);
         
-        // Call the emergency login endpoint to get the user data
-        const response = await fetch(`/api/emergency-login?role=${roleParam}`);
+        // Store the issued token in localStorage
+        localStorage.setItem("authToken", data.token);
         
-        if (response.ok) {
-          const data = await response.json();
-          console.log("Emergency login successful:", data);
+        // Manually set the user data
+        if (data.user) {
+          queryClient.setQueryData(["/api/user"], data.user);
+          queryClient.invalidateQueries({ queryKey: ["/api/user"] });
           
-          // Manually set the user data
-          if (data.user) {
-            queryClient.setQueryData(["/api/user"], data.user);
-            queryClient.invalidateQueries({ queryKey: ["/api/user"] });
-            
-            toast({
-              title: "EMERGENCY AUTH ACTIVATED",
-              description: `Logged in as ${data.user.name} (${data.user.role})`,
-              variant: "default",
-            });
-            
-            // Redirect to home page as we're now authenticated
-            navigate("/");
-          }
-        } else {
-          console.error("Emergency login failed:", await response.text());
           toast({
-            title: "Emergency login failed",
-            description: "Please try a regular login",
-            variant: "destructive",
+            title: "EMERGENCY AUTH ACTIVATED",
+            description: `Logged in as ${data.user.name} (${data.user.role})`,
+            variant: "default",
           });
-        }
-      } else {
-        // Fallback to API-based emergency login if no predefined token
-        const response = await fetch(`/api/emergency-login?role=${roleParam}`);
-        
-        if (response.ok) {
-          const data = await response.json();
-          console.log("Emergency login successful:", data);
           
-          // Store the token in localStorage
-          localStorage.setItem("authToken", data.token);
-          localStorage.setItem("testToken", data.token);
-          
-          // Manually set the user data
-          if (data.user) {
-            queryClient.setQueryData(["/api/user"], data.user);
-            queryClient.invalidateQueries({ queryKey: ["/api/user"] });
-            
-            toast({
-              title: "EMERGENCY AUTH ACTIVATED",
-              description: `Logged in as ${data.user.name} (${data.user.role})`,
-              variant: "default",
-            });
-            
-            // Redirect to home page as we're now authenticated
-            navigate("/");
-          }
-        } else {
-          console.error("Emergency login failed:", await response.text());
-          toast({
-            title: "Emergency login failed",
-            description: "Please try a regular login",
-            variant: "destructive",
-          });
+          // Redirect to home page as we're now authenticated
+          navigate("/");
         }
+      } else {
+        console.error("Emergency login failed:", await response.text());
+        toast({
+          title: "Emergency login failed",
+          description: response.status === 404
+            ? "Emergency login is disabled on this server"
+            : "Please try a regular login",
+          variant: "destructive",
+        });
       }
     } catch (error) {
       console.error("Error in emergency login:", error);
@@ -207,7 +160,6 @@ export default function AuthPage() {
     // When this component mounts, ensure we have no auth tokens
     // This prevents the auth page from redirecting immediately
     localStorage.removeItem("authToken");
-    localStorage.removeItem("testToken");
     console.log("Auth tokens cleared on auth page load");
     
     // Only redirect after a successful manual login
@@ -248,7 +200,16 @@ export default function AuthPage() {
                   </div>
 
                   <div className="space-y-2">
-                    <Label htmlFor="password">Password</Label>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="password">Password</Label>
+                      <button
+                        type="button"
+                        onClick={() => navigate("/reset-password")}
+                        className="text-xs text-purple-700 hover:text-purple-900"
+                      >
+                        Forgot password?
+                      </button>
+                    </div>
                     <Input
                       id="password"
                       type="password"
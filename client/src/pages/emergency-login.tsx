@@ -24,21 +24,13 @@ export default function EmergencyLogin() {
     if (user) {
       setLocation("/");
     }
-    
-    // Clear existing tokens from localStorage
-    localStorage.removeItem("auth_token");
-    
-    // Set default admin token
-    console.log("Set default admin token");
-    setTestToken("test-token-123456");
   }, [user, setLocation]);
   
   const handleLogin = async () => {
     try {
       if (emergency) {
-        // Use the emergency token mechanism
-        // Add the token to localStorage
-        localStorage.setItem("auth_token", testToken);
+        // Use a personal access token pasted by the user
+        localStorage.setItem("authToken", testToken);
         
         // Force a page reload to ensure the token is picked up by auth hooks
         window.location.href = "/";
@@ -46,6 +38,9 @@ export default function EmergencyLogin() {
         // Use the emergency login endpoint
         const response = await fetch(`/api/emergency-login?role=${role}`);
         
+        if (response.status === 404) {
+          throw new Error("Emergency login is disabled on this server");
+        }
         if (!response.ok) {
           throw new Error(`Error: ${response.status} ${response.statusText}`);
         }
@@ -54,8 +49,8 @@ export default function EmergencyLogin() {
         
         if (data.token) {
           // Store the token
-          localStorage.setItem("auth_token", data.token);
-          setMessage(`Success! Using token: ${data.token} for user ${data.user.username}`);
+          localStorage.setItem("authToken", data.token);
+          setMessage(`Success! Logged in as ${data.user.username}`);
           
           // Force a page reload to ensure the token is picked up by auth hooks
           setTimeout(() => {
@@ -73,25 +68,13 @@ export default function EmergencyLogin() {
     }
   };
   
-  // Cleanup tokens on unmount
-  useEffect(() => {
-    console.log("Auth tokens cleared on auth page load");
-    return () => {
-      // Cleanup function, called when the component unmounts
-      if (!emergency) {
-        console.log("Auth tokens cleared");
-        localStorage.removeItem("auth_token");
-      }
-    };
-  }, [emergency]);
-  
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-purple-800 to-purple-900 p-4">
       <Card className="w-full max-w-md mx-auto shadow-xl">
         <CardHeader>
           <CardTitle className="text-2xl font-bold">Emergency Login</CardTitle>
           <CardDescription>
-            Use this page to bypass normal authentication for testing.
+            Sign in with a personal access token, or as a seeded test account when the server has dev auth bypass enabled.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -117,7 +100,7 @@ export default function EmergencyLogin() {
             
             <div className="space-y-2">
               <div className="flex items-center justify-between">
-                <Label htmlFor="testToken">Auth Token</Label>
+                <Label htmlFor="testToken">Personal Access Token</Label>
                 <span className="text-xs text-gray-500">
                   <button 
                     onClick={() => setEmergency(!emergency)}
@@ -136,7 +119,7 @@ export default function EmergencyLogin() {
               />
               <div className="text-xs text-gray-600">
                 {emergency 
-                  ? "This token will be used as auth_token in localStorage" 
+                  ? "This token will be sent in the x-auth-token header" 
                   : "Token will be fetched from the emergency login endpoint"
                 }
               </div>
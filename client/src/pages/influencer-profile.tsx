@@ -0,0 +1,238 @@
+import { useState } from "react";
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Header } from "@/components/layout/header";
+import { MobileNav } from "@/components/layout/mobile-nav";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PrivateInvitationModal } from "@/components/private-invitation-modal";
+import { PlatformIcon } from "@/components/platform-icon";
+import { useAuth } from "@/hooks/use-auth";
+import { PublicInfluencerProfile } from "@shared/schema";
+import { INFLUENCER_NICHE_LABELS, formatFollowerCount } from "@shared/influencer-directory";
+import { ExternalLink, Eye, Heart, Loader2, MapPin, Send } from "lucide-react";
+
+const PLATFORMS = [
+  { key: "instagram", label: "Instagram", url: (handle: string) => `https://instagram.com/${handle}` },
+  { key: "tiktok", label: "TikTok", url: (handle: string) => `https://www.tiktok.com/@${handle}` },
+  { key: "youtube", label: "YouTube", url: (handle: string) => `https://www.youtube.com/@${handle}` },
+] as const;
+
+export default function InfluencerProfilePage() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+
+  const { data: influencer, isLoading, isError } = useQuery<PublicInfluencerProfile>({
+    queryKey: [`/api/influencers/${id}`],
+  });
+
+  const canInvite = user?.role === "restaurant" || user?.role === "admin";
+
+  return (
+    <div className="flex flex-col md:flex-row min-h-screen bg-slate-50">
+      <Sidebar className="hidden md:flex" />
+
+      <div className="flex-1 flex flex-col overflow-hidden pb-16 md:pb-0">
+        <Header title={influencer?.name ?? "Influencer Profile"} />
+
+        <main className="flex-1 overflow-auto p-4 md:p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <Loader2 size={30} className="animate-spin text-primary" />
+            </div>
+          ) : isError || !influencer ? (
+            <div className="text-center py-12 text-red-500">
+              This influencer profile could not be loaded.
+            </div>
+          ) : (
+            <div className="max-w-4xl mx-auto space-y-6">
+              <Card>
+                <CardContent className="p-6">
+                  <div className="flex flex-col md:flex-row md:items-center gap-4">
+                    <Avatar className="h-20 w-20">
+                      {influencer.profilePicture ? (
+                        <AvatarImage src={influencer.profilePicture} alt={influencer.name} />
+                      ) : (
+                        <AvatarFallback className="text-2xl">{influencer.name.charAt(0)}</AvatarFallback>
+                      )}
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <h1 className="text-2xl font-bold text-slate-800">{influencer.name}</h1>
+                      <p className="text-muted-foreground">@{influencer.username}</p>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-2 text-sm text-slate-600">
+                        {influencer.profile.city && (
+                          <span className="flex items-center">
+                            <MapPin className="h-4 w-4 mr-1" /> {influencer.profile.city}
+                          </span>
+                        )}
+                        <span>{formatFollowerCount(influencer.profile.followerCount)} total followers</span>
+                        <span>Member since {format(new Date(influencer.memberSince), "MMM yyyy")}</span>
+                      </div>
+                    </div>
+                    {canInvite && (
+                      <Button onClick={() => setIsInviteOpen(true)}>
+                        <Send className="h-4 w-4 mr-2" />
+                        Send Private Invitation
+                      </Button>
+                    )}
+                  </div>
+
+                  {influencer.profile.bio && (
+                    <p className="mt-4 text-slate-700 whitespace-pre-line">{influencer.profile.bio}</p>
+                  )}
+
+                  {influencer.profile.niches.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-4">
+                      {influencer.profile.niches.map((niche) => (
+                        <Badge key={niche} variant="secondary" className="bg-purple-50 text-purple-700">
+                          {INFLUENCER_NICHE_LABELS[niche]}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Platforms</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {PLATFORMS.map((platform) => {
+                      const handle = influencer.profile[`${platform.key}Handle`];
+                      const followers = influencer.profile[`${platform.key}Followers`];
+                      if (!handle) return null;
+                      return (
+                        <div key={platform.key} className="flex items-center justify-between text-sm">
+                          <a
+                            href={platform.url(handle)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center text-purple-700 hover:underline"
+                          >
+                            {platform.label}: @{handle}
+                            <ExternalLink className="h-3 w-3 ml-1" />
+                          </a>
+                          <span className="text-slate-600">{formatFollowerCount(followers)} followers</span>
+                        </div>
+                      );
+                    })}
+                    {PLATFORMS.every((platform) => !influencer.profile[`${platform.key}Handle`]) && (
+                      <p className="text-sm text-muted-foreground">No social accounts added yet</p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">Rate Card</CardTitle>
+                    <CardDescription>Indicative prices for sponsored content</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {influencer.profile.rateCard.length > 0 ? (
+                      <ul className="space-y-2">
+                        {influencer.profile.rateCard.map((item, index) => (
+                          <li key={index} className="flex items-center justify-between text-sm">
+                            <span className="text-slate-700">{item.deliverable}</span>
+                            <span className="font-semibold">${item.price.toFixed(2)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">No rates listed</p>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Portfolio</CardTitle>
+                  <CardDescription>
+                    {influencer.stats.approvedSubmissions} approved post{influencer.stats.approvedSubmissions === 1 ? "" : "s"}
+                    {" · "}
+                    {influencer.stats.totalViews.toLocaleString()} total views
+                    {" · "}
+                    {influencer.stats.averageViews.toLocaleString()} average views
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {influencer.portfolio.length > 0 ? (
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Campaign</TableHead>
+                          <TableHead>Restaurant</TableHead>
+                          <TableHead className="text-right">Views</TableHead>
+                          <TableHead className="text-right">Likes</TableHead>
+                          <TableHead className="text-right">Post</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {influencer.portfolio.map((item) => (
+                          <TableRow key={item.submissionId}>
+                            <TableCell className="font-medium">{item.campaignTitle}</TableCell>
+                            <TableCell>{item.restaurantName}</TableCell>
+                            <TableCell className="text-right">
+                              <span className="inline-flex items-center">
+                                <Eye className="h-3 w-3 mr-1 text-muted-foreground" />
+                                {item.views.toLocaleString()}
+                              </span>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <span className="inline-flex items-center">
+                                <Heart className="h-3 w-3 mr-1 text-muted-foreground" />
+                                {item.likes.toLocaleString()}
+                              </span>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <a
+                                href={item.postUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="inline-flex items-center text-purple-700 hover:underline"
+                              >
+                                <PlatformIcon platform={item.platform} className="h-3 w-3 mr-1" />
+                                View <ExternalLink className="h-3 w-3 ml-1" />
+                              </a>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No approved posts yet</p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </main>
+
+        <MobileNav />
+      </div>
+
+      {influencer && (
+        <PrivateInvitationModal
+          isOpen={isInviteOpen}
+          onClose={() => setIsInviteOpen(false)}
+          defaultInfluencerId={influencer.id}
+        />
+      )}
+    </div>
+  );
+}
@@ -14,86 +14,108 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { CampaignCard } from "@/components/campaign-card";
-import { Campaign, Submission } from "@shared/schema";
-import { Loader2, Search, Filter, Megaphone } from "lucide-react";
-import { Badge } from "@/components/ui/badge";
+import { Campaign, CampaignSort, CAMPAIGN_CUISINES, CAMPAIGN_SORTS, CAMPAIGN_TYPES, DIETARY_TAGS } from "@shared/schema";
+import {
+  CAMPAIGN_CUISINE_LABELS,
+  CAMPAIGN_SORT_LABELS,
+  CAMPAIGN_TYPE_LABELS,
+  DIETARY_TAG_LABELS,
+} from "@shared/campaign-taxonomy";
+import { type Coordinates, SEARCH_RADII, distanceToNearestVenue } from "@shared/geo";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Search, Megaphone, LocateFixed, X } from "lucide-react";
 
-// Categories for campaigns (for filtering)
-const CATEGORIES = [
-  { value: "all", label: "All Categories" },
-  { value: "sustainability", label: "Sustainability" },
-  { value: "local", label: "Local Sourcing" },
-  { value: "community", label: "Community" }
-];
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function BrowseCampaigns() {
+  const [searchInput, setSearchInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState("all");
-  const [sortBy, setSortBy] = useState("highest");
+  const [cuisineFilter, setCuisineFilter] = useState("all");
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [dietaryFilter, setDietaryFilter] = useState("all");
+  const [sortBy, setSortBy] = useState<CampaignSort>("highest_paying");
+  const [origin, setOrigin] = useState<Coordinates | null>(null);
+  const [radius, setRadius] = useState("25");
+  const [isLocating, setIsLocating] = useState(false);
   const [location] = useLocation();
+  const { toast } = useToast();
   
   // Extract highlighted campaign ID from URL if any
   const urlParams = new URLSearchParams(
     location.includes("?") ? location.substring(location.indexOf("?")) : ""
   );
   const highlightCampaignId = urlParams.get("highlight");
+
+  // Only hit the server once the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  // Filtering and sorting happen on the server; the API also returns closed
+  // campaigns the user submitted to, so ask for open ones they qualify for
+  const params = new URLSearchParams({ open: "true", eligible: "true", sort: sortBy });
+  if (searchQuery) params.set("q", searchQuery);
+  if (cuisineFilter !== "all") params.set("cuisine", cuisineFilter);
+  if (typeFilter !== "all") params.set("campaignType", typeFilter);
+  if (dietaryFilter !== "all") params.set("dietary", dietaryFilter);
+  if (origin) {
+    params.set("lat", String(origin.latitude));
+    params.set("lng", String(origin.longitude));
+    if (radius !== "any") params.set("radius", radius);
+  }
+
+  const hasFilters = !!searchQuery || cuisineFilter !== "all" || typeFilter !== "all" || dietaryFilter !== "all" || !!origin;
+
+  const clearLocation = () => {
+    setOrigin(null);
+    if (sortBy === "distance") setSortBy("highest_paying");
+  };
+
+  const clearFilters = () => {
+    setSearchInput("");
+    setSearchQuery("");
+    setCuisineFilter("all");
+    setTypeFilter("all");
+    setDietaryFilter("all");
+    clearLocation();
+  };
+
+  const findNearMe = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Location unavailable",
+        description: "Your browser doesn't support location services",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setOrigin({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+        setSortBy("distance");
+        setIsLocating(false);
+      },
+      () => {
+        setIsLocating(false);
+        toast({
+          title: "Couldn't get your location",
+          description: "Allow location access in your browser to find campaigns near you",
+          variant: "destructive",
+        });
+      }
+    );
+  };
+
+  const getDistance = (campaign: Campaign) =>
+    origin ? distanceToNearestVenue(origin, campaign) ?? undefined : undefined;
   
   const { data: campaigns, isLoading } = useQuery<Campaign[]>({
-    queryKey: ['/api/campaigns'],
-  });
-
-  // Get submissions for current user
-  const { data: submissions } = useQuery<Submission[]>({
-    queryKey: ['/api/submissions'],
+    queryKey: [`/api/campaigns?${params.toString()}`],
   });
 
-  // Filter and sort campaigns
-  const filteredCampaigns = campaigns
-    ? campaigns
-        .filter((campaign) => {
-          // Apply search filter if one exists
-          if (searchQuery &&
-            !campaign.title.toLowerCase().includes(searchQuery.toLowerCase()) &&
-            !campaign.description.toLowerCase().includes(searchQuery.toLowerCase())
-          ) {
-            return false;
-          }
-          
-          // Apply category filter - in a real app this would be based on actual category data
-          if (categoryFilter !== "all") {
-            // This is a simplified category check based on keywords in the title/description
-            if (categoryFilter === "sustainability" && 
-                !(campaign.title.toLowerCase().includes("sustainability") || 
-                  campaign.description.toLowerCase().includes("eco") ||
-                  campaign.description.toLowerCase().includes("sustainable"))) {
-              return false;
-            }
-            if (categoryFilter === "local" && 
-                !(campaign.title.toLowerCase().includes("local") || 
-                  campaign.description.toLowerCase().includes("local") ||
-                  campaign.description.toLowerCase().includes("sourcing"))) {
-              return false;
-            }
-            if (categoryFilter === "community" && 
-                !(campaign.title.toLowerCase().includes("community") || 
-                  campaign.description.toLowerCase().includes("community"))) {
-              return false;
-            }
-          }
-          
-          return true;
-        })
-        .sort((a, b) => {
-          // Apply sorting
-          if (sortBy === "highest") {
-            return b.rewardAmount / b.rewardViews - a.rewardAmount / a.rewardViews;
-          } else if (sortBy === "newest") {
-            return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-          }
-          return 0;
-        })
-    : [];
-    
   // Scroll to highlighted campaign if needed
   useEffect(() => {
     if (highlightCampaignId && !isLoading) {
@@ -130,23 +152,51 @@ export default function BrowseCampaigns() {
                   <Input
                     placeholder="Search campaigns..."
                     className="pl-10"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
                   />
                 </div>
               </div>
               <div className="w-full md:w-40">
-                <Select
-                  value={categoryFilter}
-                  onValueChange={setCategoryFilter}
-                >
+                <Select value={cuisineFilter} onValueChange={setCuisineFilter}>
                   <SelectTrigger>
-                    <SelectValue placeholder="All Categories" />
+                    <SelectValue placeholder="All cuisines" />
                   </SelectTrigger>
                   <SelectContent>
-                    {CATEGORIES.map(category => (
-                      <SelectItem key={category.value} value={category.value}>
-                        {category.label}
+                    <SelectItem value="all">All cuisines</SelectItem>
+                    {CAMPAIGN_CUISINES.map((cuisine) => (
+                      <SelectItem key={cuisine} value={cuisine}>
+                        {CAMPAIGN_CUISINE_LABELS[cuisine]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-full md:w-40">
+                <Select value={typeFilter} onValueChange={setTypeFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All types" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All types</SelectItem>
+                    {CAMPAIGN_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {CAMPAIGN_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-full md:w-40">
+                <Select value={dietaryFilter} onValueChange={setDietaryFilter}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Any dietary" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any dietary</SelectItem>
+                    {DIETARY_TAGS.map((tag) => (
+                      <SelectItem key={tag} value={tag}>
+                        {DIETARY_TAG_LABELS[tag]}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -155,18 +205,56 @@ export default function BrowseCampaigns() {
               <div className="w-full md:w-40">
                 <Select
                   value={sortBy}
-                  onValueChange={setSortBy}
+                  onValueChange={(value) => setSortBy(value as CampaignSort)}
                 >
                   <SelectTrigger>
                     <SelectValue placeholder="Sort by" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="highest">Highest Paying</SelectItem>
-                    <SelectItem value="newest">Newest</SelectItem>
+                    {CAMPAIGN_SORTS.filter((sort) => sort !== "distance" || origin).map((sort) => (
+                      <SelectItem key={sort} value={sort}>
+                        {CAMPAIGN_SORT_LABELS[sort]}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
+            <div className="flex flex-wrap items-center gap-3 mt-3">
+              {origin ? (
+                <>
+                  <Button variant="secondary" size="sm" onClick={clearLocation}>
+                    <LocateFixed className="h-4 w-4 mr-2" />
+                    Near me
+                    <X className="h-3 w-3 ml-2" />
+                  </Button>
+                  <div className="w-40">
+                    <Select value={radius} onValueChange={setRadius}>
+                      <SelectTrigger className="h-9">
+                        <SelectValue placeholder="Distance" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SEARCH_RADII.map((miles) => (
+                          <SelectItem key={miles} value={String(miles)}>
+                            Within {miles} miles
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="any">Any distance</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              ) : (
+                <Button variant="outline" size="sm" onClick={findNearMe} disabled={isLocating}>
+                  {isLocating ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <LocateFixed className="h-4 w-4 mr-2" />
+                  )}
+                  Near me
+                </Button>
+              )}
+            </div>
           </div>
           
           {/* Campaigns Grid */}
@@ -174,13 +262,14 @@ export default function BrowseCampaigns() {
             <div className="flex items-center justify-center h-64">
               <Loader2 size={30} className="animate-spin text-accent" />
             </div>
-          ) : filteredCampaigns.length > 0 ? (
+          ) : campaigns && campaigns.length > 0 ? (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {filteredCampaigns.map((campaign) => (
+              {campaigns.map((campaign) => (
                 <div id={`campaign-${campaign.id}`} key={campaign.id} className="transition-all duration-300">
                   <CampaignCard
                     campaign={campaign}
                     viewType="influencer"
+                    distanceMiles={getDistance(campaign)}
                   />
                 </div>
               ))}
@@ -190,13 +279,13 @@ export default function BrowseCampaigns() {
               <Megaphone className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
               <h3 className="text-lg font-medium text-slate-800 mb-2">No campaigns found</h3>
               <p className="text-muted-foreground mb-4">
-                {campaigns && campaigns.length > 0
+                {hasFilters
                   ? "Try adjusting your filters or search query"
                   : "There are no campaigns available at the moment"}
               </p>
-              {categoryFilter !== "all" && (
-                <Button variant="outline" onClick={() => setCategoryFilter("all")}>
-                  Clear Category Filter
+              {hasFilters && (
+                <Button variant="outline" onClick={clearFilters}>
+                  Clear Filters
                 </Button>
               )}
             </div>
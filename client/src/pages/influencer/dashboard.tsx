@@ -5,6 +5,7 @@ import { MobileNav } from "@/components/layout/mobile-nav";
 import { StatsCard } from "@/components/stats-card";
 import { Loader2, Camera, Eye, DollarSign } from "lucide-react";
 import { Submission, Campaign } from "@shared/schema";
+import { isCampaignAcceptingSubmissions } from "@shared/campaign-lifecycle";
 import { SubmissionCard } from "@/components/submission-card";
 import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -50,7 +51,7 @@ export default function InfluencerDashboard() {
   const recommendedCampaigns = campaigns && submissions
     ? campaigns
         .filter(c => 
-          c.status === "active" && 
+          isCampaignAcceptingSubmissions(c) && 
           !submissions.some(s => s.campaignId === c.id && s.influencerId === user?.id)
         )
         .slice(0, 3)
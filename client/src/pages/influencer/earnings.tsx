@@ -3,8 +3,9 @@ import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
 import { MobileNav } from "@/components/layout/mobile-nav";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Submission, Campaign } from "@shared/schema";
-import { Loader2, DollarSign, TrendingUp, Eye, Camera } from "lucide-react";
+import { Submission, Campaign, LedgerBalance, LedgerEntry, Payout } from "@shared/schema";
+import { Loader2, DollarSign, TrendingUp, Eye, Camera, Wallet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
 import { SubmissionCard } from "@/components/submission-card";
@@ -19,6 +20,18 @@ function formatDate(dateString: string | Date) {
   });
 }
 
+const PAYMENT_METHOD_LABELS: Record<Payout["paymentMethod"], string> = {
+  paypal: "PayPal",
+  bankTransfer: "Bank Transfer",
+  venmo: "Venmo",
+};
+
+const PAYOUT_STATUS_STYLES: Record<Payout["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  paid: "bg-green-100 text-green-800",
+  cancelled: "bg-slate-100 text-slate-600",
+};
+
 export default function Earnings() {
   const { data: submissions, isLoading: isSubmissionsLoading } = useQuery<Submission[]>({
     queryKey: ['/api/submissions'],
@@ -38,7 +51,15 @@ export default function Earnings() {
     queryKey: ['/api/stats'],
   });
 
-  const isLoading = isSubmissionsLoading || isCampaignsLoading || isStatsLoading;
+  const { data: ledger, isLoading: isLedgerLoading } = useQuery<{
+    balance: LedgerBalance;
+    entries: LedgerEntry[];
+    payouts: Payout[];
+  }>({
+    queryKey: ['/api/earnings/ledger'],
+  });
+
+  const isLoading = isSubmissionsLoading || isCampaignsLoading || isStatsLoading || isLedgerLoading;
 
   // Calculate performance metrics
   const approvedSubmissions = submissions?.filter(s => s.status === "approved") || [];
@@ -130,6 +151,102 @@ export default function Earnings() {
                 </Card>
               </div>
               
+              {/* Payout Balances */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between pb-2">
+                    <CardTitle className="text-sm font-medium">Available Balance</CardTitle>
+                    <Wallet className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">${(ledger?.balance.accrued ?? 0).toFixed(2)}</div>
+                    <p className="text-xs text-muted-foreground">Included in the next payout run</p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between pb-2">
+                    <CardTitle className="text-sm font-medium">Pending Payout</CardTitle>
+                    <Wallet className="h-4 w-4 text-muted-foreground" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">${(ledger?.balance.pendingPayout ?? 0).toFixed(2)}</div>
+                    <p className="text-xs text-muted-foreground">Being processed</p>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between pb-2">
+                    <CardTitle className="text-sm font-medium">Total Paid</CardTitle>
+                    <DollarSign className="h-4 w-4 text-green-600" />
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">${(ledger?.balance.paid ?? 0).toFixed(2)}</div>
+                    <p className="text-xs text-muted-foreground">
+                      {ledger?.balance.reversed
+                        ? `$${ledger.balance.reversed.toFixed(2)} reversed after adjustments`
+                        : "Sent to your payout method"}
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              {/* Payout History */}
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Payout History</CardTitle>
+                  <CardDescription>Payments sent to the payout method on your settings page</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {ledger && ledger.payouts.length > 0 ? (
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead>
+                          <tr className="border-b">
+                            <th className="text-left text-sm font-medium text-muted-foreground p-2 pl-0">Date</th>
+                            <th className="text-left text-sm font-medium text-muted-foreground p-2">Method</th>
+                            <th className="text-left text-sm font-medium text-muted-foreground p-2">Status</th>
+                            <th className="text-right text-sm font-medium text-muted-foreground p-2 pr-0">Amount</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {ledger.payouts.map(payout => (
+                            <tr key={payout.id} className="border-b">
+                              <td className="text-sm p-2 pl-0">
+                                {formatDate(payout.settledAt || payout.createdAt)}
+                              </td>
+                              <td className="text-sm p-2 text-muted-foreground">
+                                {PAYMENT_METHOD_LABELS[payout.paymentMethod]}
+                                {payout.paymentDestination && ` (${payout.paymentDestination})`}
+                              </td>
+                              <td className="text-sm p-2">
+                                <Badge className={PAYOUT_STATUS_STYLES[payout.status]}>
+                                  {payout.status.charAt(0).toUpperCase() + payout.status.slice(1)}
+                                </Badge>
+                              </td>
+                              <td className="text-sm text-right p-2 pr-0 font-medium text-green-600">
+                                ${payout.amount.toFixed(2)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  ) : (
+                    <div className="text-center py-8 text-muted-foreground">
+                      <Wallet className="h-12 w-12 mx-auto text-muted-foreground/50 mb-3" />
+                      <p>No payouts yet</p>
+                      <p className="text-sm mt-1">Make sure your payout method is set so you can be paid</p>
+                      <Link href="/influencer/settings">
+                        <Button variant="outline" className="mt-4">
+                          Payment Settings
+                        </Button>
+                      </Link>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
               {/* Top Earning Submissions */}
               <Card className="mb-6">
                 <CardHeader>
@@ -1,7 +1,8 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, uploadImage } from "@/lib/queryClient";
 import {
   Card,
   CardContent,
@@ -21,97 +22,121 @@ import {
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { useForm } from "react-hook-form";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, Upload } from "lucide-react";
+import { ExternalLink, Loader2, Plus, Trash2, Upload } from "lucide-react";
+import { Link } from "wouter";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
 import { MobileNav } from "@/components/layout/mobile-nav";
+import { Checkbox } from "@/components/ui/checkbox";
+import { INFLUENCER_NICHES, InfluencerNiche, InfluencerProfile } from "@shared/schema";
+import { INFLUENCER_NICHE_LABELS } from "@shared/influencer-directory";
 
 // Profile form schema
 const profileFormSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   bio: z.string().optional(),
   instagramHandle: z.string().optional(),
+  tiktokHandle: z.string().optional(),
+  youtubeHandle: z.string().optional(),
+  instagramFollowers: z.coerce.number().int().min(0, "Follower count can't be negative"),
+  tiktokFollowers: z.coerce.number().int().min(0, "Follower count can't be negative"),
+  youtubeFollowers: z.coerce.number().int().min(0, "Follower count can't be negative"),
   profilePicture: z.string().optional(),
+  city: z.string().optional(),
+  niches: z.array(z.enum(INFLUENCER_NICHES)).max(5, "Pick up to 5 niches"),
+  rateCard: z.array(z.object({
+    deliverable: z.string().min(1, "Describe the deliverable"),
+    price: z.coerce.number().min(0, "Price can't be negative"),
+  })).max(10, "Add up to 10 rate card items"),
 });
 
+const SOCIAL_ACCOUNTS = [
+  { handle: "instagramHandle", followers: "instagramFollowers", label: "Instagram" },
+  { handle: "tiktokHandle", followers: "tiktokFollowers", label: "TikTok" },
+  { handle: "youtubeHandle", followers: "youtubeFollowers", label: "YouTube" },
+] as const;
+
 type ProfileFormValues = z.infer<typeof profileFormSchema>;
 
 export default function Profile() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
   const [profileImageSrc, setProfileImageSrc] = useState<string | undefined>(
     user?.profilePicture || undefined
   );
   
-  // In a real application, this would come from the API
+  const { data: influencerProfile } = useQuery<InfluencerProfile>({
+    queryKey: ["/api/influencer/profile"],
+  });
+
   const defaultValues: ProfileFormValues = {
     name: user?.name || "",
     bio: "",
     instagramHandle: "",
+    tiktokHandle: "",
+    youtubeHandle: "",
+    instagramFollowers: 0,
+    tiktokFollowers: 0,
+    youtubeFollowers: 0,
     profilePicture: "",
+    city: "",
+    niches: [],
+    rateCard: [],
   };
   
   const form = useForm<ProfileFormValues>({
     resolver: zodResolver(profileFormSchema),
     defaultValues,
   });
+
+  const rateCard = useFieldArray({ control: form.control, name: "rateCard" });
+
+  // Fill in the public profile fields once the saved profile loads
+  useEffect(() => {
+    if (influencerProfile) {
+      form.reset({
+        ...form.getValues(),
+        bio: influencerProfile.bio ?? "",
+        instagramHandle: influencerProfile.instagramHandle ?? "",
+        tiktokHandle: influencerProfile.tiktokHandle ?? "",
+        youtubeHandle: influencerProfile.youtubeHandle ?? "",
+        instagramFollowers: influencerProfile.instagramFollowers,
+        tiktokFollowers: influencerProfile.tiktokFollowers,
+        youtubeFollowers: influencerProfile.youtubeFollowers,
+        city: influencerProfile.city ?? "",
+        niches: influencerProfile.niches,
+        rateCard: influencerProfile.rateCard,
+      });
+    }
+  }, [influencerProfile, form]);
   
-  // Handle profile picture upload with better compression
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Profile pictures are uploaded straight away and saved with the profile
+  const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
-    
-    if (!file.type.startsWith("image/")) {
+
+    try {
+      setIsUploading(true);
+      const media = await uploadImage(file);
+      setProfileImageSrc(media.url);
+      form.setValue("profilePicture", media.url);
+    } catch (error) {
       toast({
-        title: "Invalid file type",
-        description: "Please upload an image file",
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Please try a different image",
         variant: "destructive",
       });
-      return;
+    } finally {
+      setIsUploading(false);
+      e.target.value = "";
     }
-
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        let width = img.width;
-        let height = img.height;
-        
-        // Maintain aspect ratio while limiting size
-        const maxDimension = 800;
-        if (width > height && width > maxDimension) {
-          height = Math.round(height * (maxDimension / width));
-          width = maxDimension;
-        } else if (height > maxDimension) {
-          width = Math.round(width * (maxDimension / height));
-          height = maxDimension;
-        }
-
-        canvas.width = width;
-        canvas.height = height;
-        const ctx = canvas.getContext('2d');
-        
-        if (ctx) {
-          ctx.imageSmoothingEnabled = true;
-          ctx.imageSmoothingQuality = 'high';
-          ctx.drawImage(img, 0, 0, width, height);
-          
-          // Use higher quality JPEG compression
-          const compressedDataUrl = canvas.toDataURL('image/jpeg', 0.92);
-          setProfileImageSrc(compressedDataUrl);
-          form.setValue("profilePicture", compressedDataUrl);
-        }
-      };
-      img.src = event.target?.result as string;
-    };
-    reader.readAsDataURL(file);
   };
   
   const onSubmit = async (data: ProfileFormValues) => {
@@ -130,6 +155,21 @@ export default function Profile() {
       
       // Update the user data in the authentication context
       queryClient.setQueryData(["/api/user"], updatedUser);
+
+      // Save the public profile restaurants see in the directory
+      const profileResponse = await apiRequest('PUT', '/api/influencer/profile', {
+        bio: data.bio || null,
+        instagramHandle: data.instagramHandle || null,
+        tiktokHandle: data.tiktokHandle || null,
+        youtubeHandle: data.youtubeHandle || null,
+        instagramFollowers: data.instagramFollowers,
+        tiktokFollowers: data.tiktokFollowers,
+        youtubeFollowers: data.youtubeFollowers,
+        city: data.city || null,
+        niches: data.niches,
+        rateCard: data.rateCard,
+      });
+      queryClient.setQueryData(["/api/influencer/profile"], await profileResponse.json());
       
       toast({
         title: "Profile updated",
@@ -164,10 +204,20 @@ export default function Profile() {
         
         <main className="flex-1 overflow-auto p-4 md:p-6">
           <div className="flex flex-col gap-6 max-w-4xl mx-auto">
+            <div className="flex justify-end">
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/influencers/${user.id}`}>
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  View public profile
+                </Link>
+              </Button>
+            </div>
+
             <Tabs defaultValue="profile" className="w-full">
               <TabsList className="mb-4">
                 <TabsTrigger value="profile">Profile Info</TabsTrigger>
                 <TabsTrigger value="social">Social Media</TabsTrigger>
+                <TabsTrigger value="rates">Rate Card</TabsTrigger>
               </TabsList>
 
               <TabsContent value="profile">
@@ -188,7 +238,7 @@ export default function Profile() {
                       
                       <div className="mt-4 text-center">
                         <label htmlFor="profile-picture" className="cursor-pointer inline-flex items-center gap-2 text-sm font-medium text-primary hover:underline">
-                          <Upload size={14} /> Upload profile picture
+                          <Upload size={14} /> {isUploading ? "Uploading..." : "Upload profile picture"}
                         </label>
                         <Input 
                           id="profile-picture" 
@@ -196,6 +246,7 @@ export default function Profile() {
                           accept="image/*"
                           className="hidden" 
                           onChange={handleImageUpload} 
+                          disabled={isUploading}
                         />
                       </div>
                     </div>
@@ -240,7 +291,55 @@ export default function Profile() {
                           )}
                         />
 
-                        <Button type="submit" disabled={isSubmitting}>
+                        <FormField
+                          control={form.control}
+                          name="city"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Home City</FormLabel>
+                              <FormControl>
+                                <Input placeholder="e.g. Austin" {...field} />
+                              </FormControl>
+                              <FormDescription>
+                                Restaurants can search for influencers near them
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="niches"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Niches</FormLabel>
+                              <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                                {INFLUENCER_NICHES.map((niche) => (
+                                  <label key={niche} className="flex items-center space-x-2 text-sm">
+                                    <Checkbox
+                                      checked={field.value.includes(niche)}
+                                      onCheckedChange={(checked) =>
+                                        field.onChange(
+                                          checked
+                                            ? [...field.value, niche]
+                                            : field.value.filter((value: InfluencerNiche) => value !== niche)
+                                        )
+                                      }
+                                    />
+                                    <span>{INFLUENCER_NICHE_LABELS[niche]}</span>
+                                  </label>
+                                ))}
+                              </div>
+                              <FormDescription>
+                                Pick up to 5 topics your content covers
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <Button type="submit" disabled={isSubmitting || isUploading}>
                           {isSubmitting ? "Saving..." : "Save Changes"}
                         </Button>
                       </form>
@@ -261,31 +360,50 @@ export default function Profile() {
                   <CardContent>
                     <Form {...form}>
                       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                        <FormField
-                          control={form.control}
-                          name="instagramHandle"
-                          render={({ field }) => (
-                            <FormItem>
-                              <FormLabel>Instagram Handle</FormLabel>
-                              <FormControl>
-                                <div className="flex">
-                                  <span className="inline-flex items-center px-3 bg-muted border border-r-0 border-input rounded-l-md">
-                                    @
-                                  </span>
-                                  <Input 
-                                    className="rounded-l-none" 
-                                    placeholder="username" 
-                                    {...field} 
-                                  />
-                                </div>
-                              </FormControl>
-                              <FormDescription>
-                                Your Instagram handle without the @ symbol
-                              </FormDescription>
-                              <FormMessage />
-                            </FormItem>
-                          )}
-                        />
+                        {SOCIAL_ACCOUNTS.map((account) => (
+                          <div key={account.handle} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                            <FormField
+                              control={form.control}
+                              name={account.handle}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>{account.label} Handle</FormLabel>
+                                  <FormControl>
+                                    <div className="flex">
+                                      <span className="inline-flex items-center px-3 bg-muted border border-r-0 border-input rounded-l-md">
+                                        @
+                                      </span>
+                                      <Input 
+                                        className="rounded-l-none" 
+                                        placeholder="username" 
+                                        {...field} 
+                                      />
+                                    </div>
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+
+                            <FormField
+                              control={form.control}
+                              name={account.followers}
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>{account.label} Followers</FormLabel>
+                                  <FormControl>
+                                    <Input type="number" min={0} {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+                        ))}
+
+                        <p className="text-sm text-muted-foreground">
+                          Your combined follower count is shown to restaurants browsing the influencer directory
+                        </p>
 
                         <Button type="submit" disabled={isSubmitting}>
                           {isSubmitting ? "Saving..." : "Save Changes"}
@@ -295,6 +413,80 @@ export default function Profile() {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              <TabsContent value="rates">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Rate Card</CardTitle>
+                    <CardDescription>
+                      Let restaurants know what you typically charge for sponsored content
+                    </CardDescription>
+                  </CardHeader>
+
+                  <CardContent>
+                    <Form {...form}>
+                      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                        {rateCard.fields.length === 0 && (
+                          <p className="text-sm text-muted-foreground">No rates listed yet</p>
+                        )}
+
+                        {rateCard.fields.map((item, index) => (
+                          <div key={item.id} className="flex items-start gap-2">
+                            <FormField
+                              control={form.control}
+                              name={`rateCard.${index}.deliverable`}
+                              render={({ field }) => (
+                                <FormItem className="flex-1">
+                                  <FormControl>
+                                    <Input placeholder="e.g. Instagram Reel" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <FormField
+                              control={form.control}
+                              name={`rateCard.${index}.price`}
+                              render={({ field }) => (
+                                <FormItem className="w-32">
+                                  <FormControl>
+                                    <Input type="number" min={0} step="0.01" placeholder="Price ($)" {...field} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => rateCard.remove(index)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ))}
+
+                        <div className="flex justify-between">
+                          <Button
+                            type="button"
+                            variant="outline"
+                            onClick={() => rateCard.append({ deliverable: "", price: 0 })}
+                            disabled={rateCard.fields.length >= 10}
+                          >
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Rate
+                          </Button>
+
+                          <Button type="submit" disabled={isSubmitting}>
+                            {isSubmitting ? "Saving..." : "Save Changes"}
+                          </Button>
+                        </div>
+                      </form>
+                    </Form>
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </Tabs>
           </div>
         </main>
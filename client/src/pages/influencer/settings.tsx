@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import {
@@ -25,6 +26,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { MaskedPayoutDetails, NotificationPreferences } from "@shared/schema";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
@@ -47,6 +50,7 @@ import {
 import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
 import { MobileNav } from "@/components/layout/mobile-nav";
+import { ChangePasswordDialog } from "@/components/change-password-dialog";
 
 // Account settings form schema
 const accountFormSchema = z.object({
@@ -63,7 +67,7 @@ const notificationFormSchema = z.object({
 // Payment settings form schema
 const paymentFormSchema = z.object({
   paymentMethod: z.enum(["paypal", "bankTransfer", "venmo"]),
-  paymentEmail: z.string().email("Please enter a valid email address").optional(),
+  paymentEmail: z.string().optional(),
   accountName: z.string().optional(),
   accountNumber: z.string().optional(),
   routingNumber: z.string().optional(),
@@ -78,7 +82,7 @@ export default function Settings() {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   
-  // In a real application, these would come from the API
+  // Defaults until the saved settings load
   const accountForm = useForm<AccountFormValues>({
     resolver: zodResolver(accountFormSchema),
     defaultValues: {
@@ -105,13 +109,45 @@ export default function Settings() {
       routingNumber: "",
     },
   });
+
+  const { data: payoutDetails } = useQuery<MaskedPayoutDetails | null>({
+    queryKey: ['/api/influencer/payout-details'],
+  });
+
+  const { data: notificationPreferences } = useQuery<NotificationPreferences>({
+    queryKey: ['/api/user/notification-preferences'],
+  });
+
+  // Load saved settings into the forms once they arrive. Bank numbers are
+  // only ever returned masked, so those fields start empty.
+  useEffect(() => {
+    if (payoutDetails) {
+      paymentForm.reset({
+        paymentMethod: payoutDetails.paymentMethod,
+        paymentEmail: payoutDetails.paymentEmail || "",
+        accountName: payoutDetails.accountName || "",
+        accountNumber: "",
+        routingNumber: "",
+      });
+    }
+  }, [payoutDetails]);
+
+  useEffect(() => {
+    if (notificationPreferences) {
+      notificationForm.reset({
+        emailNotifications: notificationPreferences.emailNotifications,
+        newCampaignAlerts: notificationPreferences.newCampaignAlerts,
+        paymentNotifications: notificationPreferences.paymentNotifications,
+      });
+    }
+  }, [notificationPreferences]);
   
   // Handle account form submission
   const onAccountSubmit = async (data: AccountFormValues) => {
     try {
       setIsSubmitting(true);
-      // Mock API call - in a real app, this would update the user's account settings
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await apiRequest("PUT", "/api/user/profile", { email: data.email });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       
       toast({
         title: "Account settings updated",
@@ -120,7 +156,7 @@ export default function Settings() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update your account settings. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update your account settings. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -132,8 +168,8 @@ export default function Settings() {
   const onNotificationSubmit = async (data: NotificationFormValues) => {
     try {
       setIsSubmitting(true);
-      // Mock API call - in a real app, this would update the user's notification settings
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await apiRequest("PUT", "/api/user/notification-preferences", data);
+      queryClient.invalidateQueries({ queryKey: ['/api/user/notification-preferences'] });
       
       toast({
         title: "Notification settings updated",
@@ -154,8 +190,11 @@ export default function Settings() {
   const onPaymentSubmit = async (data: PaymentFormValues) => {
     try {
       setIsSubmitting(true);
-      // Mock API call - in a real app, this would update the user's payment settings
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await apiRequest("PUT", "/api/influencer/payout-details", {
+        ...data,
+        paymentEmail: data.paymentMethod === "bankTransfer" ? undefined : data.paymentEmail,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/influencer/payout-details'] });
       
       toast({
         title: "Payment settings updated",
@@ -164,7 +203,7 @@ export default function Settings() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update your payment settings. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update your payment settings. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -241,9 +280,7 @@ export default function Settings() {
                           <h3 className="text-lg font-medium">Security</h3>
                           
                           <div>
-                            <Button variant="outline" type="button">
-                              Change Password
-                            </Button>
+                            <ChangePasswordDialog />
                           </div>
 
                           <div>
@@ -390,7 +427,7 @@ export default function Settings() {
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>Payment Method</FormLabel>
-                              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                              <Select onValueChange={field.onChange} value={field.value}>
                                 <FormControl>
                                   <SelectTrigger>
                                     <SelectValue placeholder="Select payment method" />
@@ -451,8 +488,17 @@ export default function Settings() {
                                 <FormItem>
                                   <FormLabel>Account Number</FormLabel>
                                   <FormControl>
-                                    <Input placeholder="123456789" {...field} />
+                                    <Input
+                                      placeholder={payoutDetails?.accountNumberMasked || "123456789"}
+                                      autoComplete="off"
+                                      {...field}
+                                    />
                                   </FormControl>
+                                  {payoutDetails?.accountNumberMasked && (
+                                    <FormDescription>
+                                      Leave empty to keep the account ending in {payoutDetails.accountNumberMasked.slice(-4)}
+                                    </FormDescription>
+                                  )}
                                   <FormMessage />
                                 </FormItem>
                               )}
@@ -464,7 +510,11 @@ export default function Settings() {
                                 <FormItem>
                                   <FormLabel>Routing Number</FormLabel>
                                   <FormControl>
-                                    <Input placeholder="987654321" {...field} />
+                                    <Input
+                                      placeholder={payoutDetails?.routingNumberMasked || "987654321"}
+                                      autoComplete="off"
+                                      {...field}
+                                    />
                                   </FormControl>
                                   <FormMessage />
                                 </FormItem>
@@ -0,0 +1,143 @@
+import { useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { acceptTeamInviteSchema, TeamInvitePreview } from "@shared/schema";
+import { ORGANIZATION_ROLE_DESCRIPTIONS, ORGANIZATION_ROLE_LABELS } from "@shared/team-roles";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+const joinTeamFormSchema = acceptTeamInviteSchema
+  .omit({ token: true })
+  .extend({
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type JoinTeamFormValues = z.infer<typeof joinTeamFormSchema>;
+
+function JoinTeamForm({ token, invite }: { token: string; invite: TeamInvitePreview }) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  const form = useForm<JoinTeamFormValues>({
+    resolver: zodResolver(joinTeamFormSchema),
+    defaultValues: { name: "", username: "", password: "", confirmPassword: "" },
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async ({ confirmPassword, ...data }: JoinTeamFormValues) => {
+      const res = await apiRequest("POST", "/api/team/join", { ...data, token });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: `You've joined ${invite.organizationName}`,
+        description: "You can now log in with your new username and password.",
+      });
+      navigate("/auth");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't join the team",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const { errors } = form.formState;
+
+  return (
+    <form onSubmit={form.handleSubmit((data) => joinMutation.mutate(data))} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        You've been invited to {invite.organizationName} as {ORGANIZATION_ROLE_LABELS[invite.role]}:{" "}
+        {ORGANIZATION_ROLE_DESCRIPTIONS[invite.role].toLowerCase()}. Your login will use {invite.email}.
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="name">Your Name</Label>
+        <Input id="name" autoComplete="name" {...form.register("name")} />
+        {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="username">Username</Label>
+        <Input id="username" autoComplete="username" {...form.register("username")} />
+        {errors.username && <p className="text-sm text-destructive">{errors.username.message}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input id="password" type="password" autoComplete="new-password" {...form.register("password")} />
+        {errors.password && <p className="text-sm text-destructive">{errors.password.message}</p>}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirm Password</Label>
+        <Input id="confirmPassword" type="password" autoComplete="new-password" {...form.register("confirmPassword")} />
+        {errors.confirmPassword && <p className="text-sm text-destructive">{errors.confirmPassword.message}</p>}
+      </div>
+      <Button
+        type="submit"
+        className="w-full bg-gradient-to-r from-purple-800 to-purple-600 hover:from-purple-900 hover:to-purple-700 text-white shadow-md"
+        disabled={joinMutation.isPending}
+      >
+        {joinMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Join team
+      </Button>
+    </form>
+  );
+}
+
+// Landing page for the link in a team invite email
+export default function JoinTeam() {
+  const [, navigate] = useLocation();
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const { data: invite, isLoading } = useQuery<TeamInvitePreview>({
+    queryKey: [`/api/team/join?token=${encodeURIComponent(token ?? "")}`],
+    enabled: !!token,
+    retry: false,
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-slate-50 to-purple-50">
+      <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-xl border border-purple-100">
+        <div className="mb-6 text-center">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-900 to-purple-600 text-transparent bg-clip-text">ViralBite</h1>
+        </div>
+
+        <h2 className="text-xl font-semibold text-slate-800 mb-4">
+          {invite ? `Join ${invite.organizationName}` : "Join your team"}
+        </h2>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : token && invite ? (
+          <JoinTeamForm token={token} invite={invite} />
+        ) : (
+          <p className="text-sm text-slate-600">
+            This invite link is invalid or has expired. Ask whoever invited you to send a new one.
+          </p>
+        )}
+
+        <div className="mt-4 text-center">
+          <button
+            type="button"
+            onClick={() => navigate("/auth")}
+            className="text-sm text-purple-700 hover:text-purple-900"
+          >
+            Back to log in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
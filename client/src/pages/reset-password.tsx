@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { forgotPasswordSchema, resetPasswordSchema } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+const newPasswordFormSchema = resetPasswordSchema
+  .omit({ token: true })
+  .extend({
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords do not match",
+    path: ["confirmPassword"],
+  });
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+type NewPasswordFormValues = z.infer<typeof newPasswordFormSchema>;
+
+function RequestResetForm() {
+  const { toast } = useToast();
+  const [sent, setSent] = useState(false);
+
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/auth/password/forgot", data);
+      return res.json();
+    },
+    onSuccess: () => setSent(true),
+    onError: (error: Error) => {
+      toast({
+        title: "Error requesting reset",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (sent) {
+    return (
+      <p className="text-sm text-slate-600">
+        If an account exists for that email, we've sent a link to reset your password.
+        The link expires in one hour.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Enter the email address on your account and we'll send you a reset link.
+      </p>
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input id="email" type="email" placeholder="you@example.com" {...form.register("email")} />
+        {form.formState.errors.email && (
+          <p className="text-sm text-destructive">{form.formState.errors.email.message}</p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        className="w-full bg-gradient-to-r from-purple-800 to-purple-600 hover:from-purple-900 hover:to-purple-700 text-white shadow-md"
+        disabled={requestMutation.isPending}
+      >
+        {requestMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Send reset link
+      </Button>
+    </form>
+  );
+}
+
+function NewPasswordForm({ token }: { token: string }) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  const form = useForm<NewPasswordFormValues>({
+    resolver: zodResolver(newPasswordFormSchema),
+    defaultValues: { newPassword: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async ({ newPassword }: NewPasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/auth/password/reset", { token, newPassword });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Password reset",
+        description: "You can now log in with your new password.",
+      });
+      navigate("/auth");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error resetting password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="newPassword">New Password</Label>
+        <Input id="newPassword" type="password" autoComplete="new-password" {...form.register("newPassword")} />
+        {form.formState.errors.newPassword && (
+          <p className="text-sm text-destructive">{form.formState.errors.newPassword.message}</p>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirm New Password</Label>
+        <Input id="confirmPassword" type="password" autoComplete="new-password" {...form.register("confirmPassword")} />
+        {form.formState.errors.confirmPassword && (
+          <p className="text-sm text-destructive">{form.formState.errors.confirmPassword.message}</p>
+        )}
+      </div>
+      <Button
+        type="submit"
+        className="w-full bg-gradient-to-r from-purple-800 to-purple-600 hover:from-purple-900 hover:to-purple-700 text-white shadow-md"
+        disabled={resetMutation.isPending}
+      >
+        {resetMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Reset password
+      </Button>
+    </form>
+  );
+}
+
+export default function ResetPassword() {
+  const [, navigate] = useLocation();
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-slate-50 to-purple-50">
+      <div className="w-full max-w-md bg-white p-8 rounded-lg shadow-xl border border-purple-100">
+        <div className="mb-6 text-center">
+          <h1 className="text-3xl font-bold bg-gradient-to-r from-purple-900 to-purple-600 text-transparent bg-clip-text">ViralBite</h1>
+        </div>
+
+        <h2 className="text-xl font-semibold text-slate-800 mb-4">
+          {token ? "Choose a new password" : "Reset your password"}
+        </h2>
+
+        {token ? <NewPasswordForm token={token} /> : <RequestResetForm />}
+
+        <div className="mt-4 text-center">
+          <button
+            type="button"
+            onClick={() => navigate("/auth")}
+            className="text-sm text-purple-700 hover:text-purple-900"
+          >
+            Back to log in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -14,16 +14,20 @@ import {
 } from "@/components/ui/select";
 import { CampaignCard } from "@/components/campaign-card";
 import { CampaignCreateModal } from "@/components/campaign-create-modal";
-import { Campaign } from "@shared/schema";
+import { useTeamPermissions } from "@/hooks/use-team-permissions";
+import { Campaign, CampaignWithBudget } from "@shared/schema";
+import { getEffectiveCampaignStatus } from "@shared/campaign-lifecycle";
 import { Loader2, Plus, Search } from "lucide-react";
 
 export default function Campaigns() {
+  const { can } = useTeamPermissions();
   const [searchQuery, setSearchQuery] = useState("");
   const [sortBy, setSortBy] = useState("newest");
+  const [statusFilter, setStatusFilter] = useState("all");
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [campaignToEdit, setCampaignToEdit] = useState<Campaign | undefined>(undefined);
 
-  const { data: campaigns, isLoading } = useQuery<Campaign[]>({
+  const { data: campaigns, isLoading } = useQuery<CampaignWithBudget[]>({
     queryKey: ['/api/campaigns'],
   });
 
@@ -54,8 +58,13 @@ export default function Campaigns() {
           ) {
             return false;
           }
-          
-          return true;
+
+          // Apply status filter; archived campaigns only show when asked for
+          const status = getEffectiveCampaignStatus(campaign);
+          if (statusFilter === "all") {
+            return status !== "archived";
+          }
+          return status === statusFilter;
         })
         .sort((a, b) => {
           // Apply sorting
@@ -81,13 +90,15 @@ export default function Campaigns() {
               <h1 className="text-2xl font-bold text-slate-800">Campaigns</h1>
               <p className="text-slate-500">Create and manage your promotional campaigns</p>
             </div>
-            <Button 
-              className="mt-4 md:mt-0" 
-              onClick={handleCreateCampaign}
-            >
-              <Plus className="h-4 w-4 mr-2" />
-              <span>Create Campaign</span>
-            </Button>
+            {can("manage_campaigns") && (
+              <Button 
+                className="mt-4 md:mt-0" 
+                onClick={handleCreateCampaign}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                <span>Create Campaign</span>
+              </Button>
+            )}
           </div>
           
           {/* Filters */}
@@ -105,6 +116,26 @@ export default function Campaigns() {
                 </div>
               </div>
 
+              <div className="w-full md:w-40">
+                <Select
+                  value={statusFilter}
+                  onValueChange={setStatusFilter}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="All statuses" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    <SelectItem value="draft">Draft</SelectItem>
+                    <SelectItem value="scheduled">Scheduled</SelectItem>
+                    <SelectItem value="active">Active</SelectItem>
+                    <SelectItem value="paused">Paused</SelectItem>
+                    <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="archived">Archived</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="w-full md:w-40">
                 <Select
                   value={sortBy}
@@ -147,10 +178,12 @@ export default function Campaigns() {
                   ? "Try adjusting your filters or search query"
                   : "Create your first campaign to get started"}
               </p>
-              <Button onClick={handleCreateCampaign}>
-                <Plus className="h-4 w-4 mr-2" />
-                <span>Create Campaign</span>
-              </Button>
+              {can("manage_campaigns") && (
+                <Button onClick={handleCreateCampaign}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  <span>Create Campaign</span>
+                </Button>
+              )}
             </div>
           )}
         </main>
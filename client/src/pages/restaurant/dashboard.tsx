@@ -6,6 +6,7 @@ import { StatsCard } from "@/components/stats-card";
 import { Loader2, Megaphone, ClipboardList, Eye, DollarSign, ThumbsUp } from "lucide-react";
 import { Submission, Campaign } from "@shared/schema";
 import { SubmissionCard } from "@/components/submission-card";
+import { VenuePerformance } from "@/components/venue-performance";
 import { useAuth } from "@/hooks/use-auth";
 
 export default function RestaurantDashboard() {
@@ -105,6 +106,14 @@ export default function RestaurantDashboard() {
                 />
               </div>
               
+              {/* Results per venue and for the organization */}
+              <div className="bg-white rounded-lg shadow p-4 mb-6">
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-slate-800">Performance by Venue</h2>
+                </div>
+                <VenuePerformance />
+              </div>
+
               {/* Recent Submissions */}
               <div className="bg-white rounded-lg shadow p-4">
                 <div className="flex items-center justify-between mb-4">
@@ -121,6 +130,7 @@ export default function RestaurantDashboard() {
                           submission={submission}
                           campaignTitle={campaign?.title || "Unknown Campaign"}
                           restaurantView={true}
+                          brief={campaign?.brief}
                         />
                       );
                     })}
@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Header } from "@/components/layout/header";
+import { MobileNav } from "@/components/layout/mobile-nav";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { PrivateInvitationModal } from "@/components/private-invitation-modal";
+import { INFLUENCER_NICHES, InfluencerDirectoryEntry, InfluencerDirectoryPage } from "@shared/schema";
+import { FOLLOWER_RANGES, INFLUENCER_NICHE_LABELS, formatFollowerCount } from "@shared/influencer-directory";
+import { ChevronLeft, ChevronRight, Loader2, MapPin, Search, Send, Users } from "lucide-react";
+import { getThumbnailUrl } from "@shared/media";
+
+const PAGE_SIZE = 12;
+const SEARCH_DEBOUNCE_MS = 300;
+
+function InfluencerCard({ influencer, onInvite }: { influencer: InfluencerDirectoryEntry; onInvite: () => void }) {
+  const initials = influencer.name
+    .split(" ")
+    .map((n) => n[0])
+    .join("")
+    .toUpperCase();
+
+  return (
+    <Card className="overflow-hidden">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center space-x-3">
+          <Avatar className="h-12 w-12">
+            {influencer.profilePicture ? (
+              <AvatarImage src={getThumbnailUrl(influencer.profilePicture)} alt={influencer.name} />
+            ) : (
+              <AvatarFallback>{initials}</AvatarFallback>
+            )}
+          </Avatar>
+          <div className="min-w-0">
+            <h3 className="font-semibold text-slate-800 truncate">{influencer.name}</h3>
+            <p className="text-sm text-muted-foreground truncate">
+              {influencer.instagramHandle ? `@${influencer.instagramHandle}` : `@${influencer.username}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-slate-600">
+          <span className="flex items-center">
+            <Users className="h-4 w-4 mr-1" />
+            {formatFollowerCount(influencer.followerCount)} followers
+          </span>
+          {influencer.city && (
+            <span className="flex items-center truncate">
+              <MapPin className="h-4 w-4 mr-1" />
+              {influencer.city}
+            </span>
+          )}
+        </div>
+
+        {influencer.niches.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {influencer.niches.map((niche) => (
+              <Badge key={niche} variant="secondary" className="bg-purple-50 text-purple-700">
+                {INFLUENCER_NICHE_LABELS[niche]}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" asChild>
+            <Link href={`/influencers/${influencer.id}`}>View Profile</Link>
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={onInvite}>
+            <Send className="h-4 w-4 mr-2" />
+            Invite
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Influencers() {
+  const [searchInput, setSearchInput] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [cityInput, setCityInput] = useState("");
+  const [city, setCity] = useState("");
+  const [niche, setNiche] = useState("all");
+  const [followerRange, setFollowerRange] = useState("all");
+  const [page, setPage] = useState(1);
+  const [inviteInfluencerId, setInviteInfluencerId] = useState<number | undefined>(undefined);
+
+  // Only hit the server once the user stops typing
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setSearchQuery(searchInput.trim());
+      setCity(cityInput.trim());
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchInput, cityInput]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [searchQuery, city, niche, followerRange]);
+
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (searchQuery) params.set("q", searchQuery);
+  if (city) params.set("city", city);
+  if (niche !== "all") params.set("niche", niche);
+  const range = FOLLOWER_RANGES.find((r) => r.value === followerRange);
+  if (range) {
+    params.set("minFollowers", String(range.minFollowers));
+    if (range.maxFollowers !== undefined) params.set("maxFollowers", String(range.maxFollowers));
+  }
+
+  const { data: directory, isLoading, isError } = useQuery<InfluencerDirectoryPage>({
+    queryKey: [`/api/influencers?${params.toString()}`],
+  });
+
+  const totalPages = directory ? Math.max(1, Math.ceil(directory.total / directory.pageSize)) : 1;
+
+  return (
+    <div className="flex flex-col md:flex-row min-h-screen bg-slate-50">
+      <Sidebar className="hidden md:flex" />
+
+      <div className="flex-1 flex flex-col overflow-hidden pb-16 md:pb-0">
+        <Header title="Find Influencers" />
+
+        <main className="flex-1 overflow-auto p-4 md:p-6">
+          <div className="mb-6">
+            <h1 className="text-2xl font-bold text-slate-800">Find Influencers</h1>
+            <p className="text-slate-500">Search creators by name, location, niche and audience size</p>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white p-4 rounded-lg shadow mb-6">
+            <div className="flex flex-col md:flex-row md:items-center space-y-3 md:space-y-0 md:space-x-4">
+              <div className="flex-1">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                  <Input
+                    placeholder="Search by name or handle..."
+                    className="pl-10"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="w-full md:w-44">
+                <Input
+                  placeholder="City"
+                  value={cityInput}
+                  onChange={(e) => setCityInput(e.target.value)}
+                />
+              </div>
+
+              <div className="w-full md:w-44">
+                <Select value={niche} onValueChange={setNiche}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All niches" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All niches</SelectItem>
+                    {INFLUENCER_NICHES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {INFLUENCER_NICHE_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="w-full md:w-44">
+                <Select value={followerRange} onValueChange={setFollowerRange}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Any audience" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Any audience</SelectItem>
+                    {FOLLOWER_RANGES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+
+          {/* Results */}
+          {isLoading ? (
+            <div className="flex items-center justify-center h-64">
+              <Loader2 size={30} className="animate-spin text-primary" />
+            </div>
+          ) : isError ? (
+            <div className="text-center py-12 text-red-500">
+              Error loading influencers. Please try again.
+            </div>
+          ) : directory && directory.results.length > 0 ? (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {directory.results.map((influencer) => (
+                  <InfluencerCard
+                    key={influencer.id}
+                    influencer={influencer}
+                    onInvite={() => setInviteInfluencerId(influencer.id)}
+                  />
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between mt-6">
+                <p className="text-sm text-muted-foreground">
+                  {directory.total} influencer{directory.total === 1 ? "" : "s"} found
+                </p>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => p - 1)}
+                    disabled={page <= 1}
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span className="text-sm">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage((p) => p + 1)}
+                    disabled={page >= totalPages}
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="text-center py-12">
+              <Users className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <h3 className="text-lg font-medium text-slate-800 mb-2">No influencers found</h3>
+              <p className="text-muted-foreground">Try adjusting your filters or search query</p>
+            </div>
+          )}
+        </main>
+
+        <MobileNav />
+      </div>
+
+      <PrivateInvitationModal
+        isOpen={inviteInfluencerId !== undefined}
+        onClose={() => setInviteInfluencerId(undefined)}
+        defaultInfluencerId={inviteInfluencerId}
+      />
+    </div>
+  );
+}
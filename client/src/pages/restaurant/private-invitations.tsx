@@ -12,21 +12,26 @@ import { type PrivateInvitation } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useTeamPermissions } from "@/hooks/use-team-permissions";
 import { Link } from "wouter";
 
 export default function RestaurantPrivateInvitations() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { membership, can } = useTeamPermissions();
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  // Staff see the invitations of the restaurant they work for
+  const restaurantId = membership?.organization.ownerId ?? user?.id;
+
   const { data: invitations, isLoading } = useQuery({
     queryKey: ["/api/restaurant/private-invitations"],
     queryFn: async () => {
-      const res = await fetch(`/api/restaurant/${user?.id}/private-invitations`);
+      const res = await fetch(`/api/restaurant/${restaurantId}/private-invitations`);
       if (!res.ok) throw new Error("Failed to fetch private invitations");
       return await res.json();
     },
-    enabled: !!user,
+    enabled: !!user && (user.role !== "restaurant" || !!membership),
   });
 
   const deleteMutation = useMutation({
@@ -70,10 +75,12 @@ export default function RestaurantPrivateInvitations() {
               <h1 className="text-2xl font-bold text-slate-800">Private Invitations</h1>
               <p className="text-slate-500">Create and manage your exclusive invitations to specific influencers</p>
             </div>
-            <Button onClick={() => setIsModalOpen(true)} className="flex items-center gap-2">
-              <Plus size={16} />
-              <span>New Invitation</span>
-            </Button>
+            {can("manage_campaigns") && (
+              <Button onClick={() => setIsModalOpen(true)} className="flex items-center gap-2">
+                <Plus size={16} />
+                <span>New Invitation</span>
+              </Button>
+            )}
           </div>
 
           {isLoading ? (
@@ -86,9 +93,11 @@ export default function RestaurantPrivateInvitations() {
               <p className="text-muted-foreground mt-1">
                 Create your first invitation to work directly with a specific influencer
               </p>
-              <Button onClick={() => setIsModalOpen(true)} className="mt-4">
-                Create Invitation
-              </Button>
+              {can("manage_campaigns") && (
+                <Button onClick={() => setIsModalOpen(true)} className="mt-4">
+                  Create Invitation
+                </Button>
+              )}
             </div>
           ) : (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -97,7 +106,7 @@ export default function RestaurantPrivateInvitations() {
                   key={invitation.id} 
                   invitation={invitation}
                   viewType="restaurant"
-                  onDelete={() => handleDelete(invitation.id)}
+                  onDelete={can("manage_campaigns") ? () => handleDelete(invitation.id) : undefined}
                 />
               ))}
             </div>
@@ -1,4 +1,5 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import {
@@ -25,6 +26,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { NotificationPreferences, RestaurantProfile } from "@shared/schema";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
@@ -32,7 +35,7 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, Bell, MapPin, Store, LockKeyhole } from "lucide-react";
+import { Loader2, Bell, MapPin, Store, LockKeyhole, Users } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
 import { 
   AlertDialog,
@@ -47,6 +50,10 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
+import { ChangePasswordDialog } from "@/components/change-password-dialog";
+import { OrganizationNameForm, VenueManager } from "@/components/venue-manager";
+import { TeamManager } from "@/components/team-manager";
+import { useTeamPermissions } from "@/hooks/use-team-permissions";
 
 // Account settings form schema
 const accountFormSchema = z.object({
@@ -78,9 +85,17 @@ type NotificationFormValues = z.infer<typeof notificationFormSchema>;
 export default function RestaurantSettings() {
   const { user } = useAuth();
   const { toast } = useToast();
+  const { can } = useTeamPermissions();
   const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: profile } = useQuery<Partial<RestaurantProfile> & { name: string }>({
+    queryKey: ['/api/restaurant/profile'],
+  });
+
+  const { data: notificationPreferences } = useQuery<NotificationPreferences>({
+    queryKey: ['/api/user/notification-preferences'],
+  });
   
-  // In a real application, these would come from the API
   const accountForm = useForm<AccountFormValues>({
     resolver: zodResolver(accountFormSchema),
     defaultValues: {
@@ -110,12 +125,37 @@ export default function RestaurantSettings() {
     },
   });
   
+  // Load saved settings into the forms once they arrive
+  useEffect(() => {
+    if (profile) {
+      restaurantForm.reset({
+        name: profile.name,
+        description: profile.description || "",
+        address: profile.address || "",
+        city: profile.city || "",
+        state: profile.state || "",
+        zipCode: profile.zipCode || "",
+        website: profile.website || "",
+      });
+    }
+  }, [profile]);
+
+  useEffect(() => {
+    if (notificationPreferences) {
+      notificationForm.reset({
+        emailNotifications: notificationPreferences.emailNotifications,
+        submissionAlerts: notificationPreferences.submissionAlerts,
+        paymentNotifications: notificationPreferences.paymentNotifications,
+      });
+    }
+  }, [notificationPreferences]);
+
   // Handle account form submission
   const onAccountSubmit = async (data: AccountFormValues) => {
     try {
       setIsSubmitting(true);
-      // Mock API call - in a real app, this would update the user's account settings
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await apiRequest("PUT", "/api/user/profile", { email: data.email });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       
       toast({
         title: "Account settings updated",
@@ -124,7 +164,7 @@ export default function RestaurantSettings() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update your account settings. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update your account settings. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -136,8 +176,9 @@ export default function RestaurantSettings() {
   const onRestaurantSubmit = async (data: RestaurantFormValues) => {
     try {
       setIsSubmitting(true);
-      // Mock API call - in a real app, this would update the user's restaurant profile
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await apiRequest("PUT", "/api/restaurant/profile", data);
+      queryClient.invalidateQueries({ queryKey: ['/api/restaurant/profile'] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       
       toast({
         title: "Restaurant profile updated",
@@ -146,7 +187,7 @@ export default function RestaurantSettings() {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update your restaurant profile. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update your restaurant profile. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -158,8 +199,8 @@ export default function RestaurantSettings() {
   const onNotificationSubmit = async (data: NotificationFormValues) => {
     try {
       setIsSubmitting(true);
-      // Mock API call - in a real app, this would update the user's notification settings
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      await apiRequest("PUT", "/api/user/notification-preferences", data);
+      queryClient.invalidateQueries({ queryKey: ['/api/user/notification-preferences'] });
       
       toast({
         title: "Notification settings updated",
@@ -200,6 +241,14 @@ export default function RestaurantSettings() {
                   <Store size={14} />
                   <span>Restaurant Profile</span>
                 </TabsTrigger>
+                <TabsTrigger value="venues" className="flex items-center gap-2 data-[state=active]:bg-gradient-to-br data-[state=active]:from-purple-600 data-[state=active]:to-purple-500 data-[state=active]:text-white data-[state=active]:shadow-md transition-all duration-200">
+                  <MapPin size={14} />
+                  <span>Venues</span>
+                </TabsTrigger>
+                <TabsTrigger value="team" className="flex items-center gap-2 data-[state=active]:bg-gradient-to-br data-[state=active]:from-purple-600 data-[state=active]:to-purple-500 data-[state=active]:text-white data-[state=active]:shadow-md transition-all duration-200">
+                  <Users size={14} />
+                  <span>Team</span>
+                </TabsTrigger>
                 <TabsTrigger value="account" className="flex items-center gap-2 data-[state=active]:bg-gradient-to-br data-[state=active]:from-purple-600 data-[state=active]:to-purple-500 data-[state=active]:text-white data-[state=active]:shadow-md transition-all duration-200">
                   <LockKeyhole size={14} />
                   <span>Account</span>
@@ -340,26 +389,59 @@ export default function RestaurantSettings() {
                           />
                         </div>
 
-                        <div className="pt-4">
-                          <Button 
-                            type="submit" 
-                            disabled={isSubmitting}
-                            className="bg-gradient-to-r from-purple-700 to-purple-500 hover:from-purple-800 hover:to-purple-600 text-white shadow-md transition-all duration-200"
-                          >
-                            {isSubmitting ? (
-                              <>
-                                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                Saving...
-                              </>
-                            ) : "Save Restaurant Profile"}
-                          </Button>
-                        </div>
+                        {can("manage_organization") && (
+                          <div className="pt-4">
+                            <Button 
+                              type="submit" 
+                              disabled={isSubmitting}
+                              className="bg-gradient-to-r from-purple-700 to-purple-500 hover:from-purple-800 hover:to-purple-600 text-white shadow-md transition-all duration-200"
+                            >
+                              {isSubmitting ? (
+                                <>
+                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                  Saving...
+                                </>
+                              ) : "Save Restaurant Profile"}
+                            </Button>
+                          </div>
+                        )}
                       </form>
                     </Form>
                   </CardContent>
                 </Card>
               </TabsContent>
 
+              <TabsContent value="venues">
+                <Card className="border border-slate-200 shadow-md overflow-hidden">
+                  <CardHeader className="bg-gradient-to-r from-purple-50 to-white border-b border-slate-100">
+                    <CardTitle className="text-xl bg-gradient-to-br from-purple-700 to-purple-500 text-transparent bg-clip-text">Venues</CardTitle>
+                    <CardDescription>
+                      Campaigns take place at one or more of your registered venues
+                    </CardDescription>
+                  </CardHeader>
+
+                  <CardContent className="pt-6 space-y-6">
+                    <OrganizationNameForm />
+                    <VenueManager />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="team">
+                <Card className="border border-slate-200 shadow-md overflow-hidden">
+                  <CardHeader className="bg-gradient-to-r from-purple-50 to-white border-b border-slate-100">
+                    <CardTitle className="text-xl bg-gradient-to-br from-purple-700 to-purple-500 text-transparent bg-clip-text">Team</CardTitle>
+                    <CardDescription>
+                      Give your staff their own logins, with a role that decides what each of them can do
+                    </CardDescription>
+                  </CardHeader>
+
+                  <CardContent className="pt-6">
+                    <TeamManager />
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
               <TabsContent value="account">
                 <Card className="border border-slate-200 shadow-md overflow-hidden">
                   <CardHeader className="bg-gradient-to-r from-purple-50 to-white border-b border-slate-100">
@@ -399,9 +481,7 @@ export default function RestaurantSettings() {
                           <h3 className="text-lg font-medium">Security</h3>
                           
                           <div>
-                            <Button variant="outline" type="button">
-                              Change Password
-                            </Button>
+                            <ChangePasswordDialog />
                           </div>
 
                           <div>
@@ -1,9 +1,12 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { endOfDay, isAfter, isBefore, parseISO, startOfDay } from "date-fns";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
 import { MobileNav } from "@/components/layout/mobile-nav";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -11,14 +14,171 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { SubmissionCard } from "@/components/submission-card";
-import { Submission, Campaign } from "@shared/schema";
-import { Loader2, Search, ClipboardList } from "lucide-react";
+import { ApplicationCard } from "@/components/application-card";
+import { SubmissionReviewDialog } from "@/components/submission-review-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useTeamPermissions } from "@/hooks/use-team-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Submission,
+  Campaign,
+  CampaignApplication,
+  SOCIAL_PLATFORMS,
+  SubmissionBatchReviewResult,
+  SubmissionReview,
+} from "@shared/schema";
+import { SUBMISSION_PLATFORM_LABELS } from "@shared/post-links";
+import { SUBMISSION_STATUS_LABELS } from "@shared/submission-review";
+import { Loader2, Search, ClipboardList, Send } from "lucide-react";
+
+const APPLICATION_ORDER = { pending: 0, accepted: 1, declined: 2 };
+
+// Bulk approvals, rejections and change requests for the pending submissions
+// the restaurant has picked
+function BulkReviewBar({
+  pendingIds,
+  selectedIds,
+  onSelectedIdsChange,
+  campaignTitles,
+}: {
+  pendingIds: number[];
+  selectedIds: number[];
+  onSelectedIdsChange: (ids: number[]) => void;
+  campaignTitles: Map<number, string>;
+}) {
+  const { toast } = useToast();
+  const [decision, setDecision] = useState<"changes_requested" | "rejected" | null>(null);
+  const [failures, setFailures] = useState<SubmissionBatchReviewResult["failures"]>([]);
+  const allSelected = pendingIds.length > 0 && selectedIds.length === pendingIds.length;
+
+  const batchMutation = useMutation({
+    mutationFn: async (review: SubmissionReview) => {
+      const res = await apiRequest("POST", "/api/submissions/batch-review", {
+        submissionIds: selectedIds,
+        review,
+      });
+      return (await res.json()) as SubmissionBatchReviewResult;
+    },
+    onSuccess: (result, review) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/submissions"] });
+      setDecision(null);
+      setFailures(result.failures);
+
+      // Submissions that failed stay selected so they can be retried or deselected
+      const failedIds = result.failures.map((failure) => failure.submissionId);
+      onSelectedIdsChange(selectedIds.filter((id) => failedIds.includes(id)));
+
+      const label = SUBMISSION_STATUS_LABELS[review.status].toLowerCase();
+      if (result.failures.length === 0) {
+        toast({ title: "Submissions updated", description: `${result.updated.length} marked ${label}` });
+      } else if (result.updated.length === 0) {
+        toast({
+          title: "No submissions were updated",
+          description: `${result.failures.length} of the selected submissions can't be marked ${label}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Some submissions weren't updated",
+          description: `${result.updated.length} marked ${label}, ${result.failures.length} failed`,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't update submissions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (pendingIds.length === 0) return null;
+
+  return (
+    <div className="bg-white p-3 rounded-lg shadow mb-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-sm text-slate-700 mr-auto">
+          <Checkbox
+            checked={allSelected}
+            onCheckedChange={(checked) => onSelectedIdsChange(checked === true ? pendingIds : [])}
+          />
+          {selectedIds.length > 0
+            ? `${selectedIds.length} selected`
+            : `Select all pending (${pendingIds.length})`}
+        </label>
+        {selectedIds.length > 0 && (
+          <>
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-red-600 hover:text-red-700 hover:bg-red-50 border-red-200"
+              onClick={() => setDecision("rejected")}
+              disabled={batchMutation.isPending}
+            >
+              Reject
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-orange-700 hover:text-orange-800 hover:bg-orange-50 border-orange-200"
+              onClick={() => setDecision("changes_requested")}
+              disabled={batchMutation.isPending}
+            >
+              Request Changes
+            </Button>
+            <Button
+              size="sm"
+              className="bg-gradient-to-r from-green-600 to-green-500 hover:from-green-700 hover:to-green-600 text-white shadow-sm"
+              onClick={() => batchMutation.mutate({ status: "approved" })}
+              disabled={batchMutation.isPending}
+            >
+              {batchMutation.isPending && !decision && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Approve
+            </Button>
+          </>
+        )}
+      </div>
+
+      {failures.length > 0 && (
+        <ul className="rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-800 space-y-0.5">
+          {failures.map((failure) => (
+            <li key={failure.submissionId}>
+              Submission #{failure.submissionId}
+              {campaignTitles.has(failure.submissionId) && <> for "{campaignTitles.get(failure.submissionId)}"</>}
+              : {failure.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {decision && (
+        <SubmissionReviewDialog
+          decision={decision}
+          count={selectedIds.length}
+          isPending={batchMutation.isPending}
+          onConfirm={(review) => batchMutation.mutate(review)}
+          onClose={() => setDecision(null)}
+        />
+      )}
+    </div>
+  );
+}
 
 export default function Submissions() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
   const [sortBy, setSortBy] = useState("newest");
+  const [campaignFilter, setCampaignFilter] = useState("all");
+  const [platformFilter, setPlatformFilter] = useState("all");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const { can } = useTeamPermissions();
+  const canReview = can("review_submissions");
 
   const { data: submissions, isLoading: isSubmissionsLoading } = useQuery<Submission[]>({
     queryKey: ['/api/submissions'],
@@ -28,7 +188,38 @@ export default function Submissions() {
     queryKey: ['/api/campaigns'],
   });
 
+  const { data: applications, isLoading: isApplicationsLoading } = useQuery<CampaignApplication[]>({
+    queryKey: ['/api/applications'],
+  });
+
+  const { data: influencers } = useQuery<{ id: number; name: string }[]>({
+    queryKey: ['/api/users/influencers'],
+  });
+
   const isLoading = isSubmissionsLoading || isCampaignsLoading;
+  const pendingApplications = applications?.filter((application) => application.status === "pending").length ?? 0;
+
+  // Pending applications first, newest first within each status
+  const filteredApplications = applications && campaigns
+    ? applications
+        .filter((application) => {
+          const campaign = campaigns.find(c => c.id === application.campaignId);
+          return !searchQuery || !!campaign?.title.toLowerCase().includes(searchQuery.toLowerCase());
+        })
+        .sort((a, b) =>
+          APPLICATION_ORDER[a.status] - APPLICATION_ORDER[b.status] ||
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        )
+    : [];
+
+  // Open spots per capped campaign, for the accept buttons
+  const getRemainingSpots = (campaign: Campaign | undefined) => {
+    if (!campaign?.maxAcceptedApplicants) return null;
+    const accepted = applications?.filter(
+      (application) => application.campaignId === campaign.id && application.status === "accepted"
+    ).length ?? 0;
+    return campaign.maxAcceptedApplicants - accepted;
+  };
 
   // Filter and sort submissions
   const filteredSubmissions = submissions && campaigns
@@ -49,6 +240,23 @@ export default function Submissions() {
           if (statusFilter !== "all" && submission.status !== statusFilter) {
             return false;
           }
+
+          if (campaignFilter !== "all" && submission.campaignId !== Number(campaignFilter)) {
+            return false;
+          }
+
+          if (platformFilter !== "all" && submission.platform !== platformFilter) {
+            return false;
+          }
+
+          // Date range is inclusive of both days
+          const submittedAt = new Date(submission.createdAt);
+          if (fromDate && isBefore(submittedAt, startOfDay(parseISO(fromDate)))) {
+            return false;
+          }
+          if (toDate && isAfter(submittedAt, endOfDay(parseISO(toDate)))) {
+            return false;
+          }
           
           return true;
         })
@@ -65,6 +273,25 @@ export default function Submissions() {
         })
     : [];
 
+  // Only pending submissions in view can be bulk reviewed, so filtering one
+  // out also drops it from the selection
+  const pendingIds = filteredSubmissions
+    .filter((submission) => submission.status === "pending")
+    .map((submission) => submission.id);
+  const visibleSelectedIds = selectedIds.filter((id) => pendingIds.includes(id));
+  const campaignTitles = new Map(
+    filteredSubmissions.map((submission) => [
+      submission.id,
+      campaigns?.find(c => c.id === submission.campaignId)?.title ?? "Unknown Campaign",
+    ])
+  );
+
+  const toggleSelected = (submissionId: number, selected: boolean) => {
+    setSelectedIds(selected
+      ? [...visibleSelectedIds, submissionId]
+      : visibleSelectedIds.filter((id) => id !== submissionId));
+  };
+
   return (
     <div className="flex flex-col md:flex-row min-h-screen bg-slate-50">
       <Sidebar className="hidden md:flex" />
@@ -77,11 +304,173 @@ export default function Submissions() {
             <h1 className="text-2xl font-bold text-slate-800">Submissions</h1>
             <p className="text-slate-500">Manage and review content submissions from influencers</p>
           </div>
-          
-          {/* Filters */}
-          <div className="bg-white p-4 rounded-lg shadow mb-6">
-            <div className="flex flex-col md:flex-row md:items-center space-y-3 md:space-y-0 md:space-x-4">
-              <div className="flex-1">
+
+          <Tabs defaultValue="submissions" className="w-full">
+            <TabsList className="mb-4">
+              <TabsTrigger value="submissions" className="flex items-center gap-2">
+                <ClipboardList size={14} />
+                <span>Submissions</span>
+              </TabsTrigger>
+              <TabsTrigger value="applications" className="flex items-center gap-2">
+                <Send size={14} />
+                <span>Applications{pendingApplications > 0 ? ` (${pendingApplications})` : ""}</span>
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="submissions">
+              {/* Filters */}
+              <div className="bg-white p-4 rounded-lg shadow mb-6">
+                <div className="flex flex-col md:flex-row md:items-center space-y-3 md:space-y-0 md:space-x-4">
+                  <div className="flex-1">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
+                      <Input
+                        placeholder="Search by campaign..."
+                        className="pl-10"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="w-full md:w-40">
+                    <Select
+                      value={statusFilter}
+                      onValueChange={setStatusFilter}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="All Status" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Status</SelectItem>
+                        <SelectItem value="pending">Pending</SelectItem>
+                        <SelectItem value="changes_requested">Changes Requested</SelectItem>
+                        <SelectItem value="approved">Approved</SelectItem>
+                        <SelectItem value="rejected">Rejected</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="w-full md:w-40">
+                    <Select
+                      value={sortBy}
+                      onValueChange={setSortBy}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Sort by" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="newest">Newest</SelectItem>
+                        <SelectItem value="oldest">Oldest</SelectItem>
+                        <SelectItem value="most_views">Most Views</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <div className="flex flex-col md:flex-row md:items-center space-y-3 md:space-y-0 md:space-x-4 mt-3">
+                  <div className="flex-1">
+                    <Select
+                      value={campaignFilter}
+                      onValueChange={setCampaignFilter}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="All Campaigns" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Campaigns</SelectItem>
+                        {campaigns?.map((campaign) => (
+                          <SelectItem key={campaign.id} value={String(campaign.id)}>
+                            {campaign.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="w-full md:w-40">
+                    <Select
+                      value={platformFilter}
+                      onValueChange={setPlatformFilter}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="All Platforms" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All Platforms</SelectItem>
+                        {SOCIAL_PLATFORMS.map((platform) => (
+                          <SelectItem key={platform} value={platform}>
+                            {SUBMISSION_PLATFORM_LABELS[platform]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="w-full md:w-40">
+                    <Input
+                      type="date"
+                      aria-label="Submitted from"
+                      value={fromDate}
+                      max={toDate || undefined}
+                      onChange={(e) => setFromDate(e.target.value)}
+                    />
+                  </div>
+                  <div className="w-full md:w-40">
+                    <Input
+                      type="date"
+                      aria-label="Submitted until"
+                      value={toDate}
+                      min={fromDate || undefined}
+                      onChange={(e) => setToDate(e.target.value)}
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {canReview && (
+                <BulkReviewBar
+                  pendingIds={pendingIds}
+                  selectedIds={visibleSelectedIds}
+                  onSelectedIdsChange={setSelectedIds}
+                  campaignTitles={campaignTitles}
+                />
+              )}
+              
+              {/* Submissions List */}
+              {isLoading ? (
+                <div className="flex items-center justify-center h-64">
+                  <Loader2 size={30} className="animate-spin text-primary" />
+                </div>
+              ) : filteredSubmissions.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {filteredSubmissions.map((submission) => {
+                    const campaign = campaigns?.find(c => c.id === submission.campaignId);
+                    return (
+                      <SubmissionCard
+                        key={submission.id}
+                        submission={submission}
+                        campaignTitle={campaign?.title || "Unknown Campaign"}
+                        restaurantView={true}
+                        brief={campaign?.brief}
+                        selected={visibleSelectedIds.includes(submission.id)}
+                        onSelectedChange={canReview && submission.status === "pending"
+                          ? (selected) => toggleSelected(submission.id, selected)
+                          : undefined}
+                      />
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <ClipboardList className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-medium text-slate-800 mb-2">No submissions found</h3>
+                  <p className="text-muted-foreground">
+                    {submissions?.length 
+                      ? "Try adjusting your filters or search query"
+                      : "You haven't received any submissions yet"}
+                  </p>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="applications">
+              <div className="bg-white p-4 rounded-lg shadow mb-6">
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-4 w-4" />
                   <Input
@@ -92,70 +481,39 @@ export default function Submissions() {
                   />
                 </div>
               </div>
-              <div className="w-full md:w-40">
-                <Select
-                  value={statusFilter}
-                  onValueChange={setStatusFilter}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="All Status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="approved">Approved</SelectItem>
-                    <SelectItem value="rejected">Rejected</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="w-full md:w-40">
-                <Select
-                  value={sortBy}
-                  onValueChange={setSortBy}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Sort by" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="newest">Newest</SelectItem>
-                    <SelectItem value="oldest">Oldest</SelectItem>
-                    <SelectItem value="most_views">Most Views</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
-          </div>
-          
-          {/* Submissions List */}
-          {isLoading ? (
-            <div className="flex items-center justify-center h-64">
-              <Loader2 size={30} className="animate-spin text-primary" />
-            </div>
-          ) : filteredSubmissions.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {filteredSubmissions.map((submission) => {
-                const campaign = campaigns?.find(c => c.id === submission.campaignId);
-                return (
-                  <SubmissionCard
-                    key={submission.id}
-                    submission={submission}
-                    campaignTitle={campaign?.title || "Unknown Campaign"}
-                    restaurantView={true}
-                  />
-                );
-              })}
-            </div>
-          ) : (
-            <div className="text-center py-12">
-              <ClipboardList className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-              <h3 className="text-lg font-medium text-slate-800 mb-2">No submissions found</h3>
-              <p className="text-muted-foreground">
-                {submissions?.length 
-                  ? "Try adjusting your filters or search query"
-                  : "You haven't received any submissions yet"}
-              </p>
-            </div>
-          )}
+
+              {isApplicationsLoading || isCampaignsLoading ? (
+                <div className="flex items-center justify-center h-64">
+                  <Loader2 size={30} className="animate-spin text-primary" />
+                </div>
+              ) : filteredApplications.length > 0 ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {filteredApplications.map((application) => {
+                    const campaign = campaigns?.find(c => c.id === application.campaignId);
+                    return (
+                      <ApplicationCard
+                        key={application.id}
+                        application={application}
+                        campaignTitle={campaign?.title || "Unknown Campaign"}
+                        influencerName={influencers?.find(i => i.id === application.influencerId)?.name}
+                        remainingSpots={getRemainingSpots(campaign)}
+                      />
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <Send className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                  <h3 className="text-lg font-medium text-slate-800 mb-2">No applications found</h3>
+                  <p className="text-muted-foreground">
+                    {applications?.length
+                      ? "Try adjusting your search query"
+                      : "Turn on \"Require influencers to apply first\" on a campaign to review applicants before they post"}
+                  </p>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
         </main>
         
         <MobileNav />
@@ -0,0 +1,131 @@
+-- The tables as they were while the schema was kept in sync with db:push.
+-- IF NOT EXISTS and the guarded constraints let a database created that way
+-- take up migrations; on a new database this creates them.
+CREATE TABLE IF NOT EXISTS "campaigns" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"restaurant_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"location" text,
+	"image_url" text NOT NULL,
+	"reward_amount" double precision NOT NULL,
+	"reward_views" integer NOT NULL,
+	"max_payout_per_influencer" double precision,
+	"max_budget" double precision,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "performance_metrics" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"submission_id" integer NOT NULL,
+	"view_count" integer NOT NULL,
+	"like_count" integer NOT NULL,
+	"calculated_earnings" double precision NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "private_invitations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"invite_code" uuid DEFAULT gen_random_uuid() NOT NULL,
+	"restaurant_id" integer NOT NULL,
+	"influencer_id" integer NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"image_url" text,
+	"reward_amount" double precision NOT NULL,
+	"reward_views" integer NOT NULL,
+	"status" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"expires_at" timestamp,
+	CONSTRAINT "private_invitations_invite_code_unique" UNIQUE("invite_code")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "private_performance_metrics" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"private_submission_id" integer NOT NULL,
+	"view_count" integer NOT NULL,
+	"like_count" integer NOT NULL,
+	"calculated_earnings" double precision NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"updated_by" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "private_submissions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"invitation_id" integer NOT NULL,
+	"instagram_url" text NOT NULL,
+	"notes" text,
+	"status" text NOT NULL,
+	"views" integer DEFAULT 0 NOT NULL,
+	"likes" integer DEFAULT 0 NOT NULL,
+	"earnings" double precision DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "submissions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"influencer_id" integer NOT NULL,
+	"instagram_url" text NOT NULL,
+	"notes" text,
+	"status" text NOT NULL,
+	"views" integer DEFAULT 0 NOT NULL,
+	"likes" integer DEFAULT 0 NOT NULL,
+	"earnings" double precision DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"name" text NOT NULL,
+	"email" text NOT NULL,
+	"role" text NOT NULL,
+	"profile_picture" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username"),
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_restaurant_id_users_id_fk" FOREIGN KEY ("restaurant_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "performance_metrics" ADD CONSTRAINT "performance_metrics_submission_id_submissions_id_fk" FOREIGN KEY ("submission_id") REFERENCES "public"."submissions"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "performance_metrics" ADD CONSTRAINT "performance_metrics_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "private_invitations" ADD CONSTRAINT "private_invitations_restaurant_id_users_id_fk" FOREIGN KEY ("restaurant_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "private_invitations" ADD CONSTRAINT "private_invitations_influencer_id_users_id_fk" FOREIGN KEY ("influencer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "private_performance_metrics" ADD CONSTRAINT "private_performance_metrics_private_submission_id_private_submissions_id_fk" FOREIGN KEY ("private_submission_id") REFERENCES "public"."private_submissions"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "private_performance_metrics" ADD CONSTRAINT "private_performance_metrics_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "private_submissions" ADD CONSTRAINT "private_submissions_invitation_id_private_invitations_id_fk" FOREIGN KEY ("invitation_id") REFERENCES "public"."private_invitations"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "submissions" ADD CONSTRAINT "submissions_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+DO $$ BEGIN
+  ALTER TABLE "submissions" ADD CONSTRAINT "submissions_influencer_id_users_id_fk" FOREIGN KEY ("influencer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION WHEN duplicate_object THEN null;
+END $$;
\ No newline at end of file
@@ -0,0 +1,294 @@
+-- Brings a baseline database up to the current schema: the tables and
+-- columns server/update-schema.ts and db:push used to add. The new columns'
+-- defaults mark existing campaigns as active, accepting Instagram posts, and
+-- existing submissions as Instagram posts. The backfills at the end fill in
+-- post ids and each restaurant's organization.
+CREATE TABLE "api_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"token_prefix" text NOT NULL,
+	"scopes" text[] NOT NULL,
+	"expires_at" timestamp,
+	"last_used_at" timestamp,
+	"revoked_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "api_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "campaign_applications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"campaign_id" integer NOT NULL,
+	"influencer_id" integer NOT NULL,
+	"pitch" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"posting_deadline" timestamp,
+	"decided_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "influencer_payout_details" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"payment_method" text NOT NULL,
+	"payment_email" text,
+	"account_name" text,
+	"account_number_encrypted" text,
+	"routing_number_encrypted" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "influencer_payout_details_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "influencer_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"bio" text,
+	"instagram_handle" text,
+	"tiktok_handle" text,
+	"youtube_handle" text,
+	"instagram_followers" integer DEFAULT 0 NOT NULL,
+	"tiktok_followers" integer DEFAULT 0 NOT NULL,
+	"youtube_followers" integer DEFAULT 0 NOT NULL,
+	"city" text,
+	"latitude" double precision,
+	"longitude" double precision,
+	"niches" text[] DEFAULT '{}' NOT NULL,
+	"follower_count" integer DEFAULT 0 NOT NULL,
+	"rate_card" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "influencer_profiles_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "ledger_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"influencer_id" integer NOT NULL,
+	"entry_type" text NOT NULL,
+	"from_account" text NOT NULL,
+	"to_account" text NOT NULL,
+	"amount" double precision NOT NULL,
+	"submission_id" integer,
+	"private_submission_id" integer,
+	"payout_id" integer,
+	"description" text NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "media_files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"owner_id" integer NOT NULL,
+	"key" text NOT NULL,
+	"thumbnail_key" text NOT NULL,
+	"original_content_type" text NOT NULL,
+	"byte_size" integer NOT NULL,
+	"width" integer NOT NULL,
+	"height" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "media_files_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+CREATE TABLE "notification_preferences" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"email_notifications" boolean DEFAULT true NOT NULL,
+	"submission_alerts" boolean DEFAULT true NOT NULL,
+	"new_campaign_alerts" boolean DEFAULT true NOT NULL,
+	"payment_notifications" boolean DEFAULT true NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "notification_preferences_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "notifications" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"type" text NOT NULL,
+	"title" text NOT NULL,
+	"message" text NOT NULL,
+	"link" text,
+	"dedupe_key" text,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "notifications_dedupe_key_unique" UNIQUE("dedupe_key")
+);
+--> statement-breakpoint
+CREATE TABLE "organization_activity" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"actor_id" integer NOT NULL,
+	"action" text NOT NULL,
+	"campaign_id" integer,
+	"submission_id" integer,
+	"private_invitation_id" integer,
+	"private_submission_id" integer,
+	"summary" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "organization_invites" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"email" text NOT NULL,
+	"role" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"invited_by_id" integer NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"accepted_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "organization_invites_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "organization_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "organization_members_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "organizations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"owner_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "organizations_owner_id_unique" UNIQUE("owner_id")
+);
+--> statement-breakpoint
+CREATE TABLE "password_reset_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"used_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "password_reset_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "payout_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"created_by" integer NOT NULL,
+	"minimum_amount" double precision NOT NULL,
+	"payout_count" integer NOT NULL,
+	"total_amount" double precision NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "payouts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"payout_run_id" integer NOT NULL,
+	"influencer_id" integer NOT NULL,
+	"amount" double precision NOT NULL,
+	"payment_method" text NOT NULL,
+	"payment_destination" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"reference" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"settled_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "restaurant_profiles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"description" text,
+	"address" text,
+	"city" text,
+	"state" text,
+	"zip_code" text,
+	"website" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "restaurant_profiles_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "submission_comments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"submission_id" integer,
+	"private_submission_id" integer,
+	"author_id" integer NOT NULL,
+	"event" text DEFAULT 'comment' NOT NULL,
+	"body" text,
+	"previous_post_url" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "venues" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"restaurant_id" integer NOT NULL,
+	"organization_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"address" text NOT NULL,
+	"city" text NOT NULL,
+	"state" text,
+	"zip_code" text,
+	"latitude" double precision NOT NULL,
+	"longitude" double precision NOT NULL,
+	"hours" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"cuisine" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "reward_rules" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "cuisine" text;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "campaign_type" text;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "dietary_tags" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "platforms" text[] DEFAULT '{"instagram"}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "venue_id" integer;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "latitude" double precision;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "longitude" double precision;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "venue_ids" integer[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "venue_coordinates" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "eligibility" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "brief" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "requires_application" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "max_accepted_applicants" integer;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "status" text DEFAULT 'active' NOT NULL;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "starts_at" timestamp;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD COLUMN "ends_at" timestamp;--> statement-breakpoint
+ALTER TABLE "private_invitations" ADD COLUMN "reward_rules" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "private_invitations" ADD COLUMN "brief" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "private_submissions" ADD COLUMN "platform" text DEFAULT 'instagram' NOT NULL;--> statement-breakpoint
+ALTER TABLE "private_submissions" ADD COLUMN "post_id" text;--> statement-breakpoint
+ALTER TABLE "private_submissions" ADD COLUMN "caption" text;--> statement-breakpoint
+ALTER TABLE "private_submissions" ADD COLUMN "compliance_issues" jsonb;--> statement-breakpoint
+ALTER TABLE "private_submissions" ADD COLUMN "rejection_reason" text;--> statement-breakpoint
+ALTER TABLE "submissions" ADD COLUMN "platform" text DEFAULT 'instagram' NOT NULL;--> statement-breakpoint
+ALTER TABLE "submissions" ADD COLUMN "post_id" text;--> statement-breakpoint
+ALTER TABLE "submissions" ADD COLUMN "caption" text;--> statement-breakpoint
+ALTER TABLE "submissions" ADD COLUMN "compliance_issues" jsonb;--> statement-breakpoint
+ALTER TABLE "submissions" ADD COLUMN "rejection_reason" text;--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD CONSTRAINT "api_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "campaign_applications" ADD CONSTRAINT "campaign_applications_campaign_id_campaigns_id_fk" FOREIGN KEY ("campaign_id") REFERENCES "public"."campaigns"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "campaign_applications" ADD CONSTRAINT "campaign_applications_influencer_id_users_id_fk" FOREIGN KEY ("influencer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "influencer_payout_details" ADD CONSTRAINT "influencer_payout_details_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "influencer_profiles" ADD CONSTRAINT "influencer_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_influencer_id_users_id_fk" FOREIGN KEY ("influencer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_submission_id_submissions_id_fk" FOREIGN KEY ("submission_id") REFERENCES "public"."submissions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_private_submission_id_private_submissions_id_fk" FOREIGN KEY ("private_submission_id") REFERENCES "public"."private_submissions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "media_files" ADD CONSTRAINT "media_files_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_activity" ADD CONSTRAINT "organization_activity_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_activity" ADD CONSTRAINT "organization_activity_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_invites" ADD CONSTRAINT "organization_invites_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_invites" ADD CONSTRAINT "organization_invites_invited_by_id_users_id_fk" FOREIGN KEY ("invited_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organization_members" ADD CONSTRAINT "organization_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "organizations" ADD CONSTRAINT "organizations_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "password_reset_tokens" ADD CONSTRAINT "password_reset_tokens_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payout_runs" ADD CONSTRAINT "payout_runs_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_payout_run_id_payout_runs_id_fk" FOREIGN KEY ("payout_run_id") REFERENCES "public"."payout_runs"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payouts" ADD CONSTRAINT "payouts_influencer_id_users_id_fk" FOREIGN KEY ("influencer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "restaurant_profiles" ADD CONSTRAINT "restaurant_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submission_comments" ADD CONSTRAINT "submission_comments_submission_id_submissions_id_fk" FOREIGN KEY ("submission_id") REFERENCES "public"."submissions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submission_comments" ADD CONSTRAINT "submission_comments_private_submission_id_private_submissions_id_fk" FOREIGN KEY ("private_submission_id") REFERENCES "public"."private_submissions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "submission_comments" ADD CONSTRAINT "submission_comments_author_id_users_id_fk" FOREIGN KEY ("author_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "venues" ADD CONSTRAINT "venues_restaurant_id_users_id_fk" FOREIGN KEY ("restaurant_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "venues" ADD CONSTRAINT "venues_organization_id_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organizations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "campaigns" ADD CONSTRAINT "campaigns_venue_id_venues_id_fk" FOREIGN KEY ("venue_id") REFERENCES "public"."venues"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+-- Existing links are Instagram posts, matched by the shortcode after /p/, /reel/, /reels/ or /tv/
+UPDATE "submissions" SET "post_id" = substring("instagram_url" from '/(?:p|reels?|tv)/([A-Za-z0-9_-]+)') WHERE "post_id" IS NULL AND "platform" = 'instagram';--> statement-breakpoint
+UPDATE "private_submissions" SET "post_id" = substring("instagram_url" from '/(?:p|reels?|tv)/([A-Za-z0-9_-]+)') WHERE "post_id" IS NULL AND "platform" = 'instagram';--> statement-breakpoint
+-- Every restaurant account owns an organization and is its owner member
+INSERT INTO "organizations" ("owner_id", "name") SELECT "id", "name" FROM "users" WHERE "role" = 'restaurant' ON CONFLICT ("owner_id") DO NOTHING;--> statement-breakpoint
+INSERT INTO "organization_members" ("organization_id", "user_id", "role") SELECT "id", "owner_id", 'owner' FROM "organizations" ON CONFLICT ("user_id") DO NOTHING;
@@ -0,0 +1,3 @@
+-- Submissions can link to TikTok and YouTube as well as Instagram
+ALTER TABLE "submissions" RENAME COLUMN "instagram_url" TO "post_url";--> statement-breakpoint
+ALTER TABLE "private_submissions" RENAME COLUMN "instagram_url" TO "post_url";
@@ -0,0 +1,7 @@
+// The public address of the app, from APP_URL, without a trailing slash.
+// Links sent to users are only built from this, never from the request's
+// Host header, which whoever sends the request controls.
+export function getAppUrl(): string | null {
+  const appUrl = process.env.APP_URL?.trim();
+  return appUrl ? appUrl.replace(/\/+$/, "") : null;
+}
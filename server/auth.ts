@@ -1,39 +1,69 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
+import {
+  issueApiToken,
+  revokeApiToken,
+  authenticateApiToken,
+  isDevAuthBypassEnabled,
+  LOGIN_TOKEN_NAME,
+  LOGIN_TOKEN_TTL_DAYS
+} from "./tokens";
+import { closeConnections } from "./realtime";
+import type { ActingMember } from "./team";
 
-// Declare the global namespace to match routes.ts
-declare global {
-  var authTokens: Map<string, number>;
+declare module "express-session" {
+  interface SessionData {
+    // Set by passport once the user logs in
+    passport?: { user?: number };
+  }
 }
 
 declare global {
   namespace Express {
-    interface User extends SelectUser {}
+    // member is set by requireAuth for restaurant users
+    interface User extends SelectUser {
+      member?: ActingMember;
+    }
   }
 }
 
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
-export function setupAuth(app: Express) {
+// Strip the password hash before sending a user to the client
+export function createSafeUserObject(user: SelectUser) {
+  return {
+    id: user.id,
+    username: user.username,
+    name: user.name,
+    email: user.email,
+    role: user.role,
+    profilePicture: user.profilePicture,
+    createdAt: user.createdAt
+  };
+}
+
+// Returns the session middleware so other entry points (the WebSocket
+// upgrade handler) can read the same sessions
+export function setupAuth(app: Express): RequestHandler {
   // Use session store from the DatabaseStorage
   console.log("Setting up auth with database-connected session store");
   
@@ -49,8 +79,10 @@ export function setupAuth(app: Express) {
     store: storage.sessionStore
   };
 
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -150,9 +182,24 @@ export function setupAuth(app: Express) {
     })(req, res, next);
   });
 
-  app.post("/api/logout", (req, res, next) => {
+  app.post("/api/logout", async (req, res, next) => {
+    // Revoke the presented API token so it can't be reused after logout
+    const authToken = req.headers['x-auth-token'] as string;
+    if (authToken) {
+      try {
+        const revoked = await revokeApiToken(authToken);
+        if (revoked) {
+          closeConnections({ tokenIds: [revoked.id] });
+        }
+      } catch (error) {
+        console.error("Error revoking token on logout:", error);
+      }
+    }
+
+    const sessionId = req.sessionID;
     req.logout((err) => {
       if (err) return next(err);
+      closeConnections({ sessionIds: [sessionId] });
       res.sendStatus(200);
     });
   });
@@ -174,12 +221,11 @@ export function setupAuth(app: Express) {
     });
   });
 
-  // Generate an authentication token for emergency use
+  // Log in and receive a persisted API token for the x-auth-token header
   app.post("/api/auth/token", (req, res) => {
     console.log("Token auth request received for username:", req.body.username);
     
-    // Use a simpler login flow without session regeneration
-    passport.authenticate("local", (err, user, info) => {
+    passport.authenticate("local", async (err: Error | null, user: SelectUser | false) => {
       if (err) {
         console.error("Token auth error:", err);
         return res.status(500).send("Internal Server Error");
@@ -190,40 +236,39 @@ export function setupAuth(app: Express) {
         return res.status(401).send("Invalid credentials");
       }
       
-      // Generate a unique token
-      const token = Math.random().toString(36).substring(2) + Date.now().toString(36);
-      
-      // Store the token with the user ID in the token map in routes.ts
-      if (typeof global.authTokens !== 'undefined') {
-        global.authTokens.set(token, user.id);
+      try {
+        const { token, apiToken } = await issueApiToken(user.id, {
+          name: LOGIN_TOKEN_NAME,
+          scopes: ["read", "write"],
+          expiresInDays: LOGIN_TOKEN_TTL_DAYS
+        });
         console.log("Token generated for user:", user.id, user.username);
-      } else {
-        console.error("authTokens map not available globally");
+
+        return res.status(200).json({
+          token,
+          expiresAt: apiToken.expiresAt,
+          user: createSafeUserObject(user)
+        });
+      } catch (error) {
+        console.error("Error issuing API token:", error);
+        return res.status(500).send("Internal Server Error");
       }
-      
-      // Create a safe user object without the password
-      const safeUser = {
-        id: user.id,
-        username: user.username,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        profilePicture: user.profilePicture,
-        createdAt: user.createdAt
-      };
-      
-      // Send the token to the client
-      return res.status(200).json({
-        token,
-        user: safeUser
-      });
     })(req, res, () => {});
   });
   
-  // Dummy authenticated test endpoint - allows skip of authentication with a special header
-  app.get("/api/force-auth", (req, res) => {
+  // Dev-only: force a session login with a special header
+  app.get("/api/force-auth", async (req, res) => {
+    if (!isDevAuthBypassEnabled()) {
+      return res.status(404).json({ success: false, message: "Auth bypass is disabled" });
+    }
+
     if (req.headers['x-viralbite-auth-bypass'] === 'true') {
-      req.login({id: 11, username: 'emergency-bypass'} as any, (err) => {
+      const adminUser = await storage.getUserByUsername("Admin");
+      if (!adminUser) {
+        return res.status(404).json({ success: false, message: "Admin user not found" });
+      }
+
+      req.login(adminUser, (err) => {
         if (err) {
           console.error("Emergency auth bypass error:", err);
           return res.status(500).send("Error forcing authentication");
@@ -235,88 +280,36 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res) => {
     console.log("GET /api/user - Session ID:", req.sessionID);
     console.log("GET /api/user - Is Authenticated:", req.isAuthenticated());
-    console.log("GET /api/user - Cookies:", req.headers.cookie);
-    console.log("GET /api/user - All Headers:", JSON.stringify(req.headers));
-    
-    // Helper function to create a safe user object
-    const createSafeUserObject = (user: any) => {
-      if (!user) return null;
-      return {
-        id: user.id,
-        username: user.username,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        profilePicture: user.profilePicture,
-        createdAt: user.createdAt
-      };
-    };
     
     // Check for token in header for alternative authentication
     const authToken = req.headers['x-auth-token'] as string;
-    console.log("GET /api/user - Checking auth token:", authToken);
-    console.log("GET /api/user - Available tokens:", Array.from(global.authTokens?.keys() || []));
-    
-    // Special handling for test token - works even if authTokens map is not available
-    if (authToken === 'test-token-123456') {
-      console.log("GET /api/user - Found special test token for Admin");
-      
-      // Fetch the admin user by ID
-      storage.getUser(11).then(user => {
-        if (user) {
-          console.log("GET /api/user - Test token user found:", user.id, user.username);
-          const safeUser = createSafeUserObject(user);
-          return res.json(safeUser);
-        } else {
-          console.log("GET /api/user - Test token, but admin user not found in database");
-          return res.sendStatus(401);
+    if (authToken) {
+      try {
+        const result = await authenticateApiToken(authToken, req.method);
+        if (!result.ok) {
+          console.log("GET /api/user - Token rejected:", result.message);
+          return res.status(result.status).send(result.message);
         }
-      }).catch(err => {
-        console.error("GET /api/user - Test token auth error:", err);
-        return res.status(500).send("Server error");
-      });
-      
-      return;
-    }
-    
-    // Handle other tokens from the authTokens map
-    if (authToken && typeof global.authTokens !== 'undefined' && global.authTokens.has(authToken)) {
-      const userId = global.authTokens.get(authToken);
-      console.log("GET /api/user - Token auth detected - User ID:", userId);
-      
-      if (typeof userId === 'undefined') {
-        console.error("GET /api/user - Token exists but userId is undefined");
-        return res.sendStatus(401);
-      }
-      
-      // Fetch the user by ID
-      storage.getUser(userId).then(user => {
-        if (user) {
-          console.log("GET /api/user - Token user found:", user.id, user.username);
-          const safeUser = createSafeUserObject(user);
-          return res.json(safeUser);
-        } else {
-          console.log("GET /api/user - Token auth, but user not found");
-          return res.sendStatus(401);
-        }
-      }).catch(err => {
+
+        console.log("GET /api/user - Token user found:", result.user.id, result.user.username);
+        return res.json(createSafeUserObject(result.user));
+      } catch (err) {
         console.error("GET /api/user - Token auth error:", err);
         return res.status(500).send("Server error");
-      });
-      
-      return;
+      }
     }
     
     if (req.isAuthenticated()) {
       console.log("GET /api/user - User:", req.user.id, req.user.username);
-      const safeUser = createSafeUserObject(req.user);
-      return res.json(safeUser);
+      return res.json(createSafeUserObject(req.user));
     } else {
       console.log("GET /api/user - Not authenticated");
       return res.sendStatus(401);
     }
   });
+
+  return sessionMiddleware;
 }
@@ -0,0 +1,69 @@
+import type { Campaign, CampaignQuery, CampaignSort } from "@shared/schema";
+import { isCampaignAcceptingSubmissions } from "@shared/campaign-lifecycle";
+import { type Coordinates, distanceToNearestVenue } from "@shared/geo";
+
+function getOrigin(query: CampaignQuery): Coordinates | null {
+  if (query.lat === undefined || query.lng === undefined) return null;
+  return { latitude: query.lat, longitude: query.lng };
+}
+
+// Measured to the campaign's nearest venue; campaigns without coordinates
+// are infinitely far away
+function distanceFrom(origin: Coordinates | null, campaign: Campaign): number {
+  if (!origin) return Number.POSITIVE_INFINITY;
+  return distanceToNearestVenue(origin, campaign) ?? Number.POSITIVE_INFINITY;
+}
+
+function matchesQuery(campaign: Campaign, query: CampaignQuery, origin: Coordinates | null, now: Date): boolean {
+  if (query.open && !isCampaignAcceptingSubmissions(campaign, now)) {
+    return false;
+  }
+
+  if (query.q) {
+    const term = query.q.toLowerCase();
+    const haystack = [campaign.title, campaign.description, campaign.location ?? ""].join(" ").toLowerCase();
+    if (!haystack.includes(term)) {
+      return false;
+    }
+  }
+
+  if (query.cuisine && campaign.cuisine !== query.cuisine) {
+    return false;
+  }
+
+  if (query.campaignType && campaign.campaignType !== query.campaignType) {
+    return false;
+  }
+
+  if (query.dietary && !query.dietary.every(tag => campaign.dietaryTags.includes(tag))) {
+    return false;
+  }
+
+  if (query.radius !== undefined && distanceFrom(origin, campaign) > query.radius) {
+    return false;
+  }
+
+  return true;
+}
+
+const toTime = (value: Date | null) => (value ? new Date(value).getTime() : Number.POSITIVE_INFINITY);
+
+const COMPARATORS: Record<Exclude<CampaignSort, "distance">, (a: Campaign, b: Campaign) => number> = {
+  highest_paying: (a, b) => b.rewardAmount / b.rewardViews - a.rewardAmount / a.rewardViews,
+  newest: (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+  // Campaigns without an end date go last
+  ending_soon: (a, b) => toTime(a.endsAt) - toTime(b.endsAt),
+};
+
+// Filters and sorts the campaigns a user is allowed to see. Runs after the
+// role scoping and status sync in GET /api/campaigns so "open" uses the same
+// lifecycle rules as submission checks.
+export function applyCampaignQuery<T extends Campaign>(campaigns: T[], query: CampaignQuery, now: Date = new Date()): T[] {
+  const origin = getOrigin(query);
+  const matches = campaigns.filter(campaign => matchesQuery(campaign, query, origin, now));
+
+  if (query.sort === "distance") {
+    return matches.sort((a, b) => distanceFrom(origin, a) - distanceFrom(origin, b));
+  }
+  return query.sort ? matches.sort(COMPARATORS[query.sort]) : matches;
+}
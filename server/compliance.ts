@@ -0,0 +1,23 @@
+import { fetchPostCaption } from "./post-metrics";
+import { checkCaptionCompliance } from "@shared/content-brief";
+import type { ComplianceIssue, ContentBrief, SocialPlatform } from "@shared/schema";
+
+export interface SubmissionCompliance {
+  caption: string | null;
+  // null when no caption was entered and none could be fetched
+  complianceIssues: ComplianceIssue[] | null;
+}
+
+// Checks a new submission against the brief, using the caption the influencer
+// entered or, failing that, the one the post metrics adapter finds
+export async function checkSubmissionCompliance(
+  brief: ContentBrief,
+  post: { platform: SocialPlatform; postUrl: string },
+  enteredCaption: string | null | undefined
+): Promise<SubmissionCompliance> {
+  const caption = enteredCaption?.trim() || (await fetchPostCaption(post.platform, post.postUrl));
+  if (!caption) {
+    return { caption: null, complianceIssues: null };
+  }
+  return { caption, complianceIssues: checkCaptionCompliance(brief, caption) };
+}
@@ -0,0 +1,169 @@
+import { storage, type IStorage } from "./storage";
+import type { Campaign, CampaignWithBudget, PrivateInvitation, PrivateSubmission, Submission } from "@shared/schema";
+import { getEffectiveCampaignStatus } from "@shared/campaign-lifecycle";
+import { calculateReward, roundToCents, type RewardMetrics, type RewardTerms } from "@shared/reward-rules";
+
+function sumEarnings(submissions: Submission[]): number {
+  return roundToCents(submissions.reduce((sum, s) => sum + s.earnings, 0));
+}
+
+// Earnings from a campaign's or invitation's reward rules alone, before any caps
+export function calculateUncappedEarnings(metrics: RewardMetrics, terms: RewardTerms): number {
+  return calculateReward(terms, metrics).total;
+}
+
+export interface EarningsBreakdown {
+  uncappedEarnings: number;
+  earnings: number;
+  cappedBy: "maxPayoutPerInfluencer" | "maxBudget" | null;
+}
+
+// Caps a submission's earnings so that the influencer's total across all of
+// their submissions to the campaign stays within maxPayoutPerInfluencer, and
+// total campaign spend stays within maxBudget. campaignSubmissions is every
+// submission to the campaign; the submission being priced is excluded here.
+export function calculateCappedEarnings(
+  submission: Submission,
+  metrics: RewardMetrics,
+  campaign: Campaign,
+  campaignSubmissions: Submission[]
+): EarningsBreakdown {
+  const uncappedEarnings = calculateUncappedEarnings(metrics, campaign);
+  const others = campaignSubmissions.filter(s => s.id !== submission.id);
+
+  let earnings = uncappedEarnings;
+  let cappedBy: EarningsBreakdown["cappedBy"] = null;
+
+  if (campaign.maxPayoutPerInfluencer != null) {
+    const influencerEarned = sumEarnings(
+      others.filter(s => Number(s.influencerId) === Number(submission.influencerId))
+    );
+    const influencerRemaining = Math.max(0, campaign.maxPayoutPerInfluencer - influencerEarned);
+    if (earnings > influencerRemaining) {
+      earnings = influencerRemaining;
+      cappedBy = "maxPayoutPerInfluencer";
+    }
+  }
+
+  if (campaign.maxBudget != null) {
+    const budgetRemaining = Math.max(0, campaign.maxBudget - sumEarnings(others));
+    if (earnings > budgetRemaining) {
+      earnings = budgetRemaining;
+      cappedBy = "maxBudget";
+    }
+  }
+
+  return { uncappedEarnings, earnings: roundToCents(earnings), cappedBy };
+}
+
+export function getCampaignBudget(campaign: Campaign, campaignSubmissions: Submission[]) {
+  const spentBudget = sumEarnings(campaignSubmissions);
+  const remainingBudget = campaign.maxBudget != null
+    ? roundToCents(Math.max(0, campaign.maxBudget - spentBudget))
+    : null;
+  return { spentBudget, remainingBudget };
+}
+
+export async function withCampaignBudget(campaign: Campaign): Promise<CampaignWithBudget> {
+  const campaignSubmissions = await storage.getSubmissionsByCampaignId(campaign.id);
+  return { ...campaign, ...getCampaignBudget(campaign, campaignSubmissions) };
+}
+
+export async function withCampaignBudgets(campaigns: Campaign[]): Promise<CampaignWithBudget[]> {
+  return Promise.all(campaigns.map(withCampaignBudget));
+}
+
+export interface SettledEarnings extends EarningsBreakdown {
+  submission: Submission;
+  campaign: CampaignWithBudget;
+  campaignClosed: boolean;
+}
+
+// The single place submission earnings are written. Prices the new metrics
+// against the campaign's caps, stores them on the submission, and closes the
+// campaign once its budget is used up. Likes default to the stored count.
+// The campaign row stays locked until the transaction ends, so two
+// submissions settling at once can't both spend the same remaining budget.
+// Pass the caller's transaction as store to commit along with its other writes.
+// A write that fails throws, rolling the transaction back, rather than the
+// caller being handed a submission that was never saved.
+export async function settleSubmissionEarnings(
+  submission: Submission,
+  campaign: Campaign,
+  metrics: { views: number; likes?: number },
+  store: IStorage = storage
+): Promise<SettledEarnings> {
+  return store.transaction(async tx => {
+    const lockedCampaign = await tx.lockCampaign(campaign.id);
+    if (!lockedCampaign) {
+      throw new Error(`Campaign ${campaign.id} not found while settling earnings`);
+    }
+    const campaignSubmissions = await tx.getSubmissionsByCampaignId(lockedCampaign.id);
+    const breakdown = calculateCappedEarnings(
+      submission,
+      { views: metrics.views, likes: metrics.likes ?? submission.likes },
+      lockedCampaign,
+      campaignSubmissions
+    );
+
+    const submissionUpdate: Partial<Submission> = { views: metrics.views, earnings: breakdown.earnings };
+    if (metrics.likes !== undefined) {
+      submissionUpdate.likes = metrics.likes;
+    }
+    const updatedSubmission = await tx.updateSubmission(submission.id, submissionUpdate);
+    if (!updatedSubmission) {
+      throw new Error(`Submission ${submission.id} not found while settling its earnings`);
+    }
+
+    const settledSubmissions = campaignSubmissions
+      .filter(s => s.id !== submission.id)
+      .concat(updatedSubmission);
+    const budget = getCampaignBudget(lockedCampaign, settledSubmissions);
+
+    let updatedCampaign = lockedCampaign;
+    let campaignClosed = false;
+    const status = getEffectiveCampaignStatus(lockedCampaign);
+    const isOpen = status === "scheduled" || status === "active" || status === "paused";
+
+    if (budget.remainingBudget === 0 && isOpen) {
+      console.log(`Campaign ${lockedCampaign.id} budget of $${lockedCampaign.maxBudget} exhausted, closing campaign`);
+      const closedCampaign = await tx.updateCampaign(lockedCampaign.id, { status: "completed" });
+      if (!closedCampaign) {
+        throw new Error(`Campaign ${lockedCampaign.id} not found while closing it`);
+      }
+      updatedCampaign = closedCampaign;
+      campaignClosed = true;
+    }
+
+    return {
+      ...breakdown,
+      submission: updatedSubmission,
+      campaign: { ...updatedCampaign, ...budget },
+      campaignClosed
+    };
+  });
+}
+
+// Private invitations have no budget caps, so their submissions earn the
+// invitation's reward rules as they stand
+export async function settlePrivateSubmissionEarnings(
+  submission: PrivateSubmission,
+  invitation: PrivateInvitation,
+  metrics: { views: number; likes?: number },
+  store: IStorage = storage
+): Promise<PrivateSubmission> {
+  const earnings = calculateUncappedEarnings(
+    { views: metrics.views, likes: metrics.likes ?? submission.likes },
+    invitation
+  );
+
+  const submissionUpdate: Partial<PrivateSubmission> = { views: metrics.views, earnings };
+  if (metrics.likes !== undefined) {
+    submissionUpdate.likes = metrics.likes;
+  }
+  const updatedSubmission = await store.updatePrivateSubmission(submission.id, submissionUpdate);
+  if (!updatedSubmission) {
+    throw new Error(`Private submission ${submission.id} not found while settling its earnings`);
+  }
+  return updatedSubmission;
+}
@@ -0,0 +1,35 @@
+import { storage } from "./storage";
+import type { Campaign, SocialPlatform } from "@shared/schema";
+import { type EligibilityCheck, type InfluencerEligibilityProfile, checkCampaignEligibility } from "@shared/campaign-eligibility";
+import { getCoordinates } from "@shared/geo";
+
+export async function getInfluencerEligibilityProfile(influencerId: number): Promise<InfluencerEligibilityProfile> {
+  const [profile, submissions] = await Promise.all([
+    storage.getInfluencerProfile(influencerId),
+    storage.getSubmissionsByInfluencerId(influencerId),
+  ]);
+
+  const handles: Record<SocialPlatform, string | null | undefined> = {
+    instagram: profile?.instagramHandle,
+    tiktok: profile?.tiktokHandle,
+    youtube: profile?.youtubeHandle,
+  };
+
+  // Only final decisions count. A change request is still open, and a
+  // resubmitted post goes back to pending, so neither counts against the influencer.
+  const approved = submissions.filter(submission => submission.status === "approved").length;
+  const reviewed = approved + submissions.filter(submission => submission.status === "rejected").length;
+
+  return {
+    followerCount: profile?.followerCount ?? 0,
+    platforms: (Object.keys(handles) as SocialPlatform[]).filter(platform => !!handles[platform]),
+    city: profile?.city ?? null,
+    coordinates: profile ? getCoordinates(profile) : null,
+    niches: profile?.niches ?? [],
+    approvalRate: reviewed > 0 ? Math.round((approved / reviewed) * 100) : null,
+  };
+}
+
+export async function checkInfluencerEligibility(campaign: Campaign, influencerId: number): Promise<EligibilityCheck> {
+  return checkCampaignEligibility(campaign, await getInfluencerEligibilityProfile(influencerId));
+}
@@ -0,0 +1,46 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+// Development fallback so local setups work without configuration. Production
+// must set PAYOUT_ENCRYPTION_KEY; data encrypted with the fallback key is not
+// readable once a real key is configured.
+const DEV_FALLBACK_KEY = "viralbite-dev-payout-encryption-key";
+
+function getKey(): Buffer {
+  const secret = process.env.PAYOUT_ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("PAYOUT_ENCRYPTION_KEY must be set in production");
+    }
+    return createHash("sha256").update(DEV_FALLBACK_KEY).digest();
+  }
+  return createHash("sha256").update(secret).digest();
+}
+
+// Returns "v1:<iv>:<auth tag>:<ciphertext>", all base64
+export function encryptSecret(plainText: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, getKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plainText, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), encrypted.toString("base64")].join(":");
+}
+
+export function decryptSecret(payload: string): string {
+  const [version, iv, tag, encrypted] = payload.split(":");
+  if (version !== VERSION || !iv || !tag || !encrypted) {
+    throw new Error("Unrecognised encrypted value");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, "base64")), decipher.final()]).toString("utf8");
+}
+
+// Shows only the last four characters, e.g. "••••6789"
+export function maskSecret(value: string): string {
+  return `••••${value.slice(-4)}`;
+}
@@ -0,0 +1,132 @@
+import type { Coordinates } from "@shared/geo";
+
+export interface GeocodeQuery {
+  // Street address; omit to locate just the city
+  address?: string;
+  city: string;
+  state?: string | null;
+  zipCode?: string | null;
+}
+
+// Anything that can turn an address into coordinates. Swap implementations
+// with setGeocoder(); the default is chosen from GEOCODER.
+export interface Geocoder {
+  readonly name: string;
+  // Resolves to null when the address can't be located
+  geocode(query: GeocodeQuery): Promise<Coordinates | null>;
+}
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+
+// City centres for the offline geocoder, keyed by "city" or "city, state"
+const CITY_COORDINATES: Record<string, Coordinates> = {
+  "new york": { latitude: 40.7128, longitude: -74.006 },
+  "new york city": { latitude: 40.7128, longitude: -74.006 },
+  "brooklyn": { latitude: 40.6782, longitude: -73.9442 },
+  "los angeles": { latitude: 34.0522, longitude: -118.2437 },
+  "chicago": { latitude: 41.8781, longitude: -87.6298 },
+  "houston": { latitude: 29.7604, longitude: -95.3698 },
+  "phoenix": { latitude: 33.4484, longitude: -112.074 },
+  "philadelphia": { latitude: 39.9526, longitude: -75.1652 },
+  "san antonio": { latitude: 29.4241, longitude: -98.4936 },
+  "san diego": { latitude: 32.7157, longitude: -117.1611 },
+  "dallas": { latitude: 32.7767, longitude: -96.797 },
+  "austin": { latitude: 30.2672, longitude: -97.7431 },
+  "san jose": { latitude: 37.3382, longitude: -121.8863 },
+  "san francisco": { latitude: 37.7749, longitude: -122.4194 },
+  "oakland": { latitude: 37.8044, longitude: -122.2712 },
+  "seattle": { latitude: 47.6062, longitude: -122.3321 },
+  "portland": { latitude: 45.5152, longitude: -122.6784 },
+  "denver": { latitude: 39.7392, longitude: -104.9903 },
+  "las vegas": { latitude: 36.1699, longitude: -115.1398 },
+  "boston": { latitude: 42.3601, longitude: -71.0589 },
+  "washington": { latitude: 38.9072, longitude: -77.0369 },
+  "miami": { latitude: 25.7617, longitude: -80.1918 },
+  "orlando": { latitude: 28.5383, longitude: -81.3792 },
+  "atlanta": { latitude: 33.749, longitude: -84.388 },
+  "nashville": { latitude: 36.1627, longitude: -86.7816 },
+  "new orleans": { latitude: 29.9511, longitude: -90.0715 },
+  "minneapolis": { latitude: 44.9778, longitude: -93.265 },
+  "detroit": { latitude: 42.3314, longitude: -83.0458 },
+  "toronto": { latitude: 43.6532, longitude: -79.3832 },
+  "london": { latitude: 51.5074, longitude: -0.1278 },
+};
+
+// Development and tests: resolves addresses to the centre of a known city,
+// without any network access
+export class OfflineGeocoder implements Geocoder {
+  readonly name = "offline";
+
+  async geocode(query: GeocodeQuery): Promise<Coordinates | null> {
+    const city = normalize(query.city);
+    const withState = query.state ? `${city}, ${normalize(query.state)}` : city;
+    return CITY_COORDINATES[withState] ?? CITY_COORDINATES[city] ?? null;
+  }
+}
+
+// Production: OpenStreetMap's Nominatim search API (or a compatible
+// self-hosted instance set with GEOCODER_URL)
+export class NominatimGeocoder implements Geocoder {
+  readonly name = "nominatim";
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly userAgent: string
+  ) {}
+
+  async geocode(query: GeocodeQuery): Promise<Coordinates | null> {
+    const params = new URLSearchParams({
+      format: "json",
+      limit: "1",
+      city: query.city,
+    });
+    if (query.address) params.set("street", query.address);
+    if (query.state) params.set("state", query.state);
+    if (query.zipCode) params.set("postalcode", query.zipCode);
+
+    const response = await fetch(`${this.baseUrl}/search?${params.toString()}`, {
+      headers: { "User-Agent": this.userAgent, Accept: "application/json" },
+    });
+    if (!response.ok) {
+      throw new Error(`Geocoder responded with ${response.status}`);
+    }
+
+    const [result] = (await response.json()) as Array<{ lat: string; lon: string }>;
+    if (!result) return null;
+    return { latitude: Number(result.lat), longitude: Number(result.lon) };
+  }
+}
+
+function createDefaultGeocoder(): Geocoder {
+  switch (process.env.GEOCODER) {
+    case "nominatim":
+      return new NominatimGeocoder(
+        process.env.GEOCODER_URL || "https://nominatim.openstreetmap.org",
+        process.env.GEOCODER_USER_AGENT || "ViralBite/1.0"
+      );
+    case "offline":
+    case undefined:
+    case "":
+      return new OfflineGeocoder();
+    default:
+      console.warn(`Unknown GEOCODER "${process.env.GEOCODER}", falling back to offline`);
+      return new OfflineGeocoder();
+  }
+}
+
+let geocoder: Geocoder | null = null;
+
+export function getGeocoder(): Geocoder {
+  if (!geocoder) {
+    geocoder = createDefaultGeocoder();
+  }
+  return geocoder;
+}
+
+export function setGeocoder(nextGeocoder: Geocoder) {
+  geocoder = nextGeocoder;
+}
+
+export async function geocodeAddress(query: GeocodeQuery): Promise<Coordinates | null> {
+  return getGeocoder().geocode(query);
+}
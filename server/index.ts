@@ -2,11 +2,12 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { runInitialization } from "./init-users";
+import { startInvitationExpiryWarnings } from "./notifications";
 
 const app = express();
-// Increase payload limit to 10MB for handling image uploads
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: false, limit: '10mb' }));
+// Images are sent as multipart uploads to /api/upload, so JSON bodies stay small
+app.use(express.json({ limit: '1mb' }));
+app.use(express.urlencoded({ extended: false, limit: '1mb' }));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -45,6 +46,7 @@ app.use((req, res, next) => {
   console.log("User initialization complete");
   
   const server = await registerRoutes(app);
+  startInvitationExpiryWarnings();
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
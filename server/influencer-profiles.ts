@@ -0,0 +1,134 @@
+import { storage } from "./storage";
+import { geocodeAddress } from "./geocoding";
+import type {
+  InfluencerProfile,
+  InfluencerProfileInput,
+  InsertInfluencerProfile,
+  PortfolioItem,
+  PublicInfluencerProfile,
+} from "@shared/schema";
+
+type ProfileFields = PublicInfluencerProfile["profile"];
+
+const EMPTY_PROFILE: ProfileFields = {
+  bio: null,
+  instagramHandle: null,
+  tiktokHandle: null,
+  youtubeHandle: null,
+  instagramFollowers: 0,
+  tiktokFollowers: 0,
+  youtubeFollowers: 0,
+  city: null,
+  niches: [],
+  followerCount: 0,
+  rateCard: [],
+};
+
+// Influencers who haven't saved a profile yet get an empty one
+export function toProfileFields(profile: InfluencerProfile | undefined): ProfileFields {
+  if (!profile) return EMPTY_PROFILE;
+  // Home city coordinates are only used for eligibility checks
+  const { id, userId, updatedAt, latitude, longitude, ...fields } = profile;
+  return fields;
+}
+
+const normalizeHandle = (handle: string | null | undefined) => handle?.replace(/^@/, "") || null;
+
+// Locates the home city for radius eligibility rules. A geocoder outage
+// shouldn't stop the profile from saving, so failures just leave it unset.
+async function locateCity(city: string | null) {
+  if (!city) return null;
+  try {
+    return await geocodeAddress({ city });
+  } catch (error) {
+    console.error(`Error geocoding influencer city "${city}":`, error);
+    return null;
+  }
+}
+
+// Cleans up submitted profile fields and derives the combined follower count
+// the directory filters and sorts on, plus the home city's coordinates
+export async function prepareInfluencerProfile(input: InfluencerProfileInput): Promise<InsertInfluencerProfile> {
+  const instagramFollowers = input.instagramFollowers ?? 0;
+  const tiktokFollowers = input.tiktokFollowers ?? 0;
+  const youtubeFollowers = input.youtubeFollowers ?? 0;
+  const city = input.city || null;
+  const coordinates = await locateCity(city);
+
+  return {
+    ...input,
+    bio: input.bio || null,
+    city,
+    latitude: coordinates?.latitude ?? null,
+    longitude: coordinates?.longitude ?? null,
+    instagramHandle: normalizeHandle(input.instagramHandle),
+    tiktokHandle: normalizeHandle(input.tiktokHandle),
+    youtubeHandle: normalizeHandle(input.youtubeHandle),
+    instagramFollowers,
+    tiktokFollowers,
+    youtubeFollowers,
+    followerCount: instagramFollowers + tiktokFollowers + youtubeFollowers,
+  };
+}
+
+// Read-only profile restaurants see: profile fields plus a portfolio built
+// from the influencer's approved public submissions
+export async function getPublicInfluencerProfile(influencerId: number): Promise<PublicInfluencerProfile | undefined> {
+  const user = await storage.getUser(influencerId);
+  if (!user || user.role !== "influencer") {
+    return undefined;
+  }
+
+  const [profile, submissions] = await Promise.all([
+    storage.getInfluencerProfile(influencerId),
+    storage.getSubmissionsByInfluencerId(influencerId),
+  ]);
+
+  const approved = submissions.filter(submission => submission.status === "approved");
+  const campaignIds = Array.from(new Set(approved.map(submission => submission.campaignId)));
+  const campaigns = new Map(
+    (await Promise.all(campaignIds.map(id => storage.getCampaign(id))))
+      .filter(campaign => campaign !== undefined)
+      .map(campaign => [campaign.id, campaign])
+  );
+  const restaurantIds = Array.from(new Set(Array.from(campaigns.values()).map(campaign => campaign.restaurantId)));
+  const restaurants = new Map(
+    (await Promise.all(restaurantIds.map(id => storage.getUser(id))))
+      .filter(restaurant => restaurant !== undefined)
+      .map(restaurant => [restaurant.id, restaurant])
+  );
+
+  const portfolio: PortfolioItem[] = approved
+    .map(submission => {
+      const campaign = campaigns.get(submission.campaignId);
+      return {
+        submissionId: submission.id,
+        campaignId: submission.campaignId,
+        campaignTitle: campaign?.title ?? "Campaign",
+        restaurantName: (campaign && restaurants.get(campaign.restaurantId)?.name) ?? "Restaurant",
+        platform: submission.platform,
+        postUrl: submission.postUrl,
+        views: submission.views,
+        likes: submission.likes,
+        createdAt: submission.createdAt,
+      };
+    })
+    .sort((a, b) => b.views - a.views);
+
+  const totalViews = portfolio.reduce((sum, item) => sum + item.views, 0);
+
+  return {
+    id: user.id,
+    name: user.name,
+    username: user.username,
+    profilePicture: user.profilePicture,
+    memberSince: user.createdAt,
+    profile: toProfileFields(profile),
+    portfolio,
+    stats: {
+      approvedSubmissions: portfolio.length,
+      totalViews,
+      averageViews: portfolio.length > 0 ? Math.round(totalViews / portfolio.length) : 0,
+    },
+  };
+}
@@ -0,0 +1,214 @@
+import { storage, type IStorage } from "./storage";
+import { roundToCents } from "@shared/reward-rules";
+import { describePayoutDestination } from "./payout-details";
+import type { LedgerAccount, LedgerBalance, LedgerEntry, Payout, PayoutRun, User } from "@shared/schema";
+
+// Net amount that has flowed into an account across a set of entries
+function accountBalance(entries: LedgerEntry[], account: LedgerAccount): number {
+  return roundToCents(entries.reduce((sum, entry) => {
+    if (entry.toAccount === account) return sum + entry.amount;
+    if (entry.fromAccount === account) return sum - entry.amount;
+    return sum;
+  }, 0));
+}
+
+export function getLedgerBalance(entries: LedgerEntry[]): LedgerBalance {
+  return {
+    accrued: accountBalance(entries, "accrued"),
+    pendingPayout: accountBalance(entries, "pending_payout"),
+    paid: accountBalance(entries, "paid"),
+    reversed: roundToCents(
+      entries.filter(e => e.entryType === "reversal").reduce((sum, e) => sum + e.amount, 0)
+    ),
+  };
+}
+
+export type EarningsSource = { submissionId: number } | { privateSubmissionId: number };
+
+function matchesSource(entry: LedgerEntry, source: EarningsSource): boolean {
+  return "submissionId" in source
+    ? Number(entry.submissionId) === Number(source.submissionId)
+    : Number(entry.privateSubmissionId) === Number(source.privateSubmissionId);
+}
+
+// Submissions store their current total earnings, which is overwritten on
+// every metrics update. The ledger instead records each change: this posts an
+// accrual or reversal for the difference between the new total and what has
+// already been accrued for the submission. The submission row is locked while
+// the difference is worked out, so concurrent updates post one entry each
+// rather than both posting the same difference.
+export async function recordSubmissionEarnings(
+  influencerId: number,
+  source: EarningsSource,
+  earnings: number,
+  createdBy?: number,
+  store: IStorage = storage
+): Promise<LedgerEntry | null> {
+  return store.transaction(async tx => {
+    if ("submissionId" in source) {
+      await tx.lockSubmission(source.submissionId);
+    } else {
+      await tx.lockPrivateSubmission(source.privateSubmissionId);
+    }
+
+    const entries = (await tx.getLedgerEntriesByInfluencerId(influencerId))
+      .filter(entry => matchesSource(entry, source));
+    const accruedSoFar = entries.reduce((sum, entry) => {
+      if (entry.entryType === "accrual") return sum + entry.amount;
+      if (entry.entryType === "reversal") return sum - entry.amount;
+      return sum;
+    }, 0);
+
+    const delta = roundToCents(earnings - accruedSoFar);
+    if (delta === 0) {
+      return null;
+    }
+
+    const label = "submissionId" in source
+      ? `submission #${source.submissionId}`
+      : `private submission #${source.privateSubmissionId}`;
+
+    return tx.createLedgerEntry({
+      influencerId,
+      ...source,
+      entryType: delta > 0 ? "accrual" : "reversal",
+      fromAccount: delta > 0 ? "campaign" : "accrued",
+      toAccount: delta > 0 ? "accrued" : "campaign",
+      amount: Math.abs(delta),
+      description: delta > 0 ? `Earnings for ${label}` : `Earnings reversed for ${label}`,
+      createdBy: createdBy ?? null
+    });
+  });
+}
+
+export interface PayoutRunResult {
+  run: PayoutRun | null;
+  payouts: Payout[];
+  skipped: { influencerId: number; amount: number; reason: string }[];
+}
+
+// Batches every influencer's accrued balance (at or above minimumAmount) into
+// one payout each, paid to the method on their settings page. Influencers
+// without payout details are skipped and stay accrued for the next run. Each
+// influencer's ledger is locked before their balance is read, so two runs
+// started together can't both batch the same money: the second one waits and
+// then finds the balance already moved to pending payout.
+export async function createPayoutRun(admin: User, minimumAmount: number): Promise<PayoutRunResult> {
+  const result = await storage.transaction(async tx => {
+    const influencerIds = Array.from(new Set(
+      (await tx.getAllLedgerEntries()).map(entry => Number(entry.influencerId))
+    )).sort((a, b) => a - b);
+
+    const payable: { influencerId: number; amount: number; paymentMethod: Payout["paymentMethod"]; paymentDestination: string | null }[] = [];
+    const skipped: PayoutRunResult["skipped"] = [];
+
+    for (const influencerId of influencerIds) {
+      await tx.lockInfluencerLedger(influencerId);
+      const { accrued } = getLedgerBalance(await tx.getLedgerEntriesByInfluencerId(influencerId));
+      if (accrued <= 0 || accrued < minimumAmount) continue;
+
+      const details = await tx.getInfluencerPayoutDetails(influencerId);
+      if (!details) {
+        skipped.push({ influencerId, amount: accrued, reason: "No payout method on file" });
+        continue;
+      }
+
+      payable.push({
+        influencerId,
+        amount: accrued,
+        paymentMethod: details.paymentMethod,
+        paymentDestination: describePayoutDestination(details)
+      });
+    }
+
+    if (payable.length === 0) {
+      return { run: null, payouts: [], skipped };
+    }
+
+    const run = await tx.createPayoutRun({
+      createdBy: admin.id,
+      minimumAmount,
+      payoutCount: payable.length,
+      totalAmount: roundToCents(payable.reduce((sum, p) => sum + p.amount, 0))
+    });
+
+    const createdPayouts: Payout[] = [];
+    for (const item of payable) {
+      const payout = await tx.createPayout({
+        payoutRunId: run.id,
+        influencerId: item.influencerId,
+        amount: item.amount,
+        paymentMethod: item.paymentMethod,
+        paymentDestination: item.paymentDestination,
+        status: "pending"
+      });
+
+      await tx.createLedgerEntry({
+        influencerId: item.influencerId,
+        entryType: "payout",
+        fromAccount: "accrued",
+        toAccount: "pending_payout",
+        amount: item.amount,
+        payoutId: payout.id,
+        description: `Payout #${payout.id} in payout run #${run.id}`,
+        createdBy: admin.id
+      });
+
+      createdPayouts.push(payout);
+    }
+
+    return { run, payouts: createdPayouts, skipped };
+  });
+
+  if (result.run) {
+    console.log(`Payout run ${result.run.id} created: ${result.payouts.length} payouts totalling $${result.run.totalAmount}`);
+  }
+  return result;
+}
+
+export type SettlePayoutResult =
+  | { ok: true; payout: Payout }
+  | { ok: false; status: 400 | 404; message: string };
+
+// Marks a pending payout as paid, or cancels it and returns the amount to the
+// influencer's accrued balance. The payout row is locked while its status is
+// checked, so two settlements of the same payout post one ledger entry between
+// them and the second is told it's already settled.
+export async function settlePayout(
+  payoutId: number,
+  status: "paid" | "cancelled",
+  admin: User,
+  reference?: string
+): Promise<SettlePayoutResult> {
+  return storage.transaction(async (tx): Promise<SettlePayoutResult> => {
+    const payout = await tx.lockPayout(payoutId);
+    if (!payout) {
+      return { ok: false, status: 404, message: "Payout not found" };
+    }
+    if (payout.status !== "pending") {
+      return { ok: false, status: 400, message: `Payout is already ${payout.status}` };
+    }
+
+    const updatedPayout = await tx.updatePayout(payoutId, {
+      status,
+      reference: reference ?? payout.reference,
+      settledAt: new Date()
+    });
+    if (!updatedPayout) {
+      return { ok: false, status: 404, message: "Payout not found" };
+    }
+
+    await tx.createLedgerEntry({
+      influencerId: payout.influencerId,
+      entryType: status === "paid" ? "payout_paid" : "payout_cancelled",
+      fromAccount: "pending_payout",
+      toAccount: status === "paid" ? "paid" : "accrued",
+      amount: payout.amount,
+      payoutId: payout.id,
+      description: status === "paid" ? `Payout #${payout.id} sent` : `Payout #${payout.id} cancelled`,
+      createdBy: admin.id
+    });
+
+    return { ok: true, payout: updatedPayout };
+  });
+}
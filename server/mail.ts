@@ -0,0 +1,173 @@
+import { promises as fs } from "fs";
+import path from "path";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a message. Swap implementations with
+// setMailTransport(); the default is chosen from MAIL_TRANSPORT.
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Local development: print the message to the server log
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log("📧 Mail to:", message.to);
+    console.log("📧 Subject:", message.subject);
+    console.log(message.text);
+  }
+}
+
+// Local development and tests: write each message to a JSON file in a directory
+export class FileMailTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+    const filePath = path.join(this.directory, `${Date.now()}-${safeRecipient}.json`);
+    await fs.writeFile(filePath, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+    console.log(`📧 Mail to ${message.to} written to ${filePath}`);
+  }
+}
+
+// Production: deliver through an SMTP relay configured from SMTP_* variables
+export class SmtpMailTransport implements MailTransport {
+  readonly name = "smtp";
+  private readonly transporter: Transporter;
+
+  constructor(
+    options: { host: string; port: number; secure: boolean; user?: string; pass?: string },
+    private readonly from: string
+  ) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    console.warn("MAIL_TRANSPORT is smtp but SMTP_HOST is not set, falling back to console");
+    return new ConsoleMailTransport();
+  }
+
+  const port = Number(process.env.SMTP_PORT) || 587;
+  return new SmtpMailTransport(
+    {
+      host,
+      port,
+      secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    },
+    process.env.MAIL_FROM || "ViralBite <no-reply@viralbite.app>"
+  );
+}
+
+function createDefaultTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "smtp":
+      return createSmtpTransport();
+    case "file":
+      return new FileMailTransport(process.env.MAIL_FILE_DIR || path.resolve(process.cwd(), ".mail"));
+    case "console":
+    case undefined:
+    case "":
+      return new ConsoleMailTransport();
+    default:
+      console.warn(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}", falling back to console`);
+      return new ConsoleMailTransport();
+  }
+}
+
+let transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createDefaultTransport();
+  }
+  return transport;
+}
+
+export function setMailTransport(nextTransport: MailTransport) {
+  transport = nextTransport;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message);
+}
+
+// Notification emails are queued so request handlers never wait on (or fail
+// because of) the mail server. Messages are delivered one at a time and
+// retried with a growing delay before being dropped.
+const MAX_DELIVERY_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5000;
+
+interface QueuedMail {
+  message: MailMessage;
+  attempts: number;
+}
+
+const mailQueue: QueuedMail[] = [];
+let draining: Promise<void> | null = null;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function drainMailQueue(): Promise<void> {
+  while (mailQueue.length > 0) {
+    const item = mailQueue.shift()!;
+    try {
+      await sendMail(item.message);
+    } catch (error) {
+      item.attempts++;
+      if (item.attempts >= MAX_DELIVERY_ATTEMPTS) {
+        console.error(`Giving up on mail to ${item.message.to} after ${item.attempts} attempts:`, error);
+        continue;
+      }
+      console.warn(`Mail to ${item.message.to} failed (attempt ${item.attempts}), retrying:`, error);
+      await wait(RETRY_DELAY_MS * item.attempts);
+      mailQueue.push(item);
+    }
+  }
+}
+
+function startDraining() {
+  if (draining) return;
+  draining = drainMailQueue().finally(() => {
+    draining = null;
+    // Pick up anything queued after the loop saw an empty queue
+    if (mailQueue.length > 0) startDraining();
+  });
+}
+
+export function queueMail(message: MailMessage): void {
+  mailQueue.push({ message, attempts: 0 });
+  startDraining();
+}
+
+// Resolves once every queued message has been delivered or dropped
+export async function flushMailQueue(): Promise<void> {
+  while (draining) {
+    await draining;
+  }
+}
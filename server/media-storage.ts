@@ -0,0 +1,85 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { MEDIA_URL_PREFIX } from "@shared/media";
+
+// Where uploaded files are kept. Swap implementations with
+// setMediaStorage(); the default is chosen from MEDIA_STORAGE.
+export interface MediaStorage {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // Resolves to null when there is no file under the key
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+  // Public URL the browser loads the file from
+  getUrl(key: string): string;
+}
+
+// Keys are generated by server/media.ts; anything else is rejected so a key
+// can never point outside the storage directory
+const KEY_PATTERN = /^[A-Za-z0-9_-]+\.[a-z0-9]+$/;
+
+export function isValidMediaKey(key: string): boolean {
+  return KEY_PATTERN.test(key);
+}
+
+// Files on the server's disk, served by GET /media/:key
+export class LocalDiskMediaStorage implements MediaStorage {
+  readonly name = "local";
+
+  constructor(private readonly rootDir: string) {}
+
+  private resolve(key: string): string {
+    if (!isValidMediaKey(key)) {
+      throw new Error(`Invalid media key "${key}"`);
+    }
+    return path.join(this.rootDir, key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    await fs.mkdir(this.rootDir, { recursive: true });
+    await fs.writeFile(this.resolve(key), data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolve(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    return `${MEDIA_URL_PREFIX}${key}`;
+  }
+}
+
+function createDefaultStorage(): MediaStorage {
+  const rootDir = path.resolve(process.env.MEDIA_DIR || "uploads");
+  switch (process.env.MEDIA_STORAGE) {
+    case "local":
+    case undefined:
+    case "":
+      return new LocalDiskMediaStorage(rootDir);
+    default:
+      console.warn(`Unknown MEDIA_STORAGE "${process.env.MEDIA_STORAGE}", falling back to local disk`);
+      return new LocalDiskMediaStorage(rootDir);
+  }
+}
+
+let mediaStorage: MediaStorage | null = null;
+
+export function getMediaStorage(): MediaStorage {
+  if (!mediaStorage) {
+    mediaStorage = createDefaultStorage();
+  }
+  return mediaStorage;
+}
+
+export function setMediaStorage(nextStorage: MediaStorage) {
+  mediaStorage = nextStorage;
+}
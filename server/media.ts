@@ -0,0 +1,155 @@
+import type { NextFunction, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import multer from "multer";
+import sharp, { type OutputInfo } from "sharp";
+import { storage } from "./storage";
+import { getMediaStorage, isValidMediaKey } from "./media-storage";
+import type { MediaContentType, MediaFile, UploadedMedia } from "@shared/schema";
+
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024;
+// Longest side of a stored image, and the side of its square thumbnail
+const MAX_DIMENSION = 1600;
+const THUMBNAIL_SIZE = 400;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// Detects the image type from the file's leading bytes. The type and file
+// name the client sends are never trusted.
+export function sniffImageType(data: Buffer): MediaContentType | null {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(PNG_SIGNATURE)) {
+    return "image/png";
+  }
+  if (data.length >= 6 && ["GIF87a", "GIF89a"].includes(data.toString("ascii", 0, 6))) {
+    return "image/gif";
+  }
+  if (data.length >= 12 && data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  return null;
+}
+
+export function toUploadedMedia(file: MediaFile): UploadedMedia {
+  const mediaStorage = getMediaStorage();
+  return {
+    id: file.id,
+    url: mediaStorage.getUrl(file.key),
+    thumbnailUrl: mediaStorage.getUrl(file.thumbnailKey),
+    width: file.width,
+    height: file.height,
+  };
+}
+
+export type StoreImageResult =
+  | { ok: true; media: UploadedMedia }
+  | { ok: false; message: string };
+
+// Resizes an uploaded image, writes it and a square thumbnail to the media
+// storage backend as WebP, and records the file. Orientation from EXIF is
+// applied; all other metadata (including location) is dropped.
+export async function storeImage(data: Buffer, ownerId: number): Promise<StoreImageResult> {
+  const originalContentType = sniffImageType(data);
+  if (!originalContentType) {
+    return { ok: false, message: "Only JPEG, PNG, WebP and GIF images can be uploaded" };
+  }
+
+  let image: { data: Buffer; info: OutputInfo };
+  let thumbnail: Buffer;
+  try {
+    image = await sharp(data)
+      .rotate()
+      .resize(MAX_DIMENSION, MAX_DIMENSION, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 82 })
+      .toBuffer({ resolveWithObject: true });
+    thumbnail = await sharp(data)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "cover" })
+      .webp({ quality: 75 })
+      .toBuffer();
+  } catch (error) {
+    console.error("Error processing uploaded image:", error);
+    return { ok: false, message: "The image could not be read" };
+  }
+
+  const name = randomUUID();
+  const key = `${name}.webp`;
+  const thumbnailKey = `${name}-thumb.webp`;
+  const mediaStorage = getMediaStorage();
+  await mediaStorage.put(key, image.data, "image/webp");
+  await mediaStorage.put(thumbnailKey, thumbnail, "image/webp");
+
+  const file = await storage.createMediaFile({
+    ownerId,
+    key,
+    thumbnailKey,
+    originalContentType,
+    byteSize: image.info.size,
+    width: image.info.width,
+    height: image.info.height,
+  });
+  return { ok: true, media: toUploadedMedia(file) };
+}
+
+// Decodes a base64 image data URL, as stored before uploads existed
+export function decodeDataUrl(dataUrl: string): Buffer | null {
+  const match = /^data:image\/[\w.+-]+;base64,([\s\S]*)$/.exec(dataUrl);
+  return match ? Buffer.from(match[1], "base64") : null;
+}
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 },
+}).single("image");
+
+// Parses a multipart body with the image in its "image" field into
+// req.file, turning multer's errors into responses
+export function receiveImageUpload(req: Request, res: Response, next: NextFunction) {
+  upload(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      if (error.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).send(`Images must be ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB or smaller`);
+      }
+      return res.status(400).send(`Upload failed: ${error.message}`);
+    }
+    if (error) {
+      return next(error);
+    }
+    next();
+  });
+}
+
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  webp: "image/webp",
+  jpg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+};
+
+// GET /media/:key for the local disk backend. Keys are never reused, so
+// responses can be cached indefinitely.
+export async function serveMedia(req: Request, res: Response) {
+  const { key } = req.params;
+  if (!isValidMediaKey(key)) {
+    return res.status(404).send("Not found");
+  }
+
+  try {
+    const data = await getMediaStorage().get(key);
+    if (!data) {
+      return res.status(404).send("Not found");
+    }
+
+    const extension = key.slice(key.lastIndexOf(".") + 1);
+    res.set({
+      "Content-Type": EXTENSION_CONTENT_TYPES[extension] ?? "application/octet-stream",
+      "Cache-Control": "public, max-age=31536000, immutable",
+      "X-Content-Type-Options": "nosniff",
+    });
+    res.send(data);
+  } catch (error) {
+    console.error(`Error serving media ${key}:`, error);
+    return res.status(500).send("Internal server error");
+  }
+}
@@ -0,0 +1,73 @@
+import { db, pool } from "./db";
+import { eq, like } from "drizzle-orm";
+import { campaigns, privateInvitations, users } from "@shared/schema";
+import { decodeDataUrl, storeImage } from "./media";
+
+// Moves a data URL image into media storage, returning its new URL.
+// Returns null (and leaves the row alone) when the image can't be read.
+async function migrateDataUrl(dataUrl: string, ownerId: number, label: string): Promise<string | null> {
+  const data = decodeDataUrl(dataUrl);
+  if (!data) {
+    console.warn(`Skipping ${label}: not a base64 image data URL`);
+    return null;
+  }
+
+  const result = await storeImage(data, ownerId);
+  if (!result.ok) {
+    console.warn(`Skipping ${label}: ${result.message}`);
+    return null;
+  }
+  return result.media.url;
+}
+
+// Moves images stored inline as data URLs (from before /api/upload existed)
+// out of the database and into media storage. Safe to run more than once.
+async function migrateMedia() {
+  try {
+    console.log("Starting media migration...");
+    let migrated = 0;
+
+    const campaignRows = await db.select().from(campaigns).where(like(campaigns.imageUrl, "data:%"));
+    for (const campaign of campaignRows) {
+      const url = await migrateDataUrl(campaign.imageUrl, campaign.restaurantId, `campaign ${campaign.id}`);
+      if (url) {
+        await db.update(campaigns).set({ imageUrl: url }).where(eq(campaigns.id, campaign.id));
+        migrated++;
+      }
+    }
+    console.log(`Checked ${campaignRows.length} campaign images`);
+
+    const invitationRows = await db
+      .select()
+      .from(privateInvitations)
+      .where(like(privateInvitations.imageUrl, "data:%"));
+    for (const invitation of invitationRows) {
+      const url = await migrateDataUrl(invitation.imageUrl!, invitation.restaurantId, `private invitation ${invitation.id}`);
+      if (url) {
+        await db.update(privateInvitations).set({ imageUrl: url }).where(eq(privateInvitations.id, invitation.id));
+        migrated++;
+      }
+    }
+    console.log(`Checked ${invitationRows.length} private invitation images`);
+
+    const userRows = await db.select().from(users).where(like(users.profilePicture, "data:%"));
+    for (const user of userRows) {
+      const url = await migrateDataUrl(user.profilePicture!, user.id, `profile picture of user ${user.id}`);
+      if (url) {
+        await db.update(users).set({ profilePicture: url }).where(eq(users.id, user.id));
+        migrated++;
+      }
+    }
+    console.log(`Checked ${userRows.length} profile pictures`);
+
+    console.log(`Media migration completed: moved ${migrated} images`);
+  } catch (error) {
+    console.error("Error migrating media:", error);
+  } finally {
+    // Close the database connection
+    await pool.end();
+  }
+}
+
+// Run the migration
+migrateMedia();
@@ -0,0 +1,21 @@
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import { db, pool } from "./db";
+
+// Applies the migrations in migrations/ that haven't run on this database
+// yet. Write new ones with `npm run db:generate` after changing
+// shared/schema.ts, then run `npm run db:migrate`.
+async function runMigrations() {
+  try {
+    console.log("Applying database migrations...");
+    await migrate(db, { migrationsFolder: "migrations" });
+    console.log("Database is up to date");
+  } catch (error) {
+    console.error("Error applying migrations:", error);
+    process.exitCode = 1;
+  } finally {
+    // Close the database connection
+    await pool.end();
+  }
+}
+
+runMigrations();
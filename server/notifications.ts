@@ -0,0 +1,435 @@
+import { storage } from "./storage";
+import { queueMail, type MailMessage } from "./mail";
+import { publish } from "./realtime";
+import { getAppUrl } from "./app-url";
+import { getRestaurantUserIds } from "./team";
+import { REJECTION_REASON_LABELS } from "@shared/submission-review";
+import type { TeamPermission } from "@shared/team-roles";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  type Campaign,
+  type CampaignApplication,
+  type NotificationPreferences,
+  type NotificationType,
+  type PrivateInvitation,
+  type PrivateSubmission,
+  type RealtimeSubmissionEventType,
+  type Submission,
+  type SubmissionComment,
+  type User,
+} from "@shared/schema";
+
+// Public campaign submissions and private invitation submissions notify the
+// same people with the same templates
+export type SubmissionContext =
+  | { campaign: Campaign; submission: Submission }
+  | { invitation: PrivateInvitation; submission: PrivateSubmission };
+
+export type NotificationEvent =
+  | ({ type: "submission_created" } & SubmissionContext)
+  // The reviewer's note for the influencer, when they left one
+  | ({ type: "submission_status_changed"; message?: string } & SubmissionContext)
+  | ({ type: "submission_commented"; comment: SubmissionComment } & SubmissionContext)
+  | ({ type: "submission_resubmitted" } & SubmissionContext)
+  | ({ type: "performance_recorded" } & SubmissionContext)
+  | { type: "invitation_sent"; invitation: PrivateInvitation }
+  | { type: "invitation_accepted"; invitation: PrivateInvitation }
+  | { type: "invitation_declined"; invitation: PrivateInvitation }
+  | { type: "invitation_expiring"; invitation: PrivateInvitation }
+  | { type: "application_received"; campaign: Campaign; application: CampaignApplication }
+  | { type: "application_accepted"; campaign: Campaign; application: CampaignApplication }
+  | { type: "application_declined"; campaign: Campaign; application: CampaignApplication };
+
+type PreferenceKey = keyof typeof DEFAULT_NOTIFICATION_PREFERENCES;
+
+// The toggle (besides the emailNotifications master switch) that controls
+// each event
+const EVENT_PREFERENCES: Record<NotificationType, PreferenceKey> = {
+  submission_created: "submissionAlerts",
+  submission_status_changed: "submissionAlerts",
+  submission_commented: "submissionAlerts",
+  submission_resubmitted: "submissionAlerts",
+  performance_recorded: "paymentNotifications",
+  invitation_sent: "newCampaignAlerts",
+  invitation_accepted: "submissionAlerts",
+  invitation_declined: "submissionAlerts",
+  invitation_expiring: "newCampaignAlerts",
+  application_received: "submissionAlerts",
+  application_accepted: "newCampaignAlerts",
+  application_declined: "newCampaignAlerts",
+};
+
+// Warn influencers about pending invitations this long before they expire
+const INVITATION_EXPIRY_WARNING_HOURS = 24;
+const EXPIRY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+interface SubmissionParties {
+  title: string;
+  restaurantId: number;
+  influencerId: number;
+}
+
+function getSubmissionParties(context: SubmissionContext): SubmissionParties {
+  if ("campaign" in context) {
+    return {
+      title: context.campaign.title,
+      restaurantId: context.campaign.restaurantId,
+      influencerId: context.submission.influencerId,
+    };
+  }
+  return {
+    title: context.invitation.title,
+    restaurantId: context.invitation.restaurantId,
+    influencerId: context.invitation.influencerId,
+  };
+}
+
+// Restaurant-side events go to the owner and the staff whose team role
+// covers what the event is about; everything else goes to one user
+type Recipient =
+  | { userId: number }
+  | { restaurantId: number; permission: TeamPermission };
+
+const reviewers = (restaurantId: number): Recipient => ({ restaurantId, permission: "review_submissions" });
+
+function getRecipient(event: NotificationEvent): Recipient {
+  switch (event.type) {
+    case "submission_created":
+    case "submission_resubmitted":
+      return reviewers(getSubmissionParties(event).restaurantId);
+    case "submission_commented": {
+      // Influencers' comments go to the restaurant and everyone else's to the influencer
+      const { restaurantId, influencerId } = getSubmissionParties(event);
+      return event.comment.authorId === influencerId ? reviewers(restaurantId) : { userId: influencerId };
+    }
+    case "invitation_accepted":
+    case "invitation_declined":
+      return { restaurantId: event.invitation.restaurantId, permission: "manage_campaigns" };
+    case "submission_status_changed":
+    case "performance_recorded":
+      return { userId: getSubmissionParties(event).influencerId };
+    case "invitation_sent":
+    case "invitation_expiring":
+      return { userId: event.invitation.influencerId };
+    case "application_received":
+      return reviewers(event.campaign.restaurantId);
+    case "application_accepted":
+    case "application_declined":
+      return { userId: event.application.influencerId };
+  }
+}
+
+async function getRecipientIds(event: NotificationEvent): Promise<number[]> {
+  const recipient = getRecipient(event);
+  return "userId" in recipient
+    ? [recipient.userId]
+    : getRestaurantUserIds(recipient.restaurantId, recipient.permission);
+}
+
+// The user on the other side of the event, named in the email body
+function getCounterpartId(event: NotificationEvent): number {
+  switch (event.type) {
+    case "submission_created":
+    case "submission_resubmitted":
+      return getSubmissionParties(event).influencerId;
+    case "submission_commented":
+      return event.comment.authorId;
+    case "submission_status_changed":
+    case "performance_recorded":
+      return getSubmissionParties(event).restaurantId;
+    case "invitation_sent":
+    case "invitation_expiring":
+      return event.invitation.restaurantId;
+    case "invitation_accepted":
+    case "invitation_declined":
+      return event.invitation.influencerId;
+    case "application_received":
+      return event.application.influencerId;
+    case "application_accepted":
+    case "application_declined":
+      return event.campaign.restaurantId;
+  }
+}
+
+export function shouldNotify(
+  preferences: Pick<NotificationPreferences, PreferenceKey> | undefined,
+  eventType: NotificationType
+): boolean {
+  const effective = preferences ?? DEFAULT_NOTIFICATION_PREFERENCES;
+  return effective.emailNotifications && effective[EVENT_PREFERENCES[eventType]];
+}
+
+// Event content shared by the inbox entry and the email
+export interface RenderedNotification {
+  subject: string;
+  lines: string[];
+  path: string;
+}
+
+const formatCurrency = (amount: number) => `$${amount.toFixed(2)}`;
+
+export function renderNotification(event: NotificationEvent, counterpartName: string): RenderedNotification {
+  switch (event.type) {
+    case "submission_created": {
+      const { title } = getSubmissionParties(event);
+      return {
+        subject: `New submission for "${title}"`,
+        lines: [
+          `${counterpartName} submitted content for "${title}".`,
+          `Post: ${event.submission.postUrl}`,
+          "Review it to approve or reject the submission.",
+        ],
+        path: "campaign" in event ? "/restaurant/submissions" : "/restaurant/private-invitations",
+      };
+    }
+    case "submission_status_changed": {
+      const { title } = getSubmissionParties(event);
+      const { status, rejectionReason } = event.submission;
+      const outcome = {
+        approved: "approved your submission. Your earnings will update as views are recorded.",
+        changes_requested: "asked for changes to your submission. Update your post and resubmit the link.",
+        rejected: rejectionReason
+          ? `rejected your submission: ${REJECTION_REASON_LABELS[rejectionReason]}.`
+          : "rejected your submission.",
+        pending: "moved your submission back to pending review.",
+      }[status];
+      return {
+        subject: status === "changes_requested"
+          ? `Changes requested on your submission for "${title}"`
+          : `Your submission for "${title}" is ${status}`,
+        lines: [`${counterpartName} ${outcome}`, ...(event.message ? [`"${event.message}"`] : [])],
+        path: "campaign" in event ? "/influencer/my-stats" : "/influencer/private-invitations",
+      };
+    }
+    case "submission_commented": {
+      const { title, influencerId } = getSubmissionParties(event);
+      const toInfluencer = event.comment.authorId !== influencerId;
+      return {
+        subject: `New comment on the submission for "${title}"`,
+        lines: [`${counterpartName} commented on the submission for "${title}".`, `"${event.comment.body}"`],
+        path: toInfluencer
+          ? ("campaign" in event ? "/influencer/my-stats" : "/influencer/private-invitations")
+          : ("campaign" in event ? "/restaurant/submissions" : "/restaurant/private-invitations"),
+      };
+    }
+    case "submission_resubmitted": {
+      const { title } = getSubmissionParties(event);
+      return {
+        subject: `Revised submission for "${title}"`,
+        lines: [
+          `${counterpartName} resubmitted their content for "${title}" with the changes you asked for.`,
+          `Post: ${event.submission.postUrl}`,
+        ],
+        path: "campaign" in event ? "/restaurant/submissions" : "/restaurant/private-invitations",
+      };
+    }
+    case "performance_recorded": {
+      const { title } = getSubmissionParties(event);
+      return {
+        subject: `Performance update for "${title}"`,
+        lines: [
+          `Your post for "${title}" now has ${event.submission.views.toLocaleString()} views.`,
+          `Total earnings for this submission: ${formatCurrency(event.submission.earnings)}.`,
+        ],
+        path: "/influencer/earnings",
+      };
+    }
+    case "invitation_sent":
+      return {
+        subject: `${counterpartName} invited you to "${event.invitation.title}"`,
+        lines: [
+          `${counterpartName} sent you a private invitation: "${event.invitation.title}".`,
+          event.invitation.description,
+          `Reward: ${formatCurrency(event.invitation.rewardAmount)} per ${event.invitation.rewardViews.toLocaleString()} views.`,
+        ],
+        path: "/influencer/private-invitations",
+      };
+    case "invitation_accepted":
+    case "invitation_declined": {
+      const response = event.type === "invitation_accepted" ? "accepted" : "declined";
+      return {
+        subject: `${counterpartName} ${response} "${event.invitation.title}"`,
+        lines: [`${counterpartName} ${response} your private invitation "${event.invitation.title}".`],
+        path: "/restaurant/private-invitations",
+      };
+    }
+    case "invitation_expiring":
+      return {
+        subject: `"${event.invitation.title}" expires soon`,
+        lines: [
+          `Your private invitation from ${counterpartName}, "${event.invitation.title}", expires on ${event.invitation.expiresAt?.toUTCString()}.`,
+          "Accept it before then if you'd like to take part.",
+        ],
+        path: "/influencer/private-invitations",
+      };
+    case "application_received":
+      return {
+        subject: `New application for "${event.campaign.title}"`,
+        lines: [
+          `${counterpartName} applied to "${event.campaign.title}".`,
+          `Pitch: ${event.application.pitch}`,
+          "Accept or decline the application from your submissions page.",
+        ],
+        path: "/restaurant/submissions",
+      };
+    case "application_accepted":
+      return {
+        subject: `You're in: "${event.campaign.title}"`,
+        lines: [
+          `${counterpartName} accepted your application for "${event.campaign.title}".`,
+          ...(event.application.postingDeadline
+            ? [`Post your content and submit the link by ${event.application.postingDeadline.toUTCString()}.`]
+            : []),
+        ],
+        path: "/influencer/browse",
+      };
+    case "application_declined":
+      return {
+        subject: `Your application for "${event.campaign.title}" was declined`,
+        lines: [`${counterpartName} declined your application for "${event.campaign.title}".`],
+        path: "/influencer/browse",
+      };
+  }
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Wraps an event's lines in the shared plain-text and HTML layout. Without
+// APP_URL the email leaves out the link rather than sending a broken one.
+export function renderNotificationEmail(
+  { subject, lines, path }: RenderedNotification,
+  recipient: Pick<User, "name" | "email">,
+  appUrl: string | null = getAppUrl()
+): MailMessage {
+  const link = appUrl ? `${appUrl}${path}` : null;
+  const footer = "You can change which emails you receive in your account settings.";
+
+  const text = [
+    `Hi ${recipient.name},`,
+    "",
+    ...lines,
+    ...(link ? ["", `Open ViralBite: ${link}`] : []),
+    "",
+    "— The ViralBite team",
+    "",
+    footer,
+  ].join("\n");
+
+  const html = [
+    `<p>Hi ${escapeHtml(recipient.name)},</p>`,
+    ...lines.map(line => `<p>${escapeHtml(line)}</p>`),
+    link ? `<p><a href="${escapeHtml(link)}">Open ViralBite</a></p>` : "",
+    "<p>— The ViralBite team</p>",
+    `<p style="color:#64748b;font-size:12px">${footer}</p>`,
+  ].join("\n");
+
+  return { to: recipient.email, subject: `ViralBite: ${subject}`, text, html };
+}
+
+const REALTIME_EVENT_TYPES: Partial<Record<NotificationType, RealtimeSubmissionEventType>> = {
+  submission_created: "submission_created",
+  submission_status_changed: "submission_status_changed",
+  submission_commented: "submission_commented",
+  submission_resubmitted: "submission_status_changed",
+  performance_recorded: "metric_updated",
+};
+
+// Lets both sides of a submission (the restaurant's whole team, and admins)
+// refresh their dashboards live
+async function publishSubmissionUpdate(event: NotificationEvent) {
+  const realtimeType = REALTIME_EVENT_TYPES[event.type];
+  if (!realtimeType || !("submission" in event)) return;
+
+  const { restaurantId, influencerId } = getSubmissionParties(event);
+  publish([...await getRestaurantUserIds(restaurantId), influencerId], {
+    type: realtimeType,
+    submissionId: event.submission.id,
+    campaignId: "campaign" in event ? event.campaign.id : null,
+    invitationId: "invitation" in event ? event.invitation.id : null,
+  });
+}
+
+function getDedupeKey(event: NotificationEvent): string | null {
+  return event.type === "invitation_expiring" ? `invitation_expiring:${event.invitation.id}` : null;
+}
+
+// Adds the notification to one user's inbox and emails them if their
+// preferences allow it
+async function deliverNotification(
+  event: NotificationEvent,
+  recipientId: number,
+  content: RenderedNotification,
+  dedupeKey: string | null
+): Promise<void> {
+  const [recipient, preferences] = await Promise.all([
+    storage.getUser(recipientId),
+    storage.getNotificationPreferences(recipientId),
+  ]);
+
+  if (!recipient) {
+    console.warn(`Skipping ${event.type} notification: user ${recipientId} not found`);
+    return;
+  }
+
+  await storage.createNotification({
+    userId: recipient.id,
+    type: event.type,
+    title: content.subject,
+    message: content.lines[0],
+    link: content.path,
+    dedupeKey
+  });
+  publish([recipient.id], { type: "notification_created" });
+
+  if (shouldNotify(preferences, event.type)) {
+    queueMail(renderNotificationEmail(content, recipient));
+  }
+}
+
+// Pushes the event to connected dashboards, adds it to the inbox of each
+// affected user and emails them if their preferences allow it. Never throws: a
+// notification failure must not fail the request behind it.
+export async function notify(event: NotificationEvent): Promise<void> {
+  try {
+    await publishSubmissionUpdate(event);
+
+    const dedupeKey = getDedupeKey(event);
+    if (dedupeKey && await storage.getNotificationByDedupeKey(dedupeKey)) {
+      return;
+    }
+
+    const [recipientIds, counterpart] = await Promise.all([
+      getRecipientIds(event),
+      storage.getUser(getCounterpartId(event)),
+    ]);
+    const content = renderNotification(event, counterpart?.name ?? "Someone");
+
+    for (const recipientId of recipientIds) {
+      await deliverNotification(event, recipientId, content, dedupeKey);
+    }
+  } catch (error) {
+    console.error(`Error sending ${event.type} notification:`, error);
+  }
+}
+
+export async function sendInvitationExpiryWarnings(now = new Date()): Promise<void> {
+  const cutoff = new Date(now.getTime() + INVITATION_EXPIRY_WARNING_HOURS * 60 * 60 * 1000);
+  const invitations = await storage.getPendingPrivateInvitationsExpiringBefore(cutoff);
+
+  for (const invitation of invitations) {
+    if (invitation.expiresAt && invitation.expiresAt > now) {
+      await notify({ type: "invitation_expiring", invitation });
+    }
+  }
+}
+
+// Checks for soon-to-expire invitations now and then every hour
+export function startInvitationExpiryWarnings() {
+  const run = () => sendInvitationExpiryWarnings().catch(error => {
+    console.error("Error sending invitation expiry warnings:", error);
+  });
+
+  run();
+  return setInterval(run, EXPIRY_CHECK_INTERVAL_MS);
+}
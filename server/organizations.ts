@@ -0,0 +1,65 @@
+import { storage } from "./storage";
+import { getCampaignVenueIds } from "./venues";
+import { getEffectiveCampaignStatus } from "@shared/campaign-lifecycle";
+import type {
+  Campaign,
+  Organization,
+  OrganizationAnalytics,
+  PerformanceSummary,
+  Submission,
+  User,
+} from "@shared/schema";
+
+// Every restaurant account has exactly one organization. Accounts from before
+// organizations existed get theirs, named after the restaurant, on first use.
+export async function getRestaurantOrganization(restaurant: User): Promise<Organization> {
+  const existing = await storage.getOrganizationByOwnerId(restaurant.id);
+  if (existing) return existing;
+  return storage.createOrganization({ ownerId: restaurant.id, name: restaurant.name });
+}
+
+function summarize(campaigns: Campaign[], submissionsByCampaign: Map<number, Submission[]>): PerformanceSummary {
+  const submissions = campaigns.flatMap(campaign => submissionsByCampaign.get(campaign.id) ?? []);
+  return {
+    campaigns: campaigns.length,
+    activeCampaigns: campaigns.filter(campaign => getEffectiveCampaignStatus(campaign) === "active").length,
+    submissions: submissions.length,
+    approvedSubmissions: submissions.filter(submission => submission.status === "approved").length,
+    views: submissions.reduce((sum, submission) => sum + submission.views, 0),
+    likes: submissions.reduce((sum, submission) => sum + submission.likes, 0),
+    spent: submissions.reduce((sum, submission) => sum + submission.earnings, 0),
+  };
+}
+
+// Rolls campaign results up per venue and for the whole organization. A
+// campaign at several venues counts toward each of them.
+export async function getOrganizationAnalytics(organization: Organization): Promise<OrganizationAnalytics> {
+  const [venues, campaigns, submissions] = await Promise.all([
+    storage.getVenuesByOrganizationId(organization.id),
+    storage.getCampaignsByRestaurantId(organization.ownerId),
+    storage.getSubmissionsByRestaurantId(organization.ownerId),
+  ]);
+
+  const submissionsByCampaign = new Map<number, Submission[]>();
+  for (const submission of submissions) {
+    const list = submissionsByCampaign.get(submission.campaignId) ?? [];
+    list.push(submission);
+    submissionsByCampaign.set(submission.campaignId, list);
+  }
+
+  return {
+    organization,
+    totals: summarize(campaigns, submissionsByCampaign),
+    venues: venues.map(venue => ({
+      venue,
+      performance: summarize(
+        campaigns.filter(campaign => getCampaignVenueIds(campaign).includes(venue.id)),
+        submissionsByCampaign
+      ),
+    })),
+    unassigned: summarize(
+      campaigns.filter(campaign => getCampaignVenueIds(campaign).length === 0),
+      submissionsByCampaign
+    ),
+  };
+}
@@ -0,0 +1,120 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { queueMail } from "./mail";
+import { getAppUrl } from "./app-url";
+import { closeConnections } from "./realtime";
+import type { SessionData } from "express-session";
+import type { User } from "@shared/schema";
+
+const RESET_TOKEN_TTL_MINUTES = 60;
+
+function hashResetToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Creates a single-use reset token and queues the reset link to the user's
+// email. Runs after the response is sent, and every outcome (no such
+// account, no APP_URL, a storage error) is only logged, so the response
+// can't reveal whether the email is registered.
+export async function requestPasswordReset(email: string): Promise<void> {
+  try {
+    const user = await storage.getUserByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const appUrl = getAppUrl();
+    if (!appUrl) {
+      console.error(`Password reset requested for user ${user.id}, but APP_URL is not set so no link can be sent`);
+      return;
+    }
+
+    const token = randomBytes(32).toString("base64url");
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+
+    await storage.createPasswordResetToken({
+      userId: user.id,
+      tokenHash: hashResetToken(token),
+      expiresAt
+    });
+
+    const resetUrl = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    queueMail({
+      to: user.email,
+      subject: "Reset your ViralBite password",
+      text: [
+        `Hi ${user.name},`,
+        "",
+        "We received a request to reset your ViralBite password. Use the link below to choose a new one:",
+        "",
+        resetUrl,
+        "",
+        `The link expires in ${RESET_TOKEN_TTL_MINUTES} minutes and can only be used once.`,
+        "If you didn't request this, you can ignore this email."
+      ].join("\n")
+    });
+    console.log(`Password reset requested for user ${user.id}`);
+  } catch (error) {
+    console.error("Error requesting password reset:", error);
+  }
+}
+
+export type PasswordResetResult =
+  | { ok: true; user: User }
+  | { ok: false; message: string };
+
+export async function resetPasswordWithToken(token: string, newPassword: string): Promise<PasswordResetResult> {
+  // Marking the token used is the check, so two requests racing with the
+  // same link can't both get through
+  const resetToken = await storage.consumePasswordResetToken(hashResetToken(token));
+  if (!resetToken) {
+    return { ok: false, message: "This reset link is invalid or has expired" };
+  }
+
+  const user = await storage.updateUser(resetToken.userId, {
+    password: await hashPassword(newPassword)
+  });
+  if (!user) {
+    return { ok: false, message: "This reset link is invalid or has expired" };
+  }
+
+  await revokeAllApiTokens(user.id);
+  await destroyUserSessions(user.id);
+  return { ok: true, user };
+}
+
+// Signs the user out of every token-authenticated client after a password
+// change, optionally keeping the token the change was made with
+export async function revokeAllApiTokens(userId: number, exceptTokenId?: number): Promise<void> {
+  const tokens = (await storage.getApiTokensByUserId(userId))
+    .filter(token => !token.revokedAt && token.id !== exceptTokenId);
+  await Promise.all(tokens.map(token => storage.updateApiToken(token.id, { revokedAt: new Date() })));
+  closeConnections({ tokenIds: tokens.map(token => token.id) });
+}
+
+// Signs the user out of every browser session, optionally keeping the one
+// the change was made from
+export async function destroyUserSessions(userId: number, exceptSessionId?: string): Promise<void> {
+  const store = storage.sessionStore;
+  if (!store.all) {
+    return;
+  }
+
+  const sessions = await new Promise<Record<string, SessionData>>((resolve, reject) => {
+    store.all!((error, all) => {
+      if (error) return reject(error);
+      // Stores list sessions keyed by id; an array has no ids to destroy by
+      resolve(all && !Array.isArray(all) ? all : {});
+    });
+  });
+
+  const sessionIds = Object.entries(sessions)
+    .filter(([sessionId, data]) => sessionId !== exceptSessionId && Number(data.passport?.user) === userId)
+    .map(([sessionId]) => sessionId);
+
+  await Promise.all(sessionIds.map(sessionId => new Promise<void>((resolve, reject) => {
+    store.destroy(sessionId, error => error ? reject(error) : resolve());
+  })));
+  closeConnections({ sessionIds });
+}
@@ -0,0 +1,81 @@
+import type {
+  InfluencerPayoutDetails,
+  InsertInfluencerPayoutDetails,
+  MaskedPayoutDetails,
+  PayoutDetailsInput
+} from "@shared/schema";
+import { z } from "zod";
+import { encryptSecret, decryptSecret, maskSecret } from "./encryption";
+
+function maskEncrypted(payload: string | null): string | null {
+  if (!payload) return null;
+  try {
+    return maskSecret(decryptSecret(payload));
+  } catch (error) {
+    console.error("Error decrypting payout details:", error);
+    return "••••";
+  }
+}
+
+// The only shape payout details are sent to the client in
+export function toMaskedPayoutDetails(details: InfluencerPayoutDetails): MaskedPayoutDetails {
+  const { accountNumberEncrypted, routingNumberEncrypted, ...rest } = details;
+  return {
+    ...rest,
+    accountNumberMasked: maskEncrypted(accountNumberEncrypted),
+    routingNumberMasked: maskEncrypted(routingNumberEncrypted),
+  };
+}
+
+// Where a payout is sent, as recorded on the payout itself
+export function describePayoutDestination(details: InfluencerPayoutDetails): string | null {
+  if (details.paymentMethod === "bankTransfer") {
+    const account = maskEncrypted(details.accountNumberEncrypted);
+    return account ? `${details.accountName ?? "Bank account"} ${account}` : null;
+  }
+  return details.paymentEmail;
+}
+
+export type PayoutDetailsResult =
+  | { ok: true; details: InsertInfluencerPayoutDetails }
+  | { ok: false; message: string };
+
+// Validates the settings form input and encrypts bank numbers. Empty bank
+// number fields keep the values already on file, since the form only ever
+// sees them masked.
+export function buildPayoutDetails(
+  input: PayoutDetailsInput,
+  existing: InfluencerPayoutDetails | undefined
+): PayoutDetailsResult {
+  if (input.paymentMethod !== "bankTransfer") {
+    if (!input.paymentEmail) {
+      return { ok: false, message: "A payment email is required for this payment method" };
+    }
+    if (input.paymentMethod === "paypal" && !z.string().email().safeParse(input.paymentEmail).success) {
+      return { ok: false, message: "Please enter a valid PayPal email address" };
+    }
+  }
+
+  const accountNumberEncrypted = input.accountNumber
+    ? encryptSecret(input.accountNumber)
+    : existing?.accountNumberEncrypted ?? null;
+  const routingNumberEncrypted = input.routingNumber
+    ? encryptSecret(input.routingNumber)
+    : existing?.routingNumberEncrypted ?? null;
+  const accountName = input.accountName || existing?.accountName || null;
+
+  if (input.paymentMethod === "bankTransfer" && (!accountName || !accountNumberEncrypted || !routingNumberEncrypted)) {
+    return { ok: false, message: "Account holder name, account number and routing number are required for bank transfers" };
+  }
+
+  return {
+    ok: true,
+    details: {
+      paymentMethod: input.paymentMethod,
+      paymentEmail: input.paymentMethod === "bankTransfer" ? null : input.paymentEmail ?? null,
+      accountName,
+      accountNumberEncrypted,
+      routingNumberEncrypted,
+    },
+  };
+}
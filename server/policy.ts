@@ -0,0 +1,102 @@
+import type { Response } from "express";
+import type { User, Campaign, PrivateInvitation, Submission, Venue } from "@shared/schema";
+import { roleHasPermission, BUDGET_FIELDS, TEAM_PERMISSION_LABELS, type TeamPermission } from "@shared/team-roles";
+
+export type Role = User["role"];
+
+// Route-level role checks. Admins may act on restaurant-owned resources
+// (e.g. creating a campaign on behalf of a restaurant), but content
+// submission stays influencer-only.
+export const RESTAURANT_ROLES: Role[] = ["restaurant", "admin"];
+export const INFLUENCER_ROLES: Role[] = ["influencer"];
+export const ADMIN_ROLES: Role[] = ["admin"];
+
+export function hasRole(user: User | undefined, roles: Role[]): boolean {
+  return !!user && roles.includes(user.role);
+}
+
+// Restaurant staff act for the restaurant account that owns their
+// organization; everyone else acts for themselves
+export function actingRestaurantId(user: Express.User): number {
+  return user.member?.restaurantId ?? user.id;
+}
+
+// What a restaurant user may do depends on their team role. Admins may do
+// everything and influencers none of it.
+export function hasTeamPermission(user: Express.User, permission: TeamPermission): boolean {
+  if (user.role === "admin") return true;
+  if (user.role !== "restaurant") return false;
+  return roleHasPermission(user.member?.role ?? "owner", permission);
+}
+
+// Edits to reward and budget fields need manage_budgets and edits to any
+// other field need manage_campaigns. Returns the permission the user lacks.
+export function missingEditPermission(user: Express.User, fields: string[]): TeamPermission | undefined {
+  const budgetFields: readonly string[] = BUDGET_FIELDS;
+  if (fields.some(field => budgetFields.includes(field)) && !hasTeamPermission(user, "manage_budgets")) {
+    return "manage_budgets";
+  }
+  if (fields.some(field => !budgetFields.includes(field)) && !hasTeamPermission(user, "manage_campaigns")) {
+    return "manage_campaigns";
+  }
+  return undefined;
+}
+
+// Ownership checks used inside route handlers once the resource is loaded
+export function ownsCampaign(user: Express.User, campaign: Campaign): boolean {
+  return user.role === "restaurant" && Number(campaign.restaurantId) === actingRestaurantId(user);
+}
+
+export function canManageCampaign(user: User, campaign: Campaign): boolean {
+  return user.role === "admin" || ownsCampaign(user, campaign);
+}
+
+export function canViewCampaign(user: User, campaign: Campaign): boolean {
+  // Restaurants only see their own campaigns; influencers browse all of them
+  if (user.role === "restaurant") {
+    return ownsCampaign(user, campaign);
+  }
+  return true;
+}
+
+export function canViewSubmission(user: User, submission: Submission, campaign: Campaign): boolean {
+  if (user.role === "influencer") {
+    return Number(submission.influencerId) === Number(user.id);
+  }
+  return canManageCampaign(user, campaign);
+}
+
+export function canManageInvitation(user: Express.User, invitation: PrivateInvitation): boolean {
+  if (user.role === "admin") return true;
+  return user.role === "restaurant" && Number(invitation.restaurantId) === actingRestaurantId(user);
+}
+
+export function isInvitedInfluencer(user: User, invitation: PrivateInvitation): boolean {
+  return user.role === "influencer" && Number(invitation.influencerId) === Number(user.id);
+}
+
+export function canViewInvitation(user: User, invitation: PrivateInvitation): boolean {
+  return canManageInvitation(user, invitation) || isInvitedInfluencer(user, invitation);
+}
+
+export function canManageVenue(user: Express.User, venue: Venue): boolean {
+  if (user.role === "admin") return true;
+  return user.role === "restaurant" && Number(venue.restaurantId) === actingRestaurantId(user);
+}
+
+// Restaurants and admins browse influencer profiles; influencers may preview their own
+export function canViewInfluencerProfile(user: User, influencerId: number): boolean {
+  if (user.role === "influencer") {
+    return Number(user.id) === Number(influencerId);
+  }
+  return true;
+}
+
+// Every authorization failure goes through here so the 403 shape is consistent
+export function forbidden(res: Response, message: string) {
+  return res.status(403).send(`Forbidden: ${message}`);
+}
+
+export function forbiddenForRole(res: Response, permission: TeamPermission) {
+  return forbidden(res, `Your team role doesn't allow you to ${TEAM_PERMISSION_LABELS[permission]}`);
+}
@@ -0,0 +1,97 @@
+import type { SocialPlatform } from "@shared/schema";
+
+// What the platform reports about a published post. Only the caption is
+// used today; views and likes are still recorded by admins.
+export interface PostSnapshot {
+  caption: string | null;
+}
+
+// Anything that can look up a post by its URL. Swap implementations with
+// setPostMetricsAdapter(); the default is chosen from POST_METRICS_ADAPTER.
+export interface PostMetricsAdapter {
+  readonly name: string;
+  // Resolves to null when the post can't be found or the adapter doesn't
+  // cover its platform
+  fetchPost(platform: SocialPlatform, url: string): Promise<PostSnapshot | null>;
+}
+
+// Development and tests: never reaches the network, so captions must be
+// entered by the influencer
+export class ManualPostMetricsAdapter implements PostMetricsAdapter {
+  readonly name = "manual";
+
+  async fetchPost(): Promise<PostSnapshot | null> {
+    return null;
+  }
+}
+
+// Production: Instagram's oEmbed endpoint on the Graph API, which returns a
+// public post's caption as its title. Captions of posts on other platforms
+// must be entered by the influencer.
+export class InstagramOEmbedAdapter implements PostMetricsAdapter {
+  readonly name = "instagram";
+
+  constructor(
+    private readonly accessToken: string,
+    private readonly graphUrl = "https://graph.facebook.com/v19.0"
+  ) {}
+
+  async fetchPost(platform: SocialPlatform, url: string): Promise<PostSnapshot | null> {
+    if (platform !== "instagram") return null;
+
+    const params = new URLSearchParams({ url, fields: "title", access_token: this.accessToken });
+    const response = await fetch(`${this.graphUrl}/instagram_oembed?${params.toString()}`, {
+      headers: { Accept: "application/json" },
+    });
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Instagram oEmbed responded with ${response.status}`);
+    }
+
+    const { title } = (await response.json()) as { title?: string };
+    return { caption: title ?? null };
+  }
+}
+
+function createDefaultAdapter(): PostMetricsAdapter {
+  switch (process.env.POST_METRICS_ADAPTER) {
+    case "instagram":
+      if (!process.env.INSTAGRAM_ACCESS_TOKEN) {
+        console.warn("POST_METRICS_ADAPTER=instagram needs INSTAGRAM_ACCESS_TOKEN, falling back to manual");
+        return new ManualPostMetricsAdapter();
+      }
+      return new InstagramOEmbedAdapter(process.env.INSTAGRAM_ACCESS_TOKEN);
+    case "manual":
+    case undefined:
+    case "":
+      return new ManualPostMetricsAdapter();
+    default:
+      console.warn(`Unknown POST_METRICS_ADAPTER "${process.env.POST_METRICS_ADAPTER}", falling back to manual`);
+      return new ManualPostMetricsAdapter();
+  }
+}
+
+let adapter: PostMetricsAdapter | null = null;
+
+export function getPostMetricsAdapter(): PostMetricsAdapter {
+  if (!adapter) {
+    adapter = createDefaultAdapter();
+  }
+  return adapter;
+}
+
+export function setPostMetricsAdapter(nextAdapter: PostMetricsAdapter) {
+  adapter = nextAdapter;
+}
+
+// Never throws: a lookup failure just leaves the caption unknown
+export async function fetchPostCaption(platform: SocialPlatform, url: string): Promise<string | null> {
+  try {
+    const post = await getPostMetricsAdapter().fetchPost(platform, url);
+    return post?.caption ?? null;
+  } catch (error) {
+    console.error(`Error fetching post ${url}:`, error);
+    return null;
+  }
+}
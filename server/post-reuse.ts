@@ -0,0 +1,140 @@
+import { storage } from "./storage";
+import { actingRestaurantId } from "./policy";
+import { parsePostUrl } from "@shared/post-links";
+import type {
+  Campaign,
+  PostReuse,
+  PrivateInvitation,
+  PrivateSubmission,
+  PrivateSubmissionWithReuse,
+  Submission,
+  SocialPlatform,
+  SubmissionWithReuse,
+} from "@shared/schema";
+
+export interface PostLinkFields {
+  platform: SocialPlatform;
+  postUrl: string;
+  postId: string;
+}
+
+export type PostLinkResult =
+  | { ok: true; fields: PostLinkFields }
+  | { ok: false; message: string };
+
+// The link fields a new submission is stored with. Campaigns only take posts
+// on the platforms they accept; private invitations take any platform.
+export function resolvePostLink(postUrl: string, accepted?: readonly SocialPlatform[]): PostLinkResult {
+  const result = parsePostUrl(postUrl, accepted);
+  if (!result.ok) return result;
+  const { platform, postId, url } = result.post;
+  return { ok: true, fields: { platform, postUrl: url, postId } };
+}
+
+// Post ids are only unique within a platform
+const postKey = (platform: SocialPlatform, postId: string) => `${platform}:${postId}`;
+
+// One submission of a post, to a campaign or a private invitation
+interface PostUse {
+  source: "campaign" | "private_invitation";
+  submissionId: number;
+  // The campaign or invitation id
+  targetId: number;
+  title: string;
+  restaurantId: number;
+  influencerId: number;
+  submittedAt: Date;
+}
+
+// Every submission of the given posts, keyed by postKey
+async function findPostUses(postIds: string[]): Promise<Map<string, PostUse[]>> {
+  const uses = new Map<string, PostUse[]>();
+  const unique = Array.from(new Set(postIds));
+  if (unique.length === 0) return uses;
+
+  const add = (key: string, use: PostUse) => {
+    uses.set(key, [...(uses.get(key) ?? []), use]);
+  };
+
+  const campaigns = new Map<number, Campaign | undefined>();
+  for (const submission of await storage.getSubmissionsByPostIds(unique)) {
+    if (!campaigns.has(submission.campaignId)) {
+      campaigns.set(submission.campaignId, await storage.getCampaign(submission.campaignId));
+    }
+    const campaign = campaigns.get(submission.campaignId);
+    if (!campaign || !submission.postId) continue;
+    add(postKey(submission.platform, submission.postId), {
+      source: "campaign",
+      submissionId: submission.id,
+      targetId: campaign.id,
+      title: campaign.title,
+      restaurantId: campaign.restaurantId,
+      influencerId: submission.influencerId,
+      submittedAt: submission.createdAt,
+    });
+  }
+
+  const invitations = new Map<number, PrivateInvitation | undefined>();
+  for (const submission of await storage.getPrivateSubmissionsByPostIds(unique)) {
+    if (!invitations.has(submission.invitationId)) {
+      invitations.set(submission.invitationId, await storage.getPrivateInvitation(submission.invitationId));
+    }
+    const invitation = invitations.get(submission.invitationId);
+    if (!invitation || !submission.postId) continue;
+    add(postKey(submission.platform, submission.postId), {
+      source: "private_invitation",
+      submissionId: submission.id,
+      targetId: invitation.id,
+      title: invitation.title,
+      restaurantId: invitation.restaurantId,
+      influencerId: invitation.influencerId,
+      submittedAt: submission.createdAt,
+    });
+  }
+
+  return uses;
+}
+
+// Every other submission of the same post. Titles of other restaurants'
+// campaigns and invitations stay hidden from restaurant users.
+function describeReuse(
+  viewer: Express.User,
+  uses: PostUse[],
+  source: PostUse["source"],
+  submissionId: number
+): PostReuse[] {
+  const self = uses.find(use => use.source === source && use.submissionId === submissionId);
+  if (!self) return [];
+
+  return uses
+    .filter(use => use !== self)
+    .map((use): PostReuse => ({
+      kind: use.source === self.source && use.targetId === self.targetId ? "duplicate" : use.source,
+      title: viewer.role === "admin" || use.restaurantId === actingRestaurantId(viewer) ? use.title : null,
+      sameInfluencer: use.influencerId === self.influencerId,
+      submittedAt: use.submittedAt,
+    }));
+}
+
+export async function withPostReuse(viewer: Express.User, submissions: Submission[]): Promise<SubmissionWithReuse[]> {
+  const uses = await findPostUses(submissions.flatMap(submission => submission.postId ? [submission.postId] : []));
+  return submissions.map(submission => ({
+    ...submission,
+    postReuse: submission.postId
+      ? describeReuse(viewer, uses.get(postKey(submission.platform, submission.postId)) ?? [], "campaign", submission.id)
+      : [],
+  }));
+}
+
+export async function withPrivatePostReuse(
+  viewer: Express.User,
+  submissions: PrivateSubmission[]
+): Promise<PrivateSubmissionWithReuse[]> {
+  const uses = await findPostUses(submissions.flatMap(submission => submission.postId ? [submission.postId] : []));
+  return submissions.map(submission => ({
+    ...submission,
+    postReuse: submission.postId
+      ? describeReuse(viewer, uses.get(postKey(submission.platform, submission.postId)) ?? [], "private_invitation", submission.id)
+      : [],
+  }));
+}
@@ -0,0 +1,157 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { authenticateApiToken } from "./tokens";
+import { getAppUrl } from "./app-url";
+import type { RealtimeEvent, User } from "@shared/schema";
+
+export const REALTIME_PATH = "/ws";
+const HEARTBEAT_INTERVAL_MS = 30000;
+// Sent when the session or token a socket was opened with stops being valid
+const SIGNED_OUT_CLOSE_CODE = 4001;
+
+// A socket is opened with either a browser session or an API token, and is
+// closed when that session ends or the token is revoked
+type Credential = { sessionId: string } | { tokenId: number };
+
+interface Connection {
+  socket: WebSocket;
+  user: User;
+  credential: Credential;
+  alive: boolean;
+}
+
+const connections = new Set<Connection>();
+
+// Browsers can't set headers on a WebSocket handshake, so token clients pass
+// their API token as ?token=. Cookie clients are authenticated by running the
+// session middleware against the upgrade request.
+async function authenticateUpgrade(
+  req: IncomingMessage,
+  sessionParser: RequestHandler
+): Promise<{ user: User; credential: Credential } | null> {
+  const url = new URL(req.url ?? "", "http://localhost");
+  const token = url.searchParams.get("token");
+  if (token) {
+    const result = await authenticateApiToken(token, "GET");
+    return result.ok ? { user: result.user, credential: { tokenId: result.apiToken.id } } : null;
+  }
+
+  // The session middleware only reads the headers and sets session and
+  // sessionID, so the upgrade request can stand in for an Express request
+  const request = req as Request;
+  await new Promise<void>(resolve => sessionParser(request, {} as Response, () => resolve()));
+  const userId = request.session?.passport?.user;
+  if (!userId) return null;
+
+  const user = await storage.getUser(userId);
+  return user ? { user, credential: { sessionId: request.sessionID } } : null;
+}
+
+// Cookies are sent with a cross-site WebSocket handshake too, so a browser
+// must be connecting from the app itself. Clients that send no Origin (API
+// token scripts) aren't browsers and can't be lured into connecting.
+function isAllowedOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+
+  const appUrl = getAppUrl();
+  try {
+    // Without APP_URL (local development) the page must come from the host it connects to
+    return appUrl
+      ? new URL(origin).origin === new URL(appUrl).origin
+      : new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+function rejectUpgrade(socket: Duplex, status: number, message: string) {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\n\r\n`);
+  socket.destroy();
+}
+
+export function setupRealtime(server: Server, sessionParser: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  // Other upgrade requests (e.g. Vite's HMR socket) are left alone
+  server.on("upgrade", async (req, socket, head) => {
+    if (new URL(req.url ?? "", "http://localhost").pathname !== REALTIME_PATH) {
+      return;
+    }
+
+    if (!isAllowedOrigin(req)) {
+      return rejectUpgrade(socket, 403, "Forbidden");
+    }
+
+    try {
+      const authenticated = await authenticateUpgrade(req, sessionParser);
+      if (!authenticated) {
+        return rejectUpgrade(socket, 401, "Unauthorized");
+      }
+
+      wss.handleUpgrade(req, socket, head, ws => {
+        const connection: Connection = { socket: ws, ...authenticated, alive: true };
+        connections.add(connection);
+
+        ws.on("pong", () => {
+          connection.alive = true;
+        });
+        ws.on("close", () => {
+          connections.delete(connection);
+        });
+      });
+    } catch (error) {
+      console.error("Error authenticating WebSocket connection:", error);
+      rejectUpgrade(socket, 500, "Internal Server Error");
+    }
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    connections.forEach(connection => {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        connections.delete(connection);
+        return;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  wss.on("close", () => clearInterval(heartbeat));
+  return wss;
+}
+
+// Sends an event to every open connection of the given users. Admins watch
+// the whole platform, so they also receive every submission event.
+export function publish(userIds: number[], event: RealtimeEvent) {
+  const payload = JSON.stringify(event);
+  const includeAdmins = event.type !== "notification_created";
+
+  connections.forEach(connection => {
+    const isRecipient = userIds.includes(connection.user.id)
+      || (includeAdmins && connection.user.role === "admin");
+    if (isRecipient && connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(payload);
+    }
+  });
+}
+
+// Closes the sockets opened with any of these sessions or API tokens, once
+// they have been logged out, destroyed or revoked
+export function closeConnections({ sessionIds = [], tokenIds = [] }: { sessionIds?: string[]; tokenIds?: number[] }) {
+  connections.forEach(connection => {
+    const { credential } = connection;
+    const signedOut = "sessionId" in credential
+      ? sessionIds.includes(credential.sessionId)
+      : tokenIds.includes(credential.tokenId);
+    if (signedOut) {
+      connection.socket.close(SIGNED_OUT_CLOSE_CODE, "Signed out");
+      connections.delete(connection);
+    }
+  });
+}
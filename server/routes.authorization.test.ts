@@ -0,0 +1,207 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+import { issueApiToken } from "./tokens";
+import { ADMIN_ROLES, INFLUENCER_ROLES, RESTAURANT_ROLES } from "./policy";
+
+// Every route runs against the in-memory storage and its seeded accounts
+vi.mock("./storage", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("./storage")>();
+  return { ...actual, storage: new actual.MemStorage() };
+});
+
+type Role = (typeof ROLES)[number];
+type Caller = "anonymous" | Role | "otherRestaurant";
+
+const ROLES = ["admin", "restaurant", "influencer"] as const;
+
+// The seeded MemStorage users
+const SEEDED_USER_IDS: Record<Exclude<Caller, "anonymous">, number> = {
+  admin: 1,
+  restaurant: 2,
+  influencer: 3,
+  otherRestaurant: 4,
+};
+
+// The roles each guard in server/routes.ts lets through
+const GUARD_ROLES: Record<string, readonly Role[]> = {
+  requireAuth: ROLES,
+  requireRestaurantRole: RESTAURANT_ROLES,
+  requireInfluencerRole: INFLUENCER_ROLES,
+  requireAdminRole: ADMIN_ROLES,
+};
+
+// Routes that take no guard: signing in and up, password resets, joining a
+// team from an invite link, media files and the dev-only login helpers. A new
+// route missing from here and without a guard fails the test below.
+const PUBLIC_ROUTES = [
+  "POST /api/register",
+  "POST /api/login",
+  "POST /api/logout",
+  "GET /api/session-test",
+  "POST /api/auth/token",
+  "GET /api/force-auth",
+  "GET /api/user",
+  "GET /api/emergency-login",
+  "POST /api/auth/password/forgot",
+  "POST /api/auth/password/reset",
+  "GET /media/:key",
+  "GET /api/team/join",
+  "POST /api/team/join",
+];
+
+// A role guard's refusal, as opposed to a handler's own ownership or team
+// permission checks, which also answer 403
+const ROLE_DENIED = "Forbidden: This action requires the";
+
+interface RegisteredRoute {
+  method: string;
+  path: string;
+  guard: string | undefined;
+}
+
+const app = express();
+app.use(express.json());
+const server: Server = await registerRoutes(app);
+
+// Every route on the app with the guard in front of its handler, read from
+// Express's router so that new routes are covered without listing them
+const routes: RegisteredRoute[] = (app._router.stack as any[])
+  .filter(layer => layer.route)
+  .flatMap(layer => Object.keys(layer.route.methods).map(method => ({
+    method: method.toUpperCase(),
+    path: layer.route.path as string,
+    guard: (layer.route.stack as any[])
+      .map(handler => handler.name as string)
+      .find(name => name in GUARD_ROLES),
+  })));
+
+let baseUrl: string;
+const tokens = {} as Record<Exclude<Caller, "anonymous">, string>;
+
+async function call(
+  caller: Caller,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<{ status: number; text: string }> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (caller !== "anonymous") {
+    headers["x-auth-token"] = tokens[caller];
+  }
+  const res = await fetch(`${baseUrl}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  return { status: res.status, text: await res.text() };
+}
+
+// Route parameters are filled with ids that don't exist, so allowed callers
+// reach the handler without changing any seeded data
+const samplePath = (path: string) => path.replace(/:[A-Za-z]+/g, "999999");
+const emptyBody = (method: string) => (method === "GET" ? undefined : {});
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  for (const [caller, userId] of Object.entries(SEEDED_USER_IDS)) {
+    const { token } = await issueApiToken(userId, {
+      name: "Authorization tests",
+      scopes: ["read", "write"],
+      expiresInDays: 1,
+    });
+    tokens[caller as keyof typeof tokens] = token;
+  }
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe("route guards", () => {
+  it("finds the app's routes", () => {
+    expect(routes.length).toBeGreaterThan(100);
+  });
+
+  it("guards every route that isn't deliberately public", () => {
+    const unguarded = routes
+      .filter(route => !route.guard)
+      .map(route => `${route.method} ${route.path}`);
+    expect(unguarded.sort()).toEqual([...PUBLIC_ROUTES].sort());
+  });
+});
+
+// Requests carry no useful body, so allowed callers may still get a 400 or
+// 404, or a 403 from the handler's own checks; only a 401 or the guard's role
+// message means the guard turned them away.
+describe("route authorization", () => {
+  for (const { method, path, guard } of routes) {
+    if (!guard) continue;
+    const allowed = GUARD_ROLES[guard];
+    const url = samplePath(path);
+
+    describe(`${method} ${path}`, () => {
+      it("rejects anonymous requests", async () => {
+        expect((await call("anonymous", method, url, emptyBody(method))).status).toBe(401);
+      });
+
+      for (const role of ROLES) {
+        if (allowed.includes(role)) {
+          it(`lets ${role} users through`, async () => {
+            const { status, text } = await call(role, method, url, emptyBody(method));
+            expect(status).not.toBe(401);
+            expect(text).not.toContain(ROLE_DENIED);
+          });
+        } else {
+          it(`forbids ${role} users`, async () => {
+            const { status, text } = await call(role, method, url, emptyBody(method));
+            expect(status).toBe(403);
+            expect(text).toContain(ROLE_DENIED);
+          });
+        }
+      }
+    });
+  }
+});
+
+describe("campaign ownership", () => {
+  let campaignId: number;
+
+  beforeAll(async () => {
+    const campaign = await storage.createCampaign({
+      restaurantId: SEEDED_USER_IDS.restaurant,
+      title: "Authorization test campaign",
+      description: "Owned by the first seeded restaurant",
+      imageUrl: "https://example.com/campaign.jpg",
+      rewardAmount: 10,
+      rewardViews: 1000,
+    });
+    campaignId = campaign.id;
+  });
+
+  it("lets the owning restaurant change the campaign's status", async () => {
+    expect((await call("restaurant", "PUT", `/api/campaigns/${campaignId}/status`, { status: "paused" })).status).toBe(200);
+  });
+
+  it("forbids another restaurant from changing it", async () => {
+    expect((await call("otherRestaurant", "PUT", `/api/campaigns/${campaignId}/status`, { status: "active" })).status).toBe(403);
+  });
+
+  it("forbids another restaurant from deleting it", async () => {
+    expect((await call("otherRestaurant", "DELETE", `/api/campaigns/${campaignId}`)).status).toBe(403);
+  });
+
+  it("forbids another restaurant from reading its submissions", async () => {
+    expect((await call("otherRestaurant", "GET", `/api/campaigns/${campaignId}/submissions`)).status).toBe(403);
+  });
+
+  it("lets admins manage any restaurant's campaign", async () => {
+    expect((await call("admin", "PUT", `/api/campaigns/${campaignId}/status`, { status: "active" })).status).toBe(200);
+  });
+});
@@ -1,4 +1,6 @@
 import { storage } from "./storage";
+import { toCampaignLocation } from "./venues";
+import { getRestaurantOrganization } from "./organizations";
 import { scrypt, randomBytes } from "crypto";
 import { promisify } from "util";
 import { InsertUser } from "@shared/schema";
@@ -59,30 +61,63 @@ async function createSampleData() {
       role: "restaurant",
     });
     
+    // Create sample venues (coordinates match the offline geocoder's city centres)
+    console.log("Creating sample venues...");
+    const organization1 = await getRestaurantOrganization(restaurant1User);
+    const organization2 = await getRestaurantOrganization(restaurant2User);
+    const venue1 = await storage.createVenue({
+      restaurantId: restaurant1User.id,
+      organizationId: organization1.id,
+      name: "John Jones Burgers Midtown",
+      address: "350 5th Ave",
+      city: "New York",
+      state: "NY",
+      zipCode: "10118",
+      latitude: 40.7128,
+      longitude: -74.006
+    });
+
+    const venue2 = await storage.createVenue({
+      restaurantId: restaurant2User.id,
+      organizationId: organization2.id,
+      name: "Second Test Restaurant",
+      address: "233 S Wacker Dr",
+      city: "Chicago",
+      state: "IL",
+      zipCode: "60606",
+      latitude: 41.8781,
+      longitude: -87.6298
+    });
+
     // Create sample campaigns for Restaurant 1
     console.log("Creating campaigns for Restaurant 1...");
     const campaign1 = await storage.createCampaign({
       restaurantId: restaurant1User.id,
       title: "Burger Promo Campaign",
       description: "We're looking for influencers to promote our new burger lineup. Required to show food in detail and mention our special sauce.",
-      location: "New York City",
+      ...toCampaignLocation([venue1]),
       imageUrl: "https://images.unsplash.com/photo-1568901346375-23c9450c58cd?q=80&w=1000&auto=format&fit=crop",
       rewardAmount: 50,
       rewardViews: 10000,
       maxPayoutPerInfluencer: 300,
-      maxBudget: 3000
+      maxBudget: 3000,
+      cuisine: "american",
+      campaignType: "menu_launch"
     });
     
     const campaign2 = await storage.createCampaign({
       restaurantId: restaurant1User.id,
       title: "Dessert Feature",
       description: "Feature our new ice cream sundae in your content. Must show full dessert and mention our house-made toppings.",
-      location: "New York City",
+      ...toCampaignLocation([venue1]),
       imageUrl: "https://images.unsplash.com/photo-1563805042-7684c019e1cb?q=80&w=1000&auto=format&fit=crop",
       rewardAmount: 40,
       rewardViews: 5000,
       maxPayoutPerInfluencer: 200,
-      maxBudget: 2000
+      maxBudget: 2000,
+      cuisine: "bakery",
+      campaignType: "seasonal",
+      dietaryTags: ["vegetarian"]
     });
     
     // Create sample campaign for Restaurant 2
@@ -91,12 +126,15 @@ async function createSampleData() {
       restaurantId: restaurant2User.id,
       title: "Pizza Promotion",
       description: "We want food influencers to feature our signature deep dish pizza. Must show the cheese pull!",
-      location: "Chicago",
+      ...toCampaignLocation([venue2]),
       imageUrl: "https://images.unsplash.com/photo-1604382354936-07c5d9983bd3?q=80&w=1000&auto=format&fit=crop",
       rewardAmount: 60,
       rewardViews: 15000,
       maxPayoutPerInfluencer: 240,
-      maxBudget: 2400
+      maxBudget: 2400,
+      cuisine: "italian",
+      campaignType: "menu_launch",
+      dietaryTags: ["vegetarian"]
     });
     
     // Create a test submission
@@ -104,7 +142,9 @@ async function createSampleData() {
     const submission1 = await storage.createSubmission({
       campaignId: campaign1.id,
       influencerId: influencerUser.id,
-      instagramUrl: "https://www.instagram.com/p/sample1",
+      platform: "instagram",
+      postUrl: "https://www.instagram.com/p/sample1/",
+      postId: "sample1",
       notes: "Posted about the amazing burger, users loved it!",
       status: "approved"
     });
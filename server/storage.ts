@@ -4,16 +4,42 @@ import { users, type User, type InsertUser,
   privateInvitations, type PrivateInvitation, type InsertPrivateInvitation,
   privateSubmissions, type PrivateSubmission, type InsertPrivateSubmission,
   performanceMetrics, type PerformanceMetric, type InsertPerformanceMetric,
-  privatePerformanceMetrics, type PrivatePerformanceMetric, type InsertPrivatePerformanceMetric
+  privatePerformanceMetrics, type PrivatePerformanceMetric, type InsertPrivatePerformanceMetric,
+  apiTokens, type ApiToken, type InsertApiToken,
+  influencerPayoutDetails, type InfluencerPayoutDetails, type InsertInfluencerPayoutDetails,
+  ledgerEntries, type LedgerEntry, type InsertLedgerEntry,
+  payoutRuns, type PayoutRun, type InsertPayoutRun,
+  payouts, type Payout, type InsertPayout,
+  restaurantProfiles, type RestaurantProfile, type InsertRestaurantProfile,
+  notificationPreferences, type NotificationPreferences, type InsertNotificationPreferences,
+  passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken,
+  notifications, type Notification, type InsertNotification,
+  influencerProfiles, type InfluencerProfile, type InsertInfluencerProfile,
+  type InfluencerSearchFilters, type InfluencerDirectoryEntry,
+  organizations, type Organization, type InsertOrganization, type OrganizationInput,
+  venues, type Venue, type InsertVenue,
+  campaignApplications, type CampaignApplication, type InsertCampaignApplication,
+  mediaFiles, type MediaFile, type InsertMediaFile,
+  organizationMembers, type OrganizationMember, type InsertOrganizationMember,
+  organizationInvites, type OrganizationInvite, type InsertOrganizationInvite,
+  organizationActivity, type OrganizationActivity, type InsertOrganizationActivity,
+  submissionComments, type SubmissionComment, type InsertSubmissionComment
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
 import crypto from "crypto";
-import { db } from "./db";
-import { eq, inArray } from "drizzle-orm";
+import { db as database, type DbExecutor } from "./db";
+import { getEffectiveCampaignStatus, getLiveCampaignStatus } from "@shared/campaign-lifecycle";
+import { eq, inArray, desc, and, isNull, isNotNull, lte, or, ilike, gt, gte, asc, sql } from "drizzle-orm";
 
 const MemoryStore = createMemoryStore(session);
 
+// An ILIKE pattern matching text anywhere, with % and _ in the text taken
+// literally rather than as wildcards
+function containsPattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
 export interface IStorage {
   // Storage collections for debugging
   users: Map<number, User>;
@@ -47,10 +73,12 @@ export interface IStorage {
   getSubmissionsByCampaignId(campaignId: number): Promise<Submission[]>;
   getSubmissionsByInfluencerId(influencerId: number): Promise<Submission[]>;
   getSubmissionsByRestaurantId(restaurantId: number): Promise<Submission[]>;
+  getSubmissionsByPostIds(postIds: string[]): Promise<Submission[]>;
   createSubmission(submission: InsertSubmission): Promise<Submission>;
   updateSubmission(id: number, submission: Partial<Submission>): Promise<Submission | undefined>;
 
   // Private Invitation methods
+  getPrivateInvitations(): Promise<PrivateInvitation[]>;
   getPrivateInvitation(id: number): Promise<PrivateInvitation | undefined>;
   getPrivateInvitationByCode(inviteCode: string): Promise<PrivateInvitation | undefined>;
   getPrivateInvitationsByRestaurantId(restaurantId: number): Promise<PrivateInvitation[]>;
@@ -62,6 +90,7 @@ export interface IStorage {
   // Private Submission methods
   getPrivateSubmission(id: number): Promise<PrivateSubmission | undefined>;
   getPrivateSubmissionsByInvitationId(invitationId: number): Promise<PrivateSubmission[]>;
+  getPrivateSubmissionsByPostIds(postIds: string[]): Promise<PrivateSubmission[]>;
   createPrivateSubmission(submission: InsertPrivateSubmission): Promise<PrivateSubmission>;
   updatePrivateSubmission(id: number, submission: Partial<PrivateSubmission>): Promise<PrivateSubmission | undefined>;
 
@@ -75,6 +104,127 @@ export interface IStorage {
   getPrivatePerformanceMetricsBySubmissionId(privateSubmissionId: number): Promise<PrivatePerformanceMetric[]>;
   createPrivatePerformanceMetric(metric: InsertPrivatePerformanceMetric): Promise<PrivatePerformanceMetric>;
 
+  // API Token methods
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokensByUserId(userId: number): Promise<ApiToken[]>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  updateApiToken(id: number, token: Partial<ApiToken>): Promise<ApiToken | undefined>;
+
+  // Payout details methods
+  getInfluencerPayoutDetails(userId: number): Promise<InfluencerPayoutDetails | undefined>;
+  upsertInfluencerPayoutDetails(userId: number, details: InsertInfluencerPayoutDetails): Promise<InfluencerPayoutDetails>;
+
+  // Ledger methods
+  getAllLedgerEntries(): Promise<LedgerEntry[]>;
+  getLedgerEntriesByInfluencerId(influencerId: number): Promise<LedgerEntry[]>;
+  createLedgerEntry(entry: InsertLedgerEntry): Promise<LedgerEntry>;
+
+  // Payout methods
+  getPayoutRuns(): Promise<PayoutRun[]>;
+  getPayoutRun(id: number): Promise<PayoutRun | undefined>;
+  createPayoutRun(run: InsertPayoutRun): Promise<PayoutRun>;
+  getPayout(id: number): Promise<Payout | undefined>;
+  getPayoutsByRunId(payoutRunId: number): Promise<Payout[]>;
+  getPayoutsByInfluencerId(influencerId: number): Promise<Payout[]>;
+  createPayout(payout: InsertPayout): Promise<Payout>;
+  updatePayout(id: number, payout: Partial<Payout>): Promise<Payout | undefined>;
+
+  // Settings methods
+  getRestaurantProfile(userId: number): Promise<RestaurantProfile | undefined>;
+  upsertRestaurantProfile(userId: number, profile: InsertRestaurantProfile): Promise<RestaurantProfile>;
+  getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined>;
+  upsertNotificationPreferences(userId: number, preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+
+  // Password reset token methods
+  // Marks an unused, unexpired token as used and returns it, in one step
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  updatePasswordResetToken(id: number, token: Partial<PasswordResetToken>): Promise<PasswordResetToken | undefined>;
+
+  // Notification inbox operations
+  getNotification(id: number): Promise<Notification | undefined>;
+  getNotificationsByUserId(userId: number): Promise<Notification[]>;
+  getNotificationByDedupeKey(dedupeKey: string): Promise<Notification | undefined>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  updateNotification(id: number, notification: Partial<Notification>): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  getPendingPrivateInvitationsExpiringBefore(cutoff: Date): Promise<PrivateInvitation[]>;
+
+  // Influencer directory operations
+  getInfluencers(): Promise<User[]>;
+  getInfluencerProfile(userId: number): Promise<InfluencerProfile | undefined>;
+  upsertInfluencerProfile(userId: number, profile: InsertInfluencerProfile): Promise<InfluencerProfile>;
+  searchInfluencers(filters: InfluencerSearchFilters): Promise<{ results: InfluencerDirectoryEntry[]; total: number }>;
+
+  // Organization operations
+  getOrganization(id: number): Promise<Organization | undefined>;
+  getOrganizationByOwnerId(ownerId: number): Promise<Organization | undefined>;
+  createOrganization(organization: InsertOrganization): Promise<Organization>;
+  updateOrganization(id: number, organization: Partial<OrganizationInput>): Promise<Organization | undefined>;
+
+  // Venue operations
+  getVenue(id: number): Promise<Venue | undefined>;
+  getVenuesByRestaurantId(restaurantId: number): Promise<Venue[]>;
+  getVenuesByOrganizationId(organizationId: number): Promise<Venue[]>;
+  getAllVenues(): Promise<Venue[]>;
+  createVenue(venue: InsertVenue): Promise<Venue>;
+  updateVenue(id: number, venue: Partial<InsertVenue>): Promise<Venue | undefined>;
+  deleteVenue(id: number): Promise<boolean>;
+
+  // Campaign application operations
+  getCampaignApplication(id: number): Promise<CampaignApplication | undefined>;
+  getCampaignApplicationForInfluencer(campaignId: number, influencerId: number): Promise<CampaignApplication | undefined>;
+  getCampaignApplicationsByCampaignId(campaignId: number): Promise<CampaignApplication[]>;
+  getCampaignApplicationsByInfluencerId(influencerId: number): Promise<CampaignApplication[]>;
+  getCampaignApplicationsByRestaurantId(restaurantId: number): Promise<CampaignApplication[]>;
+  getAllCampaignApplications(): Promise<CampaignApplication[]>;
+  createCampaignApplication(application: InsertCampaignApplication): Promise<CampaignApplication>;
+  updateCampaignApplication(id: number, application: Partial<CampaignApplication>): Promise<CampaignApplication | undefined>;
+
+
+  // Media file operations
+  getMediaFile(id: number): Promise<MediaFile | undefined>;
+  createMediaFile(file: InsertMediaFile): Promise<MediaFile>;
+
+  // Team operations
+  getOrganizationMember(id: number): Promise<OrganizationMember | undefined>;
+  getOrganizationMemberByUserId(userId: number): Promise<OrganizationMember | undefined>;
+  getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]>;
+  createOrganizationMember(member: InsertOrganizationMember): Promise<OrganizationMember>;
+  updateOrganizationMember(id: number, member: Partial<OrganizationMember>): Promise<OrganizationMember | undefined>;
+  deleteOrganizationMember(id: number): Promise<boolean>;
+  getOrganizationInvite(id: number): Promise<OrganizationInvite | undefined>;
+  getOrganizationInviteByHash(tokenHash: string): Promise<OrganizationInvite | undefined>;
+  getOrganizationInvites(organizationId: number): Promise<OrganizationInvite[]>;
+  getOrganizationInvitesByEmail(email: string): Promise<OrganizationInvite[]>;
+  createOrganizationInvite(invite: InsertOrganizationInvite): Promise<OrganizationInvite>;
+  // Marks an unaccepted, unexpired invite as accepted and returns it, in one step
+  consumeOrganizationInvite(tokenHash: string): Promise<OrganizationInvite | undefined>;
+  updateOrganizationInvite(id: number, invite: Partial<OrganizationInvite>): Promise<OrganizationInvite | undefined>;
+  deleteOrganizationInvite(id: number): Promise<boolean>;
+  createOrganizationActivity(entry: InsertOrganizationActivity): Promise<OrganizationActivity>;
+  // Newest first
+  getOrganizationActivity(organizationId: number, limit: number): Promise<OrganizationActivity[]>;
+
+
+  // Submission comment methods, oldest first
+  getSubmissionComments(submissionId: number): Promise<SubmissionComment[]>;
+  getPrivateSubmissionComments(privateSubmissionId: number): Promise<SubmissionComment[]>;
+  createSubmissionComment(comment: InsertSubmissionComment): Promise<SubmissionComment>;
+
+  // Runs work against one transaction, rolled back if it throws. Nested
+  // calls run inside the outer transaction.
+  transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T>;
+  // Read a row and lock it until the surrounding transaction ends, so
+  // concurrent read-modify-writes of it queue up
+  lockCampaign(id: number): Promise<Campaign | undefined>;
+  lockSubmission(id: number): Promise<Submission | undefined>;
+  lockPrivateSubmission(id: number): Promise<PrivateSubmission | undefined>;
+  lockPayout(id: number): Promise<Payout | undefined>;
+  // Locks the influencer's user row, which stands in for their ledger: payout
+  // runs take it before reading the balance they move
+  lockInfluencerLedger(influencerId: number): Promise<void>;
+
   // Session store
   sessionStore: session.Store;
 }
@@ -95,6 +245,42 @@ export class MemStorage implements IStorage {
   private privateSubmissionIdCounter: number;
   private performanceMetricIdCounter: number;
   private privatePerformanceMetricIdCounter: number;
+  apiTokens: Map<number, ApiToken>;
+  private apiTokenIdCounter: number;
+  influencerPayoutDetails: Map<number, InfluencerPayoutDetails>;
+  ledgerEntries: Map<number, LedgerEntry>;
+  payoutRuns: Map<number, PayoutRun>;
+  payouts: Map<number, Payout>;
+  private payoutDetailsIdCounter: number;
+  private ledgerEntryIdCounter: number;
+  private payoutRunIdCounter: number;
+  private payoutIdCounter: number;
+  restaurantProfiles: Map<number, RestaurantProfile>;
+  notificationPreferences: Map<number, NotificationPreferences>;
+  private restaurantProfileIdCounter: number;
+  private notificationPreferencesIdCounter: number;
+  passwordResetTokens: Map<number, PasswordResetToken>;
+  private passwordResetTokenIdCounter: number;
+  notifications: Map<number, Notification>;
+  private notificationIdCounter: number;
+  influencerProfiles: Map<number, InfluencerProfile>;
+  private influencerProfileIdCounter: number;
+  organizations: Map<number, Organization>;
+  private organizationIdCounter: number;
+  venues: Map<number, Venue>;
+  private venueIdCounter: number;
+  campaignApplications: Map<number, CampaignApplication>;
+  private campaignApplicationIdCounter: number;
+  mediaFiles: Map<number, MediaFile>;
+  private mediaFileIdCounter: number;
+  organizationMembers: Map<number, OrganizationMember>;
+  private organizationMemberIdCounter: number;
+  organizationInvites: Map<number, OrganizationInvite>;
+  private organizationInviteIdCounter: number;
+  organizationActivity: Map<number, OrganizationActivity>;
+  private organizationActivityIdCounter: number;
+  submissionComments: Map<number, SubmissionComment>;
+  private submissionCommentIdCounter: number;
   sessionStore: session.Store;
 
   constructor() {
@@ -116,6 +302,44 @@ export class MemStorage implements IStorage {
     this.performanceMetricIdCounter = 1;
     this.privatePerformanceMetricIdCounter = 1;
 
+    // API tokens
+    this.apiTokens = new Map();
+    this.apiTokenIdCounter = 1;
+    this.influencerPayoutDetails = new Map();
+    this.ledgerEntries = new Map();
+    this.payoutRuns = new Map();
+    this.payouts = new Map();
+    this.payoutDetailsIdCounter = 1;
+    this.ledgerEntryIdCounter = 1;
+    this.payoutRunIdCounter = 1;
+    this.payoutIdCounter = 1;
+    this.restaurantProfiles = new Map();
+    this.notificationPreferences = new Map();
+    this.restaurantProfileIdCounter = 1;
+    this.notificationPreferencesIdCounter = 1;
+    this.passwordResetTokens = new Map();
+    this.passwordResetTokenIdCounter = 1;
+    this.notifications = new Map();
+    this.notificationIdCounter = 1;
+    this.influencerProfiles = new Map();
+    this.influencerProfileIdCounter = 1;
+    this.organizations = new Map();
+    this.organizationIdCounter = 1;
+    this.venues = new Map();
+    this.venueIdCounter = 1;
+    this.campaignApplications = new Map();
+    this.campaignApplicationIdCounter = 1;
+    this.mediaFiles = new Map();
+    this.mediaFileIdCounter = 1;
+    this.organizationMembers = new Map();
+    this.organizationMemberIdCounter = 1;
+    this.organizationInvites = new Map();
+    this.organizationInviteIdCounter = 1;
+    this.organizationActivity = new Map();
+    this.organizationActivityIdCounter = 1;
+    this.submissionComments = new Map();
+    this.submissionCommentIdCounter = 1;
+
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // 24h, clear expired entries
     });
@@ -250,9 +474,10 @@ export class MemStorage implements IStorage {
   }
 
   async getActiveCampaigns(): Promise<Campaign[]> {
-    // Return all campaigns - no status filtering
-    const campaigns = Array.from(this.campaigns.values());
-    console.log(`Found ${campaigns.length} active campaigns (all campaigns are now considered active)`);
+    // Only campaigns that are live right now, taking start/end dates into account
+    const campaigns = Array.from(this.campaigns.values())
+      .filter(campaign => getEffectiveCampaignStatus(campaign) === "active");
+    console.log(`Found ${campaigns.length} active campaigns`);
     return campaigns;
   }
   
@@ -287,6 +512,22 @@ export class MemStorage implements IStorage {
       rewardViews: insertCampaign.rewardViews,
       maxPayoutPerInfluencer: insertCampaign.maxPayoutPerInfluencer || null,
       maxBudget: insertCampaign.maxBudget || null,
+      cuisine: insertCampaign.cuisine ?? null,
+      campaignType: insertCampaign.campaignType ?? null,
+      dietaryTags: insertCampaign.dietaryTags ?? [],
+      platforms: insertCampaign.platforms ?? ["instagram"],      venueId: insertCampaign.venueId ?? null,
+      venueIds: insertCampaign.venueIds ?? (insertCampaign.venueId ? [insertCampaign.venueId] : []),
+      venueCoordinates: insertCampaign.venueCoordinates ?? [],
+      latitude: insertCampaign.latitude ?? null,
+      longitude: insertCampaign.longitude ?? null,
+      eligibility: insertCampaign.eligibility ?? {},
+      rewardRules: insertCampaign.rewardRules ?? [],
+      brief: insertCampaign.brief ?? {},
+      requiresApplication: insertCampaign.requiresApplication ?? false,
+      maxAcceptedApplicants: insertCampaign.maxAcceptedApplicants ?? null,
+      status: insertCampaign.status === "draft" ? "draft" : getLiveCampaignStatus(insertCampaign.startsAt),
+      startsAt: insertCampaign.startsAt || null,
+      endsAt: insertCampaign.endsAt || null,
       createdAt
     };
 
@@ -358,6 +599,11 @@ export class MemStorage implements IStorage {
     return submissions;
   }
 
+  async getSubmissionsByPostIds(postIds: string[]): Promise<Submission[]> {
+    return Array.from(this.submissions.values())
+      .filter((submission) => submission.postId !== null && postIds.includes(submission.postId));
+  }
+
   async createSubmission(insertSubmission: InsertSubmission): Promise<Submission> {
     const id = this.submissionIdCounter++;
     const createdAt = new Date();
@@ -368,7 +614,12 @@ export class MemStorage implements IStorage {
       likes: 0,
       earnings: 0,
       createdAt,
-      notes: insertSubmission.notes || null
+      notes: insertSubmission.notes || null,
+      platform: insertSubmission.platform ?? "instagram",
+      postId: insertSubmission.postId ?? null,
+      caption: insertSubmission.caption || null,
+      complianceIssues: insertSubmission.complianceIssues ?? null,
+      rejectionReason: null
     };
     this.submissions.set(id, submission);
     return submission;
@@ -394,6 +645,10 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getPrivateInvitations(): Promise<PrivateInvitation[]> {
+    return Array.from(this.privateInvitations.values());
+  }
+
   async getPrivateInvitationsByRestaurantId(restaurantId: number): Promise<PrivateInvitation[]> {
     return Array.from(this.privateInvitations.values())
       .filter((invitation) => Number(invitation.restaurantId) === Number(restaurantId));
@@ -415,6 +670,8 @@ export class MemStorage implements IStorage {
       inviteCode,
       createdAt,
       imageUrl: insertInvitation.imageUrl || null,
+      rewardRules: insertInvitation.rewardRules ?? [],
+      brief: insertInvitation.brief ?? {},
       expiresAt: insertInvitation.expiresAt || null
     };
 
@@ -445,6 +702,11 @@ export class MemStorage implements IStorage {
       .filter((submission) => Number(submission.invitationId) === Number(invitationId));
   }
 
+  async getPrivateSubmissionsByPostIds(postIds: string[]): Promise<PrivateSubmission[]> {
+    return Array.from(this.privateSubmissions.values())
+      .filter((submission) => submission.postId !== null && postIds.includes(submission.postId));
+  }
+
   async createPrivateSubmission(insertSubmission: InsertPrivateSubmission): Promise<PrivateSubmission> {
     const id = this.privateSubmissionIdCounter++;
     const createdAt = new Date();
@@ -456,7 +718,12 @@ export class MemStorage implements IStorage {
       likes: 0,
       earnings: 0,
       createdAt,
-      notes: insertSubmission.notes || null
+      notes: insertSubmission.notes || null,
+      platform: insertSubmission.platform ?? "instagram",
+      postId: insertSubmission.postId ?? null,
+      caption: insertSubmission.caption || null,
+      complianceIssues: insertSubmission.complianceIssues ?? null,
+      rejectionReason: null
     };
 
     this.privateSubmissions.set(id, submission);
@@ -543,6 +810,676 @@ export class MemStorage implements IStorage {
 
     return metric;
   }
+
+  // API Token methods
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(
+      (token) => token.tokenHash === tokenHash
+    );
+  }
+
+  async getApiTokensByUserId(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter((token) => Number(token.userId) === Number(userId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenIdCounter++;
+
+    const token: ApiToken = {
+      ...insertToken,
+      id,
+      expiresAt: insertToken.expiresAt || null,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async updateApiToken(id: number, tokenUpdate: Partial<ApiToken>): Promise<ApiToken | undefined> {
+    const token = this.apiTokens.get(id);
+    if (!token) return undefined;
+
+    const updatedToken = { ...token, ...tokenUpdate };
+    this.apiTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  // Payout details methods
+  async getInfluencerPayoutDetails(userId: number): Promise<InfluencerPayoutDetails | undefined> {
+    return Array.from(this.influencerPayoutDetails.values()).find(
+      (details) => Number(details.userId) === Number(userId)
+    );
+  }
+
+  async upsertInfluencerPayoutDetails(userId: number, insertDetails: InsertInfluencerPayoutDetails): Promise<InfluencerPayoutDetails> {
+    const existing = await this.getInfluencerPayoutDetails(userId);
+    const details: InfluencerPayoutDetails = {
+      ...insertDetails,
+      id: existing?.id ?? this.payoutDetailsIdCounter++,
+      userId,
+      paymentEmail: insertDetails.paymentEmail || null,
+      accountName: insertDetails.accountName ?? null,
+      accountNumberEncrypted: insertDetails.accountNumberEncrypted ?? null,
+      routingNumberEncrypted: insertDetails.routingNumberEncrypted ?? null,
+      updatedAt: new Date()
+    };
+
+    this.influencerPayoutDetails.set(details.id, details);
+    return details;
+  }
+
+  // Ledger methods
+  async getAllLedgerEntries(): Promise<LedgerEntry[]> {
+    return Array.from(this.ledgerEntries.values());
+  }
+
+  async getLedgerEntriesByInfluencerId(influencerId: number): Promise<LedgerEntry[]> {
+    return Array.from(this.ledgerEntries.values())
+      .filter((entry) => Number(entry.influencerId) === Number(influencerId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createLedgerEntry(insertEntry: InsertLedgerEntry): Promise<LedgerEntry> {
+    const id = this.ledgerEntryIdCounter++;
+
+    const entry: LedgerEntry = {
+      ...insertEntry,
+      id,
+      submissionId: insertEntry.submissionId ?? null,
+      privateSubmissionId: insertEntry.privateSubmissionId ?? null,
+      payoutId: insertEntry.payoutId ?? null,
+      createdBy: insertEntry.createdBy ?? null,
+      createdAt: new Date()
+    };
+
+    this.ledgerEntries.set(id, entry);
+    return entry;
+  }
+
+  // Payout methods
+  async getPayoutRuns(): Promise<PayoutRun[]> {
+    return Array.from(this.payoutRuns.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getPayoutRun(id: number): Promise<PayoutRun | undefined> {
+    return this.payoutRuns.get(id);
+  }
+
+  async createPayoutRun(insertRun: InsertPayoutRun): Promise<PayoutRun> {
+    const id = this.payoutRunIdCounter++;
+    const run: PayoutRun = { ...insertRun, id, createdAt: new Date() };
+
+    this.payoutRuns.set(id, run);
+    return run;
+  }
+
+  async getPayout(id: number): Promise<Payout | undefined> {
+    return this.payouts.get(id);
+  }
+
+  async getPayoutsByRunId(payoutRunId: number): Promise<Payout[]> {
+    return Array.from(this.payouts.values())
+      .filter((payout) => Number(payout.payoutRunId) === Number(payoutRunId));
+  }
+
+  async getPayoutsByInfluencerId(influencerId: number): Promise<Payout[]> {
+    return Array.from(this.payouts.values())
+      .filter((payout) => Number(payout.influencerId) === Number(influencerId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createPayout(insertPayout: InsertPayout): Promise<Payout> {
+    const id = this.payoutIdCounter++;
+
+    const payout: Payout = {
+      ...insertPayout,
+      id,
+      status: insertPayout.status || "pending",
+      paymentDestination: insertPayout.paymentDestination ?? null,
+      reference: insertPayout.reference ?? null,
+      createdAt: new Date(),
+      settledAt: null
+    };
+
+    this.payouts.set(id, payout);
+    return payout;
+  }
+
+  async updatePayout(id: number, payoutUpdate: Partial<Payout>): Promise<Payout | undefined> {
+    const payout = this.payouts.get(id);
+    if (!payout) return undefined;
+
+    const updatedPayout = { ...payout, ...payoutUpdate };
+    this.payouts.set(id, updatedPayout);
+    return updatedPayout;
+  }
+
+  // Settings methods
+  async getRestaurantProfile(userId: number): Promise<RestaurantProfile | undefined> {
+    return Array.from(this.restaurantProfiles.values()).find(
+      (profile) => Number(profile.userId) === Number(userId)
+    );
+  }
+
+  async upsertRestaurantProfile(userId: number, insertProfile: InsertRestaurantProfile): Promise<RestaurantProfile> {
+    const existing = await this.getRestaurantProfile(userId);
+    const profile: RestaurantProfile = {
+      id: existing?.id ?? this.restaurantProfileIdCounter++,
+      userId,
+      description: insertProfile.description ?? null,
+      address: insertProfile.address ?? null,
+      city: insertProfile.city ?? null,
+      state: insertProfile.state ?? null,
+      zipCode: insertProfile.zipCode ?? null,
+      website: insertProfile.website || null,
+      updatedAt: new Date()
+    };
+
+    this.restaurantProfiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    return Array.from(this.notificationPreferences.values()).find(
+      (preferences) => Number(preferences.userId) === Number(userId)
+    );
+  }
+
+  async upsertNotificationPreferences(userId: number, insertPreferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const existing = await this.getNotificationPreferences(userId);
+    const preferences: NotificationPreferences = {
+      id: existing?.id ?? this.notificationPreferencesIdCounter++,
+      userId,
+      emailNotifications: insertPreferences.emailNotifications ?? existing?.emailNotifications ?? true,
+      submissionAlerts: insertPreferences.submissionAlerts ?? existing?.submissionAlerts ?? true,
+      newCampaignAlerts: insertPreferences.newCampaignAlerts ?? existing?.newCampaignAlerts ?? true,
+      paymentNotifications: insertPreferences.paymentNotifications ?? existing?.paymentNotifications ?? true,
+      updatedAt: new Date()
+    };
+
+    this.notificationPreferences.set(preferences.id, preferences);
+    return preferences;
+  }
+
+  // Password reset token methods
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const token = Array.from(this.passwordResetTokens.values()).find(
+      (token) => token.tokenHash === tokenHash && !token.usedAt && token.expiresAt.getTime() > Date.now()
+    );
+    if (!token) return undefined;
+
+    const usedToken = { ...token, usedAt: new Date() };
+    this.passwordResetTokens.set(token.id, usedToken);
+    return usedToken;
+  }
+
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenIdCounter++;
+    const token: PasswordResetToken = {
+      ...insertToken,
+      id,
+      usedAt: null,
+      createdAt: new Date()
+    };
+
+    this.passwordResetTokens.set(id, token);
+    return token;
+  }
+
+  async updatePasswordResetToken(id: number, tokenUpdate: Partial<PasswordResetToken>): Promise<PasswordResetToken | undefined> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token) return undefined;
+
+    const updatedToken = { ...token, ...tokenUpdate };
+    this.passwordResetTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  // Notification inbox operations
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async getNotificationsByUserId(userId: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter((notification) => notification.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getNotificationByDedupeKey(dedupeKey: string): Promise<Notification | undefined> {
+    return Array.from(this.notifications.values()).find(
+      (notification) => notification.dedupeKey === dedupeKey
+    );
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = this.notificationIdCounter++;
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      link: insertNotification.link ?? null,
+      dedupeKey: insertNotification.dedupeKey ?? null,
+      readAt: null,
+      createdAt: new Date()
+    };
+
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async updateNotification(id: number, notificationUpdate: Partial<Notification>): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification) return undefined;
+
+    const updatedNotification = { ...notification, ...notificationUpdate };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const readAt = new Date();
+    let count = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.readAt) {
+        this.notifications.set(notification.id, { ...notification, readAt });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async getPendingPrivateInvitationsExpiringBefore(cutoff: Date): Promise<PrivateInvitation[]> {
+    return Array.from(this.privateInvitations.values()).filter(
+      (invitation) => invitation.status === "pending" && invitation.expiresAt && invitation.expiresAt <= cutoff
+    );
+  }
+
+  // Influencer directory operations
+  async getInfluencers(): Promise<User[]> {
+    return Array.from(this.users.values()).filter((user) => user.role === "influencer");
+  }
+
+  async getInfluencerProfile(userId: number): Promise<InfluencerProfile | undefined> {
+    return Array.from(this.influencerProfiles.values()).find(
+      (profile) => profile.userId === userId
+    );
+  }
+
+  async upsertInfluencerProfile(userId: number, insertProfile: InsertInfluencerProfile): Promise<InfluencerProfile> {
+    const existing = await this.getInfluencerProfile(userId);
+    const id = existing?.id ?? this.influencerProfileIdCounter++;
+    const defaults = {
+      bio: null,
+      instagramHandle: null,
+      tiktokHandle: null,
+      youtubeHandle: null,
+      instagramFollowers: 0,
+      tiktokFollowers: 0,
+      youtubeFollowers: 0,
+      city: null,
+      latitude: null,
+      longitude: null,
+      niches: [],
+      followerCount: 0,
+      rateCard: []
+    };
+    const profile: InfluencerProfile = {
+      ...defaults,
+      ...existing,
+      ...insertProfile,
+      id,
+      userId,
+      updatedAt: new Date()
+    };
+
+    this.influencerProfiles.set(id, profile);
+    return profile;
+  }
+
+  async searchInfluencers(filters: InfluencerSearchFilters): Promise<{ results: InfluencerDirectoryEntry[]; total: number }> {
+    const query = filters.q?.toLowerCase().replace(/^@/, "");
+    const city = filters.city?.toLowerCase();
+
+    const matches = (await this.getInfluencers())
+      .map((user) => {
+        const profile = Array.from(this.influencerProfiles.values()).find((p) => p.userId === user.id);
+        const entry: InfluencerDirectoryEntry = {
+          id: user.id,
+          name: user.name,
+          username: user.username,
+          profilePicture: user.profilePicture,
+          instagramHandle: profile?.instagramHandle ?? null,
+          city: profile?.city ?? null,
+          niches: profile?.niches ?? [],
+          followerCount: profile?.followerCount ?? 0
+        };
+        const searchable = [entry.name, entry.username, entry.instagramHandle, profile?.tiktokHandle, profile?.youtubeHandle];
+        return { entry, searchable };
+      })
+      .filter(({ entry, searchable }) =>
+        (!query || searchable.some((value) => (value ?? "").toLowerCase().includes(query))) &&
+        (!city || (entry.city ?? "").toLowerCase().includes(city)) &&
+        (!filters.niche || entry.niches.includes(filters.niche)) &&
+        (filters.minFollowers === undefined || entry.followerCount >= filters.minFollowers) &&
+        (filters.maxFollowers === undefined || entry.followerCount <= filters.maxFollowers)
+      )
+      .map(({ entry }) => entry)
+      .sort((a, b) => b.followerCount - a.followerCount || a.name.localeCompare(b.name));
+
+    const offset = (filters.page - 1) * filters.pageSize;
+    return { results: matches.slice(offset, offset + filters.pageSize), total: matches.length };
+  }
+
+  // Organization operations
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    return this.organizations.get(id);
+  }
+
+  async getOrganizationByOwnerId(ownerId: number): Promise<Organization | undefined> {
+    return Array.from(this.organizations.values())
+      .find((organization) => Number(organization.ownerId) === Number(ownerId));
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    const id = this.organizationIdCounter++;
+    const organization: Organization = {
+      id,
+      ownerId: Number(insertOrganization.ownerId),
+      name: insertOrganization.name,
+      createdAt: new Date()
+    };
+
+    this.organizations.set(id, organization);
+    return organization;
+  }
+
+  async updateOrganization(id: number, organizationUpdate: Partial<OrganizationInput>): Promise<Organization | undefined> {
+    const organization = this.organizations.get(id);
+    if (!organization) return undefined;
+
+    const updatedOrganization: Organization = { ...organization, ...organizationUpdate };
+    this.organizations.set(id, updatedOrganization);
+    return updatedOrganization;
+  }
+
+  // Venue operations
+  async getVenue(id: number): Promise<Venue | undefined> {
+    return this.venues.get(id);
+  }
+
+  async getVenuesByRestaurantId(restaurantId: number): Promise<Venue[]> {
+    return Array.from(this.venues.values())
+      .filter((venue) => Number(venue.restaurantId) === Number(restaurantId));
+  }
+
+  async getVenuesByOrganizationId(organizationId: number): Promise<Venue[]> {
+    return Array.from(this.venues.values())
+      .filter((venue) => Number(venue.organizationId) === Number(organizationId));
+  }
+
+  async getAllVenues(): Promise<Venue[]> {
+    return Array.from(this.venues.values());
+  }
+
+  async createVenue(insertVenue: InsertVenue): Promise<Venue> {
+    const id = this.venueIdCounter++;
+    const venue: Venue = {
+      id,
+      restaurantId: Number(insertVenue.restaurantId),
+      organizationId: Number(insertVenue.organizationId),
+      name: insertVenue.name,
+      address: insertVenue.address,
+      city: insertVenue.city,
+      state: insertVenue.state || null,
+      zipCode: insertVenue.zipCode || null,
+      latitude: insertVenue.latitude,
+      longitude: insertVenue.longitude,
+      hours: insertVenue.hours ?? {},
+      cuisine: insertVenue.cuisine ?? null,
+      createdAt: new Date()
+    };
+
+    this.venues.set(id, venue);
+    return venue;
+  }
+
+  async updateVenue(id: number, venueUpdate: Partial<InsertVenue>): Promise<Venue | undefined> {
+    const venue = this.venues.get(id);
+    if (!venue) return undefined;
+
+    const updatedVenue: Venue = {
+      ...venue,
+      ...venueUpdate,
+      state: venueUpdate.state !== undefined ? venueUpdate.state || null : venue.state,
+      zipCode: venueUpdate.zipCode !== undefined ? venueUpdate.zipCode || null : venue.zipCode
+    };
+    this.venues.set(id, updatedVenue);
+    return updatedVenue;
+  }
+
+  async deleteVenue(id: number): Promise<boolean> {
+    return this.venues.delete(id);
+  }
+
+  // Campaign application operations
+  async getCampaignApplication(id: number): Promise<CampaignApplication | undefined> {
+    return this.campaignApplications.get(id);
+  }
+
+  async getCampaignApplicationForInfluencer(campaignId: number, influencerId: number): Promise<CampaignApplication | undefined> {
+    return Array.from(this.campaignApplications.values()).find(
+      (application) =>
+        Number(application.campaignId) === Number(campaignId) &&
+        Number(application.influencerId) === Number(influencerId)
+    );
+  }
+
+  async getCampaignApplicationsByCampaignId(campaignId: number): Promise<CampaignApplication[]> {
+    return Array.from(this.campaignApplications.values())
+      .filter((application) => Number(application.campaignId) === Number(campaignId));
+  }
+
+  async getCampaignApplicationsByInfluencerId(influencerId: number): Promise<CampaignApplication[]> {
+    return Array.from(this.campaignApplications.values())
+      .filter((application) => Number(application.influencerId) === Number(influencerId));
+  }
+
+  async getCampaignApplicationsByRestaurantId(restaurantId: number): Promise<CampaignApplication[]> {
+    const campaignIds = (await this.getCampaignsByRestaurantId(restaurantId)).map((campaign) => campaign.id);
+    return Array.from(this.campaignApplications.values())
+      .filter((application) => campaignIds.includes(Number(application.campaignId)));
+  }
+
+  async getAllCampaignApplications(): Promise<CampaignApplication[]> {
+    return Array.from(this.campaignApplications.values());
+  }
+
+  async createCampaignApplication(insertApplication: InsertCampaignApplication): Promise<CampaignApplication> {
+    const id = this.campaignApplicationIdCounter++;
+    const application: CampaignApplication = {
+      id,
+      campaignId: Number(insertApplication.campaignId),
+      influencerId: Number(insertApplication.influencerId),
+      pitch: insertApplication.pitch,
+      status: "pending",
+      postingDeadline: null,
+      decidedAt: null,
+      createdAt: new Date()
+    };
+
+    this.campaignApplications.set(id, application);
+    return application;
+  }
+
+  async updateCampaignApplication(id: number, applicationUpdate: Partial<CampaignApplication>): Promise<CampaignApplication | undefined> {
+    const application = this.campaignApplications.get(id);
+    if (!application) return undefined;
+
+    const updatedApplication = { ...application, ...applicationUpdate };
+    this.campaignApplications.set(id, updatedApplication);
+    return updatedApplication;
+  }
+
+  // Media file methods
+  async getMediaFile(id: number): Promise<MediaFile | undefined> {
+    return this.mediaFiles.get(id);
+  }
+
+  async createMediaFile(insertFile: InsertMediaFile): Promise<MediaFile> {
+    const id = this.mediaFileIdCounter++;
+    const file: MediaFile = { ...insertFile, id, createdAt: new Date() };
+    this.mediaFiles.set(id, file);
+    return file;
+  }
+
+  // Team operations
+  async getOrganizationMember(id: number): Promise<OrganizationMember | undefined> {
+    return this.organizationMembers.get(id);
+  }
+
+  async getOrganizationMemberByUserId(userId: number): Promise<OrganizationMember | undefined> {
+    return Array.from(this.organizationMembers.values())
+      .find((member) => Number(member.userId) === Number(userId));
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]> {
+    return Array.from(this.organizationMembers.values())
+      .filter((member) => Number(member.organizationId) === Number(organizationId));
+  }
+
+  async createOrganizationMember(insertMember: InsertOrganizationMember): Promise<OrganizationMember> {
+    const id = this.organizationMemberIdCounter++;
+    const member: OrganizationMember = { ...insertMember, id, createdAt: new Date() };
+    this.organizationMembers.set(id, member);
+    return member;
+  }
+
+  async updateOrganizationMember(id: number, memberUpdate: Partial<OrganizationMember>): Promise<OrganizationMember | undefined> {
+    const member = this.organizationMembers.get(id);
+    if (!member) return undefined;
+
+    const updatedMember: OrganizationMember = { ...member, ...memberUpdate };
+    this.organizationMembers.set(id, updatedMember);
+    return updatedMember;
+  }
+
+  async deleteOrganizationMember(id: number): Promise<boolean> {
+    return this.organizationMembers.delete(id);
+  }
+
+  async getOrganizationInvite(id: number): Promise<OrganizationInvite | undefined> {
+    return this.organizationInvites.get(id);
+  }
+
+  async getOrganizationInviteByHash(tokenHash: string): Promise<OrganizationInvite | undefined> {
+    return Array.from(this.organizationInvites.values()).find((invite) => invite.tokenHash === tokenHash);
+  }
+
+  async getOrganizationInvites(organizationId: number): Promise<OrganizationInvite[]> {
+    return Array.from(this.organizationInvites.values())
+      .filter((invite) => Number(invite.organizationId) === Number(organizationId))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getOrganizationInvitesByEmail(email: string): Promise<OrganizationInvite[]> {
+    return Array.from(this.organizationInvites.values())
+      .filter((invite) => invite.email.toLowerCase() === email.toLowerCase())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createOrganizationInvite(insertInvite: InsertOrganizationInvite): Promise<OrganizationInvite> {
+    const id = this.organizationInviteIdCounter++;
+    const invite: OrganizationInvite = { ...insertInvite, id, acceptedAt: null, createdAt: new Date() };
+    this.organizationInvites.set(id, invite);
+    return invite;
+  }
+
+  async consumeOrganizationInvite(tokenHash: string): Promise<OrganizationInvite | undefined> {
+    const invite = Array.from(this.organizationInvites.values()).find(
+      (invite) => invite.tokenHash === tokenHash && !invite.acceptedAt && invite.expiresAt.getTime() > Date.now()
+    );
+    if (!invite) return undefined;
+
+    const acceptedInvite = { ...invite, acceptedAt: new Date() };
+    this.organizationInvites.set(invite.id, acceptedInvite);
+    return acceptedInvite;
+  }
+
+  async updateOrganizationInvite(id: number, inviteUpdate: Partial<OrganizationInvite>): Promise<OrganizationInvite | undefined> {
+    const invite = this.organizationInvites.get(id);
+    if (!invite) return undefined;
+
+    const updatedInvite: OrganizationInvite = { ...invite, ...inviteUpdate };
+    this.organizationInvites.set(id, updatedInvite);
+    return updatedInvite;
+  }
+
+  async deleteOrganizationInvite(id: number): Promise<boolean> {
+    return this.organizationInvites.delete(id);
+  }
+
+  async createOrganizationActivity(insertEntry: InsertOrganizationActivity): Promise<OrganizationActivity> {
+    const id = this.organizationActivityIdCounter++;
+    const entry: OrganizationActivity = { ...insertEntry, id, createdAt: new Date() };
+    this.organizationActivity.set(id, entry);
+    return entry;
+  }
+
+  async getOrganizationActivity(organizationId: number, limit: number): Promise<OrganizationActivity[]> {
+    return Array.from(this.organizationActivity.values())
+      .filter((entry) => Number(entry.organizationId) === Number(organizationId))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getSubmissionComments(submissionId: number): Promise<SubmissionComment[]> {
+    return Array.from(this.submissionComments.values())
+      .filter(comment => comment.submissionId === Number(submissionId))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getPrivateSubmissionComments(privateSubmissionId: number): Promise<SubmissionComment[]> {
+    return Array.from(this.submissionComments.values())
+      .filter(comment => comment.privateSubmissionId === Number(privateSubmissionId))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createSubmissionComment(insertComment: InsertSubmissionComment): Promise<SubmissionComment> {
+    const id = this.submissionCommentIdCounter++;
+    const comment: SubmissionComment = { ...insertComment, id, createdAt: new Date() };
+    this.submissionComments.set(id, comment);
+    return comment;
+  }
+
+  // In-memory storage has no transactions or row locks: work runs directly
+  // against the maps and nothing is rolled back
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    return work(this);
+  }
+
+  async lockCampaign(id: number): Promise<Campaign | undefined> {
+    return this.getCampaign(id);
+  }
+
+  async lockSubmission(id: number): Promise<Submission | undefined> {
+    return this.getSubmission(id);
+  }
+
+  async lockPrivateSubmission(id: number): Promise<PrivateSubmission | undefined> {
+    return this.getPrivateSubmission(id);
+  }
+
+  async lockPayout(id: number): Promise<Payout | undefined> {
+    return this.getPayout(id);
+  }
+
+  async lockInfluencerLedger(influencerId: number): Promise<void> {}
 }
 
 export class DatabaseStorage implements IStorage {
@@ -557,8 +1494,17 @@ export class DatabaseStorage implements IStorage {
   privatePerformanceMetrics: Map<number, PrivatePerformanceMetric> = new Map();
 
   sessionStore: session.Store;
+  private readonly inTransaction: boolean;
+
+  // A transaction gets its own DatabaseStorage over the transaction, sharing
+  // the session store
+  constructor(private readonly db: DbExecutor = database, sessionStore?: session.Store) {
+    this.inTransaction = db !== database;
+    if (sessionStore) {
+      this.sessionStore = sessionStore;
+      return;
+    }
 
-  constructor() {
     // Use MemoryStore for sessions
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000, // 24h, clear expired entries
@@ -568,13 +1514,52 @@ export class DatabaseStorage implements IStorage {
     console.log("Using persistent database storage for all data");
   }
 
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction(tx => work(new DatabaseStorage(tx, this.sessionStore)));
+  }
+
+  // Outside a transaction a failed update is logged and reported as a missing
+  // row. Inside one the failed statement has aborted the transaction, so the
+  // error is rethrown to roll it back rather than the caller carrying on to a
+  // COMMIT that discards its writes.
+  private updateFailed(error: unknown): undefined {
+    if (this.inTransaction) throw error;
+    return undefined;
+  }
+
+  // Lock reads don't swallow errors: a failed query aborts the transaction,
+  // so the caller has to stop rather than carry on with a missing row
+  async lockCampaign(id: number): Promise<Campaign | undefined> {
+    const [campaign] = await this.db.select().from(campaigns).where(eq(campaigns.id, id)).for("update");
+    return campaign;
+  }
+
+  async lockSubmission(id: number): Promise<Submission | undefined> {
+    const [submission] = await this.db.select().from(submissions).where(eq(submissions.id, id)).for("update");
+    return submission;
+  }
+
+  async lockPrivateSubmission(id: number): Promise<PrivateSubmission | undefined> {
+    const [submission] = await this.db.select().from(privateSubmissions).where(eq(privateSubmissions.id, id)).for("update");
+    return submission;
+  }
+
+  async lockPayout(id: number): Promise<Payout | undefined> {
+    const [payout] = await this.db.select().from(payouts).where(eq(payouts.id, id)).for("update");
+    return payout;
+  }
+
+  async lockInfluencerLedger(influencerId: number): Promise<void> {
+    await this.db.select({ id: users.id }).from(users).where(eq(users.id, Number(influencerId))).for("update");
+  }
+
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     try {
       console.log(`DEBUG: Looking up user with ID: ${id}`);
       
       // First try looking up directly by ID
-      const [user] = await db.select().from(users).where(eq(users.id, id));
+      const [user] = await this.db.select().from(users).where(eq(users.id, id));
       
       if (user) {
         console.log(`DEBUG: Found user by ID ${id}: ${user.username} (${user.role})`);
@@ -586,7 +1571,7 @@ export class DatabaseStorage implements IStorage {
       // If admin user is being requested by ID 11, let's try to find by username as a fallback
       if (id === 11) {
         console.log(`DEBUG: Attempting fallback lookup for admin by username`);
-        const [adminUser] = await db.select().from(users).where(eq(users.username, "Admin"));
+        const [adminUser] = await this.db.select().from(users).where(eq(users.username, "Admin"));
         
         if (adminUser) {
           console.log(`DEBUG: Found admin by username: ${adminUser.id} (${adminUser.username})`);
@@ -597,7 +1582,7 @@ export class DatabaseStorage implements IStorage {
       }
       
       // Log all users as a last resort for debugging
-      const allUsers = await db.select().from(users);
+      const allUsers = await this.db.select().from(users);
       console.log(`DEBUG: Total users in database: ${allUsers.length}`);
       
       allUsers.forEach(u => {
@@ -613,7 +1598,7 @@ export class DatabaseStorage implements IStorage {
 
   async getUserByUsername(username: string): Promise<User | undefined> {
     try {
-      const [user] = await db.select().from(users).where(eq(users.username, username));
+      const [user] = await this.db.select().from(users).where(eq(users.username, username));
       return user;
     } catch (error) {
       console.error("Error retrieving user by username:", error);
@@ -623,7 +1608,7 @@ export class DatabaseStorage implements IStorage {
 
   async getUserByEmail(email: string): Promise<User | undefined> {
     try {
-      const [user] = await db.select().from(users).where(eq(users.email, email));
+      const [user] = await this.db.select().from(users).where(eq(users.email, email));
       return user;
     } catch (error) {
       console.error("Error retrieving user by email:", error);
@@ -633,7 +1618,7 @@ export class DatabaseStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     try {
-      const [user] = await db.insert(users).values(insertUser).returning();
+      const [user] = await this.db.insert(users).values(insertUser).returning();
       return user;
     } catch (error) {
       console.error("Error creating user:", error);
@@ -643,7 +1628,7 @@ export class DatabaseStorage implements IStorage {
 
   async updateUser(id: number, userUpdate: Partial<User>): Promise<User | undefined> {
     try {
-      const [updatedUser] = await db
+      const [updatedUser] = await this.db
         .update(users)
         .set(userUpdate)
         .where(eq(users.id, id))
@@ -658,7 +1643,7 @@ export class DatabaseStorage implements IStorage {
   // Campaign methods
   async getCampaign(id: number): Promise<Campaign | undefined> {
     try {
-      const [campaign] = await db.select().from(campaigns).where(eq(campaigns.id, id));
+      const [campaign] = await this.db.select().from(campaigns).where(eq(campaigns.id, id));
       return campaign;
     } catch (error) {
       console.error("Error retrieving campaign:", error);
@@ -668,7 +1653,7 @@ export class DatabaseStorage implements IStorage {
 
   async getCampaigns(): Promise<Campaign[]> {
     try {
-      return await db.select().from(campaigns);
+      return await this.db.select().from(campaigns);
     } catch (error) {
       console.error("Error retrieving all campaigns:", error);
       return [];
@@ -681,7 +1666,7 @@ export class DatabaseStorage implements IStorage {
       const numRestaurantId = Number(restaurantId);
       console.log(`Getting campaigns for restaurant ID ${numRestaurantId} (${typeof restaurantId})`);
 
-      const result = await db
+      const result = await this.db
         .select()
         .from(campaigns)
         .where(eq(campaigns.restaurantId, numRestaurantId));
@@ -702,13 +1687,16 @@ export class DatabaseStorage implements IStorage {
 
   async getActiveCampaigns(): Promise<Campaign[]> {
     try {
-      // Return all campaigns - no status filtering
-      const allCampaigns = await db
+      // Scheduled campaigns may have started since they were stored, so the
+      // schedule check happens after the status filter
+      const liveCampaigns = await this.db
         .select()
-        .from(campaigns);
+        .from(campaigns)
+        .where(inArray(campaigns.status, ["scheduled", "active"]));
 
-      console.log(`Found ${allCampaigns.length} active campaigns (all campaigns are now considered active)`);
-      return allCampaigns;
+      const activeCampaigns = liveCampaigns.filter(campaign => getEffectiveCampaignStatus(campaign) === "active");
+      console.log(`Found ${activeCampaigns.length} active campaigns`);
+      return activeCampaigns;
     } catch (error) {
       console.error("Error retrieving active campaigns:", error);
       return [];
@@ -717,7 +1705,7 @@ export class DatabaseStorage implements IStorage {
 
   async getAllCampaigns(): Promise<Campaign[]> {
     try {
-      const allCampaigns = await db
+      const allCampaigns = await this.db
         .select()
         .from(campaigns);
 
@@ -746,10 +1734,26 @@ export class DatabaseStorage implements IStorage {
         rewardAmount: insertCampaign.rewardAmount,
         rewardViews: insertCampaign.rewardViews,
         maxPayoutPerInfluencer: insertCampaign.maxPayoutPerInfluencer || null,
-        maxBudget: insertCampaign.maxBudget || null
+        maxBudget: insertCampaign.maxBudget || null,
+        cuisine: insertCampaign.cuisine ?? null,
+        campaignType: insertCampaign.campaignType ?? null,
+        dietaryTags: insertCampaign.dietaryTags ?? [],
+      platforms: insertCampaign.platforms ?? ["instagram"],        venueId: insertCampaign.venueId ?? null,
+        venueIds: insertCampaign.venueIds ?? (insertCampaign.venueId ? [insertCampaign.venueId] : []),
+        venueCoordinates: insertCampaign.venueCoordinates ?? [],
+        latitude: insertCampaign.latitude ?? null,
+        longitude: insertCampaign.longitude ?? null,
+        eligibility: insertCampaign.eligibility ?? {},
+        rewardRules: insertCampaign.rewardRules ?? [],
+        brief: insertCampaign.brief ?? {},
+        requiresApplication: insertCampaign.requiresApplication ?? false,
+        maxAcceptedApplicants: insertCampaign.maxAcceptedApplicants ?? null,
+        status: insertCampaign.status === "draft" ? "draft" as const : getLiveCampaignStatus(insertCampaign.startsAt),
+        startsAt: insertCampaign.startsAt || null,
+        endsAt: insertCampaign.endsAt || null
       };
 
-      const [campaign] = await db
+      const [campaign] = await this.db
         .insert(campaigns)
         .values(campaignData)
         .returning();
@@ -774,7 +1778,7 @@ export class DatabaseStorage implements IStorage {
         campaignUpdate.restaurantId = Number(campaignUpdate.restaurantId);
       }
 
-      const [updatedCampaign] = await db
+      const [updatedCampaign] = await this.db
         .update(campaigns)
         .set(campaignUpdate)
         .where(eq(campaigns.id, id))
@@ -783,13 +1787,13 @@ export class DatabaseStorage implements IStorage {
       return updatedCampaign;
     } catch (error) {
       console.error(`Error updating campaign ${id}:`, error);
-      return undefined;
+      return this.updateFailed(error);
     }
   }
 
   async deleteCampaign(id: number): Promise<boolean> {
     try {
-      const result = await db
+      const result = await this.db
         .delete(campaigns)
         .where(eq(campaigns.id, id))
         .returning();
@@ -804,7 +1808,7 @@ export class DatabaseStorage implements IStorage {
   // Submission methods
   async getSubmission(id: number): Promise<Submission | undefined> {
     try {
-      const [submission] = await db.select().from(submissions).where(eq(submissions.id, id));
+      const [submission] = await this.db.select().from(submissions).where(eq(submissions.id, id));
       return submission;
     } catch (error) {
       console.error(`Error retrieving submission ${id}:`, error);
@@ -814,7 +1818,7 @@ export class DatabaseStorage implements IStorage {
 
   async getSubmissions(): Promise<Submission[]> {
     try {
-      return await db.select().from(submissions);
+      return await this.db.select().from(submissions);
     } catch (error) {
       console.error("Error retrieving all submissions:", error);
       return [];
@@ -824,7 +1828,7 @@ export class DatabaseStorage implements IStorage {
   async getSubmissionsByCampaignId(campaignId: number): Promise<Submission[]> {
     try {
       const numCampaignId = Number(campaignId);
-      return await db
+      return await this.db
         .select()
         .from(submissions)
         .where(eq(submissions.campaignId, numCampaignId));
@@ -837,7 +1841,7 @@ export class DatabaseStorage implements IStorage {
   async getSubmissionsByInfluencerId(influencerId: number): Promise<Submission[]> {
     try {
       const numInfluencerId = Number(influencerId);
-      return await db
+      return await this.db
         .select()
         .from(submissions)
         .where(eq(submissions.influencerId, numInfluencerId));
@@ -866,7 +1870,7 @@ export class DatabaseStorage implements IStorage {
       console.log(`Found ${campaignIds.length} campaigns for restaurant ID ${numRestaurantId}: ${campaignIds.join(', ')}`);
 
       // Get all submissions for those campaigns
-      const result = await db
+      const result = await this.db
         .select()
         .from(submissions)
         .where(inArray(submissions.campaignId, campaignIds));
@@ -879,6 +1883,19 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getSubmissionsByPostIds(postIds: string[]): Promise<Submission[]> {
+    if (postIds.length === 0) return [];
+    try {
+      return await this.db
+        .select()
+        .from(submissions)
+        .where(inArray(submissions.postId, postIds));
+    } catch (error) {
+      console.error("Error retrieving submissions by post:", error);
+      return [];
+    }
+  }
+
   async createSubmission(insertSubmission: InsertSubmission): Promise<Submission> {
     try {
       // Ensure IDs are numbers
@@ -892,7 +1909,7 @@ export class DatabaseStorage implements IStorage {
         notes: insertSubmission.notes || null
       };
 
-      const [submission] = await db
+      const [submission] = await this.db
         .insert(submissions)
         .values({
           ...submissionData,
@@ -919,7 +1936,7 @@ export class DatabaseStorage implements IStorage {
         submissionUpdate.influencerId = Number(submissionUpdate.influencerId);
       }
 
-      const [updatedSubmission] = await db
+      const [updatedSubmission] = await this.db
         .update(submissions)
         .set(submissionUpdate)
         .where(eq(submissions.id, id))
@@ -928,13 +1945,13 @@ export class DatabaseStorage implements IStorage {
       return updatedSubmission;
     } catch (error) {
       console.error(`Error updating submission ${id}:`, error);
-      return undefined;
+      return this.updateFailed(error);
     }
   }
 
   // Private Invitation methods
   async getPrivateInvitation(id: number): Promise<PrivateInvitation | undefined> {
-    try {const [invitation] = await db.select().from(privateInvitations).where(eq(privateInvitations.id, id));
+    try {const [invitation] = await this.db.select().from(privateInvitations).where(eq(privateInvitations.id, id));
       return invitation;
     } catch (error) {
       console.error(`Error retrieving private invitation ${id}:`, error);
@@ -944,7 +1961,7 @@ export class DatabaseStorage implements IStorage {
 
   async getPrivateInvitationByCode(inviteCode: string): Promise<PrivateInvitation | undefined> {
     try {
-      const [invitation] = await db
+      const [invitation] = await this.db
         .select()
         .from(privateInvitations)
         .where(eq(privateInvitations.inviteCode, inviteCode));
@@ -955,10 +1972,19 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getPrivateInvitations(): Promise<PrivateInvitation[]> {
+    try {
+      return await this.db.select().from(privateInvitations);
+    } catch (error) {
+      console.error("Error retrieving private invitations:", error);
+      return [];
+    }
+  }
+
   async getPrivateInvitationsByRestaurantId(restaurantId: number): Promise<PrivateInvitation[]> {
     try {
       const numRestaurantId = Number(restaurantId);
-      return await db
+      return await this.db
         .select()
         .from(privateInvitations)
         .where(eq(privateInvitations.restaurantId, numRestaurantId));
@@ -971,7 +1997,7 @@ export class DatabaseStorage implements IStorage {
   async getPrivateInvitationsByInfluencerId(influencerId: number): Promise<PrivateInvitation[]> {
     try {
       const numInfluencerId = Number(influencerId);
-      return await db
+      return await this.db
         .select()
         .from(privateInvitations)
         .where(eq(privateInvitations.influencerId, numInfluencerId));
@@ -994,7 +2020,7 @@ export class DatabaseStorage implements IStorage {
         imageUrl: insertInvitation.imageUrl || null
       };
 
-      const [invitation] = await db
+      const [invitation] = await this.db
         .insert(privateInvitations)
         .values(invitationData)
         .returning();
@@ -1016,7 +2042,7 @@ export class DatabaseStorage implements IStorage {
         invitationUpdate.influencerId = Number(invitationUpdate.influencerId);
       }
 
-      const [updatedInvitation] = await db
+      const [updatedInvitation] = await this.db
         .update(privateInvitations)
         .set(invitationUpdate)
         .where(eq(privateInvitations.id, id))
@@ -1031,7 +2057,7 @@ export class DatabaseStorage implements IStorage {
 
   async deletePrivateInvitation(id: number): Promise<boolean> {
     try {
-      const result = await db
+      const result = await this.db
         .delete(privateInvitations)
         .where(eq(privateInvitations.id, id))
         .returning();
@@ -1046,7 +2072,7 @@ export class DatabaseStorage implements IStorage {
   // Private Submission methods
   async getPrivateSubmission(id: number): Promise<PrivateSubmission | undefined> {
     try {
-      const [submission] = await db.select().from(privateSubmissions).where(eq(privateSubmissions.id, id));
+      const [submission] = await this.db.select().from(privateSubmissions).where(eq(privateSubmissions.id, id));
       return submission;
     } catch (error) {
       console.error(`Error retrieving private submission ${id}:`, error);
@@ -1057,7 +2083,7 @@ export class DatabaseStorage implements IStorage {
   async getPrivateSubmissionsByInvitationId(invitationId: number): Promise<PrivateSubmission[]> {
     try {
       const numInvitationId = Number(invitationId);
-      return await db
+      return await this.db
         .select()
         .from(privateSubmissions)
         .where(eq(privateSubmissions.invitationId, numInvitationId));
@@ -1067,6 +2093,19 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getPrivateSubmissionsByPostIds(postIds: string[]): Promise<PrivateSubmission[]> {
+    if (postIds.length === 0) return [];
+    try {
+      return await this.db
+        .select()
+        .from(privateSubmissions)
+        .where(inArray(privateSubmissions.postId, postIds));
+    } catch (error) {
+      console.error("Error retrieving private submissions by post:", error);
+      return [];
+    }
+  }
+
   async createPrivateSubmission(insertSubmission: InsertPrivateSubmission): Promise<PrivateSubmission> {
     try {
       // Ensure invitationId is a number
@@ -1078,7 +2117,7 @@ export class DatabaseStorage implements IStorage {
         notes: insertSubmission.notes || null
       };
 
-      const [submission] = await db
+      const [submission] = await this.db
         .insert(privateSubmissions)
         .values({
           ...submissionData,
@@ -1102,7 +2141,7 @@ export class DatabaseStorage implements IStorage {
         submissionUpdate.invitationId = Number(submissionUpdate.invitationId);
       }
 
-      const [updatedSubmission] = await db
+      const [updatedSubmission] = await this.db
         .update(privateSubmissions)
         .set(submissionUpdate)
         .where(eq(privateSubmissions.id, id))
@@ -1111,14 +2150,14 @@ export class DatabaseStorage implements IStorage {
       return updatedSubmission;
     } catch (error) {
       console.error(`Error updating private submission ${id}:`, error);
-      return undefined;
+      return this.updateFailed(error);
     }
   }
 
   // Performance Metrics methods
   async getPerformanceMetric(id: number): Promise<PerformanceMetric | undefined> {
     try {
-      const [metric] = await db.select().from(performanceMetrics).where(eq(performanceMetrics.id, id));
+      const [metric] = await this.db.select().from(performanceMetrics).where(eq(performanceMetrics.id, id));
       return metric;
     } catch (error) {
       console.error(`Error retrieving performance metric ${id}:`, error);
@@ -1129,7 +2168,7 @@ export class DatabaseStorage implements IStorage {
   async getPerformanceMetricsBySubmissionId(submissionId: number): Promise<PerformanceMetric[]> {
     try {
       const numSubmissionId = Number(submissionId);
-      return await db
+      return await this.db
         .select()
         .from(performanceMetrics)
         .where(eq(performanceMetrics.submissionId, numSubmissionId));
@@ -1151,7 +2190,7 @@ export class DatabaseStorage implements IStorage {
         updatedBy: numUpdatedBy
       };
 
-      const [metric] = await db
+      const [metric] = await this.db
         .insert(performanceMetrics)
         .values(metricData)
         .returning();
@@ -1166,7 +2205,7 @@ export class DatabaseStorage implements IStorage {
   // Private Performance Metrics methods
   async getPrivatePerformanceMetric(id: number): Promise<PrivatePerformanceMetric | undefined> {
     try {
-      const [metric] = await db.select().from(privatePerformanceMetrics).where(eq(privatePerformanceMetrics.id, id));
+      const [metric] = await this.db.select().from(privatePerformanceMetrics).where(eq(privatePerformanceMetrics.id, id));
       return metric;
     } catch (error) {
       console.error(`Error retrieving private performance metric ${id}:`, error);
@@ -1177,7 +2216,7 @@ export class DatabaseStorage implements IStorage {
   async getPrivatePerformanceMetricsBySubmissionId(privateSubmissionId: number): Promise<PrivatePerformanceMetric[]> {
     try {
       const numSubmissionId = Number(privateSubmissionId);
-      return await db
+      return await this.db
         .select()
         .from(privatePerformanceMetrics)
         .where(eq(privatePerformanceMetrics.privateSubmissionId, numSubmissionId));
@@ -1199,7 +2238,7 @@ export class DatabaseStorage implements IStorage {
         updatedBy: numUpdatedBy
       };
 
-      const [metric] = await db
+      const [metric] = await this.db
         .insert(privatePerformanceMetrics)
         .values(metricData)
         .returning();
@@ -1210,6 +2249,1069 @@ export class DatabaseStorage implements IStorage {
       throw error;
     }
   }
+
+  // API Token methods
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    try {
+      const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+      return token;
+    } catch (error) {
+      console.error("Error retrieving API token:", error);
+      return undefined;
+    }
+  }
+
+  async getApiTokensByUserId(userId: number): Promise<ApiToken[]> {
+    try {
+      return await this.db
+        .select()
+        .from(apiTokens)
+        .where(eq(apiTokens.userId, Number(userId)))
+        .orderBy(desc(apiTokens.createdAt));
+    } catch (error) {
+      console.error(`Error retrieving API tokens for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    try {
+      const [token] = await this.db
+        .insert(apiTokens)
+        .values({
+          ...insertToken,
+          userId: Number(insertToken.userId)
+        })
+        .returning();
+
+      return token;
+    } catch (error) {
+      console.error("Error creating API token:", error);
+      throw error;
+    }
+  }
+
+  async updateApiToken(id: number, tokenUpdate: Partial<ApiToken>): Promise<ApiToken | undefined> {
+    try {
+      const [updatedToken] = await this.db
+        .update(apiTokens)
+        .set(tokenUpdate)
+        .where(eq(apiTokens.id, id))
+        .returning();
+
+      return updatedToken;
+    } catch (error) {
+      console.error(`Error updating API token ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  // Payout details methods
+  async getInfluencerPayoutDetails(userId: number): Promise<InfluencerPayoutDetails | undefined> {
+    try {
+      const [details] = await this.db
+        .select()
+        .from(influencerPayoutDetails)
+        .where(eq(influencerPayoutDetails.userId, Number(userId)));
+      return details;
+    } catch (error) {
+      console.error(`Error retrieving payout details for user ${userId}:`, error);
+      return undefined;
+    }
+  }
+
+  async upsertInfluencerPayoutDetails(userId: number, insertDetails: InsertInfluencerPayoutDetails): Promise<InfluencerPayoutDetails> {
+    try {
+      const values = {
+        ...insertDetails,
+        userId: Number(userId),
+        paymentEmail: insertDetails.paymentEmail || null,
+        updatedAt: new Date()
+      };
+
+      const [details] = await this.db
+        .insert(influencerPayoutDetails)
+        .values(values)
+        .onConflictDoUpdate({ target: influencerPayoutDetails.userId, set: values })
+        .returning();
+
+      return details;
+    } catch (error) {
+      console.error(`Error saving payout details for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  // Ledger methods
+  async getAllLedgerEntries(): Promise<LedgerEntry[]> {
+    try {
+      return await this.db.select().from(ledgerEntries);
+    } catch (error) {
+      console.error("Error retrieving ledger entries:", error);
+      return [];
+    }
+  }
+
+  async getLedgerEntriesByInfluencerId(influencerId: number): Promise<LedgerEntry[]> {
+    try {
+      return await this.db
+        .select()
+        .from(ledgerEntries)
+        .where(eq(ledgerEntries.influencerId, Number(influencerId)))
+        .orderBy(desc(ledgerEntries.createdAt));
+    } catch (error) {
+      console.error(`Error retrieving ledger entries for influencer ${influencerId}:`, error);
+      return [];
+    }
+  }
+
+  async createLedgerEntry(insertEntry: InsertLedgerEntry): Promise<LedgerEntry> {
+    try {
+      const [entry] = await this.db
+        .insert(ledgerEntries)
+        .values({
+          ...insertEntry,
+          influencerId: Number(insertEntry.influencerId)
+        })
+        .returning();
+
+      return entry;
+    } catch (error) {
+      console.error("Error creating ledger entry:", error);
+      throw error;
+    }
+  }
+
+  // Payout methods
+  async getPayoutRuns(): Promise<PayoutRun[]> {
+    try {
+      return await this.db.select().from(payoutRuns).orderBy(desc(payoutRuns.createdAt));
+    } catch (error) {
+      console.error("Error retrieving payout runs:", error);
+      return [];
+    }
+  }
+
+  async getPayoutRun(id: number): Promise<PayoutRun | undefined> {
+    try {
+      const [run] = await this.db.select().from(payoutRuns).where(eq(payoutRuns.id, id));
+      return run;
+    } catch (error) {
+      console.error(`Error retrieving payout run ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async createPayoutRun(insertRun: InsertPayoutRun): Promise<PayoutRun> {
+    try {
+      const [run] = await this.db.insert(payoutRuns).values(insertRun).returning();
+      return run;
+    } catch (error) {
+      console.error("Error creating payout run:", error);
+      throw error;
+    }
+  }
+
+  async getPayout(id: number): Promise<Payout | undefined> {
+    try {
+      const [payout] = await this.db.select().from(payouts).where(eq(payouts.id, id));
+      return payout;
+    } catch (error) {
+      console.error(`Error retrieving payout ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async getPayoutsByRunId(payoutRunId: number): Promise<Payout[]> {
+    try {
+      return await this.db.select().from(payouts).where(eq(payouts.payoutRunId, Number(payoutRunId)));
+    } catch (error) {
+      console.error(`Error retrieving payouts for run ${payoutRunId}:`, error);
+      return [];
+    }
+  }
+
+  async getPayoutsByInfluencerId(influencerId: number): Promise<Payout[]> {
+    try {
+      return await this.db
+        .select()
+        .from(payouts)
+        .where(eq(payouts.influencerId, Number(influencerId)))
+        .orderBy(desc(payouts.createdAt));
+    } catch (error) {
+      console.error(`Error retrieving payouts for influencer ${influencerId}:`, error);
+      return [];
+    }
+  }
+
+  async createPayout(insertPayout: InsertPayout): Promise<Payout> {
+    try {
+      const [payout] = await this.db.insert(payouts).values(insertPayout).returning();
+      return payout;
+    } catch (error) {
+      console.error("Error creating payout:", error);
+      throw error;
+    }
+  }
+
+  async updatePayout(id: number, payoutUpdate: Partial<Payout>): Promise<Payout | undefined> {
+    try {
+      const [updatedPayout] = await this.db
+        .update(payouts)
+        .set(payoutUpdate)
+        .where(eq(payouts.id, id))
+        .returning();
+
+      return updatedPayout;
+    } catch (error) {
+      console.error(`Error updating payout ${id}:`, error);
+      return this.updateFailed(error);
+    }
+  }
+
+  // Settings methods
+  async getRestaurantProfile(userId: number): Promise<RestaurantProfile | undefined> {
+    try {
+      const [profile] = await this.db
+        .select()
+        .from(restaurantProfiles)
+        .where(eq(restaurantProfiles.userId, Number(userId)));
+      return profile;
+    } catch (error) {
+      console.error(`Error retrieving restaurant profile for user ${userId}:`, error);
+      return undefined;
+    }
+  }
+
+  async upsertRestaurantProfile(userId: number, insertProfile: InsertRestaurantProfile): Promise<RestaurantProfile> {
+    try {
+      const values = {
+        ...insertProfile,
+        userId: Number(userId),
+        website: insertProfile.website || null,
+        updatedAt: new Date()
+      };
+
+      const [profile] = await this.db
+        .insert(restaurantProfiles)
+        .values(values)
+        .onConflictDoUpdate({ target: restaurantProfiles.userId, set: values })
+        .returning();
+
+      return profile;
+    } catch (error) {
+      console.error(`Error saving restaurant profile for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  async getNotificationPreferences(userId: number): Promise<NotificationPreferences | undefined> {
+    try {
+      const [preferences] = await this.db
+        .select()
+        .from(notificationPreferences)
+        .where(eq(notificationPreferences.userId, Number(userId)));
+      return preferences;
+    } catch (error) {
+      console.error(`Error retrieving notification preferences for user ${userId}:`, error);
+      return undefined;
+    }
+  }
+
+  async upsertNotificationPreferences(userId: number, insertPreferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    try {
+      const values = {
+        ...insertPreferences,
+        userId: Number(userId),
+        updatedAt: new Date()
+      };
+
+      const [preferences] = await this.db
+        .insert(notificationPreferences)
+        .values(values)
+        .onConflictDoUpdate({ target: notificationPreferences.userId, set: values })
+        .returning();
+
+      return preferences;
+    } catch (error) {
+      console.error(`Error saving notification preferences for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  // Password reset token methods
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    try {
+      const now = new Date();
+      const [token] = await this.db
+        .update(passwordResetTokens)
+        .set({ usedAt: now })
+        .where(and(
+          eq(passwordResetTokens.tokenHash, tokenHash),
+          isNull(passwordResetTokens.usedAt),
+          gt(passwordResetTokens.expiresAt, now)
+        ))
+        .returning();
+      return token;
+    } catch (error) {
+      console.error("Error consuming password reset token:", error);
+      return undefined;
+    }
+  }
+
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    try {
+      const [token] = await this.db
+        .insert(passwordResetTokens)
+        .values({
+          ...insertToken,
+          userId: Number(insertToken.userId)
+        })
+        .returning();
+
+      return token;
+    } catch (error) {
+      console.error("Error creating password reset token:", error);
+      throw error;
+    }
+  }
+
+  async updatePasswordResetToken(id: number, tokenUpdate: Partial<PasswordResetToken>): Promise<PasswordResetToken | undefined> {
+    try {
+      const [updatedToken] = await this.db
+        .update(passwordResetTokens)
+        .set(tokenUpdate)
+        .where(eq(passwordResetTokens.id, id))
+        .returning();
+
+      return updatedToken;
+    } catch (error) {
+      console.error(`Error updating password reset token ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  // Notification inbox operations
+  async getNotification(id: number): Promise<Notification | undefined> {
+    try {
+      const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+      return notification;
+    } catch (error) {
+      console.error(`Error retrieving notification ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async getNotificationsByUserId(userId: number): Promise<Notification[]> {
+    try {
+      return await this.db
+        .select()
+        .from(notifications)
+        .where(eq(notifications.userId, Number(userId)))
+        .orderBy(desc(notifications.createdAt));
+    } catch (error) {
+      console.error(`Error retrieving notifications for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  async getNotificationByDedupeKey(dedupeKey: string): Promise<Notification | undefined> {
+    try {
+      const [notification] = await this.db
+        .select()
+        .from(notifications)
+        .where(eq(notifications.dedupeKey, dedupeKey));
+      return notification;
+    } catch (error) {
+      console.error("Error retrieving notification by dedupe key:", error);
+      return undefined;
+    }
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    try {
+      const [notification] = await this.db
+        .insert(notifications)
+        .values({
+          ...insertNotification,
+          userId: Number(insertNotification.userId)
+        })
+        .returning();
+
+      return notification;
+    } catch (error) {
+      console.error("Error creating notification:", error);
+      throw error;
+    }
+  }
+
+  async updateNotification(id: number, notificationUpdate: Partial<Notification>): Promise<Notification | undefined> {
+    try {
+      const [updatedNotification] = await this.db
+        .update(notifications)
+        .set(notificationUpdate)
+        .where(eq(notifications.id, id))
+        .returning();
+
+      return updatedNotification;
+    } catch (error) {
+      console.error(`Error updating notification ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    try {
+      const updated = await this.db
+        .update(notifications)
+        .set({ readAt: new Date() })
+        .where(and(eq(notifications.userId, Number(userId)), isNull(notifications.readAt)))
+        .returning({ id: notifications.id });
+
+      return updated.length;
+    } catch (error) {
+      console.error(`Error marking notifications read for user ${userId}:`, error);
+      return 0;
+    }
+  }
+
+  async getPendingPrivateInvitationsExpiringBefore(cutoff: Date): Promise<PrivateInvitation[]> {
+    try {
+      return await this.db
+        .select()
+        .from(privateInvitations)
+        .where(and(
+          eq(privateInvitations.status, "pending"),
+          isNotNull(privateInvitations.expiresAt),
+          lte(privateInvitations.expiresAt, cutoff)
+        ));
+    } catch (error) {
+      console.error("Error retrieving expiring private invitations:", error);
+      return [];
+    }
+  }
+
+  // Influencer directory operations
+  async getInfluencers(): Promise<User[]> {
+    try {
+      return await this.db.select().from(users).where(eq(users.role, "influencer"));
+    } catch (error) {
+      console.error("Error retrieving influencers:", error);
+      return [];
+    }
+  }
+
+  async getInfluencerProfile(userId: number): Promise<InfluencerProfile | undefined> {
+    try {
+      const [profile] = await this.db
+        .select()
+        .from(influencerProfiles)
+        .where(eq(influencerProfiles.userId, Number(userId)));
+      return profile;
+    } catch (error) {
+      console.error(`Error retrieving influencer profile for user ${userId}:`, error);
+      return undefined;
+    }
+  }
+
+  async upsertInfluencerProfile(userId: number, insertProfile: InsertInfluencerProfile): Promise<InfluencerProfile> {
+    try {
+      const values = { ...insertProfile, userId: Number(userId), updatedAt: new Date() };
+      const [profile] = await this.db
+        .insert(influencerProfiles)
+        .values(values)
+        .onConflictDoUpdate({ target: influencerProfiles.userId, set: values })
+        .returning();
+
+      return profile;
+    } catch (error) {
+      console.error(`Error saving influencer profile for user ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  async searchInfluencers(filters: InfluencerSearchFilters): Promise<{ results: InfluencerDirectoryEntry[]; total: number }> {
+    try {
+      const conditions = [eq(users.role, "influencer")];
+
+      if (filters.q) {
+        const pattern = containsPattern(filters.q.replace(/^@/, ""));
+        conditions.push(or(
+          ilike(users.name, pattern),
+          ilike(users.username, pattern),
+          ilike(influencerProfiles.instagramHandle, pattern),
+          ilike(influencerProfiles.tiktokHandle, pattern),
+          ilike(influencerProfiles.youtubeHandle, pattern)
+        )!);
+      }
+      if (filters.city) {
+        conditions.push(ilike(influencerProfiles.city, containsPattern(filters.city)));
+      }
+      if (filters.niche) {
+        conditions.push(sql`${filters.niche} = ANY(${influencerProfiles.niches})`);
+      }
+      if (filters.minFollowers !== undefined) {
+        conditions.push(gte(influencerProfiles.followerCount, filters.minFollowers));
+      }
+      if (filters.maxFollowers !== undefined) {
+        conditions.push(lte(influencerProfiles.followerCount, filters.maxFollowers));
+      }
+
+      const where = and(...conditions);
+
+      const [{ total }] = await this.db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(users)
+        .leftJoin(influencerProfiles, eq(influencerProfiles.userId, users.id))
+        .where(where);
+
+      const rows = await this.db
+        .select({
+          id: users.id,
+          name: users.name,
+          username: users.username,
+          profilePicture: users.profilePicture,
+          instagramHandle: influencerProfiles.instagramHandle,
+          city: influencerProfiles.city,
+          niches: influencerProfiles.niches,
+          followerCount: influencerProfiles.followerCount
+        })
+        .from(users)
+        .leftJoin(influencerProfiles, eq(influencerProfiles.userId, users.id))
+        .where(where)
+        .orderBy(sql`${influencerProfiles.followerCount} DESC NULLS LAST`, asc(users.name))
+        .limit(filters.pageSize)
+        .offset((filters.page - 1) * filters.pageSize);
+
+      const results = rows.map((row) => ({
+        ...row,
+        niches: row.niches ?? [],
+        followerCount: row.followerCount ?? 0
+      }));
+
+      return { results, total };
+    } catch (error) {
+      console.error("Error searching influencers:", error);
+      return { results: [], total: 0 };
+    }
+  }
+
+  // Organization operations
+  async getOrganization(id: number): Promise<Organization | undefined> {
+    try {
+      const [organization] = await this.db.select().from(organizations).where(eq(organizations.id, id));
+      return organization;
+    } catch (error) {
+      console.error(`Error retrieving organization ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async getOrganizationByOwnerId(ownerId: number): Promise<Organization | undefined> {
+    try {
+      const [organization] = await this.db
+        .select()
+        .from(organizations)
+        .where(eq(organizations.ownerId, Number(ownerId)));
+      return organization;
+    } catch (error) {
+      console.error(`Error retrieving organization for owner ${ownerId}:`, error);
+      return undefined;
+    }
+  }
+
+  async createOrganization(insertOrganization: InsertOrganization): Promise<Organization> {
+    try {
+      const [organization] = await this.db
+        .insert(organizations)
+        .values({ ...insertOrganization, ownerId: Number(insertOrganization.ownerId) })
+        .returning();
+
+      return organization;
+    } catch (error) {
+      console.error("Error creating organization:", error);
+      throw error;
+    }
+  }
+
+  async updateOrganization(id: number, organizationUpdate: Partial<OrganizationInput>): Promise<Organization | undefined> {
+    try {
+      const [organization] = await this.db
+        .update(organizations)
+        .set(organizationUpdate)
+        .where(eq(organizations.id, id))
+        .returning();
+
+      return organization;
+    } catch (error) {
+      console.error(`Error updating organization ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  // Venue operations
+  async getVenue(id: number): Promise<Venue | undefined> {
+    try {
+      const [venue] = await this.db.select().from(venues).where(eq(venues.id, id));
+      return venue;
+    } catch (error) {
+      console.error(`Error retrieving venue ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async getVenuesByRestaurantId(restaurantId: number): Promise<Venue[]> {
+    try {
+      return await this.db
+        .select()
+        .from(venues)
+        .where(eq(venues.restaurantId, Number(restaurantId)))
+        .orderBy(asc(venues.name));
+    } catch (error) {
+      console.error(`Error retrieving venues for restaurant ${restaurantId}:`, error);
+      return [];
+    }
+  }
+
+  async getVenuesByOrganizationId(organizationId: number): Promise<Venue[]> {
+    try {
+      return await this.db
+        .select()
+        .from(venues)
+        .where(eq(venues.organizationId, Number(organizationId)))
+        .orderBy(asc(venues.name));
+    } catch (error) {
+      console.error(`Error retrieving venues for organization ${organizationId}:`, error);
+      return [];
+    }
+  }
+
+  async getAllVenues(): Promise<Venue[]> {
+    try {
+      return await this.db.select().from(venues).orderBy(asc(venues.name));
+    } catch (error) {
+      console.error("Error retrieving venues:", error);
+      return [];
+    }
+  }
+
+  async createVenue(insertVenue: InsertVenue): Promise<Venue> {
+    try {
+      const [venue] = await this.db
+        .insert(venues)
+        .values({
+          ...insertVenue,
+          restaurantId: Number(insertVenue.restaurantId),
+          state: insertVenue.state || null,
+          zipCode: insertVenue.zipCode || null
+        })
+        .returning();
+
+      return venue;
+    } catch (error) {
+      console.error("Error creating venue:", error);
+      throw error;
+    }
+  }
+
+  async updateVenue(id: number, venueUpdate: Partial<InsertVenue>): Promise<Venue | undefined> {
+    try {
+      const [venue] = await this.db
+        .update(venues)
+        .set({
+          ...venueUpdate,
+          state: venueUpdate.state !== undefined ? venueUpdate.state || null : undefined,
+          zipCode: venueUpdate.zipCode !== undefined ? venueUpdate.zipCode || null : undefined
+        })
+        .where(eq(venues.id, id))
+        .returning();
+
+      return venue;
+    } catch (error) {
+      console.error(`Error updating venue ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async deleteVenue(id: number): Promise<boolean> {
+    try {
+      const result = await this.db
+        .delete(venues)
+        .where(eq(venues.id, id))
+        .returning();
+
+      return result.length > 0;
+    } catch (error) {
+      console.error(`Error deleting venue ${id}:`, error);
+      return false;
+    }
+  }
+
+  // Campaign application operations
+  async getCampaignApplication(id: number): Promise<CampaignApplication | undefined> {
+    try {
+      const [application] = await this.db.select().from(campaignApplications).where(eq(campaignApplications.id, id));
+      return application;
+    } catch (error) {
+      console.error(`Error retrieving campaign application ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async getCampaignApplicationForInfluencer(campaignId: number, influencerId: number): Promise<CampaignApplication | undefined> {
+    try {
+      const [application] = await this.db
+        .select()
+        .from(campaignApplications)
+        .where(and(
+          eq(campaignApplications.campaignId, Number(campaignId)),
+          eq(campaignApplications.influencerId, Number(influencerId))
+        ));
+      return application;
+    } catch (error) {
+      console.error(`Error retrieving application of influencer ${influencerId} to campaign ${campaignId}:`, error);
+      return undefined;
+    }
+  }
+
+  async getCampaignApplicationsByCampaignId(campaignId: number): Promise<CampaignApplication[]> {
+    try {
+      return await this.db
+        .select()
+        .from(campaignApplications)
+        .where(eq(campaignApplications.campaignId, Number(campaignId)))
+        .orderBy(desc(campaignApplications.createdAt));
+    } catch (error) {
+      console.error(`Error retrieving applications for campaign ${campaignId}:`, error);
+      return [];
+    }
+  }
+
+  async getCampaignApplicationsByInfluencerId(influencerId: number): Promise<CampaignApplication[]> {
+    try {
+      return await this.db
+        .select()
+        .from(campaignApplications)
+        .where(eq(campaignApplications.influencerId, Number(influencerId)))
+        .orderBy(desc(campaignApplications.createdAt));
+    } catch (error) {
+      console.error(`Error retrieving applications for influencer ${influencerId}:`, error);
+      return [];
+    }
+  }
+
+  async getCampaignApplicationsByRestaurantId(restaurantId: number): Promise<CampaignApplication[]> {
+    try {
+      const campaignIds = (await this.getCampaignsByRestaurantId(restaurantId)).map(campaign => campaign.id);
+      if (campaignIds.length === 0) {
+        return [];
+      }
+
+      return await this.db
+        .select()
+        .from(campaignApplications)
+        .where(inArray(campaignApplications.campaignId, campaignIds))
+        .orderBy(desc(campaignApplications.createdAt));
+    } catch (error) {
+      console.error(`Error retrieving applications for restaurant ${restaurantId}:`, error);
+      return [];
+    }
+  }
+
+  async getAllCampaignApplications(): Promise<CampaignApplication[]> {
+    try {
+      return await this.db.select().from(campaignApplications).orderBy(desc(campaignApplications.createdAt));
+    } catch (error) {
+      console.error("Error retrieving campaign applications:", error);
+      return [];
+    }
+  }
+
+  async createCampaignApplication(insertApplication: InsertCampaignApplication): Promise<CampaignApplication> {
+    try {
+      const [application] = await this.db
+        .insert(campaignApplications)
+        .values({
+          campaignId: Number(insertApplication.campaignId),
+          influencerId: Number(insertApplication.influencerId),
+          pitch: insertApplication.pitch
+        })
+        .returning();
+
+      return application;
+    } catch (error) {
+      console.error("Error creating campaign application:", error);
+      throw error;
+    }
+  }
+
+  async updateCampaignApplication(id: number, applicationUpdate: Partial<CampaignApplication>): Promise<CampaignApplication | undefined> {
+    try {
+      const [application] = await this.db
+        .update(campaignApplications)
+        .set(applicationUpdate)
+        .where(eq(campaignApplications.id, id))
+        .returning();
+
+      return application;
+    } catch (error) {
+      console.error(`Error updating campaign application ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  // Media file methods
+  async getMediaFile(id: number): Promise<MediaFile | undefined> {
+    try {
+      const [file] = await this.db.select().from(mediaFiles).where(eq(mediaFiles.id, id));
+      return file;
+    } catch (error) {
+      console.error(`Error fetching media file ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async createMediaFile(insertFile: InsertMediaFile): Promise<MediaFile> {
+    try {
+      const [file] = await this.db.insert(mediaFiles).values(insertFile).returning();
+      return file;
+    } catch (error) {
+      console.error("Error creating media file:", error);
+      throw error;
+    }
+  }
+
+  // Team operations
+  async getOrganizationMember(id: number): Promise<OrganizationMember | undefined> {
+    try {
+      const [member] = await this.db.select().from(organizationMembers).where(eq(organizationMembers.id, id));
+      return member;
+    } catch (error) {
+      console.error(`Error retrieving organization member ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async getOrganizationMemberByUserId(userId: number): Promise<OrganizationMember | undefined> {
+    try {
+      const [member] = await this.db
+        .select()
+        .from(organizationMembers)
+        .where(eq(organizationMembers.userId, Number(userId)));
+      return member;
+    } catch (error) {
+      console.error(`Error retrieving organization membership for user ${userId}:`, error);
+      return undefined;
+    }
+  }
+
+  async getOrganizationMembers(organizationId: number): Promise<OrganizationMember[]> {
+    try {
+      return await this.db
+        .select()
+        .from(organizationMembers)
+        .where(eq(organizationMembers.organizationId, Number(organizationId)))
+        .orderBy(asc(organizationMembers.createdAt));
+    } catch (error) {
+      console.error(`Error retrieving members of organization ${organizationId}:`, error);
+      return [];
+    }
+  }
+
+  async createOrganizationMember(insertMember: InsertOrganizationMember): Promise<OrganizationMember> {
+    try {
+      const [member] = await this.db.insert(organizationMembers).values(insertMember).returning();
+      return member;
+    } catch (error) {
+      console.error("Error creating organization member:", error);
+      throw error;
+    }
+  }
+
+  async updateOrganizationMember(id: number, memberUpdate: Partial<OrganizationMember>): Promise<OrganizationMember | undefined> {
+    try {
+      const [member] = await this.db
+        .update(organizationMembers)
+        .set(memberUpdate)
+        .where(eq(organizationMembers.id, id))
+        .returning();
+      return member;
+    } catch (error) {
+      console.error(`Error updating organization member ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async deleteOrganizationMember(id: number): Promise<boolean> {
+    try {
+      const result = await this.db.delete(organizationMembers).where(eq(organizationMembers.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error(`Error deleting organization member ${id}:`, error);
+      return false;
+    }
+  }
+
+  async getOrganizationInvite(id: number): Promise<OrganizationInvite | undefined> {
+    try {
+      const [invite] = await this.db.select().from(organizationInvites).where(eq(organizationInvites.id, id));
+      return invite;
+    } catch (error) {
+      console.error(`Error retrieving organization invite ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async getOrganizationInviteByHash(tokenHash: string): Promise<OrganizationInvite | undefined> {
+    try {
+      const [invite] = await this.db.select().from(organizationInvites).where(eq(organizationInvites.tokenHash, tokenHash));
+      return invite;
+    } catch (error) {
+      console.error("Error retrieving organization invite by token:", error);
+      return undefined;
+    }
+  }
+
+  async getOrganizationInvites(organizationId: number): Promise<OrganizationInvite[]> {
+    try {
+      return await this.db
+        .select()
+        .from(organizationInvites)
+        .where(eq(organizationInvites.organizationId, Number(organizationId)))
+        .orderBy(desc(organizationInvites.createdAt));
+    } catch (error) {
+      console.error(`Error retrieving invites of organization ${organizationId}:`, error);
+      return [];
+    }
+  }
+
+  async getOrganizationInvitesByEmail(email: string): Promise<OrganizationInvite[]> {
+    try {
+      return await this.db
+        .select()
+        .from(organizationInvites)
+        .where(sql`lower(${organizationInvites.email}) = ${email.toLowerCase()}`)
+        .orderBy(desc(organizationInvites.createdAt));
+    } catch (error) {
+      // Rethrown: answering "no invites" would let a removed staff member
+      // be set up as the owner of a new organization
+      console.error("Error retrieving organization invites by email:", error);
+      throw error;
+    }
+  }
+
+  async createOrganizationInvite(insertInvite: InsertOrganizationInvite): Promise<OrganizationInvite> {
+    try {
+      const [invite] = await this.db.insert(organizationInvites).values(insertInvite).returning();
+      return invite;
+    } catch (error) {
+      console.error("Error creating organization invite:", error);
+      throw error;
+    }
+  }
+
+  async consumeOrganizationInvite(tokenHash: string): Promise<OrganizationInvite | undefined> {
+    try {
+      const now = new Date();
+      const [invite] = await this.db
+        .update(organizationInvites)
+        .set({ acceptedAt: now })
+        .where(and(
+          eq(organizationInvites.tokenHash, tokenHash),
+          isNull(organizationInvites.acceptedAt),
+          gt(organizationInvites.expiresAt, now)
+        ))
+        .returning();
+      return invite;
+    } catch (error) {
+      console.error("Error consuming organization invite:", error);
+      return this.updateFailed(error);
+    }
+  }
+
+  async updateOrganizationInvite(id: number, inviteUpdate: Partial<OrganizationInvite>): Promise<OrganizationInvite | undefined> {
+    try {
+      const [invite] = await this.db
+        .update(organizationInvites)
+        .set(inviteUpdate)
+        .where(eq(organizationInvites.id, id))
+        .returning();
+      return invite;
+    } catch (error) {
+      console.error(`Error updating organization invite ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async deleteOrganizationInvite(id: number): Promise<boolean> {
+    try {
+      const result = await this.db.delete(organizationInvites).where(eq(organizationInvites.id, id)).returning();
+      return result.length > 0;
+    } catch (error) {
+      console.error(`Error deleting organization invite ${id}:`, error);
+      return false;
+    }
+  }
+
+  async createOrganizationActivity(insertEntry: InsertOrganizationActivity): Promise<OrganizationActivity> {
+    try {
+      const [entry] = await this.db.insert(organizationActivity).values(insertEntry).returning();
+      return entry;
+    } catch (error) {
+      console.error("Error recording organization activity:", error);
+      throw error;
+    }
+  }
+
+  async getOrganizationActivity(organizationId: number, limit: number): Promise<OrganizationActivity[]> {
+    try {
+      return await this.db
+        .select()
+        .from(organizationActivity)
+        .where(eq(organizationActivity.organizationId, Number(organizationId)))
+        .orderBy(desc(organizationActivity.id))
+        .limit(limit);
+    } catch (error) {
+      console.error(`Error retrieving activity of organization ${organizationId}:`, error);
+      return [];
+    }
+  }
+
+  async getSubmissionComments(submissionId: number): Promise<SubmissionComment[]> {
+    try {
+      return await this.db
+        .select()
+        .from(submissionComments)
+        .where(eq(submissionComments.submissionId, Number(submissionId)))
+        .orderBy(asc(submissionComments.id));
+    } catch (error) {
+      console.error(`Error retrieving comments for submission ${submissionId}:`, error);
+      return [];
+    }
+  }
+
+  async getPrivateSubmissionComments(privateSubmissionId: number): Promise<SubmissionComment[]> {
+    try {
+      return await this.db
+        .select()
+        .from(submissionComments)
+        .where(eq(submissionComments.privateSubmissionId, Number(privateSubmissionId)))
+        .orderBy(asc(submissionComments.id));
+    } catch (error) {
+      console.error(`Error retrieving comments for private submission ${privateSubmissionId}:`, error);
+      return [];
+    }
+  }
+
+  async createSubmissionComment(insertComment: InsertSubmissionComment): Promise<SubmissionComment> {
+    try {
+      const [comment] = await this.db.insert(submissionComments).values(insertComment).returning();
+      return comment;
+    } catch (error) {
+      console.error("Error creating submission comment:", error);
+      throw error;
+    }
+  }
 }
 
 // Use the database storage implementation
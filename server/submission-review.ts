@@ -0,0 +1,251 @@
+import { storage, type IStorage } from "./storage";
+import { notify } from "./notifications";
+import { recordActivity } from "./team";
+import { recordSubmissionEarnings } from "./ledger";
+import { settleSubmissionEarnings, settlePrivateSubmissionEarnings } from "./earnings";
+import { addSubmissionComment } from "./submission-threads";
+import { canManageCampaign } from "./policy";
+import { SUBMISSION_STATUS_LABELS } from "@shared/submission-review";
+import type {
+  Campaign,
+  PrivateInvitation,
+  PrivateSubmission,
+  Submission,
+  SubmissionBatchReview,
+  SubmissionBatchReviewResult,
+  SubmissionReview,
+  User,
+} from "@shared/schema";
+
+const reviewMessage = (review: SubmissionReview) =>
+  "message" in review ? review.message || undefined : undefined;
+
+// Thrown inside a batch's transaction to roll it back and report why
+class BatchReviewFailure extends Error {
+  constructor(readonly submissionId: number, message: string) {
+    super(message);
+  }
+}
+
+// Writes a review decision: the status, any earnings it settles or voids, and
+// the thread entry. Everything goes through tx so it commits or rolls back
+// together, and a write that fails throws rather than the decision being
+// reported as saved. The campaign is locked before the submission's rows, the
+// same order settling takes them in.
+async function applySubmissionReview(
+  tx: IStorage,
+  reviewer: User,
+  submission: Submission,
+  campaign: Campaign,
+  review: SubmissionReview
+): Promise<Submission> {
+  const submissionId = submission.id;
+  const { status } = review;
+  await tx.lockCampaign(campaign.id);
+
+  // Withdrawing an approval voids whatever the submission had earned
+  const submissionUpdate: Partial<Submission> = {
+    status,
+    rejectionReason: review.status === "rejected" ? review.reason : null
+  };
+  if (submission.status === "approved" && status !== "approved") {
+    submissionUpdate.earnings = 0;
+    await recordSubmissionEarnings(submission.influencerId, { submissionId }, 0, reviewer.id, tx);
+  }
+
+  let updatedSubmission = await tx.updateSubmission(submissionId, submissionUpdate);
+  if (!updatedSubmission) {
+    throw new Error(`Submission ${submissionId} not found while reviewing it`);
+  }
+
+  // Approval prices the metrics recorded so far, so flat fees are earned straight away
+  if (status === "approved" && submission.status !== "approved") {
+    const settled = await settleSubmissionEarnings(updatedSubmission, campaign, { views: updatedSubmission.views }, tx);
+    await recordSubmissionEarnings(submission.influencerId, { submissionId }, settled.earnings, reviewer.id, tx);
+    updatedSubmission = settled.submission;
+  }
+
+  // Change requests and rejections go in the submission's thread so the
+  // influencer sees why, next to any later revisions
+  if (review.status === "changes_requested" || review.status === "rejected") {
+    await addSubmissionComment(reviewer, { submissionId }, { event: review.status, body: reviewMessage(review) ?? null }, tx);
+  }
+  return updatedSubmission;
+}
+
+// Tells the influencer and the team about a decision once it's committed
+async function announceSubmissionReview(
+  reviewer: User,
+  submission: Submission,
+  updatedSubmission: Submission,
+  campaign: Campaign,
+  review: SubmissionReview
+): Promise<void> {
+  const { status } = review;
+  if (status === submission.status) {
+    return;
+  }
+  await notify({ type: "submission_status_changed", campaign, submission: updatedSubmission, message: reviewMessage(review) });
+  await recordActivity(reviewer, campaign.restaurantId, {
+    action: "submission_reviewed",
+    campaignId: campaign.id,
+    submissionId: submission.id,
+    summary: `Marked submission #${submission.id} for "${campaign.title}" as ${SUBMISSION_STATUS_LABELS[status].toLowerCase()}`
+  });
+}
+
+// Applies a review decision to a campaign submission. The caller has already
+// checked the reviewer may review it.
+export async function reviewSubmission(
+  reviewer: User,
+  submission: Submission,
+  campaign: Campaign,
+  review: SubmissionReview
+): Promise<Submission> {
+  const updatedSubmission = await storage.transaction(tx =>
+    applySubmissionReview(tx, reviewer, submission, campaign, review)
+  );
+  await announceSubmissionReview(reviewer, submission, updatedSubmission, campaign, review);
+  return updatedSubmission;
+}
+
+export async function reviewPrivateSubmission(
+  reviewer: User,
+  submission: PrivateSubmission,
+  invitation: PrivateInvitation,
+  review: SubmissionReview
+): Promise<PrivateSubmission> {
+  const submissionId = submission.id;
+  const { status } = review;
+  const message = reviewMessage(review);
+
+  const updatedSubmission = await storage.transaction(async tx => {
+    // Withdrawing an approval voids whatever the submission had earned
+    const submissionUpdate: Partial<PrivateSubmission> = {
+      status,
+      rejectionReason: review.status === "rejected" ? review.reason : null
+    };
+    if (submission.status === "approved" && status !== "approved") {
+      submissionUpdate.earnings = 0;
+      await recordSubmissionEarnings(invitation.influencerId, { privateSubmissionId: submissionId }, 0, reviewer.id, tx);
+    }
+
+    let updated = await tx.updatePrivateSubmission(submissionId, submissionUpdate);
+    if (!updated) {
+      throw new Error(`Private submission ${submissionId} not found while reviewing it`);
+    }
+
+    // Approval prices the metrics recorded so far, so flat fees are earned straight away
+    if (status === "approved" && submission.status !== "approved") {
+      updated = await settlePrivateSubmissionEarnings(updated, invitation, { views: updated.views }, tx);
+      await recordSubmissionEarnings(invitation.influencerId, { privateSubmissionId: submissionId }, updated.earnings, reviewer.id, tx);
+    }
+
+    if (review.status === "changes_requested" || review.status === "rejected") {
+      await addSubmissionComment(reviewer, { privateSubmissionId: submissionId }, { event: review.status, body: message ?? null }, tx);
+    }
+    return updated;
+  });
+
+  if (status !== submission.status) {
+    await notify({ type: "submission_status_changed", invitation, submission: updatedSubmission, message });
+    await recordActivity(reviewer, invitation.restaurantId, {
+      action: "private_submission_reviewed",
+      privateInvitationId: invitation.id,
+      privateSubmissionId: submissionId,
+      summary: `Marked private submission #${submissionId} for "${invitation.title}" as ${SUBMISSION_STATUS_LABELS[status].toLowerCase()}`
+    });
+  }
+  return updatedSubmission;
+}
+
+// Reviews many pending campaign submissions with one decision. Every
+// submission is checked before any is changed, and the decisions are applied
+// in one transaction, so either the whole batch goes through or nothing
+// changes and failures says which submission held it up. Notifications go out
+// once the batch has committed.
+export async function reviewSubmissionBatch(
+  reviewer: User,
+  { submissionIds, review }: SubmissionBatchReview
+): Promise<SubmissionBatchReviewResult> {
+  const failures: SubmissionBatchReviewResult["failures"] = [];
+  const reviewable: { submission: Submission; campaign: Campaign }[] = [];
+  const campaigns = new Map<number, Campaign | undefined>();
+
+  for (const submissionId of Array.from(new Set(submissionIds))) {
+    const submission = await storage.getSubmission(submissionId);
+    if (!submission) {
+      failures.push({ submissionId, message: "Submission not found" });
+      continue;
+    }
+
+    if (!campaigns.has(submission.campaignId)) {
+      campaigns.set(submission.campaignId, await storage.getCampaign(submission.campaignId));
+    }
+    const campaign = campaigns.get(submission.campaignId);
+    if (!campaign || !canManageCampaign(reviewer, campaign)) {
+      failures.push({ submissionId, message: "You can only review submissions for your own campaigns" });
+      continue;
+    }
+
+    // Reviewed submissions are changed one at a time, where the current
+    // decision is in front of the reviewer
+    if (submission.status !== "pending") {
+      failures.push({
+        submissionId,
+        message: `This submission is already ${SUBMISSION_STATUS_LABELS[submission.status].toLowerCase()}`
+      });
+      continue;
+    }
+
+    reviewable.push({ submission, campaign });
+  }
+
+  if (failures.length > 0) {
+    return { updated: [], failures };
+  }
+
+  // Campaign by campaign, so concurrent batches take their locks in the same order
+  reviewable.sort((a, b) => a.campaign.id - b.campaign.id || a.submission.id - b.submission.id);
+
+  let applied: { submission: Submission; updatedSubmission: Submission; campaign: Campaign }[];
+  let current: number | undefined;
+  try {
+    applied = await storage.transaction(async tx => {
+      const results: typeof applied = [];
+      for (const { submission, campaign } of reviewable) {
+        current = submission.id;
+
+        // Another reviewer may have got there between the checks and now
+        const locked = await tx.lockSubmission(submission.id);
+        if (!locked) {
+          throw new BatchReviewFailure(submission.id, "Submission not found");
+        }
+        if (locked.status !== "pending") {
+          throw new BatchReviewFailure(
+            submission.id,
+            `This submission is already ${SUBMISSION_STATUS_LABELS[locked.status].toLowerCase()}`
+          );
+        }
+
+        const updatedSubmission = await applySubmissionReview(tx, reviewer, locked, campaign, review);
+        results.push({ submission: locked, updatedSubmission, campaign });
+      }
+      return results;
+    });
+  } catch (error) {
+    if (error instanceof BatchReviewFailure) {
+      return { updated: [], failures: [{ submissionId: error.submissionId, message: error.message }] };
+    }
+    if (current === undefined) {
+      throw error;
+    }
+    console.error(`Error reviewing submission ${current} in batch:`, error);
+    return { updated: [], failures: [{ submissionId: current, message: "Couldn't update this submission" }] };
+  }
+
+  for (const { submission, updatedSubmission, campaign } of applied) {
+    await announceSubmissionReview(reviewer, submission, updatedSubmission, campaign, review);
+  }
+  return { updated: applied.map(({ updatedSubmission }) => updatedSubmission), failures: [] };
+}
@@ -0,0 +1,47 @@
+import { storage, type IStorage } from "./storage";
+import type {
+  InsertSubmissionComment,
+  SubmissionComment,
+  SubmissionCommentEntry,
+  User,
+} from "@shared/schema";
+
+// A campaign submission or a private invitation submission
+export type SubmissionRef = { submissionId: number } | { privateSubmissionId: number };
+
+type ThreadEntryInput = Partial<Pick<InsertSubmissionComment, "event" | "body" | "previousPostUrl">>;
+
+export async function addSubmissionComment(
+  author: User,
+  ref: SubmissionRef,
+  entry: ThreadEntryInput,
+  store: IStorage = storage
+): Promise<SubmissionComment> {
+  return store.createSubmissionComment({
+    submissionId: null,
+    privateSubmissionId: null,
+    event: "comment",
+    body: null,
+    previousPostUrl: null,
+    ...entry,
+    ...ref,
+    authorId: author.id,
+  });
+}
+
+// The submission's history, oldest first, with who wrote each entry
+export async function getSubmissionThread(ref: SubmissionRef): Promise<SubmissionCommentEntry[]> {
+  const comments = "submissionId" in ref
+    ? await storage.getSubmissionComments(ref.submissionId)
+    : await storage.getPrivateSubmissionComments(ref.privateSubmissionId);
+
+  const authors = new Map<number, User | undefined>();
+  for (const authorId of Array.from(new Set(comments.map(comment => comment.authorId)))) {
+    authors.set(authorId, await storage.getUser(authorId));
+  }
+
+  return comments.flatMap(comment => {
+    const author = authors.get(comment.authorId);
+    return author ? [{ ...comment, authorName: author.name, authorRole: author.role }] : [];
+  });
+}
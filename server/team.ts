@@ -0,0 +1,256 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { hashPassword } from "./auth";
+import { queueMail } from "./mail";
+import { getRestaurantOrganization } from "./organizations";
+import { ORGANIZATION_ROLE_LABELS, roleHasPermission, type TeamPermission } from "@shared/team-roles";
+import type {
+  InsertOrganizationActivity,
+  Organization,
+  OrganizationActivityEntry,
+  OrganizationInvite,
+  OrganizationRole,
+  TeamInvite,
+  TeamInviteInput,
+  TeamInvitePreview,
+  TeamMember,
+  User,
+} from "@shared/schema";
+
+const INVITE_TTL_DAYS = 7;
+
+// The organization a restaurant user acts for. restaurantId is the owner's
+// user id, which is what campaigns, venues and submissions are keyed by.
+export interface ActingMember {
+  organization: Organization;
+  role: OrganizationRole;
+  restaurantId: number;
+}
+
+// Owners get their membership row on first use. Staff logins are only ever
+// created by accepting an invite, so a restaurant user with an accepted invite
+// and no membership has been removed from the team. They have no
+// organization to act for, and must not be made the owner of a new one.
+export async function loadActingMember(user: User): Promise<ActingMember | undefined> {
+  if (user.role !== "restaurant") return undefined;
+
+  let membership = await storage.getOrganizationMemberByUserId(user.id);
+  if (!membership) {
+    const invites = await storage.getOrganizationInvitesByEmail(user.email);
+    if (invites.some(invite => invite.acceptedAt)) return undefined;
+
+    const organization = await getRestaurantOrganization(user);
+    membership = await storage.createOrganizationMember({
+      organizationId: organization.id,
+      userId: user.id,
+      role: "owner",
+    });
+  }
+
+  const organization = await storage.getOrganization(membership.organizationId);
+  if (!organization) return undefined;
+
+  return { organization, role: membership.role, restaurantId: organization.ownerId };
+}
+
+// Returns false for a restaurant login with no team left to act for, which
+// gets no access rather than falling back to acting as its own restaurant
+export async function attachActingMember(user: Express.User): Promise<boolean> {
+  user.member = await loadActingMember(user);
+  return user.role !== "restaurant" || user.member !== undefined;
+}
+
+// Everyone who should see a restaurant's dashboards update live, or with a
+// permission, the owner and the staff whose team role grants it
+export async function getRestaurantUserIds(restaurantId: number, permission?: TeamPermission): Promise<number[]> {
+  const organization = await storage.getOrganizationByOwnerId(restaurantId);
+  if (!organization) return [restaurantId];
+
+  const members = (await storage.getOrganizationMembers(organization.id))
+    .filter(member => !permission || roleHasPermission(member.role, permission));
+  return Array.from(new Set([restaurantId, ...members.map(member => member.userId)]));
+}
+
+export async function getTeamMembers(organization: Organization): Promise<TeamMember[]> {
+  const members = await storage.getOrganizationMembers(organization.id);
+  const result: TeamMember[] = [];
+  for (const member of members) {
+    const user = await storage.getUser(member.userId);
+    if (!user) continue;
+    result.push({ ...member, name: user.name, email: user.email, username: user.username });
+  }
+  return result;
+}
+
+export function toTeamInvite(invite: OrganizationInvite): TeamInvite {
+  const { tokenHash, ...rest } = invite;
+  return rest;
+}
+
+function hashInviteToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function isOpenInvite(invite: OrganizationInvite): boolean {
+  return !invite.acceptedAt && invite.expiresAt.getTime() > Date.now();
+}
+
+export type TeamInviteResult =
+  | { ok: true; invite: OrganizationInvite }
+  | { ok: false; message: string };
+
+// Emails a single-use link to join the organization. Re-inviting an address
+// with an open invite replaces that invite, so only the newest link works.
+// The email goes through the mail queue, which retries failed sends, so a
+// mail outage doesn't fail the request after the invite is saved.
+// appUrl comes from getAppUrl(), never from the request.
+export async function sendTeamInvite(
+  organization: Organization,
+  invitedBy: User,
+  input: TeamInviteInput,
+  appUrl: string
+): Promise<TeamInviteResult> {
+  if (await storage.getUserByEmail(input.email)) {
+    return { ok: false, message: "An account with this email already exists" };
+  }
+
+  const existingInvites = await storage.getOrganizationInvites(organization.id);
+  for (const invite of existingInvites) {
+    if (invite.email === input.email && isOpenInvite(invite)) {
+      await storage.deleteOrganizationInvite(invite.id);
+    }
+  }
+
+  const token = randomBytes(32).toString("base64url");
+  const invite = await storage.createOrganizationInvite({
+    organizationId: organization.id,
+    email: input.email,
+    role: input.role,
+    tokenHash: hashInviteToken(token),
+    invitedById: invitedBy.id,
+    expiresAt: new Date(Date.now() + INVITE_TTL_DAYS * 24 * 60 * 60 * 1000),
+  });
+
+  const joinUrl = `${appUrl}/join-team?token=${encodeURIComponent(token)}`;
+  queueMail({
+    to: input.email,
+    subject: `Join ${organization.name} on ViralBite`,
+    text: [
+      "Hi,",
+      "",
+      `${invitedBy.name} invited you to help run ${organization.name} on ViralBite with the ${ORGANIZATION_ROLE_LABELS[input.role]} role.`,
+      "Use the link below to create your login:",
+      "",
+      joinUrl,
+      "",
+      `The link expires in ${INVITE_TTL_DAYS} days and can only be used once.`,
+    ].join("\n"),
+  });
+
+  return { ok: true, invite };
+}
+
+async function findOpenInvite(token: string): Promise<OrganizationInvite | undefined> {
+  const invite = await storage.getOrganizationInviteByHash(hashInviteToken(token));
+  return invite && isOpenInvite(invite) ? invite : undefined;
+}
+
+export async function getTeamInvitePreview(token: string): Promise<TeamInvitePreview | undefined> {
+  const invite = await findOpenInvite(token);
+  if (!invite) return undefined;
+
+  const organization = await storage.getOrganization(invite.organizationId);
+  if (!organization) return undefined;
+
+  return { organizationName: organization.name, email: invite.email, role: invite.role };
+}
+
+export type AcceptTeamInviteResult =
+  | { ok: true; user: User }
+  | { ok: false; message: string };
+
+// Creates the member's login with the invited email and adds them to the team.
+// The invite is consumed with a conditional update in the same transaction as
+// the account, so two requests on one link can't both create a login, and a
+// failed signup leaves the link usable.
+export async function acceptTeamInvite(input: {
+  token: string;
+  name: string;
+  username: string;
+  password: string;
+}): Promise<AcceptTeamInviteResult> {
+  const invalid: AcceptTeamInviteResult = { ok: false, message: "This invite link is invalid or has expired" };
+  const invite = await findOpenInvite(input.token);
+  if (!invite) {
+    return invalid;
+  }
+  if (await storage.getUserByUsername(input.username)) {
+    return { ok: false, message: "Username already exists" };
+  }
+  if (await storage.getUserByEmail(invite.email)) {
+    return { ok: false, message: "An account with this email already exists" };
+  }
+
+  const password = await hashPassword(input.password);
+  return storage.transaction(async (tx): Promise<AcceptTeamInviteResult> => {
+    const accepted = await tx.consumeOrganizationInvite(hashInviteToken(input.token));
+    if (!accepted) {
+      return invalid;
+    }
+
+    const user = await tx.createUser({
+      username: input.username,
+      name: input.name,
+      email: accepted.email,
+      password,
+      role: "restaurant",
+    });
+    await tx.createOrganizationMember({
+      organizationId: accepted.organizationId,
+      userId: user.id,
+      role: accepted.role,
+    });
+
+    return { ok: true, user };
+  });
+}
+
+type ActivityEntityId = "campaignId" | "submissionId" | "privateInvitationId" | "privateSubmissionId";
+type ActivityInput = Pick<InsertOrganizationActivity, "action" | "summary">
+  & Partial<Pick<InsertOrganizationActivity, ActivityEntityId>>;
+
+// Records a campaign or submission action against the restaurant's
+// organization, with the member who took it. Never throws: a missing audit
+// entry must not fail the action itself.
+export async function recordActivity(
+  actor: User,
+  restaurantId: number,
+  entry: ActivityInput
+): Promise<void> {
+  try {
+    const organization = await storage.getOrganizationByOwnerId(restaurantId);
+    if (!organization) return;
+
+    await storage.createOrganizationActivity({
+      campaignId: null,
+      submissionId: null,
+      privateInvitationId: null,
+      privateSubmissionId: null,
+      ...entry,
+      organizationId: organization.id,
+      actorId: actor.id,
+    });
+  } catch (error) {
+    console.error("Error recording organization activity:", error);
+  }
+}
+
+export async function getActivityLog(organization: Organization, limit: number): Promise<OrganizationActivityEntry[]> {
+  const entries = await storage.getOrganizationActivity(organization.id, limit);
+  const actorNames = new Map<number, string>();
+  for (const actorId of Array.from(new Set(entries.map(entry => entry.actorId)))) {
+    const actor = await storage.getUser(actorId);
+    actorNames.set(actorId, actor?.name ?? "Former member");
+  }
+  return entries.map(entry => ({ ...entry, actorName: actorNames.get(entry.actorId) ?? "Former member" }));
+}
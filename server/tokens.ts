@@ -0,0 +1,95 @@
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { type ApiToken, type User, API_TOKEN_SCOPES } from "@shared/schema";
+
+type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+const TOKEN_PREFIX = "vb_";
+
+// Tokens issued by the login form, as opposed to ones a user creates by hand
+export const LOGIN_TOKEN_NAME = "Web login";
+export const LOGIN_TOKEN_TTL_DAYS = 30;
+
+// The emergency/bypass auth paths only exist for local development and must be
+// switched on explicitly - they are never available in production
+export function isDevAuthBypassEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" && process.env.ENABLE_DEV_AUTH_BYPASS === "true";
+}
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// API responses never include the token hash
+export function toSafeApiToken(token: ApiToken) {
+  const { tokenHash, ...safeToken } = token;
+  return safeToken;
+}
+
+export async function issueApiToken(
+  userId: number,
+  options: { name: string; scopes: ApiTokenScope[]; expiresInDays: number }
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000);
+
+  const apiToken = await storage.createApiToken({
+    userId,
+    name: options.name,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6),
+    scopes: options.scopes,
+    expiresAt
+  });
+
+  return { token, apiToken };
+}
+
+// Returns the token it revoked, if it wasn't revoked already
+export async function revokeApiToken(token: string): Promise<ApiToken | undefined> {
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!apiToken || apiToken.revokedAt) return undefined;
+
+  await storage.updateApiToken(apiToken.id, { revokedAt: new Date() });
+  return apiToken;
+}
+
+// Read-only requests need the "read" scope, everything else needs "write"
+export function requiredScopeForMethod(method: string): ApiTokenScope {
+  return ["GET", "HEAD", "OPTIONS"].includes(method.toUpperCase()) ? "read" : "write";
+}
+
+export type ApiTokenAuthResult =
+  | { ok: true; user: User; apiToken: ApiToken }
+  | { ok: false; status: 401 | 403; message: string };
+
+export async function authenticateApiToken(token: string, method: string): Promise<ApiTokenAuthResult> {
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+
+  if (!apiToken) {
+    return { ok: false, status: 401, message: "Invalid token" };
+  }
+  if (apiToken.revokedAt) {
+    return { ok: false, status: 401, message: "Token has been revoked" };
+  }
+  if (apiToken.expiresAt && apiToken.expiresAt.getTime() <= Date.now()) {
+    return { ok: false, status: 401, message: "Token has expired" };
+  }
+
+  const requiredScope = requiredScopeForMethod(method);
+  if (!apiToken.scopes.includes(requiredScope)) {
+    return { ok: false, status: 403, message: `Forbidden: Token is missing the "${requiredScope}" scope` };
+  }
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user) {
+    return { ok: false, status: 401, message: "Invalid token" };
+  }
+
+  // Last-used tracking should never fail the request
+  storage.updateApiToken(apiToken.id, { lastUsedAt: new Date() }).catch(err => {
+    console.error("Error updating token last-used timestamp:", err);
+  });
+
+  return { ok: true, user, apiToken };
+}
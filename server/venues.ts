@@ -0,0 +1,75 @@
+import { storage } from "./storage";
+import type { Campaign, Venue } from "@shared/schema";
+
+type CampaignLocationFields = Pick<
+  Campaign,
+  "venueId" | "venueIds" | "venueCoordinates" | "location" | "latitude" | "longitude"
+>;
+
+export function formatVenueLocation(venue: Pick<Venue, "address" | "city" | "state">): string {
+  return [venue.address, venue.city, venue.state].filter(Boolean).join(", ");
+}
+
+// The first venue is the campaign's primary venue: its address is the
+// campaign's location. Every venue's coordinates count for radius search.
+export function toCampaignLocation(venues: Venue[]): CampaignLocationFields {
+  const [primary] = venues;
+  if (!primary) {
+    return { venueId: null, venueIds: [], venueCoordinates: [], location: null, latitude: null, longitude: null };
+  }
+
+  return {
+    venueId: primary.id,
+    venueIds: venues.map(venue => venue.id),
+    venueCoordinates: venues.map(venue => ({ latitude: venue.latitude, longitude: venue.longitude })),
+    location: formatVenueLocation(primary),
+    latitude: primary.latitude,
+    longitude: primary.longitude,
+  };
+}
+
+// Campaigns from before multi-venue support only have venueId
+export function getCampaignVenueIds(campaign: Pick<Campaign, "venueId" | "venueIds">): number[] {
+  if (campaign.venueIds?.length) return campaign.venueIds;
+  return campaign.venueId ? [campaign.venueId] : [];
+}
+
+export type CampaignVenueResult =
+  | { ok: true; fields: CampaignLocationFields }
+  | { ok: false; message: string };
+
+// A campaign's locations must be the restaurant's registered venues. Without
+// a venue the campaign has no location (e.g. delivery-only offers). Callers
+// pass venueIds for multi-venue campaigns, or a single venueId.
+export async function resolveCampaignVenues(
+  restaurantId: number,
+  input: { venueId?: number | null; venueIds?: number[] }
+): Promise<CampaignVenueResult> {
+  const requestedIds = input.venueIds ?? (input.venueId ? [input.venueId] : []);
+  const venueIds = Array.from(new Set(requestedIds.map(Number)));
+
+  const venues: Venue[] = [];
+  for (const venueId of venueIds) {
+    const venue = await storage.getVenue(venueId);
+    if (!venue || Number(venue.restaurantId) !== Number(restaurantId)) {
+      return { ok: false, message: "Campaign locations must be the restaurant's registered venues" };
+    }
+    venues.push(venue);
+  }
+
+  return { ok: true, fields: toCampaignLocation(venues) };
+}
+
+// Re-copies venue locations onto the campaigns held at a venue after it moves
+export async function syncCampaignVenues(venue: Venue): Promise<void> {
+  const campaigns = await storage.getCampaignsByRestaurantId(venue.restaurantId);
+  for (const campaign of campaigns) {
+    const venueIds = getCampaignVenueIds(campaign);
+    if (!venueIds.includes(venue.id)) continue;
+
+    const result = await resolveCampaignVenues(campaign.restaurantId, { venueIds });
+    if (result.ok) {
+      await storage.updateCampaign(campaign.id, result.fields);
+    }
+  }
+}
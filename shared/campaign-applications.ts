@@ -0,0 +1,52 @@
+import type { Campaign, CampaignApplication } from "./schema";
+
+// Accepted applicants have this long to post unless the restaurant picks a date
+export const DEFAULT_POSTING_WINDOW_DAYS = 14;
+
+type ApplicationSettings = Pick<Campaign, "requiresApplication" | "maxAcceptedApplicants">;
+
+export type ApplicationRuleResult = { ok: true } | { ok: false; message: string };
+
+// Accepted applicants can't post after the campaign ends, so the default
+// window is cut short for campaigns ending sooner
+export function getDefaultPostingDeadline(campaign: Pick<Campaign, "endsAt">, now: Date = new Date()): Date {
+  const deadline = new Date(now.getTime() + DEFAULT_POSTING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  if (campaign.endsAt && new Date(campaign.endsAt) < deadline) {
+    return new Date(campaign.endsAt);
+  }
+  return deadline;
+}
+
+export function hasReachedApplicantCap(campaign: ApplicationSettings, acceptedCount: number): boolean {
+  return campaign.maxAcceptedApplicants !== null && acceptedCount >= campaign.maxAcceptedApplicants;
+}
+
+// Whether an influencer may submit content to the campaign, given their
+// application (if any). Campaigns without an application stage are open to all.
+export function checkApplicationForSubmission(
+  campaign: ApplicationSettings,
+  application: CampaignApplication | undefined,
+  now: Date = new Date()
+): ApplicationRuleResult {
+  if (!campaign.requiresApplication) {
+    return { ok: true };
+  }
+
+  if (!application) {
+    return { ok: false, message: "This campaign requires you to apply and be accepted before posting" };
+  }
+
+  if (application.status === "pending") {
+    return { ok: false, message: "Your application hasn't been accepted yet" };
+  }
+
+  if (application.status === "declined") {
+    return { ok: false, message: "Your application to this campaign was declined" };
+  }
+
+  if (application.postingDeadline && new Date(application.postingDeadline) < now) {
+    return { ok: false, message: "Your posting deadline for this campaign has passed" };
+  }
+
+  return { ok: true };
+}
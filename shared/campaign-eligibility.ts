@@ -0,0 +1,97 @@
+import type { Campaign, CampaignEligibility, InfluencerNiche, SocialPlatform } from "./schema";
+import { type Coordinates, distanceToNearestVenue, getCampaignCoordinates } from "./geo";
+import { INFLUENCER_NICHE_LABELS, SOCIAL_PLATFORM_LABELS, formatFollowerCount } from "./influencer-directory";
+
+// What the eligibility rules are checked against, built from the
+// influencer's profile and submission history
+export interface InfluencerEligibilityProfile {
+  followerCount: number;
+  // Platforms the influencer has a handle on
+  platforms: SocialPlatform[];
+  city: string | null;
+  coordinates: Coordinates | null;
+  niches: InfluencerNiche[];
+  // Percentage of reviewed submissions that were approved; null until one has been reviewed
+  approvalRate: number | null;
+}
+
+export interface EligibilityCheck {
+  eligible: boolean;
+  // One entry per unmet rule, phrased for the influencer
+  reasons: string[];
+}
+
+type EligibilityCampaign = Pick<Campaign, "eligibility" | "latitude" | "longitude"> &
+  Partial<Pick<Campaign, "venueCoordinates">>;
+
+const listOf = (labels: string[]) => labels.join(" or ");
+
+export function checkCampaignEligibility(
+  campaign: EligibilityCampaign,
+  influencer: InfluencerEligibilityProfile
+): EligibilityCheck {
+  const rules = campaign.eligibility;
+  const reasons: string[] = [];
+
+  if (rules.minFollowers !== undefined && influencer.followerCount < rules.minFollowers) {
+    reasons.push(`Requires at least ${formatFollowerCount(rules.minFollowers)} followers`);
+  }
+
+  if (rules.platforms?.length && !rules.platforms.some(platform => influencer.platforms.includes(platform))) {
+    reasons.push(`Requires a ${listOf(rules.platforms.map(platform => SOCIAL_PLATFORM_LABELS[platform]))} account`);
+  }
+
+  if (rules.city && influencer.city?.trim().toLowerCase() !== rules.city.trim().toLowerCase()) {
+    reasons.push(`Only open to influencers based in ${rules.city}`);
+  }
+
+  // The radius rule needs the campaign's venue; without one it can't apply.
+  // Being near any one of a multi-venue campaign's venues is enough.
+  if (rules.radiusMiles !== undefined && getCampaignCoordinates(campaign).length > 0) {
+    const distance = influencer.coordinates ? distanceToNearestVenue(influencer.coordinates, campaign) : null;
+    if (distance === null || distance > rules.radiusMiles) {
+      reasons.push(`Only open to influencers within ${rules.radiusMiles} miles`);
+    }
+  }
+
+  if (rules.niches?.length && !rules.niches.some(niche => influencer.niches.includes(niche))) {
+    reasons.push(`Requires a ${listOf(rules.niches.map(niche => INFLUENCER_NICHE_LABELS[niche]))} niche`);
+  }
+
+  // Influencers without any reviewed submissions yet get the benefit of the doubt
+  if (
+    rules.minApprovalRate !== undefined &&
+    influencer.approvalRate !== null &&
+    influencer.approvalRate < rules.minApprovalRate
+  ) {
+    reasons.push(`Requires a ${rules.minApprovalRate}% approval rate on past submissions`);
+  }
+
+  return { eligible: reasons.length === 0, reasons };
+}
+
+// Short labels for the requirement badges on campaign cards
+export function describeEligibility(rules: CampaignEligibility): string[] {
+  const labels: string[] = [];
+
+  if (rules.minFollowers !== undefined) {
+    labels.push(`${formatFollowerCount(rules.minFollowers)}+ followers`);
+  }
+  if (rules.platforms?.length) {
+    labels.push(rules.platforms.map(platform => SOCIAL_PLATFORM_LABELS[platform]).join(" / "));
+  }
+  if (rules.city) {
+    labels.push(`Based in ${rules.city}`);
+  }
+  if (rules.radiusMiles !== undefined) {
+    labels.push(`Within ${rules.radiusMiles} mi`);
+  }
+  if (rules.niches?.length) {
+    labels.push(rules.niches.map(niche => INFLUENCER_NICHE_LABELS[niche]).join(" / "));
+  }
+  if (rules.minApprovalRate !== undefined) {
+    labels.push(`${rules.minApprovalRate}%+ approval rate`);
+  }
+
+  return labels;
+}
@@ -0,0 +1,71 @@
+import type { Campaign, CampaignStatus } from "./schema";
+
+type CampaignSchedule = Pick<Campaign, "status" | "startsAt" | "endsAt">;
+
+function toTime(value: Date | string | null | undefined): number | null {
+  if (!value) return null;
+  return new Date(value).getTime();
+}
+
+// The stored status only changes on explicit actions; the schedule moves
+// campaigns between scheduled, active and completed as time passes
+export function getEffectiveCampaignStatus(campaign: CampaignSchedule, now: Date = new Date()): CampaignStatus {
+  const startsAt = toTime(campaign.startsAt);
+  const endsAt = toTime(campaign.endsAt);
+  const hasEnded = endsAt !== null && endsAt <= now.getTime();
+  const hasStarted = startsAt === null || startsAt <= now.getTime();
+
+  switch (campaign.status) {
+    case "scheduled":
+    case "active":
+      if (hasEnded) return "completed";
+      return hasStarted ? "active" : "scheduled";
+    case "paused":
+      return hasEnded ? "completed" : "paused";
+    default:
+      return campaign.status;
+  }
+}
+
+export function isCampaignAcceptingSubmissions(campaign: CampaignSchedule, now: Date = new Date()): boolean {
+  return getEffectiveCampaignStatus(campaign, now) === "active";
+}
+
+// Status to store for a newly created or re-published campaign
+export function getLiveCampaignStatus(startsAt: Date | string | null | undefined, now: Date = new Date()): CampaignStatus {
+  const start = toTime(startsAt);
+  return start !== null && start > now.getTime() ? "scheduled" : "active";
+}
+
+// Allowed manual transitions, keyed by the campaign's effective status.
+// "active" as a target means publish/resume; it is stored as scheduled when
+// the start date is still in the future.
+const CAMPAIGN_TRANSITIONS: Record<CampaignStatus, CampaignStatus[]> = {
+  draft: ["active", "archived"],
+  scheduled: ["paused", "completed"],
+  active: ["paused", "completed"],
+  paused: ["active", "completed"],
+  completed: ["archived"],
+  archived: [],
+};
+
+export function getAllowedCampaignTransitions(campaign: CampaignSchedule, now: Date = new Date()): CampaignStatus[] {
+  return CAMPAIGN_TRANSITIONS[getEffectiveCampaignStatus(campaign, now)];
+}
+
+export function canTransitionCampaign(campaign: CampaignSchedule, target: CampaignStatus, now: Date = new Date()): boolean {
+  return getAllowedCampaignTransitions(campaign, now).includes(target);
+}
+
+// Returns an error message when the schedule is invalid
+export function validateCampaignSchedule(
+  startsAt: Date | string | null | undefined,
+  endsAt: Date | string | null | undefined
+): string | null {
+  const start = toTime(startsAt);
+  const end = toTime(endsAt);
+  if (start !== null && end !== null && end <= start) {
+    return "End date must be after the start date";
+  }
+  return null;
+}
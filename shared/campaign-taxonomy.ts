@@ -0,0 +1,50 @@
+import type { CampaignCuisine, CampaignSort, CampaignType, DietaryTag } from "./schema";
+
+export const CAMPAIGN_CUISINE_LABELS: Record<CampaignCuisine, string> = {
+  american: "American",
+  italian: "Italian",
+  mexican: "Mexican",
+  chinese: "Chinese",
+  japanese: "Japanese",
+  korean: "Korean",
+  thai: "Thai",
+  vietnamese: "Vietnamese",
+  indian: "Indian",
+  mediterranean: "Mediterranean",
+  middle_eastern: "Middle Eastern",
+  french: "French",
+  seafood: "Seafood",
+  bbq: "BBQ",
+  cafe: "Café",
+  bakery: "Bakery",
+  other: "Other",
+};
+
+export const CAMPAIGN_TYPE_LABELS: Record<CampaignType, string> = {
+  menu_launch: "Menu Launch",
+  grand_opening: "Grand Opening",
+  event: "Event",
+  seasonal: "Seasonal",
+  happy_hour: "Happy Hour",
+  delivery: "Delivery & Takeout",
+  sustainability: "Sustainability",
+  local_sourcing: "Local Sourcing",
+  community: "Community",
+};
+
+export const DIETARY_TAG_LABELS: Record<DietaryTag, string> = {
+  vegetarian: "Vegetarian",
+  vegan: "Vegan",
+  gluten_free: "Gluten-Free",
+  dairy_free: "Dairy-Free",
+  halal: "Halal",
+  kosher: "Kosher",
+  nut_free: "Nut-Free",
+};
+
+export const CAMPAIGN_SORT_LABELS: Record<CampaignSort, string> = {
+  highest_paying: "Highest Paying",
+  newest: "Newest",
+  ending_soon: "Ending Soon",
+  distance: "Nearest",
+};
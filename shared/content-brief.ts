@@ -0,0 +1,53 @@
+import type { ComplianceIssue, ContentBrief } from "./schema";
+
+const HASHTAG_PATTERN = /#([\w\u00C0-\u024F]+)/g;
+const MENTION_PATTERN = /@([A-Za-z0-9._]+)/g;
+
+const collect = (caption: string, pattern: RegExp) =>
+  new Set(Array.from(caption.matchAll(pattern), (match) => match[1].toLowerCase()));
+
+export const formatHashtag = (tag: string) => `#${tag}`;
+export const formatMention = (handle: string) => `@${handle}`;
+
+export function hasContentBrief(brief: ContentBrief | null | undefined): boolean {
+  if (!brief) return false;
+  return !!(
+    brief.hashtags?.length ||
+    brief.mentions?.length ||
+    brief.dos?.length ||
+    brief.donts?.length ||
+    brief.disclosure
+  );
+}
+
+// Checks a caption against the brief's machine-checkable rules: required
+// hashtags, mentions and the disclosure tag. Do/don't guidelines are left to
+// the restaurant's review. Matching ignores case.
+export function checkCaptionCompliance(brief: ContentBrief, caption: string): ComplianceIssue[] {
+  const hashtags = collect(caption, HASHTAG_PATTERN);
+  // Instagram handles can end in a dot, but a caption's sentence can too
+  const mentions = new Set(Array.from(collect(caption, MENTION_PATTERN), (handle) => handle.replace(/\.+$/, "")));
+  const issues: ComplianceIssue[] = [];
+
+  for (const tag of brief.hashtags ?? []) {
+    if (!hashtags.has(tag.toLowerCase())) {
+      issues.push({ rule: "hashtag", value: tag, message: `Missing required hashtag ${formatHashtag(tag)}` });
+    }
+  }
+
+  for (const handle of brief.mentions ?? []) {
+    if (!mentions.has(handle.toLowerCase().replace(/\.+$/, ""))) {
+      issues.push({ rule: "mention", value: handle, message: `Missing required mention ${formatMention(handle)}` });
+    }
+  }
+
+  if (brief.disclosure && !hashtags.has(brief.disclosure.toLowerCase())) {
+    issues.push({
+      rule: "disclosure",
+      value: brief.disclosure,
+      message: `Missing disclosure ${formatHashtag(brief.disclosure)}`,
+    });
+  }
+
+  return issues;
+}
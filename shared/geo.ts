@@ -0,0 +1,53 @@
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Great-circle (haversine) distance between two points
+export function distanceInMiles(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+export function formatDistance(miles: number): string {
+  if (miles < 0.1) return "Nearby";
+  return `${miles < 10 ? miles.toFixed(1) : Math.round(miles)} mi away`;
+}
+
+// Campaigns and venues only have a position once they have been geocoded
+export function getCoordinates(place: { latitude: number | null; longitude: number | null }): Coordinates | null {
+  if (place.latitude === null || place.longitude === null) return null;
+  return { latitude: place.latitude, longitude: place.longitude };
+}
+
+// Every position a campaign runs at. Multi-venue campaigns list all their
+// venues; older campaigns only carry the primary venue's coordinates.
+export function getCampaignCoordinates(campaign: {
+  latitude: number | null;
+  longitude: number | null;
+  venueCoordinates?: Coordinates[] | null;
+}): Coordinates[] {
+  if (campaign.venueCoordinates?.length) return campaign.venueCoordinates;
+  const position = getCoordinates(campaign);
+  return position ? [position] : [];
+}
+
+// Distance to the campaign's closest venue, or null when it has no location
+export function distanceToNearestVenue(
+  origin: Coordinates,
+  campaign: Parameters<typeof getCampaignCoordinates>[0]
+): number | null {
+  const distances = getCampaignCoordinates(campaign).map(position => distanceInMiles(origin, position));
+  return distances.length > 0 ? Math.min(...distances) : null;
+}
+
+// Radius options offered by the "near me" filter, in miles
+export const SEARCH_RADII = [5, 10, 25, 50, 100] as const;
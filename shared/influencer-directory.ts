@@ -0,0 +1,34 @@
+import type { InfluencerNiche, SocialPlatform } from "./schema";
+
+export const INFLUENCER_NICHE_LABELS: Record<InfluencerNiche, string> = {
+  food: "Food",
+  restaurants: "Restaurants",
+  fine_dining: "Fine Dining",
+  street_food: "Street Food",
+  vegan: "Vegan",
+  desserts: "Desserts",
+  drinks: "Drinks & Cocktails",
+  travel: "Travel",
+  lifestyle: "Lifestyle",
+  family: "Family",
+};
+
+export const SOCIAL_PLATFORM_LABELS: Record<SocialPlatform, string> = {
+  instagram: "Instagram",
+  tiktok: "TikTok",
+  youtube: "YouTube",
+};
+
+// Audience size buckets offered by the directory filter
+export const FOLLOWER_RANGES = [
+  { value: "nano", label: "Under 10K", minFollowers: 0, maxFollowers: 9999 },
+  { value: "micro", label: "10K – 100K", minFollowers: 10000, maxFollowers: 99999 },
+  { value: "mid", label: "100K – 500K", minFollowers: 100000, maxFollowers: 499999 },
+  { value: "macro", label: "500K+", minFollowers: 500000, maxFollowers: undefined },
+] as const;
+
+export function formatFollowerCount(count: number): string {
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1).replace(/\.0$/, "")}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1).replace(/\.0$/, "")}K`;
+  return count.toString();
+}
@@ -0,0 +1,15 @@
+// Path the local media storage backend serves uploads from
+export const MEDIA_URL_PREFIX = "/media/";
+
+// Thumbnails sit next to their image with a "-thumb" suffix
+const UPLOADED_IMAGE_PATTERN = /^\/media\/([A-Za-z0-9_-]+?)(-thumb)?\.webp$/;
+
+export function isUploadedImageUrl(url: string): boolean {
+  return UPLOADED_IMAGE_PATTERN.test(url);
+}
+
+// The square thumbnail of an uploaded image; other URLs are returned as is
+export function getThumbnailUrl(url: string): string {
+  const match = UPLOADED_IMAGE_PATTERN.exec(url);
+  return match ? `${MEDIA_URL_PREFIX}${match[1]}-thumb.webp` : url;
+}
@@ -0,0 +1,139 @@
+import type { PostReuseKind, SocialPlatform } from "./schema";
+
+// Links to posts on the platforms influencers can submit from. The same post
+// can be linked many ways (mobile hosts, share links, tracking query strings),
+// so submissions store one canonical URL and the platform's id for the post.
+
+export const SUBMISSION_PLATFORM_LABELS: Record<SocialPlatform, string> = {
+  instagram: "Instagram",
+  tiktok: "TikTok",
+  youtube: "YouTube Shorts",
+};
+
+// What each platform calls the numbers recorded for a post
+export const PLATFORM_METRIC_LABELS: Record<SocialPlatform, { views: string; likes: string }> = {
+  instagram: { views: "plays", likes: "likes" },
+  tiktok: { views: "views", likes: "likes" },
+  youtube: { views: "views", likes: "likes" },
+};
+
+export const POST_LINK_EXAMPLES: Record<SocialPlatform, string> = {
+  instagram: "https://www.instagram.com/reel/ABC123/",
+  tiktok: "https://www.tiktok.com/@username/video/1234567890",
+  youtube: "https://www.youtube.com/shorts/abcDEF12345",
+};
+
+const PLATFORM_HOSTS: Record<string, SocialPlatform> = {
+  "instagram.com": "instagram",
+  "www.instagram.com": "instagram",
+  "m.instagram.com": "instagram",
+  "tiktok.com": "tiktok",
+  "www.tiktok.com": "tiktok",
+  "m.tiktok.com": "tiktok",
+  "vm.tiktok.com": "tiktok",
+  "vt.tiktok.com": "tiktok",
+  "youtube.com": "youtube",
+  "www.youtube.com": "youtube",
+  "m.youtube.com": "youtube",
+  "youtu.be": "youtube",
+};
+
+const INSTAGRAM_POST_PATH = /^\/(?:[A-Za-z0-9._]+\/)?(p|reel|reels|tv)\/([A-Za-z0-9_-]+)\/?$/;
+const TIKTOK_VIDEO_PATH = /^\/@([A-Za-z0-9._]+)\/video\/(\d+)\/?$/;
+const YOUTUBE_SHORTS_PATH = /^\/shorts\/([A-Za-z0-9_-]{11})\/?$/;
+const YOUTUBE_SHARE_PATH = /^\/([A-Za-z0-9_-]{11})\/?$/;
+const YOUTUBE_VIDEO_ID = /^[A-Za-z0-9_-]{11}$/;
+
+export interface ParsedPost {
+  platform: SocialPlatform;
+  // Instagram shortcode, TikTok video id or YouTube video id
+  postId: string;
+  url: string;
+}
+
+export type ParsePostLinkResult =
+  | { ok: true; post: ParsedPost }
+  | { ok: false; message: string };
+
+export function describePlatforms(platforms: readonly SocialPlatform[]): string {
+  const labels = platforms.map((platform) => SUBMISSION_PLATFORM_LABELS[platform]);
+  if (labels.length <= 1) return labels.join("");
+  return `${labels.slice(0, -1).join(", ")} or ${labels[labels.length - 1]}`;
+}
+
+const invalidLink = (platforms: readonly SocialPlatform[]): ParsePostLinkResult => ({
+  ok: false,
+  message: platforms.length === 1
+    ? `Enter the link to your ${SUBMISSION_PLATFORM_LABELS[platforms[0]]} post, like ${POST_LINK_EXAMPLES[platforms[0]]}`
+    : `Enter the link to your ${describePlatforms(platforms)} post`,
+});
+
+function parseInstagram(url: URL): ParsedPost | null {
+  const match = url.pathname.match(INSTAGRAM_POST_PATH);
+  if (!match) return null;
+  const path = match[1] === "reel" || match[1] === "reels" ? "reel" : "p";
+  return { platform: "instagram", postId: match[2], url: `https://www.instagram.com/${path}/${match[2]}/` };
+}
+
+// vm.tiktok.com short links only resolve by following a redirect, so the
+// full video link is required
+function parseTikTok(url: URL): ParsedPost | null {
+  const match = url.pathname.match(TIKTOK_VIDEO_PATH);
+  if (!match) return null;
+  return { platform: "tiktok", postId: match[2], url: `https://www.tiktok.com/@${match[1]}/video/${match[2]}` };
+}
+
+function parseYouTube(url: URL): ParsedPost | null {
+  let videoId: string | null = null;
+  if (url.hostname.toLowerCase() === "youtu.be") {
+    videoId = url.pathname.match(YOUTUBE_SHARE_PATH)?.[1] ?? null;
+  } else if (url.pathname === "/watch") {
+    const id = url.searchParams.get("v");
+    videoId = id && YOUTUBE_VIDEO_ID.test(id) ? id : null;
+  } else {
+    videoId = url.pathname.match(YOUTUBE_SHORTS_PATH)?.[1] ?? null;
+  }
+  if (!videoId) return null;
+  return { platform: "youtube", postId: videoId, url: `https://www.youtube.com/shorts/${videoId}` };
+}
+
+const PARSERS: Record<SocialPlatform, (url: URL) => ParsedPost | null> = {
+  instagram: parseInstagram,
+  tiktok: parseTikTok,
+  youtube: parseYouTube,
+};
+
+// Recognizes the platform from the link's host. Links to a platform that
+// isn't accepted are rejected.
+export function parsePostUrl(
+  input: string,
+  accepted: readonly SocialPlatform[] = Object.keys(PARSERS) as SocialPlatform[]
+): ParsePostLinkResult {
+  const trimmed = input.trim();
+  // Links copied from the address bar often lose their scheme
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+
+  let url: URL;
+  try {
+    url = new URL(withScheme);
+  } catch {
+    return invalidLink(accepted);
+  }
+
+  const platform = PLATFORM_HOSTS[url.hostname.toLowerCase()];
+  if ((url.protocol !== "https:" && url.protocol !== "http:") || !platform) {
+    return invalidLink(accepted);
+  }
+  if (!accepted.includes(platform)) {
+    return { ok: false, message: `Only ${describePlatforms(accepted)} posts are accepted` };
+  }
+
+  const post = PARSERS[platform](url);
+  return post ? { ok: true, post } : invalidLink([platform]);
+}
+
+export const POST_REUSE_LABELS: Record<PostReuseKind, string> = {
+  duplicate: "Submitted more than once here",
+  campaign: "Also submitted to a campaign",
+  private_invitation: "Also submitted to a private invitation",
+};
@@ -0,0 +1,127 @@
+import type { RewardRule, RewardRuleType } from "./schema";
+
+// What a campaign or private invitation pays: the base rate plus its rules
+export interface RewardTerms {
+  rewardAmount: number;
+  rewardViews: number;
+  rewardRules?: RewardRule[] | null;
+}
+
+export interface RewardMetrics {
+  views: number;
+  likes: number;
+}
+
+export interface RewardLine {
+  type: "views" | RewardRuleType;
+  label: string;
+  amount: number;
+}
+
+export interface RewardBreakdown {
+  total: number;
+  lines: RewardLine[];
+}
+
+export const REWARD_RULE_LABELS: Record<RewardRuleType, string> = {
+  flat_fee: "Flat fee",
+  view_tiers: "Tiered view rates",
+  milestone: "Milestone bonus",
+  engagement: "Likes bonus",
+};
+
+interface RewardRate {
+  rewardAmount: number;
+  rewardViews: number;
+}
+
+// Money is stored as dollars in double precision columns; round every
+// computed amount to cents so caps compare cleanly
+export function roundToCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+const formatRate = (rate: RewardRate, unit: string) =>
+  `${formatMoney(rate.rewardAmount)} per ${rate.rewardViews.toLocaleString("en-US")} ${unit}`;
+
+const priceViews = (views: number, rate: RewardRate) => (views / rate.rewardViews) * rate.rewardAmount;
+
+function getViewTiers(terms: RewardTerms) {
+  const rule = terms.rewardRules?.find((r): r is Extract<RewardRule, { type: "view_tiers" }> => r.type === "view_tiers");
+  return rule?.tiers ?? [];
+}
+
+type RuleCalculator<T extends RewardRuleType> = (
+  rule: Extract<RewardRule, { type: T }>,
+  metrics: RewardMetrics
+) => RewardLine[];
+
+// One calculator per rule type. Adding a reward model means adding its
+// schema to rewardRuleSchema and its calculator and description here.
+const RULE_CALCULATORS: { [T in RewardRuleType]: RuleCalculator<T> } = {
+  flat_fee: (rule) => [{ type: "flat_fee", label: "Flat fee", amount: rule.amount }],
+  view_tiers: (rule, { views }) =>
+    rule.tiers.flatMap((tier, i) => {
+      const upTo = rule.tiers[i + 1]?.fromViews ?? Infinity;
+      const tierViews = Math.min(views, upTo) - tier.fromViews;
+      if (tierViews <= 0) return [];
+      return [{
+        type: "view_tiers" as const,
+        label: `Views above ${tier.fromViews.toLocaleString("en-US")}`,
+        amount: priceViews(tierViews, tier),
+      }];
+    }),
+  milestone: (rule, { views }) =>
+    views >= rule.views
+      ? [{ type: "milestone", label: `Bonus at ${rule.views.toLocaleString("en-US")} views`, amount: rule.bonus }]
+      : [],
+  engagement: (rule, { likes }) => [{
+    type: "engagement",
+    label: `${likes.toLocaleString("en-US")} likes`,
+    amount: (likes / rule.rewardLikes) * rule.rewardAmount,
+  }],
+};
+
+const RULE_DESCRIPTIONS: { [T in RewardRuleType]: (rule: Extract<RewardRule, { type: T }>) => string[] } = {
+  flat_fee: (rule) => [`${formatMoney(rule.amount)} flat fee`],
+  view_tiers: (rule) =>
+    rule.tiers.map((tier) => `${formatRate(tier, "views")} above ${tier.fromViews.toLocaleString("en-US")} views`),
+  milestone: (rule) => [`+${formatMoney(rule.bonus)} at ${rule.views.toLocaleString("en-US")} views`],
+  engagement: (rule) => [formatRate({ rewardAmount: rule.rewardAmount, rewardViews: rule.rewardLikes }, "likes")],
+};
+
+// The single earnings calculator: every metrics update, for campaigns and
+// private invitations alike, is priced here before any budget caps.
+export function calculateReward(terms: RewardTerms, metrics: RewardMetrics): RewardBreakdown {
+  const tiers = getViewTiers(terms);
+  // With tiers, the base rate only covers views below the first threshold
+  const baseViews = Math.min(metrics.views, tiers[0]?.fromViews ?? Infinity);
+
+  const lines: RewardLine[] = [
+    { type: "views", label: `${baseViews.toLocaleString("en-US")} views`, amount: priceViews(baseViews, terms) },
+  ];
+  for (const rule of terms.rewardRules ?? []) {
+    const calculate = RULE_CALCULATORS[rule.type] as RuleCalculator<RewardRuleType>;
+    lines.push(...calculate(rule, metrics));
+  }
+
+  const roundedLines = lines.map((line) => ({ ...line, amount: roundToCents(line.amount) }));
+  return {
+    total: roundToCents(roundedLines.reduce((sum, line) => sum + line.amount, 0)),
+    lines: roundedLines,
+  };
+}
+
+// Human-readable summary of the terms, base rate first
+export function describeReward(terms: RewardTerms): string[] {
+  return [
+    formatRate(terms, "views"),
+    ...(terms.rewardRules ?? []).flatMap((rule) => {
+      const describe = RULE_DESCRIPTIONS[rule.type] as (rule: RewardRule) => string[];
+      return describe(rule);
+    }),
+  ];
+}
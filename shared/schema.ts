@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, uuid } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, uuid, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { Coordinates } from "./geo";
+import { parsePostUrl } from "./post-links";
 
 // User schema
 export const users = pgTable("users", {
@@ -23,6 +25,186 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
 // Campaign schema
+export const CAMPAIGN_STATUSES = ["draft", "scheduled", "active", "paused", "completed", "archived"] as const;
+export type CampaignStatus = (typeof CAMPAIGN_STATUSES)[number];
+
+// Campaign taxonomy influencers browse and filter on
+export const CAMPAIGN_CUISINES = [
+  "american",
+  "italian",
+  "mexican",
+  "chinese",
+  "japanese",
+  "korean",
+  "thai",
+  "vietnamese",
+  "indian",
+  "mediterranean",
+  "middle_eastern",
+  "french",
+  "seafood",
+  "bbq",
+  "cafe",
+  "bakery",
+  "other",
+] as const;
+export type CampaignCuisine = (typeof CAMPAIGN_CUISINES)[number];
+
+export const CAMPAIGN_TYPES = [
+  "menu_launch",
+  "grand_opening",
+  "event",
+  "seasonal",
+  "happy_hour",
+  "delivery",
+  "sustainability",
+  "local_sourcing",
+  "community",
+] as const;
+export type CampaignType = (typeof CAMPAIGN_TYPES)[number];
+
+export const DIETARY_TAGS = [
+  "vegetarian",
+  "vegan",
+  "gluten_free",
+  "dairy_free",
+  "halal",
+  "kosher",
+  "nut_free",
+] as const;
+export type DietaryTag = (typeof DIETARY_TAGS)[number];
+
+// Content topics influencers pick on their profile
+export const INFLUENCER_NICHES = [
+  "food",
+  "restaurants",
+  "fine_dining",
+  "street_food",
+  "vegan",
+  "desserts",
+  "drinks",
+  "travel",
+  "lifestyle",
+  "family",
+] as const;
+export type InfluencerNiche = (typeof INFLUENCER_NICHES)[number];
+
+export const SOCIAL_PLATFORMS = ["instagram", "tiktok", "youtube"] as const;
+export type SocialPlatform = (typeof SOCIAL_PLATFORMS)[number];
+
+// Requirements an influencer must meet to submit to a campaign. Every rule
+// is optional; an empty object lets any influencer take part.
+export const campaignEligibilitySchema = z.object({
+  minFollowers: z.coerce.number().int().min(1).optional(),
+  // Influencer needs a handle on at least one of these
+  platforms: z.array(z.enum(SOCIAL_PLATFORMS)).optional(),
+  // Influencer's home city, matched case-insensitively
+  city: z.string().trim().min(1).max(100).optional(),
+  // Influencer's home city must be within this many miles of the campaign's venue
+  radiusMiles: z.coerce.number().positive().max(500).optional(),
+  // Influencer needs at least one of these niches
+  niches: z.array(z.enum(INFLUENCER_NICHES)).optional(),
+  // Percentage of the influencer's reviewed campaign submissions that were approved
+  minApprovalRate: z.coerce.number().min(0).max(100).optional(),
+});
+
+export type CampaignEligibility = z.infer<typeof campaignEligibilitySchema>;
+
+// Content brief for campaigns and private invitations. Hashtags and mentions
+// are stored without their "#" / "@" prefix.
+const briefTagSchema = (prefix: RegExp, pattern: RegExp, message: string) =>
+  z.string().trim().transform((value) => value.replace(prefix, "")).pipe(z.string().regex(pattern, message));
+
+const hashtagSchema = briefTagSchema(/^#+/, /^[\w\u00C0-\u024F]{1,100}$/, "Hashtags can only contain letters, numbers and underscores");
+const mentionSchema = briefTagSchema(/^@+/, /^[A-Za-z0-9._]{1,30}$/, "Mentions must be valid Instagram usernames");
+const guidelineSchema = z.string().trim().min(1).max(200);
+
+export const contentBriefSchema = z.object({
+  hashtags: z.array(hashtagSchema).max(20).optional(),
+  mentions: z.array(mentionSchema).max(10).optional(),
+  dos: z.array(guidelineSchema).max(10).optional(),
+  donts: z.array(guidelineSchema).max(10).optional(),
+  // Disclosure hashtag the caption must carry, e.g. "ad"
+  disclosure: hashtagSchema.optional(),
+});
+
+export type ContentBrief = z.infer<typeof contentBriefSchema>;
+
+// Brief rules a submitted caption broke; null on a submission means its
+// caption couldn't be checked
+export const COMPLIANCE_RULES = ["hashtag", "mention", "disclosure"] as const;
+export type ComplianceRule = (typeof COMPLIANCE_RULES)[number];
+
+export interface ComplianceIssue {
+  rule: ComplianceRule;
+  value: string;
+  message: string;
+}
+
+// Images are uploaded through POST /api/upload; data URLs are no longer stored
+export const imageUrlSchema = z
+  .string()
+  .min(1, "Image URL is required")
+  .refine((url) => !url.startsWith("data:"), "Upload the image instead of embedding it");
+
+// Reward rules layered on top of the base rate (rewardAmount per rewardViews).
+// Each rule adds a line to the payout; see shared/reward-rules.ts.
+export const REWARD_RULE_TYPES = ["flat_fee", "view_tiers", "milestone", "engagement"] as const;
+export type RewardRuleType = (typeof REWARD_RULE_TYPES)[number];
+
+const rewardRateShape = {
+  rewardAmount: z.coerce.number().positive("Amount must be greater than $0"),
+  rewardViews: z.coerce.number().int().min(100, "Views must be at least 100"),
+};
+
+export const rewardRuleSchema = z.discriminatedUnion("type", [
+  // Paid once the submission is approved, whatever its views
+  z.object({ type: z.literal("flat_fee"), amount: z.coerce.number().positive("Flat fee must be greater than $0") }),
+  // Views above each threshold are paid at the tier's rate instead of the base rate
+  z.object({
+    type: z.literal("view_tiers"),
+    tiers: z
+      .array(z.object({ fromViews: z.coerce.number().int().min(1, "Tiers start above 0 views"), ...rewardRateShape }))
+      .min(1)
+      .max(10)
+      .refine(
+        (tiers) => tiers.every((tier, i) => i === 0 || tier.fromViews > tiers[i - 1].fromViews),
+        "Tier thresholds must increase"
+      ),
+  }),
+  // One-off bonus once the post reaches the view count
+  z.object({
+    type: z.literal("milestone"),
+    views: z.coerce.number().int().min(1, "Milestones start above 0 views"),
+    bonus: z.coerce.number().positive("Bonus must be greater than $0"),
+  }),
+  // Paid on likes, on top of views
+  z.object({
+    type: z.literal("engagement"),
+    rewardAmount: z.coerce.number().positive("Amount must be greater than $0"),
+    rewardLikes: z.coerce.number().int().min(1, "Likes must be at least 1"),
+  }),
+]);
+
+export type RewardRule = z.infer<typeof rewardRuleSchema>;
+
+const SINGLE_USE_REWARD_RULES: RewardRuleType[] = ["flat_fee", "view_tiers", "engagement"];
+
+export const rewardRulesSchema = z
+  .array(rewardRuleSchema)
+  .max(20)
+  .superRefine((rules, ctx) => {
+    for (const type of SINGLE_USE_REWARD_RULES) {
+      if (rules.filter((rule) => rule.type === type).length > 1) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Only one ${type.replace("_", " ")} rule is allowed` });
+      }
+    }
+    const milestones = rules.flatMap((rule) => (rule.type === "milestone" ? [rule.views] : []));
+    if (new Set(milestones).size !== milestones.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Milestones must have different view counts" });
+    }
+  });
+
 export const campaigns = pgTable("campaigns", {
   id: serial("id").primaryKey(),
   restaurantId: integer("restaurant_id").notNull().references(() => users.id),
@@ -34,50 +216,225 @@ export const campaigns = pgTable("campaigns", {
   rewardViews: integer("reward_views").notNull(),
   maxPayoutPerInfluencer: doublePrecision("max_payout_per_influencer"),
   maxBudget: doublePrecision("max_budget"),
+  rewardRules: jsonb("reward_rules").$type<RewardRule[]>().notNull().default([]),
+  cuisine: text("cuisine", { enum: CAMPAIGN_CUISINES }),
+  campaignType: text("campaign_type", { enum: CAMPAIGN_TYPES }),
+  dietaryTags: text("dietary_tags", { enum: DIETARY_TAGS }).array().notNull().default([]),
+  // Platforms submissions may be posted on
+  platforms: text("platforms", { enum: SOCIAL_PLATFORMS }).array().notNull().default(["instagram"]),
+  // Where the campaign takes place; location and coordinates are copied from the venue
+  venueId: integer("venue_id").references(() => venues.id),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  // Every venue the campaign runs at, primary venue (venueId) first, with
+  // their coordinates in the same order for radius search
+  venueIds: integer("venue_ids").array().notNull().default([]),
+  venueCoordinates: jsonb("venue_coordinates").$type<Coordinates[]>().notNull().default([]),
+  eligibility: jsonb("eligibility").$type<CampaignEligibility>().notNull().default({}),
+  brief: jsonb("brief").$type<ContentBrief>().notNull().default({}),
+  // Apply-first campaigns: influencers pitch and must be accepted before posting
+  requiresApplication: boolean("requires_application").default(false).notNull(),
+  maxAcceptedApplicants: integer("max_accepted_applicants"),
+  status: text("status", { enum: CAMPAIGN_STATUSES }).default("active").notNull(),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const campaignPlatformsSchema = z.array(z.enum(SOCIAL_PLATFORMS)).min(1, "Accept at least one platform");
+
 // Create the schema with additional validation
 export const insertCampaignSchema = z.object({
   restaurantId: z.number(),
   title: z.string().min(3, "Title must be at least 3 characters"),
   description: z.string().min(10, "Description must be at least 10 characters"),
-  location: z.string().optional(),
-  imageUrl: z.string().min(1, "Image URL is required"),
+  location: z.string().nullish(),
+  imageUrl: imageUrlSchema,
   rewardAmount: z.coerce.number().min(1, "Amount must be at least $1"),
   rewardViews: z.coerce.number().min(100, "Views must be at least 100"),
   maxPayoutPerInfluencer: z.coerce.number().min(1, "Max payout must be at least $1").optional(),
   maxBudget: z.coerce.number().min(1, "Budget must be at least $1").optional(),
+  rewardRules: rewardRulesSchema.optional(),
+  cuisine: z.enum(CAMPAIGN_CUISINES).optional(),
+  campaignType: z.enum(CAMPAIGN_TYPES).optional(),
+  dietaryTags: z.array(z.enum(DIETARY_TAGS)).optional(),
+  platforms: campaignPlatformsSchema.optional(),
+  // The campaign's location, coordinates included, is taken from the venue
+  venueId: z.coerce.number().int().positive().nullish(),
+  // Multi-venue campaigns list every venue, primary first; replaces venueId when given
+  venueIds: z.array(z.coerce.number().int().positive()).max(50, "A campaign can run at up to 50 venues").optional(),
+  latitude: z.number().min(-90).max(90).nullish(),
+  longitude: z.number().min(-180).max(180).nullish(),
+  venueCoordinates: z.array(z.object({ latitude: z.number(), longitude: z.number() })).optional(),
+  eligibility: campaignEligibilitySchema.optional(),
+  brief: contentBriefSchema.optional(),
+  requiresApplication: z.boolean().optional(),
+  maxAcceptedApplicants: z.coerce.number().int().min(1, "Accept at least one applicant").nullish(),
+  // New campaigns start as a draft or go live (scheduled if startsAt is in the future)
+  status: z.enum(["draft", "active"]).optional(),
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().optional(),
 });
 
 export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
 export type Campaign = typeof campaigns.$inferSelect;
 
+// Taxonomy fields accepted when editing a campaign; null clears a category
+export const campaignTaxonomyUpdateSchema = z.object({
+  cuisine: z.enum(CAMPAIGN_CUISINES).nullable().optional(),
+  campaignType: z.enum(CAMPAIGN_TYPES).nullable().optional(),
+  dietaryTags: z.array(z.enum(DIETARY_TAGS)).optional(),
+});
+
+// Application settings accepted when editing a campaign; null removes the cap
+export const campaignApplicationSettingsSchema = z.object({
+  requiresApplication: z.boolean().optional(),
+  maxAcceptedApplicants: z.coerce.number().int().min(1, "Accept at least one applicant").nullable().optional(),
+});
+
+export const CAMPAIGN_SORTS = ["highest_paying", "newest", "ending_soon", "distance"] as const;
+export type CampaignSort = (typeof CAMPAIGN_SORTS)[number];
+
+// Query string accepted by GET /api/campaigns. Without parameters the
+// endpoint returns every campaign visible to the user, as before.
+export const campaignQuerySchema = z
+  .object({
+    q: z.string().trim().max(100).optional(),
+    cuisine: z.enum(CAMPAIGN_CUISINES).optional(),
+    campaignType: z.enum(CAMPAIGN_TYPES).optional(),
+    // ?dietary=vegan&dietary=halal matches campaigns tagged with all of them
+    dietary: z
+      .union([z.enum(DIETARY_TAGS), z.array(z.enum(DIETARY_TAGS))])
+      .transform((value) => (Array.isArray(value) ? value : [value]))
+      .optional(),
+    // Only campaigns currently accepting submissions
+    open: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+    // Influencers only: hide campaigns whose eligibility rules they don't meet
+    eligible: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+    // Searcher's position; radius (in miles) and distance sorting need both
+    lat: z.coerce.number().min(-90).max(90).optional(),
+    lng: z.coerce.number().min(-180).max(180).optional(),
+    radius: z.coerce.number().positive().max(500).optional(),
+    sort: z.enum(CAMPAIGN_SORTS).optional(),
+  })
+  .refine(
+    (query) => (query.lat === undefined) === (query.lng === undefined),
+    { message: "lat and lng must be provided together", path: ["lng"] }
+  )
+  .refine(
+    (query) => (query.radius === undefined && query.sort !== "distance") || query.lat !== undefined,
+    { message: "A location is required to search by distance", path: ["lat"] }
+  );
+
+export type CampaignQuery = z.infer<typeof campaignQuerySchema>;
+
+// Campaign as returned by the API, with spend so far against maxBudget
+// (remainingBudget is null when the campaign has no budget cap)
+export type CampaignWithBudget = Campaign & {
+  spentBudget: number;
+  remainingBudget: number | null;
+};
+
+// Restaurants can send a submission back for changes; the influencer's
+// revised link returns it to pending
+export const SUBMISSION_STATUSES = ["pending", "changes_requested", "approved", "rejected"] as const;
+export type SubmissionStatus = (typeof SUBMISSION_STATUSES)[number];
+
+export const REJECTION_REASONS = [
+  "off_brief",
+  "missing_disclosure",
+  "low_quality",
+  "wrong_location",
+  "not_original",
+  "post_unavailable",
+  "other",
+] as const;
+export type RejectionReason = (typeof REJECTION_REASONS)[number];
+
 // Submission schema
 export const submissions = pgTable("submissions", {
   id: serial("id").primaryKey(),
   campaignId: integer("campaign_id").notNull().references(() => campaigns.id),
   influencerId: integer("influencer_id").notNull().references(() => users.id),
-  instagramUrl: text("instagram_url").notNull(),
+  platform: text("platform", { enum: SOCIAL_PLATFORMS }).default("instagram").notNull(),
+  postUrl: text("post_url").notNull(),
+  // The platform's id for the post, which identifies it however the link was written
+  postId: text("post_id"),
   notes: text("notes"),
-  status: text("status", { enum: ["pending", "approved", "rejected"] }).notNull(),
+  // Post caption, as entered by the influencer or fetched from the platform
+  caption: text("caption"),
+  complianceIssues: jsonb("compliance_issues").$type<ComplianceIssue[]>(),
+  status: text("status", { enum: SUBMISSION_STATUSES }).notNull(),
+  // Set while the submission is rejected
+  rejectionReason: text("rejection_reason", { enum: REJECTION_REASONS }),
   views: integer("views").default(0).notNull(),
   likes: integer("likes").default(0).notNull(),
   earnings: doublePrecision("earnings").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertSubmissionSchema = createInsertSchema(submissions).omit({
+// Links must point at a post on a supported platform; the route stores the
+// canonical form of the link and the platform it's on
+export const postUrlSchema = z.string().trim().superRefine((url, ctx) => {
+  const result = parsePostUrl(url);
+  if (!result.ok) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.message });
+  }
+});
+
+// platform, postId and complianceIssues are always computed on the server
+export const insertSubmissionSchema = createInsertSchema(submissions, {
+  postUrl: postUrlSchema,
+  caption: z.string().max(2200).nullish(),
+}).omit({
   id: true,
+  platform: true,
+  postId: true,
+  complianceIssues: true,
+  rejectionReason: true,
   views: true,
   likes: true,
   earnings: true,
   createdAt: true,
 });
 
-export type InsertSubmission = z.infer<typeof insertSubmissionSchema>;
+export type InsertSubmission = z.infer<typeof insertSubmissionSchema> & {
+  platform?: SocialPlatform;
+  postId?: string | null;
+  complianceIssues?: ComplianceIssue[] | null;
+};
 export type Submission = typeof submissions.$inferSelect;
 
+// Applications to apply-first campaigns. Accepted applicants get a posting
+// deadline and are the only influencers who can submit content.
+export const APPLICATION_STATUSES = ["pending", "accepted", "declined"] as const;
+export type ApplicationStatus = (typeof APPLICATION_STATUSES)[number];
+
+export const campaignApplications = pgTable("campaign_applications", {
+  id: serial("id").primaryKey(),
+  campaignId: integer("campaign_id").notNull().references(() => campaigns.id),
+  influencerId: integer("influencer_id").notNull().references(() => users.id),
+  pitch: text("pitch").notNull(),
+  status: text("status", { enum: APPLICATION_STATUSES }).default("pending").notNull(),
+  postingDeadline: timestamp("posting_deadline"),
+  decidedAt: timestamp("decided_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const applicationInputSchema = z.object({
+  pitch: z.string().trim().min(20, "Tell the restaurant a bit more (at least 20 characters)").max(1000),
+});
+
+export type ApplicationInput = z.infer<typeof applicationInputSchema>;
+export type InsertCampaignApplication = ApplicationInput & { campaignId: number; influencerId: number };
+export type CampaignApplication = typeof campaignApplications.$inferSelect;
+
+// Restaurant's decision; accepted applicants get postingDeadline or the default window
+export const applicationDecisionSchema = z.object({
+  status: z.enum(["accepted", "declined"]),
+  postingDeadline: z.coerce.date().optional(),
+});
+
 // ViewUpdate schema for updating views, likes and calculating earnings
 export const viewUpdateSchema = z.object({
   submissionId: z.number(),
@@ -98,44 +455,171 @@ export const privateInvitations = pgTable("private_invitations", {
   imageUrl: text("image_url"),
   rewardAmount: doublePrecision("reward_amount").notNull(),
   rewardViews: integer("reward_views").notNull(),
+  rewardRules: jsonb("reward_rules").$type<RewardRule[]>().notNull().default([]),
+  brief: jsonb("brief").$type<ContentBrief>().notNull().default({}),
   status: text("status", { enum: ["pending", "accepted", "declined", "completed"] }).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   expiresAt: timestamp("expires_at"),
 });
 
-export const insertPrivateInvitationSchema = createInsertSchema(privateInvitations).omit({
+export const insertPrivateInvitationSchema = createInsertSchema(privateInvitations, {
+  imageUrl: imageUrlSchema.nullish(),
+  rewardRules: rewardRulesSchema.optional(),
+  brief: contentBriefSchema.optional(),
+}).omit({
   id: true,
   inviteCode: true,
   createdAt: true,
 });
 
 export type InsertPrivateInvitation = z.infer<typeof insertPrivateInvitationSchema>;
+
+// The fields a restaurant may edit on an invitation. The influencer, owner and
+// status are fixed; influencers respond through the status route.
+export const privateInvitationUpdateSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().min(1),
+  imageUrl: imageUrlSchema.nullish(),
+  rewardAmount: z.number().positive(),
+  rewardViews: z.number().int().positive(),
+  rewardRules: rewardRulesSchema,
+  brief: contentBriefSchema,
+  expiresAt: z.coerce.date().nullable(),
+}).partial().strict();
 export type PrivateInvitation = typeof privateInvitations.$inferSelect;
 
 // Private Submission schema for private invitation submissions
 export const privateSubmissions = pgTable("private_submissions", {
   id: serial("id").primaryKey(),
   invitationId: integer("invitation_id").notNull().references(() => privateInvitations.id),
-  instagramUrl: text("instagram_url").notNull(),
+  platform: text("platform", { enum: SOCIAL_PLATFORMS }).default("instagram").notNull(),
+  postUrl: text("post_url").notNull(),
+  postId: text("post_id"),
   notes: text("notes"),
-  status: text("status", { enum: ["pending", "approved", "rejected"] }).notNull(),
+  caption: text("caption"),
+  complianceIssues: jsonb("compliance_issues").$type<ComplianceIssue[]>(),
+  status: text("status", { enum: SUBMISSION_STATUSES }).notNull(),
+  // Set while the submission is rejected
+  rejectionReason: text("rejection_reason", { enum: REJECTION_REASONS }),
   views: integer("views").default(0).notNull(),
   likes: integer("likes").default(0).notNull(),
   earnings: doublePrecision("earnings").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const insertPrivateSubmissionSchema = createInsertSchema(privateSubmissions).omit({
+export const insertPrivateSubmissionSchema = createInsertSchema(privateSubmissions, {
+  postUrl: postUrlSchema,
+  caption: z.string().max(2200).nullish(),
+}).omit({
   id: true,
+  platform: true,
+  postId: true,
+  complianceIssues: true,
+  rejectionReason: true,
   views: true,
   likes: true,
   earnings: true,
   createdAt: true,
 });
 
-export type InsertPrivateSubmission = z.infer<typeof insertPrivateSubmissionSchema>;
+export type InsertPrivateSubmission = z.infer<typeof insertPrivateSubmissionSchema> & {
+  platform?: SocialPlatform;
+  postId?: string | null;
+  complianceIssues?: ComplianceIssue[] | null;
+};
 export type PrivateSubmission = typeof privateSubmissions.$inferSelect;
 
+// Another submission of the same post. duplicate means the same campaign or
+// invitation; title is null when the other one belongs to another restaurant.
+export const POST_REUSE_KINDS = ["duplicate", "campaign", "private_invitation"] as const;
+export type PostReuseKind = (typeof POST_REUSE_KINDS)[number];
+
+export interface PostReuse {
+  kind: PostReuseKind;
+  title: string | null;
+  sameInfluencer: boolean;
+  submittedAt: Date;
+}
+
+// Submissions as the restaurant and admins see them, with reuse warnings
+export type SubmissionWithReuse = Submission & { postReuse: PostReuse[] };
+export type PrivateSubmissionWithReuse = PrivateSubmission & { postReuse: PostReuse[] };
+
+// A review decision. Requesting changes needs a message for the influencer;
+// rejecting needs a reason.
+export const submissionReviewSchema = z.discriminatedUnion("status", [
+  z.object({ status: z.literal("pending") }),
+  z.object({ status: z.literal("approved") }),
+  z.object({
+    status: z.literal("changes_requested"),
+    message: z.string().trim().min(1, "Say what needs to change").max(2000),
+  }),
+  z.object({
+    status: z.literal("rejected"),
+    reason: z.enum(REJECTION_REASONS),
+    message: z.string().trim().max(2000).optional(),
+  }),
+]);
+
+export type SubmissionReview = z.infer<typeof submissionReviewSchema>;
+
+export const MAX_BATCH_REVIEW_SIZE = 100;
+
+// One decision applied to many campaign submissions at once
+export const submissionBatchReviewSchema = z.object({
+  submissionIds: z.array(z.number().int().positive())
+    .min(1, "Select at least one submission")
+    .max(MAX_BATCH_REVIEW_SIZE, `Review at most ${MAX_BATCH_REVIEW_SIZE} submissions at a time`),
+  review: submissionReviewSchema,
+});
+
+export type SubmissionBatchReview = z.infer<typeof submissionBatchReviewSchema>;
+
+// A batch is only applied when every submission in it can take the decision;
+// otherwise nothing changes and failures says which submissions held it up
+export interface SubmissionBatchReviewResult {
+  updated: Submission[];
+  failures: { submissionId: number; message: string }[];
+}
+
+// The conversation on a submission: comments plus the review decisions and
+// resubmissions that make up its history. Exactly one of submissionId and
+// privateSubmissionId is set.
+export const SUBMISSION_COMMENT_EVENTS = ["comment", "changes_requested", "rejected", "resubmitted"] as const;
+export type SubmissionCommentEvent = (typeof SUBMISSION_COMMENT_EVENTS)[number];
+
+export const submissionComments = pgTable("submission_comments", {
+  id: serial("id").primaryKey(),
+  submissionId: integer("submission_id").references(() => submissions.id),
+  privateSubmissionId: integer("private_submission_id").references(() => privateSubmissions.id),
+  authorId: integer("author_id").notNull().references(() => users.id),
+  event: text("event", { enum: SUBMISSION_COMMENT_EVENTS }).default("comment").notNull(),
+  body: text("body"),
+  // Resubmissions keep the link they replaced
+  previousPostUrl: text("previous_post_url"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type SubmissionComment = typeof submissionComments.$inferSelect;
+export type InsertSubmissionComment = Omit<SubmissionComment, "id" | "createdAt">;
+export type SubmissionCommentEntry = SubmissionComment & {
+  authorName: string;
+  authorRole: User["role"];
+};
+
+export const submissionCommentInputSchema = z.object({
+  body: z.string().trim().min(1, "Write a comment").max(2000),
+});
+
+// A revised post for a submission the restaurant asked to change
+export const submissionRevisionSchema = z.object({
+  postUrl: postUrlSchema,
+  caption: z.string().max(2200).nullish(),
+  message: z.string().trim().max(2000).optional(),
+});
+
+export type SubmissionRevision = z.infer<typeof submissionRevisionSchema>;
+
 // Performance Metrics table for tracking metrics history and admin updates
 export const performanceMetrics = pgTable("performance_metrics", {
   id: serial("id").primaryKey(),
@@ -181,3 +665,711 @@ export const adminUpdateMetricSchema = z.object({
 });
 
 export type AdminUpdateMetric = z.infer<typeof adminUpdateMetricSchema>;
+
+// API token schema for personal access tokens sent in the x-auth-token header
+export const API_TOKEN_SCOPES = ["read", "write"] as const;
+
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  // Only a SHA-256 hash of the token is stored; the raw token is shown once at creation
+  tokenHash: text("token_hash").notNull().unique(),
+  tokenPrefix: text("token_prefix").notNull(),
+  scopes: text("scopes", { enum: API_TOKEN_SCOPES }).array().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+});
+
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+
+// Request body for creating a personal access token
+export const createApiTokenSchema = z.object({
+  name: z.string().min(1, "Token name is required").max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1, "Select at least one scope").default(["read"]),
+  expiresInDays: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+
+// Payout methods an influencer can choose on their settings page
+export const PAYMENT_METHODS = ["paypal", "bankTransfer", "venmo"] as const;
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+// Where an influencer wants to be paid; read by payout runs.
+// paymentEmail holds the PayPal email, or the Venmo email/username.
+export const influencerPayoutDetails = pgTable("influencer_payout_details", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  paymentMethod: text("payment_method", { enum: PAYMENT_METHODS }).notNull(),
+  paymentEmail: text("payment_email"),
+  accountName: text("account_name"),
+  // Bank numbers are encrypted at rest (see server/encryption.ts) and only
+  // ever leave the server masked
+  accountNumberEncrypted: text("account_number_encrypted"),
+  routingNumberEncrypted: text("routing_number_encrypted"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertInfluencerPayoutDetailsSchema = createInsertSchema(influencerPayoutDetails).omit({
+  id: true,
+  userId: true,
+  updatedAt: true,
+});
+
+export type InsertInfluencerPayoutDetails = z.infer<typeof insertInfluencerPayoutDetailsSchema>;
+export type InfluencerPayoutDetails = typeof influencerPayoutDetails.$inferSelect;
+
+// Request body from the payment settings form. Bank numbers are plain text
+// here; leaving them empty keeps the ones already on file.
+export const payoutDetailsInputSchema = z.object({
+  paymentMethod: z.enum(PAYMENT_METHODS),
+  paymentEmail: z.string().trim().max(200).optional(),
+  accountName: z.string().trim().max(200).optional(),
+  accountNumber: z.string().trim().regex(/^\d{4,17}$/, "Account number must be 4-17 digits").optional().or(z.literal("")),
+  routingNumber: z.string().trim().regex(/^\d{9}$/, "Routing number must be 9 digits").optional().or(z.literal("")),
+});
+
+export type PayoutDetailsInput = z.infer<typeof payoutDetailsInputSchema>;
+
+// Payout details as returned by the API
+export type MaskedPayoutDetails = Omit<InfluencerPayoutDetails, "accountNumberEncrypted" | "routingNumberEncrypted"> & {
+  accountNumberMasked: string | null;
+  routingNumberMasked: string | null;
+};
+
+// Earnings ledger. Every entry moves an amount between two accounts for one
+// influencer, so balances are always derived from entries and never stored:
+//   accrual          campaign       -> accrued         (earnings grew)
+//   reversal         accrued        -> campaign        (earnings shrank or were voided)
+//   payout           accrued        -> pending_payout  (batched into a payout run)
+//   payout_paid      pending_payout -> paid            (money sent)
+//   payout_cancelled pending_payout -> accrued         (payout failed or was cancelled)
+export const LEDGER_ACCOUNTS = ["campaign", "accrued", "pending_payout", "paid"] as const;
+export type LedgerAccount = (typeof LEDGER_ACCOUNTS)[number];
+
+export const LEDGER_ENTRY_TYPES = ["accrual", "reversal", "payout", "payout_paid", "payout_cancelled"] as const;
+export type LedgerEntryType = (typeof LEDGER_ENTRY_TYPES)[number];
+
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  influencerId: integer("influencer_id").notNull().references(() => users.id),
+  entryType: text("entry_type", { enum: LEDGER_ENTRY_TYPES }).notNull(),
+  fromAccount: text("from_account", { enum: LEDGER_ACCOUNTS }).notNull(),
+  toAccount: text("to_account", { enum: LEDGER_ACCOUNTS }).notNull(),
+  amount: doublePrecision("amount").notNull(),
+  submissionId: integer("submission_id").references(() => submissions.id),
+  privateSubmissionId: integer("private_submission_id").references(() => privateSubmissions.id),
+  payoutId: integer("payout_id"),
+  description: text("description").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertLedgerEntrySchema = createInsertSchema(ledgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertLedgerEntry = z.infer<typeof insertLedgerEntrySchema>;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
+// Derived per-influencer balances, one per ledger state
+export interface LedgerBalance {
+  accrued: number;
+  pendingPayout: number;
+  paid: number;
+  reversed: number;
+}
+
+// Payout runs batch each influencer's accrued balance into a single payout
+export const payoutRuns = pgTable("payout_runs", {
+  id: serial("id").primaryKey(),
+  createdBy: integer("created_by").notNull().references(() => users.id),
+  minimumAmount: doublePrecision("minimum_amount").notNull(),
+  payoutCount: integer("payout_count").notNull(),
+  totalAmount: doublePrecision("total_amount").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPayoutRunSchema = createInsertSchema(payoutRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertPayoutRun = z.infer<typeof insertPayoutRunSchema>;
+export type PayoutRun = typeof payoutRuns.$inferSelect;
+
+export const PAYOUT_STATUSES = ["pending", "paid", "cancelled"] as const;
+export type PayoutStatus = (typeof PAYOUT_STATUSES)[number];
+
+export const payouts = pgTable("payouts", {
+  id: serial("id").primaryKey(),
+  payoutRunId: integer("payout_run_id").notNull().references(() => payoutRuns.id),
+  influencerId: integer("influencer_id").notNull().references(() => users.id),
+  amount: doublePrecision("amount").notNull(),
+  // Snapshot of the influencer's payout details when the run was created
+  paymentMethod: text("payment_method", { enum: PAYMENT_METHODS }).notNull(),
+  paymentDestination: text("payment_destination"),
+  status: text("status", { enum: PAYOUT_STATUSES }).notNull().default("pending"),
+  reference: text("reference"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  settledAt: timestamp("settled_at"),
+});
+
+export const insertPayoutSchema = createInsertSchema(payouts).omit({
+  id: true,
+  createdAt: true,
+  settledAt: true,
+});
+
+export type InsertPayout = z.infer<typeof insertPayoutSchema>;
+export type Payout = typeof payouts.$inferSelect;
+
+// Request body for starting a payout run
+export const createPayoutRunSchema = z.object({
+  minimumAmount: z.coerce.number().min(0).default(1),
+});
+
+// Request body for settling a single payout
+export const updatePayoutStatusSchema = z.object({
+  status: z.enum(["paid", "cancelled"]),
+  reference: z.string().max(200).optional(),
+});
+
+// Restaurant profile shown on the restaurant settings page. The restaurant's
+// display name lives on the user record.
+export const restaurantProfiles = pgTable("restaurant_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  description: text("description"),
+  address: text("address"),
+  city: text("city"),
+  state: text("state"),
+  zipCode: text("zip_code"),
+  website: text("website"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertRestaurantProfileSchema = createInsertSchema(restaurantProfiles, {
+  website: z.string().url("Please enter a valid URL").optional().or(z.literal("")),
+}).omit({
+  id: true,
+  userId: true,
+  updatedAt: true,
+});
+
+export type InsertRestaurantProfile = z.infer<typeof insertRestaurantProfileSchema>;
+export type RestaurantProfile = typeof restaurantProfiles.$inferSelect;
+
+// A restaurant group. Each restaurant account owns one organization, which
+// owns the group's venues; analytics roll up per venue and per organization.
+export const organizations = pgTable("organizations", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull().unique().references(() => users.id),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const organizationInputSchema = z.object({
+  name: z.string().trim().min(2, "Organization name must be at least 2 characters").max(100),
+});
+
+export type OrganizationInput = z.infer<typeof organizationInputSchema>;
+export type InsertOrganization = OrganizationInput & { ownerId: number };
+export type Organization = typeof organizations.$inferSelect;
+
+// Team roles within an organization. Each organization has exactly one
+// owner (the restaurant account); the other roles are given by invitation.
+// Permissions per role are in shared/team-roles.ts.
+export const ORGANIZATION_ROLES = ["owner", "manager", "reviewer", "finance"] as const;
+export type OrganizationRole = (typeof ORGANIZATION_ROLES)[number];
+export const INVITABLE_ORGANIZATION_ROLES = ["manager", "reviewer", "finance"] as const;
+
+// A user acting for a restaurant. A user belongs to at most one organization.
+export const organizationMembers = pgTable("organization_members", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  role: text("role", { enum: ORGANIZATION_ROLES }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = Pick<OrganizationMember, "organizationId" | "userId" | "role">;
+
+// Member as listed on the team settings page
+export type TeamMember = OrganizationMember & Pick<User, "name" | "email" | "username">;
+
+export const memberRoleUpdateSchema = z.object({
+  role: z.enum(INVITABLE_ORGANIZATION_ROLES),
+});
+
+// Emailed invitations to join an organization. Accepting one creates the
+// member's own login; only the token's hash is stored.
+export const organizationInvites = pgTable("organization_invites", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  email: text("email").notNull(),
+  role: text("role", { enum: INVITABLE_ORGANIZATION_ROLES }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedById: integer("invited_by_id").notNull().references(() => users.id),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const teamInviteInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Please enter a valid email address"),
+  role: z.enum(INVITABLE_ORGANIZATION_ROLES),
+});
+
+export type TeamInviteInput = z.infer<typeof teamInviteInputSchema>;
+export type OrganizationInvite = typeof organizationInvites.$inferSelect;
+export type InsertOrganizationInvite = Omit<OrganizationInvite, "id" | "acceptedAt" | "createdAt">;
+// Invites as returned by the API, without the token hash
+export type TeamInvite = Omit<OrganizationInvite, "tokenHash">;
+
+// What the join page shows before the invite is accepted
+export interface TeamInvitePreview {
+  organizationName: string;
+  email: string;
+  role: OrganizationRole;
+}
+
+// Audit trail of campaign and submission actions, recorded with the member
+// who acted. Entity ids are plain integers so entries outlive deletions.
+export const ORGANIZATION_ACTIVITY_ACTIONS = [
+  "campaign_created",
+  "campaign_updated",
+  "campaign_status_changed",
+  "campaign_deleted",
+  "application_reviewed",
+  "submission_reviewed",
+  "submission_metrics_updated",
+  "invitation_created",
+  "invitation_updated",
+  "invitation_deleted",
+  "private_submission_reviewed",
+  "private_submission_metrics_updated",
+] as const;
+export type OrganizationActivityAction = (typeof ORGANIZATION_ACTIVITY_ACTIONS)[number];
+
+export const organizationActivity = pgTable("organization_activity", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  actorId: integer("actor_id").notNull().references(() => users.id),
+  action: text("action", { enum: ORGANIZATION_ACTIVITY_ACTIONS }).notNull(),
+  campaignId: integer("campaign_id"),
+  submissionId: integer("submission_id"),
+  privateInvitationId: integer("private_invitation_id"),
+  privateSubmissionId: integer("private_submission_id"),
+  summary: text("summary").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export type OrganizationActivity = typeof organizationActivity.$inferSelect;
+export type InsertOrganizationActivity = Omit<OrganizationActivity, "id" | "createdAt">;
+export type OrganizationActivityEntry = OrganizationActivity & { actorName: string };
+
+// The signed-in user's place in their organization, for hiding actions
+// their role can't take
+export interface TeamMembership {
+  organization: Organization;
+  role: OrganizationRole;
+}
+
+export const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour HH:MM times");
+
+// Opening hours per day; days without an entry are closed. A closing time
+// before the opening time runs past midnight.
+export const venueHoursSchema = z.record(
+  z.enum(WEEKDAYS),
+  z.object({ opens: timeOfDaySchema, closes: timeOfDaySchema })
+    .refine((hours) => hours.opens !== hours.closes, "Opening and closing times must differ"),
+);
+
+export type VenueHours = z.infer<typeof venueHoursSchema>;
+
+// A restaurant's physical location. Coordinates come from the geocoder when
+// the venue is saved and are copied onto campaigns held there.
+export const venues = pgTable("venues", {
+  id: serial("id").primaryKey(),
+  restaurantId: integer("restaurant_id").notNull().references(() => users.id),
+  organizationId: integer("organization_id").notNull().references(() => organizations.id),
+  name: text("name").notNull(),
+  address: text("address").notNull(),
+  city: text("city").notNull(),
+  state: text("state"),
+  zipCode: text("zip_code"),
+  latitude: doublePrecision("latitude").notNull(),
+  longitude: doublePrecision("longitude").notNull(),
+  hours: jsonb("hours").$type<VenueHours>().notNull().default({}),
+  cuisine: text("cuisine", { enum: CAMPAIGN_CUISINES }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Request body when adding or editing a venue
+export const venueInputSchema = z.object({
+  name: z.string().trim().min(2, "Venue name must be at least 2 characters").max(100),
+  address: z.string().trim().min(3, "Street address is required").max(200),
+  city: z.string().trim().min(2, "City is required").max(100),
+  state: z.string().trim().max(50).optional(),
+  zipCode: z.string().trim().max(20).optional(),
+  hours: venueHoursSchema.optional(),
+  cuisine: z.enum(CAMPAIGN_CUISINES).nullish(),
+});
+
+export type VenueInput = z.infer<typeof venueInputSchema>;
+export type InsertVenue = VenueInput & {
+  restaurantId: number;
+  organizationId: number;
+  latitude: number;
+  longitude: number;
+};
+export type Venue = typeof venues.$inferSelect;
+
+// Campaign results for GET /api/organization/analytics. Campaigns at several
+// venues count toward each of them, so venue rows can add up to more than
+// the organization total.
+export interface PerformanceSummary {
+  campaigns: number;
+  activeCampaigns: number;
+  submissions: number;
+  approvedSubmissions: number;
+  views: number;
+  likes: number;
+  spent: number;
+}
+
+export interface VenuePerformance {
+  venue: Venue;
+  performance: PerformanceSummary;
+}
+
+export interface OrganizationAnalytics {
+  organization: Organization;
+  totals: PerformanceSummary;
+  venues: VenuePerformance[];
+  // Campaigns without a venue (e.g. delivery-only offers)
+  unassigned: PerformanceSummary;
+}
+
+// Request body from the restaurant profile form
+export const restaurantProfileInputSchema = insertRestaurantProfileSchema.extend({
+  name: z.string().min(2, "Restaurant name must be at least 2 characters"),
+});
+
+// Per-user notification toggles from both settings pages. Each role only sees
+// the toggles that apply to it; the rest keep their defaults.
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  emailNotifications: boolean("email_notifications").default(true).notNull(),
+  submissionAlerts: boolean("submission_alerts").default(true).notNull(),
+  newCampaignAlerts: boolean("new_campaign_alerts").default(true).notNull(),
+  paymentNotifications: boolean("payment_notifications").default(true).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  id: true,
+  userId: true,
+  updatedAt: true,
+});
+
+// Used until a user saves their preferences for the first time
+export const DEFAULT_NOTIFICATION_PREFERENCES = {
+  emailNotifications: true,
+  submissionAlerts: true,
+  newCampaignAlerts: true,
+  paymentNotifications: true,
+};
+
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+
+// Single-use password reset tokens; like API tokens, only a hash is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true,
+});
+
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+
+const newPasswordSchema = z.string().min(8, "Password must be at least 8 characters").max(200);
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: newPasswordSchema,
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Please enter a valid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: newPasswordSchema,
+});
+
+// Accepting a team invite creates the member's login
+export const acceptTeamInviteSchema = z.object({
+  token: z.string().min(1, "Invite token is required"),
+  name: z.string().trim().min(2, "Name must be at least 2 characters").max(100),
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50),
+  password: newPasswordSchema,
+});
+
+// In-app notification inbox
+export const NOTIFICATION_TYPES = [
+  "submission_created",
+  "submission_status_changed",
+  "submission_commented",
+  "submission_resubmitted",
+  "performance_recorded",
+  "invitation_sent",
+  "invitation_accepted",
+  "invitation_declined",
+  "invitation_expiring",
+  "application_received",
+  "application_accepted",
+  "application_declined",
+] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type", { enum: NOTIFICATION_TYPES }).notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  link: text("link"),
+  // Set for notifications that must only be sent once, e.g. "invitation_expiring:12"
+  dedupeKey: text("dedupe_key").unique(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+export const updateNotificationSchema = z.object({
+  read: z.boolean(),
+});
+
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+export interface NotificationInbox {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+// Events pushed to signed-in clients over the /ws WebSocket
+export type RealtimeSubmissionEventType =
+  | "submission_created"
+  | "submission_status_changed"
+  | "submission_commented"
+  | "metric_updated";
+
+export type RealtimeEvent =
+  | {
+      type: RealtimeSubmissionEventType;
+      submissionId: number;
+      campaignId: number | null;
+      invitationId: number | null;
+    }
+  | { type: "notification_created" };
+
+// Influencer public profiles; the handle, city, niches and follower count
+// also drive the restaurant-facing directory
+export interface RateCardItem {
+  deliverable: string;
+  price: number;
+}
+
+export const influencerProfiles = pgTable("influencer_profiles", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id),
+  bio: text("bio"),
+  instagramHandle: text("instagram_handle"),
+  tiktokHandle: text("tiktok_handle"),
+  youtubeHandle: text("youtube_handle"),
+  instagramFollowers: integer("instagram_followers").default(0).notNull(),
+  tiktokFollowers: integer("tiktok_followers").default(0).notNull(),
+  youtubeFollowers: integer("youtube_followers").default(0).notNull(),
+  city: text("city"),
+  // Centre of the home city, geocoded on save for radius eligibility rules
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  niches: text("niches", { enum: INFLUENCER_NICHES }).array().notNull().default([]),
+  // Combined audience across platforms, kept in sync on save for directory filtering
+  followerCount: integer("follower_count").default(0).notNull(),
+  rateCard: jsonb("rate_card").$type<RateCardItem[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+const socialHandleSchema = z
+  .string()
+  .trim()
+  .max(30)
+  .regex(/^@?[A-Za-z0-9._-]*$/, "Handles may only contain letters, numbers, periods, dashes and underscores")
+  .nullish();
+
+const followerCountSchema = z.number().int().min(0, "Follower counts can't be negative");
+
+export const rateCardItemSchema = z.object({
+  deliverable: z.string().trim().min(1, "Describe the deliverable").max(100),
+  price: z.number().min(0, "Price can't be negative"),
+});
+
+export const insertInfluencerProfileSchema = createInsertSchema(influencerProfiles, {
+  bio: z.string().trim().max(1000).nullish(),
+  instagramHandle: socialHandleSchema,
+  tiktokHandle: socialHandleSchema,
+  youtubeHandle: socialHandleSchema,
+  instagramFollowers: followerCountSchema,
+  tiktokFollowers: followerCountSchema,
+  youtubeFollowers: followerCountSchema,
+  city: z.string().trim().max(100).nullish(),
+  niches: z.array(z.enum(INFLUENCER_NICHES)).max(5, "Pick up to 5 niches"),
+  followerCount: followerCountSchema,
+  rateCard: z.array(rateCardItemSchema).max(10, "Add up to 10 rate card items"),
+}).omit({
+  id: true,
+  userId: true,
+  updatedAt: true,
+});
+
+// What influencers submit; the combined follower count is derived on the server
+export const influencerProfileInputSchema = insertInfluencerProfileSchema.omit({
+  followerCount: true,
+  latitude: true,
+  longitude: true,
+});
+
+export type InsertInfluencerProfile = z.infer<typeof insertInfluencerProfileSchema>;
+export type InfluencerProfileInput = z.infer<typeof influencerProfileInputSchema>;
+export type InfluencerProfile = typeof influencerProfiles.$inferSelect;
+
+// An approved public submission shown on the influencer's profile
+export interface PortfolioItem {
+  submissionId: number;
+  campaignId: number;
+  campaignTitle: string;
+  restaurantName: string;
+  platform: SocialPlatform;
+  postUrl: string;
+  views: number;
+  likes: number;
+  createdAt: Date;
+}
+
+export interface PublicInfluencerProfile {
+  id: number;
+  name: string;
+  username: string;
+  profilePicture: string | null;
+  memberSince: Date;
+  profile: Omit<InfluencerProfile, "id" | "userId" | "updatedAt" | "latitude" | "longitude">;
+  portfolio: PortfolioItem[];
+  stats: {
+    approvedSubmissions: number;
+    totalViews: number;
+    averageViews: number;
+  };
+}
+
+export const influencerSearchSchema = z.object({
+  q: z.string().trim().max(100).optional(),
+  city: z.string().trim().max(100).optional(),
+  niche: z.enum(INFLUENCER_NICHES).optional(),
+  minFollowers: z.coerce.number().int().min(0).optional(),
+  maxFollowers: z.coerce.number().int().min(0).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(12),
+});
+
+export type InfluencerSearchFilters = z.infer<typeof influencerSearchSchema>;
+
+export interface InfluencerDirectoryEntry {
+  id: number;
+  name: string;
+  username: string;
+  profilePicture: string | null;
+  instagramHandle: string | null;
+  city: string | null;
+  niches: InfluencerNiche[];
+  followerCount: number;
+}
+
+export interface InfluencerDirectoryPage {
+  results: InfluencerDirectoryEntry[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Image types accepted by POST /api/upload, detected from the file's bytes
+export const MEDIA_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"] as const;
+export type MediaContentType = (typeof MEDIA_CONTENT_TYPES)[number];
+
+// Uploaded images. The files live in the media storage backend
+// (server/media-storage.ts); rows record who uploaded them and where.
+export const mediaFiles = pgTable("media_files", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull().references(() => users.id),
+  key: text("key").notNull().unique(),
+  thumbnailKey: text("thumbnail_key").notNull(),
+  // Type of the uploaded file; stored images are re-encoded as WebP
+  originalContentType: text("original_content_type", { enum: MEDIA_CONTENT_TYPES }).notNull(),
+  byteSize: integer("byte_size").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMediaFileSchema = createInsertSchema(mediaFiles).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertMediaFile = z.infer<typeof insertMediaFileSchema>;
+export type MediaFile = typeof mediaFiles.$inferSelect;
+
+// Response of POST /api/upload
+export interface UploadedMedia {
+  id: number;
+  url: string;
+  thumbnailUrl: string;
+  width: number;
+  height: number;
+}
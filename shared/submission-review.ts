@@ -0,0 +1,25 @@
+import type { RejectionReason, SubmissionCommentEvent, SubmissionStatus } from "./schema";
+
+export const SUBMISSION_STATUS_LABELS: Record<SubmissionStatus, string> = {
+  pending: "Pending",
+  changes_requested: "Changes requested",
+  approved: "Approved",
+  rejected: "Rejected",
+};
+
+export const REJECTION_REASON_LABELS: Record<RejectionReason, string> = {
+  off_brief: "Doesn't follow the brief",
+  missing_disclosure: "Missing sponsorship disclosure",
+  low_quality: "Content quality",
+  wrong_location: "Not filmed at our venue",
+  not_original: "Not original content",
+  post_unavailable: "Post is private or deleted",
+  other: "Other",
+};
+
+export const SUBMISSION_COMMENT_EVENT_LABELS: Record<SubmissionCommentEvent, string> = {
+  comment: "Commented",
+  changes_requested: "Requested changes",
+  rejected: "Rejected",
+  resubmitted: "Resubmitted",
+};
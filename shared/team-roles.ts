@@ -0,0 +1,69 @@
+import type { OrganizationActivityAction, OrganizationRole } from "./schema";
+
+export const TEAM_PERMISSIONS = [
+  "manage_campaigns",
+  "manage_budgets",
+  "review_submissions",
+  "manage_organization",
+  "manage_team",
+] as const;
+export type TeamPermission = (typeof TEAM_PERMISSIONS)[number];
+
+export const ORGANIZATION_ROLE_LABELS: Record<OrganizationRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  reviewer: "Reviewer",
+  finance: "Finance",
+};
+
+export const ORGANIZATION_ROLE_DESCRIPTIONS: Record<OrganizationRole, string> = {
+  owner: "Full access, including the team",
+  manager: "Runs campaigns, budgets, submissions and venues",
+  reviewer: "Reviews applications and submissions and records views",
+  finance: "Edits rewards and budgets",
+};
+
+// Completes "Your team role doesn't allow you to ..."
+export const TEAM_PERMISSION_LABELS: Record<TeamPermission, string> = {
+  manage_campaigns: "create or edit campaigns and invitations",
+  manage_budgets: "change rewards or budgets",
+  review_submissions: "review applications and submissions",
+  manage_organization: "edit the restaurant profile or venues",
+  manage_team: "manage the team",
+};
+
+const ROLE_PERMISSIONS: Record<OrganizationRole, TeamPermission[]> = {
+  owner: [...TEAM_PERMISSIONS],
+  manager: ["manage_campaigns", "manage_budgets", "review_submissions", "manage_organization"],
+  reviewer: ["review_submissions"],
+  finance: ["manage_budgets"],
+};
+
+export function roleHasPermission(role: OrganizationRole, permission: TeamPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// Campaign and invitation fields that set what influencers are paid. Changing
+// them needs manage_budgets; every other field needs manage_campaigns.
+export const BUDGET_FIELDS = [
+  "rewardAmount",
+  "rewardViews",
+  "rewardRules",
+  "maxPayoutPerInfluencer",
+  "maxBudget",
+] as const;
+
+export const ORGANIZATION_ACTIVITY_LABELS: Record<OrganizationActivityAction, string> = {
+  campaign_created: "Campaign created",
+  campaign_updated: "Campaign edited",
+  campaign_status_changed: "Campaign status changed",
+  campaign_deleted: "Campaign deleted",
+  application_reviewed: "Application reviewed",
+  submission_reviewed: "Submission reviewed",
+  submission_metrics_updated: "Views recorded",
+  invitation_created: "Invitation sent",
+  invitation_updated: "Invitation edited",
+  invitation_deleted: "Invitation deleted",
+  private_submission_reviewed: "Private submission reviewed",
+  private_submission_metrics_updated: "Private views recorded",
+};